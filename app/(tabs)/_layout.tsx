@@ -16,20 +16,10 @@ export default function TabLayout() {
   const { t } = useTranslation();
   const colorScheme = useColorScheme();
   const insets = useSafeAreaInsets();
-  const {
-    canViewIncidents,
-    canViewAllIncidents,
-    canCreateIncidents,
-    canViewRequests,
-    canViewAllRequests,
-    canCreateRequests,
-    canViewComplaints,
-    canViewAllComplaints,
-    canCreateComplaints,
-    canViewQueries,
-    canViewAllQueries,
-    canCreateQueries,
-  } = usePermissions();
+  // Same rules the root layout enforces, so a tab only shows when it would open
+  const { canAccessRoute } = usePermissions();
+  const tabHref = <T extends string>(href: T) =>
+    canAccessRoute(href.replace(/^\//, "")) ? href : null;
 
   const tabBarHeight =
     TAB_BAR_HEIGHT + (insets.bottom > 0 ? insets.bottom - 10 : 0);
@@ -115,10 +105,7 @@ export default function TabLayout() {
               />
             </View>
           ),
-          href:
-            canViewIncidents() || canViewAllIncidents() || canCreateIncidents()
-              ? "/(tabs)/incident"
-              : null,
+          href: tabHref("/(tabs)/incident"),
         }}
       />
       <Tabs.Screen
@@ -139,10 +126,7 @@ export default function TabLayout() {
               />
             </View>
           ),
-          href:
-            canViewRequests() || canViewAllRequests() || canCreateRequests()
-              ? "/(tabs)/request"
-              : null,
+          href: tabHref("/(tabs)/request"),
         }}
       />
       <Tabs.Screen
@@ -167,12 +151,7 @@ export default function TabLayout() {
               />
             </View>
           ),
-          href:
-            canViewComplaints() ||
-            canViewAllComplaints() ||
-            canCreateComplaints()
-              ? "/(tabs)/complaint"
-              : null,
+          href: tabHref("/(tabs)/complaint"),
         }}
       />
       <Tabs.Screen
@@ -193,10 +172,7 @@ export default function TabLayout() {
               />
             </View>
           ),
-          href:
-            canViewQueries() || canViewAllQueries() || canCreateQueries()
-              ? "/(tabs)/query"
-              : null,
+          href: tabHref("/(tabs)/query"),
         }}
       />
       <Tabs.Screen
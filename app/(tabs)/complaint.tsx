@@ -1,4 +1,6 @@
-import { getComplaints, getComplaintStats } from '@/src/api/incidents';
+import { getRecords } from '@/src/api/records';
+import { Incident } from '@/src/api/models';
+import { Pagination } from '@/src/api/result';
 import { Ionicons } from '@expo/vector-icons';
 import { useFocusEffect, useRouter, useLocalSearchParams } from 'expo-router';
 import React, { useCallback, useState, useRef, useEffect } from 'react';
@@ -6,6 +8,15 @@ import { useTranslation } from 'react-i18next';
 import { ActivityIndicator, ImageBackground, FlatList, Platform, StyleSheet, Text, TouchableOpacity, View, TextInput } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { usePermissions } from '@/src/hooks/usePermissions';
+import { SlaBadge } from '@/src/components/SlaBadge';
+import { SavedViewChips } from '@/src/components/SavedViewChips';
+import { useSavedViews } from '@/src/hooks/useSavedViews';
+import { ActiveFilters } from '@/src/components/ActiveFilters';
+import { BulkActionBar } from '@/src/components/BulkActionBar';
+import { useBulkSelection } from '@/src/hooks/useBulkSelection';
+import { RECORD_FILTERS } from '@/src/constants/recordFilters';
+import { buildRecordQuery, countActiveFilters } from '@/src/utils/recordFilters';
+import { toViewFilters } from '@/src/utils/savedViews';
 
 const COLORS = {
   primary: '#1A237E',
@@ -25,63 +36,51 @@ const priorityConfig: Record<number, { key: string; color: string }> = {
   5: { key: 'veryLow', color: COLORS.priority.veryLow },
 };
 
-const slaStatusConfig: Record<string, { key: string; color: string }> = {
-  'on_track': { key: 'onTrack', color: '#22C55E' },
-  'at_risk': { key: 'atRisk', color: '#F59E0B' },
-  'breached': { key: 'breached', color: '#DC2626' },
-};
-
-interface Complaint {
-  id: string;
-  incident_number: string;
-  title: string;
-  priority: number;
-  created_at: string;
-  current_state?: { name: string };
-  location?: { name: string };
-  channel?: string;
-  lookup_values?: Array<{
-    category: { code: string; name: string };
-    code: string;
-    name: string;
-    color: string;
-  }>;
-}
-
-interface PaginationInfo {
-  page: number;
-  limit: number;
-  total_items: number;
-  total_pages: number;
+interface ComplaintCardProps {
+  complaint: Incident;
+  t: any;
+  selecting: boolean;
+  selected: boolean;
+  // Left out when the user can't run any bulk action
+  onToggleSelect?: () => void;
 }
 
-const ComplaintCard = ({ complaint, t }: { complaint: Complaint; t: any }) => {
+const ComplaintCard = ({ complaint, t, selecting, selected, onToggleSelect }: ComplaintCardProps) => {
   const router = useRouter();
 
   // Extract priority from lookup_values if available
   const priorityLookup = complaint.lookup_values?.find(
-    lv => lv.category.code === 'PRIORITY'
+    lv => lv.category?.code === 'PRIORITY'
   );
 
   // Use lookup value color and name if available, otherwise fallback to old config
-  let config = priorityConfig[complaint.priority] || { key: 'unknown', color: '#94A3B8' };
+  let config = priorityConfig[complaint.priority ?? 0] || { key: 'unknown', color: '#94A3B8' };
   let priorityText = t(`priorities.${config.key}`, config.key);
 
   if (priorityLookup) {
-    config = { key: priorityLookup.code.toLowerCase(), color: priorityLookup.color };
+    config = { key: priorityLookup.code?.toLowerCase() || config.key, color: priorityLookup.color || config.color };
     priorityText = priorityLookup.name;
   }
 
   return (
     <TouchableOpacity
-      style={styles.card}
-      onPress={() => router.push(`/complaint-details?id=${complaint.id}`)}
+      style={[styles.card, selected && styles.cardSelected]}
+      onPress={() => (selecting ? onToggleSelect?.() : router.push(`/complaint-details?id=${complaint.id}`))}
+      onLongPress={onToggleSelect}
       activeOpacity={0.7}
     >
       <View style={[styles.cardBar, { backgroundColor: config.color }]} />
       <View style={styles.cardContent}>
         <View style={styles.cardHeader}>
           <View style={styles.idContainer}>
+            {selecting && (
+              <Ionicons
+                name={selected ? 'checkbox' : 'square-outline'}
+                size={20}
+                color={COLORS.primary}
+                style={styles.selectIcon}
+              />
+            )}
             <View style={[styles.dot, { backgroundColor: config.color }]} />
             <Text style={styles.idText}>{complaint.incident_number}</Text>
           </View>
@@ -91,6 +90,7 @@ const ComplaintCard = ({ complaint, t }: { complaint: Complaint; t: any }) => {
         </View>
         <Text style={styles.dateTime}>{new Date(complaint.created_at).toLocaleString()}</Text>
         <Text style={styles.statusText}>{t('incidents.status')}: {complaint.current_state?.name || 'N/A'}</Text>
+        <SlaBadge record={complaint} />
         <View style={styles.detailRow}>
           <Ionicons name="chatbubble-ellipses" size={16} color={COLORS.complaint} style={styles.detailIcon} />
           <Text style={styles.detailText} numberOfLines={1}>{complaint.title}</Text>
@@ -113,44 +113,29 @@ const ComplaintCard = ({ complaint, t }: { complaint: Complaint; t: any }) => {
 const ComplaintsScreen = () => {
   const { t } = useTranslation();
   const router = useRouter();
-  const { canCreateComplaints } = usePermissions();
-  const {
-    state_id, state_name, priority, severity, assignee_id, assignee_name,
-    department_id, department_name, classification_id, classification_name,
-    location_id, location_name, sla_status, channel
-  } = useLocalSearchParams<{
-    state_id?: string; state_name?: string; priority?: string; severity?: string;
-    assignee_id?: string; assignee_name?: string; department_id?: string;
-    department_name?: string; classification_id?: string; classification_name?: string;
-    location_id?: string; location_name?: string; sla_status?: string; channel?: string;
-  }>();
-
-  const [complaints, setComplaints] = useState<Complaint[]>([]);
+  const { canAccessRoute, canCreateComplaints } = usePermissions();
+  const searchParams = useLocalSearchParams();
+  const activeFilters = toViewFilters(searchParams);
+  // Stands in for the filters in hook dependencies; activeFilters is a new object every render
+  const filtersKey = JSON.stringify(activeFilters);
+  const hasFilterParams = Object.keys(activeFilters).length > 0;
+  const { defaultView, loaded: viewsLoaded } = useSavedViews('complaint');
+  const defaultViewChecked = useRef(false);
+  const selection = useBulkSelection('complaint', filtersKey);
+
+  const [complaints, setComplaints] = useState<Incident[]>([]);
   const [loading, setLoading] = useState(true);
   const [loadingMore, setLoadingMore] = useState(false);
   const [refreshing, setRefreshing] = useState(false);
   const [error, setError] = useState('');
-  const [pagination, setPagination] = useState<PaginationInfo>({ page: 1, limit: 20, total_items: 0, total_pages: 0 });
+  const [pagination, setPagination] = useState<Pagination>({ page: 1, limit: 20, total_items: 0, total_pages: 0 });
   const [showSearch, setShowSearch] = useState(false);
   const [searchQuery, setSearchQuery] = useState('');
   const searchInputRef = useRef<TextInput>(null);
   const isLoadingMore = useRef(false);
 
-  // Don't apply default status filter - show ALL complaints unless explicitly filtered
-  const activeStateId = state_id;
-  const activeStateName = state_name;
-
   const buildParams = (page: number) => {
-    const params: Record<string, any> = { page, limit: 20 };
-    if (activeStateId) params.current_state_id = activeStateId;
-    if (priority) params.priority = parseInt(priority);
-    if (severity) params.severity = parseInt(severity);
-    if (assignee_id) params.assignee_id = assignee_id;
-    if (department_id) params.department_id = department_id;
-    if (classification_id) params.classification_id = classification_id;
-    if (location_id) params.location_id = location_id;
-    if (sla_status) params.sla_status = sla_status;
-    if (channel) params.channel = channel;
+    const params: Record<string, any> = { page, limit: 20, ...buildRecordQuery(RECORD_FILTERS.complaint, activeFilters) };
     if (searchQuery.trim()) params.search = searchQuery.trim();
     return params;
   };
@@ -160,7 +145,7 @@ const ComplaintsScreen = () => {
     setError('');
 
     const params = buildParams(page);
-    const response = await getComplaints(params);
+    const response = await getRecords('complaint', params);
 
     if (response.success) {
       setComplaints(append ? prev => [...prev, ...response.data] : response.data);
@@ -190,8 +175,17 @@ const ComplaintsScreen = () => {
 
   useFocusEffect(
     useCallback(() => {
+      if (!viewsLoaded) return;
+      // The default view applies when the list first opens without filters of its own
+      if (!defaultViewChecked.current) {
+        defaultViewChecked.current = true;
+        if (defaultView && !hasFilterParams) {
+          router.replace({ pathname: '/(tabs)/complaint', params: defaultView.filters });
+          return;
+        }
+      }
       fetchComplaints(1, false);
-    }, [activeStateId, priority, severity, assignee_id, department_id, classification_id, location_id, sla_status, channel, searchQuery])
+    }, [viewsLoaded, defaultView, hasFilterParams, router, filtersKey, searchQuery])
   );
 
   const handleSearchToggle = () => {
@@ -209,9 +203,9 @@ const ComplaintsScreen = () => {
 
   const clearFilter = () => router.replace('/(tabs)/complaint');
 
-  const hasManualFilters = state_id || priority || severity || assignee_id || department_id || classification_id || location_id || sla_status || channel;
-  const headerTitle = activeStateName || t('complaints.title');
-  const activeFilterCount = [state_id, priority, severity, assignee_id, department_id, classification_id, location_id, sla_status, channel].filter(Boolean).length;
+  const activeFilterCount = countActiveFilters(RECORD_FILTERS.complaint, activeFilters);
+  const hasManualFilters = activeFilterCount > 0;
+  const headerTitle = activeFilters.state_name || t('complaints.title');
 
   const renderFooter = () => {
     if (!loadingMore) return null;
@@ -239,8 +233,8 @@ const ComplaintsScreen = () => {
   const renderHeader = () => (
     <View style={styles.listHeader}>
       <Text style={styles.foundText}>
-        {`${pagination.total_items} ${activeStateName || ''} ${t('tabs.complaint').toLowerCase()}`}
-        {hasManualFilters && ` (${activeFilterCount} ${t('filter.title').toLowerCase()})`}
+        {`${pagination.total_items} ${activeFilters.state_name || ''} ${t('tabs.complaint').toLowerCase()}`}
+        {hasManualFilters && ` (${t('filter.activeCount', { count: activeFilterCount })})`}
       </Text>
       {pagination.total_pages > 1 && (
         <Text style={styles.paginationText}>{t('incidents.page', { current: pagination.page, total: pagination.total_pages })}</Text>
@@ -248,40 +242,6 @@ const ComplaintsScreen = () => {
     </View>
   );
 
-  const FilterBadges = () => {
-    if (!hasManualFilters) return null;
-    const badges = [
-      state_id && state_name && { key: 'status', label: t('filter.status'), value: state_name },
-      priority && { key: 'priority', label: t('filter.priority'), value: t(`priorities.${priorityConfig[parseInt(priority)]?.key}`) },
-      assignee_id && assignee_name && { key: 'assignee', label: t('filter.assignee'), value: assignee_name },
-      department_id && department_name && { key: 'dept', label: t('filter.department'), value: department_name },
-      classification_id && classification_name && { key: 'class', label: t('filter.classification'), value: classification_name },
-      location_id && location_name && { key: 'loc', label: t('filter.location'), value: location_name },
-      sla_status && { key: 'sla', label: t('filter.slaStatus'), value: t(`sla.${slaStatusConfig[sla_status]?.key}`) },
-      channel && { key: 'channel', label: t('complaints.channel'), value: channel },
-    ].filter(Boolean) as { key: string; label: string; value: string }[];
-
-    return (
-      <View style={styles.filterBadgeContainer}>
-        <FlatList
-          horizontal showsHorizontalScrollIndicator={false} style={styles.filterBadgeScroll}
-          data={badges}
-          renderItem={({ item }) => (
-            <View style={styles.filterBadge}>
-              <Text style={styles.filterBadgeLabel}>{item.label}:</Text>
-              <Text style={styles.filterBadgeValue}>{item.value}</Text>
-            </View>
-          )}
-          keyExtractor={(item) => item.key}
-        />
-        <TouchableOpacity onPress={clearFilter} style={styles.clearAllButton}>
-          <Ionicons name="close-circle" size={18} color={COLORS.priority.critical} />
-          <Text style={styles.clearAllText}>{t('filter.clearAll')} ({activeFilterCount})</Text>
-        </TouchableOpacity>
-      </View>
-    );
-  };
-
   return (
     <SafeAreaView style={styles.safeArea}>
       <ImageBackground source={require('@/assets/images/background.png')} style={styles.header}>
@@ -306,6 +266,12 @@ const ComplaintsScreen = () => {
                 </TouchableOpacity>
               )}
             </View>
+            <TouchableOpacity
+              style={styles.searchCancelButton}
+              onPress={() => router.push({ pathname: '/search', params: { q: searchQuery.trim() } })}
+            >
+              <Ionicons name="globe-outline" size={24} color="white" />
+            </TouchableOpacity>
             <TouchableOpacity style={styles.searchCancelButton} onPress={handleSearchToggle}>
               <Text style={styles.searchCancelText}>{t('common.cancel', 'Cancel')}</Text>
             </TouchableOpacity>
@@ -316,6 +282,14 @@ const ComplaintsScreen = () => {
               <Text style={styles.headerTitle}>{headerTitle}</Text>
             </View>
             <View style={styles.headerIcons}>
+              {canAccessRoute('search') && (
+                <TouchableOpacity style={styles.headerIcon} onPress={() => router.push('/search')}>
+                  <Ionicons name="globe-outline" size={22} color="white" />
+                </TouchableOpacity>
+              )}
+              <TouchableOpacity style={styles.headerIcon} onPress={() => router.push('/board?type=complaint')}>
+                <Ionicons name="grid-outline" size={22} color="white" />
+              </TouchableOpacity>
               <TouchableOpacity style={styles.headerIcon} onPress={handleSearchToggle}>
                 <Ionicons name="search-outline" size={24} color="white" />
               </TouchableOpacity>
@@ -323,7 +297,7 @@ const ComplaintsScreen = () => {
                 style={[styles.headerIcon, hasManualFilters && styles.filterIconActive]}
                 onPress={() => router.push({
                   pathname: '/complaint-filter',
-                  params: { state_id, state_name, priority, severity, assignee_id, assignee_name, department_id, department_name, classification_id, classification_name, location_id, location_name, sla_status, channel }
+                  params: activeFilters
                 })}
               >
                 <Ionicons name="filter" size={22} color="white" />
@@ -334,7 +308,12 @@ const ComplaintsScreen = () => {
         )}
       </ImageBackground>
 
-      <FilterBadges />
+      <SavedViewChips
+        recordType="complaint"
+        activeFilters={activeFilters}
+        onSelect={view => router.replace({ pathname: '/(tabs)/complaint', params: view?.filters ?? {} })}
+      />
+      <ActiveFilters recordType="complaint" filters={activeFilters} onClearAll={clearFilter} />
 
       {loading ? (
         <View style={styles.centered}>
@@ -354,9 +333,17 @@ const ComplaintsScreen = () => {
       ) : (
         <FlatList
           data={complaints}
-          renderItem={({ item }) => <ComplaintCard complaint={item} t={t} />}
+          renderItem={({ item }) => (
+            <ComplaintCard
+              complaint={item}
+              t={t}
+              selecting={selection.selecting}
+              selected={selection.isSelected(item.id)}
+              onToggleSelect={selection.enabled ? () => selection.toggle(item.id) : undefined}
+            />
+          )}
           keyExtractor={(item) => item.id}
-          contentContainerStyle={styles.listContent}
+          contentContainerStyle={[styles.listContent, selection.selecting && styles.listContentSelecting]}
           ListHeaderComponent={renderHeader}
           ListFooterComponent={renderFooter}
           ListEmptyComponent={renderEmpty}
@@ -368,11 +355,19 @@ const ComplaintsScreen = () => {
         />
       )}
 
-      {canCreateComplaints() && (
+      {canCreateComplaints() && !selection.selecting && (
         <TouchableOpacity style={styles.fab} onPress={() => router.push('/add-complaint')} activeOpacity={0.8}>
           <Ionicons name="add" size={28} color="white" />
         </TouchableOpacity>
       )}
+
+      <BulkActionBar
+        recordType="complaint"
+        selection={selection}
+        records={complaints}
+        bottomOffset={110}
+        onComplete={() => fetchComplaints(1, false)}
+      />
     </SafeAreaView>
   );
 };
@@ -388,26 +383,23 @@ const styles = StyleSheet.create({
   header: { paddingHorizontal: 20, paddingTop: 20, paddingBottom: 24, flexDirection: 'row', alignItems: 'center', justifyContent: 'space-between' },
   headerTitleContainer: { flex: 1 },
   headerTitle: { color: 'white', fontSize: 22, fontWeight: 'bold' },
-  headerIcons: { flexDirection: 'row', gap: 12 },
+  headerIcons: { flexDirection: 'row', gap: 8 },
   headerIcon: { width: 40, height: 40, borderRadius: 20, backgroundColor: 'rgba(255,255,255,0.15)', justifyContent: 'center', alignItems: 'center' },
-  filterBadgeContainer: { backgroundColor: COLORS.background, paddingHorizontal: 16, paddingVertical: 12, flexDirection: 'row', alignItems: 'center' },
-  filterBadgeScroll: { flex: 1 },
-  filterBadge: { flexDirection: 'row', alignItems: 'center', backgroundColor: '#FEE2E2', paddingHorizontal: 12, paddingVertical: 8, borderRadius: 20, marginRight: 8 },
-  filterBadgeLabel: { fontSize: 12, color: COLORS.text.secondary, marginRight: 4 },
-  filterBadgeValue: { fontSize: 12, fontWeight: 'bold', color: COLORS.accent },
-  clearAllButton: { flexDirection: 'row', alignItems: 'center', paddingHorizontal: 10, paddingVertical: 6, gap: 4 },
-  clearAllText: { fontSize: 12, color: COLORS.priority.critical, fontWeight: '600' },
   filterIconActive: { position: 'relative' },
   filterDot: { position: 'absolute', top: 6, right: 6, width: 8, height: 8, borderRadius: 4, backgroundColor: COLORS.accent },
   listContent: { padding: 16, paddingBottom: 100, backgroundColor: COLORS.background, flexGrow: 1 },
+  // Leaves room for the bulk action bar above the tab bar
+  listContentSelecting: { paddingBottom: 240 },
   listHeader: { marginBottom: 16 },
   foundText: { fontSize: 15, color: COLORS.text.secondary, fontWeight: '500' },
   paginationText: { fontSize: 12, color: COLORS.text.muted, marginTop: 4 },
   card: { backgroundColor: COLORS.white, borderRadius: 14, marginBottom: 12, flexDirection: 'row', ...Platform.select({ ios: { shadowColor: '#000', shadowOffset: { width: 0, height: 2 }, shadowOpacity: 0.06, shadowRadius: 8 }, android: { elevation: 2 } }) },
+  cardSelected: { borderWidth: 2, borderColor: COLORS.primary },
   cardBar: { width: 4, borderTopLeftRadius: 14, borderBottomLeftRadius: 14 },
   cardContent: { flex: 1, padding: 16 },
   cardHeader: { flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center', marginBottom: 6 },
   idContainer: { flexDirection: 'row', alignItems: 'center' },
+  selectIcon: { marginRight: 8 },
   dot: { width: 8, height: 8, borderRadius: 4, marginRight: 8 },
   idText: { fontSize: 16, fontWeight: 'bold', color: COLORS.text.primary },
   priorityBadge: { paddingHorizontal: 10, paddingVertical: 4, borderRadius: 6 },
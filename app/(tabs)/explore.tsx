@@ -1,11 +1,9 @@
-import {
-  getComplaintStats,
-  getIncidentStats,
-  getQueryStats,
-  getRequestStats,
-} from "@/src/api/incidents";
+import { IncidentStats, RecordType } from "@/src/api/models";
+import { getRecordStats, getSlaCounts, SlaCounts } from "@/src/api/records";
+import { PERMISSIONS } from "@/src/constants/permissions";
 import { useAuth } from "@/src/context/AuthContext";
 import { usePermissions } from "@/src/hooks/usePermissions";
+import { SLA_STATUS_CONFIG } from "@/src/utils/sla";
 import { Ionicons } from "@expo/vector-icons";
 import { useFocusEffect, useRouter } from "expo-router";
 import React, { useCallback, useState, useRef, useEffect } from "react";
@@ -24,17 +22,6 @@ import {
 } from "react-native";
 import { SafeAreaView } from "react-native-safe-area-context";
 
-interface StateDetail {
-  id: string;
-  name: string;
-  count: number;
-}
-
-interface Stats {
-  total: number;
-  by_state_details?: StateDetail[];
-}
-
 // Color constants
 const COLORS = {
   primary: "#1A237E",
@@ -51,6 +38,7 @@ const COLORS = {
   query: { bg: "#EFF6FF", icon: "#2563EB", bar: "#3B82F6" },
   assigned: { bg: "#DBEAFE", icon: "#1D4ED8" },
   created: { bg: "#FEF3C7", icon: "#D97706" },
+  inbox: { bg: "#E0E7FF", icon: "#4338CA" },
 };
 
 const DashboardScreen = () => {
@@ -58,6 +46,8 @@ const DashboardScreen = () => {
   const router = useRouter();
   const { user } = useAuth();
   const {
+    hasPermission,
+    canAccessRoute,
     canTransitionIncidents,
     canCreateIncidents,
     canViewIncidents,
@@ -70,10 +60,11 @@ const DashboardScreen = () => {
     canViewAllQueries,
   } = usePermissions();
 
-  const [incidentStats, setIncidentStats] = useState<Stats | null>(null);
-  const [requestStats, setRequestStats] = useState<Stats | null>(null);
-  const [complaintStats, setComplaintStats] = useState<Stats | null>(null);
-  const [queryStats, setQueryStats] = useState<Stats | null>(null);
+  const [incidentStats, setIncidentStats] = useState<IncidentStats | null>(null);
+  const [requestStats, setRequestStats] = useState<IncidentStats | null>(null);
+  const [complaintStats, setComplaintStats] = useState<IncidentStats | null>(null);
+  const [queryStats, setQueryStats] = useState<IncidentStats | null>(null);
+  const [slaCounts, setSlaCounts] = useState<Partial<Record<RecordType, SlaCounts>>>({});
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -83,6 +74,9 @@ const DashboardScreen = () => {
   const cardsAnim = useRef(new Animated.Value(0)).current;
   const sectionsAnim = useRef(new Animated.Value(0)).current;
 
+  // SLA watch is a manager view; a plain boolean keeps fetchStats stable across renders
+  const canManageSla = hasPermission(PERMISSIONS.INCIDENTS_MANAGE_SLA);
+
   const fetchStats = useCallback(
     async (isRefresh = false) => {
       if (isRefresh) {
@@ -95,10 +89,10 @@ const DashboardScreen = () => {
       try {
         const [incidentRes, requestRes, complaintRes, queryRes] =
           await Promise.all([
-            getIncidentStats(),
-            getRequestStats(),
-            getComplaintStats(),
-            getQueryStats(),
+            getRecordStats("incident"),
+            getRecordStats("request"),
+            getRecordStats("complaint"),
+            getRecordStats("query"),
           ]);
 
         if (incidentRes.success) setIncidentStats(incidentRes.data);
@@ -106,6 +100,16 @@ const DashboardScreen = () => {
         if (complaintRes.success) setComplaintStats(complaintRes.data);
         if (queryRes.success) setQueryStats(queryRes.data);
 
+        if (canManageSla) {
+          const types: RecordType[] = ["incident", "request", "complaint", "query"];
+          const results = await Promise.all(types.map((type) => getSlaCounts(type)));
+          const counts: Partial<Record<RecordType, SlaCounts>> = {};
+          results.forEach((result, index) => {
+            if (result.success) counts[types[index]] = result.data;
+          });
+          setSlaCounts(counts);
+        }
+
         if (
           !incidentRes.success &&
           !requestRes.success &&
@@ -121,7 +125,7 @@ const DashboardScreen = () => {
         setRefreshing(false);
       }
     },
-    [t],
+    [t, canManageSla],
   );
 
   useFocusEffect(
@@ -189,16 +193,26 @@ const DashboardScreen = () => {
           <Text style={styles.greeting}>{getGreeting()}</Text>
           <Text style={styles.userName}>{getUserName()}</Text>
         </View>
-        <TouchableOpacity style={styles.notificationButton}>
-          <Ionicons name="notifications-outline" size={24} color="white" />
-        </TouchableOpacity>
+        <View style={styles.headerActions}>
+          {canAccessRoute("search") && (
+            <TouchableOpacity
+              style={styles.notificationButton}
+              onPress={() => router.push("/search")}
+            >
+              <Ionicons name="search-outline" size={24} color="white" />
+            </TouchableOpacity>
+          )}
+          <TouchableOpacity style={styles.notificationButton}>
+            <Ionicons name="notifications-outline" size={24} color="white" />
+          </TouchableOpacity>
+        </View>
       </View>
     </ImageBackground>
   );
 
   const renderSummaryCard = (
     type: "incident" | "request" | "complaint" | "query",
-    stats: Stats | null,
+    stats: IncidentStats | null,
     canView: boolean,
     tabPath: string,
   ) => {
@@ -253,6 +267,33 @@ const DashboardScreen = () => {
       <View style={styles.section}>
         <Text style={styles.sectionTitle}>{t("dashboard.myTickets", "My Tickets")}</Text>
         <View style={styles.myIncidentsContainer}>
+          <TouchableOpacity
+            style={styles.myIncidentCard}
+            onPress={() => router.push("/inbox")}
+            activeOpacity={0.7}
+          >
+            <View
+              style={[
+                styles.myIncidentIconContainer,
+                { backgroundColor: COLORS.inbox.bg },
+              ]}
+            >
+              <Ionicons
+                name="file-tray-full-outline"
+                size={22}
+                color={COLORS.inbox.icon}
+              />
+            </View>
+            <Text style={styles.myIncidentText}>
+              {t("dashboard.inbox")}
+            </Text>
+            <Ionicons
+              name="chevron-forward"
+              size={18}
+              color={COLORS.text.muted}
+            />
+          </TouchableOpacity>
+
           {canTransitionIncidents() && (
             <TouchableOpacity
               style={styles.myIncidentCard}
@@ -325,9 +366,55 @@ const DashboardScreen = () => {
     );
   };
 
+  const renderSlaSection = () => {
+    if (!canManageSla) return null;
+
+    const rows: { type: RecordType; label: string; canView: boolean; tabPath: string }[] = [
+      { type: "incident", label: t("dashboard.stats.incidents"), canView: canViewIncidents(), tabPath: "/(tabs)/incident" },
+      { type: "request", label: t("dashboard.stats.requests"), canView: canViewRequests(), tabPath: "/(tabs)/request" },
+      { type: "complaint", label: t("dashboard.stats.complaints"), canView: canViewComplaints(), tabPath: "/(tabs)/complaint" },
+      { type: "query", label: t("dashboard.stats.queries"), canView: canViewQueries(), tabPath: "/(tabs)/query" },
+    ];
+    const visibleRows = rows.filter((row) => row.canView && slaCounts[row.type]);
+    if (visibleRows.length === 0) return null;
+
+    const renderCount = (tabPath: string, status: "at_risk" | "breached", count: number) => {
+      const config = SLA_STATUS_CONFIG[status];
+      return (
+        <TouchableOpacity
+          style={[styles.slaCount, { backgroundColor: `${config.color}1A` }]}
+          onPress={() =>
+            router.push({
+              pathname: tabPath as any,
+              params: { sla_status: status },
+            })
+          }
+          activeOpacity={0.7}
+        >
+          <Text style={[styles.slaCountNumber, { color: config.color }]}>{count}</Text>
+          <Text style={[styles.slaCountLabel, { color: config.color }]}>{t(`sla.${config.key}`)}</Text>
+        </TouchableOpacity>
+      );
+    };
+
+    return (
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>{t("dashboard.slaWatch")}</Text>
+        {visibleRows.map(({ type, label, tabPath }) => (
+          <View style={styles.statusCard} key={`sla-${type}`}>
+            <View style={[styles.statusBar, { backgroundColor: COLORS[type].bar }]} />
+            <Text style={styles.slaTypeLabel}>{label}</Text>
+            {renderCount(tabPath, "at_risk", slaCounts[type]?.at_risk ?? 0)}
+            {renderCount(tabPath, "breached", slaCounts[type]?.breached ?? 0)}
+          </View>
+        ))}
+      </View>
+    );
+  };
+
   const renderStatusSection = (
     type: "incident" | "request" | "complaint" | "query",
-    stats: Stats | null,
+    stats: IncidentStats | null,
     canView: boolean,
     tabPath: string,
   ) => {
@@ -501,6 +588,8 @@ const DashboardScreen = () => {
         >
           {renderMyTicketsSection()}
 
+          {renderSlaSection()}
+
           {renderStatusSection(
             "incident",
             incidentStats,
@@ -572,6 +661,10 @@ const styles = StyleSheet.create({
     justifyContent: "center",
     alignItems: "center",
   },
+  headerActions: {
+    flexDirection: "row",
+    gap: 10,
+  },
   notificationButton: {
     width: 44,
     height: 44,
@@ -772,6 +865,28 @@ const styles = StyleSheet.create({
     fontWeight: "bold",
     color: COLORS.text.primary,
   },
+  slaTypeLabel: {
+    flex: 1,
+    fontSize: 14,
+    fontWeight: "600",
+    color: COLORS.text.primary,
+  },
+  slaCount: {
+    minWidth: 64,
+    borderRadius: 10,
+    paddingVertical: 6,
+    paddingHorizontal: 8,
+    marginLeft: 8,
+    alignItems: "center",
+  },
+  slaCountNumber: {
+    fontSize: 18,
+    fontWeight: "bold",
+  },
+  slaCountLabel: {
+    fontSize: 11,
+    fontWeight: "600",
+  },
   emptyCard: {
     backgroundColor: COLORS.white,
     borderRadius: 14,
@@ -1,15 +1,22 @@
 import React, { useState, useCallback } from 'react';
-import { View, Text, StyleSheet, TouchableOpacity, ScrollView, ActivityIndicator, Alert, ImageBackground, Modal, Platform } from 'react-native';
+import { View, Text, StyleSheet, TouchableOpacity, ScrollView, ActivityIndicator, Alert, ImageBackground, Modal, Platform, Switch } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { Ionicons } from '@expo/vector-icons';
 import { useRouter, useFocusEffect } from 'expo-router';
 import { useTranslation } from 'react-i18next';
 import * as Updates from 'expo-updates';
 import * as Sharing from 'expo-sharing';
+import { NotificationCategory, NotificationPreferences } from '@/src/api/models';
 import { getProfile } from '@/src/api/user';
+import { PinSetupModal } from '@/src/components/PinSetupModal';
 import { useAuth } from '@/src/context/AuthContext';
+import { useAppLock } from '@/src/hooks/useAppLock';
+import { useOutbox } from '@/src/hooks/useOutbox';
+import { usePermissions } from '@/src/hooks/usePermissions';
+import { useServerProfiles } from '@/src/hooks/useServerProfiles';
 import { setLanguage, supportedLanguages, getCurrentLanguage } from '@/src/i18n';
 import { crashLogger } from '@/src/utils/crashLogger';
+import { NOTIFICATION_CATEGORIES, pushNotifications } from '@/src/utils/pushNotifications';
 
 const COLORS = {
   primary: '#2EC4B6',
@@ -43,10 +50,43 @@ const SettingsOption = ({ label, hasDropdown = false, value, onPress, icon }: {
   </TouchableOpacity>
 );
 
+const NOTIFICATION_ICONS: Record<NotificationCategory, string> = {
+  assignment: 'person-add-outline',
+  transition: 'git-branch-outline',
+  comment: 'chatbubble-outline',
+  sla: 'alarm-outline',
+};
+
+const SettingsToggle = ({ label, icon, value, disabled, onValueChange }: {
+  label: string;
+  icon: string;
+  value: boolean;
+  disabled?: boolean;
+  onValueChange: (value: boolean) => void;
+}) => (
+  <View style={styles.option}>
+    <View style={styles.optionLeft}>
+      <Ionicons name={icon as any} size={20} color={COLORS.secondary} style={styles.optionIcon} />
+      <Text style={styles.optionLabel}>{label}</Text>
+    </View>
+    <Switch
+      value={value}
+      disabled={disabled}
+      onValueChange={onValueChange}
+      trackColor={{ false: COLORS.border, true: COLORS.primary }}
+    />
+  </View>
+);
+
 const SettingsScreen = () => {
   const { t, i18n } = useTranslation();
   const router = useRouter();
   const { logout } = useAuth();
+  const { canAccessRoute } = usePermissions();
+  const { unsentCount } = useOutbox();
+  const { activeProfile } = useServerProfiles();
+  const { state: lockState, disable: disableAppLock, setBiometrics, setTimeoutSeconds } = useAppLock();
+  const [pinSetupVisible, setPinSetupVisible] = useState(false);
   const [user, setUser] = useState<any>(null);
   const [loading, setLoading] = useState(true);
   const [languageModalVisible, setLanguageModalVisible] = useState(false);
@@ -54,6 +94,8 @@ const SettingsScreen = () => {
   const [logFileSize, setLogFileSize] = useState<string>('0 KB');
   const [hasLogs, setHasLogs] = useState(false);
   const [sharingLogs, setSharingLogs] = useState(false);
+  const [notificationPrefs, setNotificationPrefs] = useState<NotificationPreferences>(pushNotifications.getPreferences());
+  const [savingCategory, setSavingCategory] = useState<NotificationCategory | null>(null);
 
   const loadLogInfo = useCallback(async () => {
     try {
@@ -81,13 +123,73 @@ const SettingsScreen = () => {
       fetchProfile();
       setCurrentLang(getCurrentLanguage());
       loadLogInfo();
+      pushNotifications.syncPreferences().then(response => {
+        if (response.success) setNotificationPrefs(response.data);
+      });
     }, [loadLogInfo])
   );
 
+  const handleNotificationToggle = async (category: NotificationCategory, enabled: boolean) => {
+    setSavingCategory(category);
+    setNotificationPrefs(current => ({ ...current, [category]: enabled }));
+    const response = await pushNotifications.setPreference(category, enabled);
+    setNotificationPrefs(pushNotifications.getPreferences());
+    setSavingCategory(null);
+    if (!response.success) {
+      Alert.alert(t('common.error'), t('settings.notifications.saveFailed'));
+    }
+  };
+
+  // Turning the lock on starts with choosing a PIN; PinSetupModal enables it once saved
+  const handleAppLockToggle = (enabled: boolean) => {
+    if (enabled) {
+      setPinSetupVisible(true);
+      return;
+    }
+    Alert.alert(
+      t('settings.disableAppLockTitle'),
+      t('settings.disableAppLockMessage'),
+      [
+        { text: t('common.cancel'), style: 'cancel' },
+        { text: t('common.ok'), style: 'destructive', onPress: () => disableAppLock() },
+      ]
+    );
+  };
+
+  const formatLockTimeout = (seconds: number) =>
+    seconds === 0 ? t('appLock.timeout.immediately') : t('appLock.timeout.minutes', { count: seconds / 60 });
+
+  const handleLockTimeoutPress = () => {
+    if (!lockState) return;
+    Alert.alert(
+      t('settings.lockAfter'),
+      undefined,
+      [
+        ...lockState.timeoutOptions.map(seconds => ({
+          text: formatLockTimeout(seconds),
+          onPress: () => setTimeoutSeconds(seconds),
+        })),
+        { text: t('common.cancel'), style: 'cancel' as const },
+      ]
+    );
+  };
+
   const handleLogout = async () => {
     await logout();
   };
 
+  // Servers are chosen on the login screen, so switching starts with signing out
+  const handleServerPress = () => {
+    Alert.alert(
+      activeProfile.name,
+      `${activeProfile.url}\n\n${t('settings.serverSwitchHint')}`,
+      [
+        { text: t('common.cancel'), style: 'cancel' },
+        { text: t('settings.switchServer'), onPress: handleLogout },
+      ]
+    );
+  };
+
   const handleLanguageChange = async (langCode: string) => {
     if (langCode === currentLang) {
       setLanguageModalVisible(false);
@@ -221,6 +323,11 @@ const SettingsScreen = () => {
     <SafeAreaView style={styles.safeArea}>
       <ImageBackground source={require('@/assets/images/background.png')} style={styles.header}>
         <Text style={styles.headerTitle}>{t('settings.title')}</Text>
+        {canAccessRoute('search') && (
+          <TouchableOpacity style={styles.headerAction} onPress={() => router.push('/search')}>
+            <Ionicons name="search-outline" size={22} color={COLORS.white} />
+          </TouchableOpacity>
+        )}
       </ImageBackground>
       <ScrollView style={styles.container}>
         {/* User Profile */}
@@ -260,6 +367,49 @@ const SettingsScreen = () => {
           />
         </View>
 
+        <Text style={styles.sectionTitle}>{t('settings.security')}</Text>
+        <View style={styles.optionsContainer}>
+          <SettingsToggle
+            label={t('settings.appLock')}
+            icon="lock-closed-outline"
+            value={!!lockState?.enabled}
+            disabled={!lockState || lockState.requiredByPolicy}
+            onValueChange={handleAppLockToggle}
+          />
+          {lockState?.enabled && (
+            <>
+              {lockState.biometricsAvailable && (
+                <SettingsToggle
+                  label={t('settings.biometricUnlock')}
+                  icon="finger-print-outline"
+                  value={lockState.biometricsEnabled}
+                  onValueChange={setBiometrics}
+                />
+              )}
+              <SettingsOption
+                label={t('settings.lockAfter')}
+                icon="timer-outline"
+                value={formatLockTimeout(lockState.timeoutSeconds)}
+                hasDropdown
+                onPress={handleLockTimeoutPress}
+              />
+              <SettingsOption
+                label={t('settings.changePin')}
+                icon="keypad-outline"
+                onPress={() => setPinSetupVisible(true)}
+              />
+            </>
+          )}
+          <SettingsOption
+            label={t('settings.devicesAndSessions')}
+            icon="phone-portrait-outline"
+            onPress={() => router.push('/sessions')}
+          />
+        </View>
+        {lockState?.requiredByPolicy && (
+          <Text style={styles.sectionHint}>{t('settings.appLockRequired')}</Text>
+        )}
+
         <Text style={styles.sectionTitle}>{t('settings.language')}</Text>
         <View style={styles.optionsContainer}>
           <SettingsOption
@@ -271,6 +421,40 @@ const SettingsScreen = () => {
           />
         </View>
 
+        <Text style={styles.sectionTitle}>{t('settings.environment')}</Text>
+        <View style={styles.optionsContainer}>
+          <SettingsOption
+            label={t('serverProfiles.server')}
+            icon="server-outline"
+            value={activeProfile.name}
+            onPress={handleServerPress}
+          />
+        </View>
+
+        <Text style={styles.sectionTitle}>{t('settings.notifications.title')}</Text>
+        <View style={styles.optionsContainer}>
+          {NOTIFICATION_CATEGORIES.map(category => (
+            <SettingsToggle
+              key={category}
+              label={t(`notifications.categories.${category}`)}
+              icon={NOTIFICATION_ICONS[category]}
+              value={notificationPrefs[category] !== false}
+              disabled={savingCategory === category}
+              onValueChange={enabled => handleNotificationToggle(category, enabled)}
+            />
+          ))}
+        </View>
+
+        <Text style={styles.sectionTitle}>{t('settings.offline')}</Text>
+        <View style={styles.optionsContainer}>
+          <SettingsOption
+            label={t('settings.outbox')}
+            icon="cloud-upload-outline"
+            value={unsentCount > 0 ? String(unsentCount) : undefined}
+            onPress={() => router.push('/outbox')}
+          />
+        </View>
+
         {/* Log Buttons */}
         <Text style={styles.sectionTitle}>{t('settings.diagnostics')}</Text>
         <View style={styles.logInfoContainer}>
@@ -324,6 +508,12 @@ const SettingsScreen = () => {
         <Text style={styles.versionText}>{t('settings.version')} 3.01</Text>
       </ScrollView>
 
+      <PinSetupModal
+        visible={pinSetupVisible}
+        onCancel={() => setPinSetupVisible(false)}
+        onDone={() => setPinSetupVisible(false)}
+      />
+
       {/* Language Selection Modal */}
       <Modal
         visible={languageModalVisible}
@@ -391,6 +581,17 @@ const styles = StyleSheet.create({
     fontSize: 22,
     fontWeight: 'bold',
   },
+  headerAction: {
+    position: 'absolute',
+    right: 20,
+    bottom: 16,
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: 'rgba(255, 255, 255, 0.15)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
   container: {
     flex: 1,
     backgroundColor: COLORS.background,
@@ -453,6 +654,12 @@ const styles = StyleSheet.create({
     marginBottom: 10,
     textTransform: 'uppercase',
   },
+  sectionHint: {
+    fontSize: 12,
+    color: COLORS.textMuted,
+    marginHorizontal: 20,
+    marginTop: 8,
+  },
   optionsContainer: {
     backgroundColor: COLORS.card,
     marginHorizontal: 20,
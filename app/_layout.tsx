@@ -1,5 +1,5 @@
 import { DarkTheme, DefaultTheme, ThemeProvider } from '@react-navigation/native';
-import { Stack, useSegments, useRouter } from 'expo-router';
+import { Href, Stack, useGlobalSearchParams, useSegments, useRouter } from 'expo-router';
 import { StatusBar } from 'expo-status-bar';
 import { useEffect } from 'react';
 import { ActivityIndicator, View } from 'react-native';
@@ -8,28 +8,61 @@ import '@/src/i18n';
 
 import { useColorScheme } from '@/hooks/use-color-scheme';
 import { AuthProvider, useAuth } from '@/src/context/AuthContext';
+import { usePermissions } from '@/src/hooks/usePermissions';
+import { AppLockGate } from '@/src/components/AppLockGate';
 import ErrorBoundary from '@/src/components/ErrorBoundary';
 import { crashLogger, setupGlobalErrorHandlers } from '@/src/utils/crashLogger';
+import { outbox } from '@/src/utils/outbox';
+import { pushNotifications } from '@/src/utils/pushNotifications';
+import { prefetchTicketFormData } from '@/src/utils/ticketForm';
 
 function RootLayoutNav() {
   const colorScheme = useColorScheme();
-  const { isAuthenticated, isLoading } = useAuth();
+  const { user, isAuthenticated, isLoading } = useAuth();
+  const { canAccessRoute } = usePermissions();
   const segments = useSegments();
+  const params = useGlobalSearchParams();
   const router = useRouter();
+  const routeAllowed = canAccessRoute(segments.join('/'), params);
 
   useEffect(() => {
     if (isLoading) return;
 
+    // Server provisioning links and SSO redirects are handled whether or not anyone is signed in
+    if (segments[0] === 'server-profile' || segments[0] === 'sso-callback') return;
+
     const inAuthGroup = segments[0] === 'login' || segments[0] === 'forgot-password' || segments[0] === 'otp';
 
     if (!isAuthenticated && !inAuthGroup) {
       // Redirect to login if not authenticated and not in auth group
       router.replace('/login');
-    } else if (isAuthenticated && inAuthGroup && segments[0] !== 'otp') {
-      // Redirect to tabs if authenticated and in auth group (except OTP)
+    } else if (isAuthenticated && inAuthGroup) {
+      // Redirect to tabs once authenticated; OTP verification happens before this point
       router.replace('/(tabs)/explore');
+    } else if (isAuthenticated && !routeAllowed) {
+      // Reached by deep link, a stale button or roles that changed on refreshUser
+      router.replace('/no-access');
     }
-  }, [isAuthenticated, isLoading, segments]);
+  }, [isAuthenticated, isLoading, segments, routeAllowed]);
+
+  // Replay queued offline submissions while signed in
+  const userId = user?.id;
+  useEffect(() => {
+    if (!userId) return;
+    return outbox.startAutoSync(userId);
+  }, [userId]);
+
+  // Warm the reference data cache so ticket forms open instantly, even offline later on
+  useEffect(() => {
+    if (!userId) return;
+    prefetchTicketFormData().catch(() => {});
+  }, [userId]);
+
+  // Open the matching details screen when a push notification is tapped
+  useEffect(() => {
+    if (!userId) return;
+    return pushNotifications.addResponseListener(route => router.push(route as Href));
+  }, [userId, router]);
 
   if (isLoading) {
     return (
@@ -41,31 +74,43 @@ function RootLayoutNav() {
 
   return (
     <ThemeProvider value={colorScheme === 'dark' ? DarkTheme : DefaultTheme}>
-      <Stack>
-        <Stack.Screen name="index" options={{ headerShown: false }} />
-        <Stack.Screen name="login" options={{ headerShown: false }} />
-        <Stack.Screen name="forgot-password" options={{ title: 'Forgot Password?' }} />
-        <Stack.Screen name="otp" options={{ title: 'Verification' }} />
-        <Stack.Screen name="incident-details" options={{ headerShown: false }} />
-        <Stack.Screen name="add-incident" options={{ headerShown: false }} />
-        <Stack.Screen name="my-incidents" options={{ headerShown: false }} />
-        <Stack.Screen name="map-view" options={{ headerShown: false }} />
-        <Stack.Screen name="request-details" options={{ headerShown: false }} />
-        <Stack.Screen name="add-request" options={{ headerShown: false }} />
-        <Stack.Screen name="complaint-details" options={{ headerShown: false }} />
-        <Stack.Screen name="add-complaint" options={{ headerShown: false }} />
-        <Stack.Screen name="query-details" options={{ headerShown: false }} />
-        <Stack.Screen name="add-query" options={{ headerShown: false }} />
-        <Stack.Screen name="edit-profile" options={{ title: 'Edit Profile' }} />
-        <Stack.Screen name="change-password" options={{ title: 'Change Password' }} />
-        <Stack.Screen name="(tabs)" options={{ headerShown: false }} />
-        <Stack.Screen name="filter" options={{ presentation: 'transparentModal', headerShown: false }} />
-        <Stack.Screen name="complaint-filter" options={{ presentation: 'transparentModal', headerShown: false }} />
-        <Stack.Screen name="request-filter" options={{ presentation: 'transparentModal', headerShown: false }} />
-        <Stack.Screen name="query-filter" options={{ presentation: 'transparentModal', headerShown: false }} />
-        <Stack.Screen name="update-status" options={{ presentation: 'transparentModal', headerShown: false }} />
-        <Stack.Screen name="modal" options={{ presentation: 'modal', title: 'Modal' }} />
-      </Stack>
+      <AppLockGate>
+        <Stack>
+          <Stack.Screen name="index" options={{ headerShown: false }} />
+          <Stack.Screen name="login" options={{ headerShown: false }} />
+          <Stack.Screen name="forgot-password" options={{ title: 'Forgot Password?' }} />
+          <Stack.Screen name="otp" options={{ title: 'Verification' }} />
+          <Stack.Screen name="server-profile" options={{ headerShown: false }} />
+          <Stack.Screen name="sso-callback" options={{ headerShown: false }} />
+          <Stack.Screen name="incident-details" options={{ headerShown: false }} />
+          <Stack.Screen name="add-incident" options={{ headerShown: false }} />
+          <Stack.Screen name="my-incidents" options={{ headerShown: false }} />
+          <Stack.Screen name="map-view" options={{ headerShown: false }} />
+          <Stack.Screen name="request-details" options={{ headerShown: false }} />
+          <Stack.Screen name="add-request" options={{ headerShown: false }} />
+          <Stack.Screen name="complaint-details" options={{ headerShown: false }} />
+          <Stack.Screen name="add-complaint" options={{ headerShown: false }} />
+          <Stack.Screen name="query-details" options={{ headerShown: false }} />
+          <Stack.Screen name="add-query" options={{ headerShown: false }} />
+          <Stack.Screen name="edit-profile" options={{ title: 'Edit Profile' }} />
+          <Stack.Screen name="change-password" options={{ title: 'Change Password' }} />
+          <Stack.Screen name="outbox" options={{ headerShown: false }} />
+          <Stack.Screen name="sessions" options={{ headerShown: false }} />
+          <Stack.Screen name="no-access" options={{ headerShown: false }} />
+          <Stack.Screen name="saved-view" options={{ headerShown: false }} />
+          <Stack.Screen name="board" options={{ headerShown: false }} />
+          <Stack.Screen name="inbox" options={{ headerShown: false }} />
+          <Stack.Screen name="search" options={{ headerShown: false }} />
+          <Stack.Screen name="edit-record" options={{ headerShown: false }} />
+          <Stack.Screen name="(tabs)" options={{ headerShown: false }} />
+          <Stack.Screen name="filter" options={{ presentation: 'transparentModal', headerShown: false }} />
+          <Stack.Screen name="complaint-filter" options={{ presentation: 'transparentModal', headerShown: false }} />
+          <Stack.Screen name="request-filter" options={{ presentation: 'transparentModal', headerShown: false }} />
+          <Stack.Screen name="query-filter" options={{ presentation: 'transparentModal', headerShown: false }} />
+          <Stack.Screen name="update-status" options={{ presentation: 'transparentModal', headerShown: false }} />
+          <Stack.Screen name="modal" options={{ presentation: 'modal', title: 'Modal' }} />
+        </Stack>
+      </AppLockGate>
       <StatusBar style="auto" />
     </ThemeProvider>
   );
@@ -0,0 +1,519 @@
+import { Incident, RecordType, WorkflowState } from '@/src/api/models';
+import { executeTransition, getAvailableTransitions, getRecords } from '@/src/api/records';
+import { getAllStates, getWorkflows, getWorkflowStates, Workflow } from '@/src/api/workflow';
+import { SlaBadge } from '@/src/components/SlaBadge';
+import i18n from '@/src/i18n';
+import { FILTER_OPTIONS, RECORD_FILTERS } from '@/src/constants/recordFilters';
+import { isSameState, needsTransitionForm, transitionsTo } from '@/src/utils/transitions';
+import { Ionicons } from '@expo/vector-icons';
+import { useFocusEffect, useLocalSearchParams, useRouter } from 'expo-router';
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import {
+  ActivityIndicator,
+  Alert,
+  ImageBackground,
+  Platform,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  useWindowDimensions,
+  View,
+} from 'react-native';
+import { Gesture, GestureDetector, GestureHandlerRootView } from 'react-native-gesture-handler';
+import Animated, { useAnimatedStyle, useSharedValue } from 'react-native-reanimated';
+import { SafeAreaView } from 'react-native-safe-area-context';
+
+const COLORS = {
+  primary: '#1A237E',
+  background: '#F5F7FA',
+  column: '#E9EDF3',
+  white: '#FFFFFF',
+  text: {
+    primary: '#1A1A2E',
+    secondary: '#64748B',
+    muted: '#94A3B8',
+  },
+};
+
+const COLUMN_WIDTH = 280;
+const COLUMN_GAP = 12;
+const BOARD_PADDING = 16;
+// Records placed on the board; the list screens page through the rest
+const BOARD_LIMIT = 100;
+// A card dragged this close to a screen edge scrolls the board that way
+const EDGE_ZONE = 48;
+const EDGE_SCROLL_STEP = 24;
+const EDGE_SCROLL_INTERVAL_MS = 30;
+// Workflow chip that shows every state of every workflow
+const ALL_WORKFLOWS = 'all';
+
+const RECORD_TYPES: RecordType[] = ['incident', 'request', 'complaint', 'query'];
+
+// The record's PRIORITY lookup value when it has one, otherwise its numeric priority
+const priorityOf = (record: Incident): { label: string; color?: string } | null => {
+  const lookup = record.lookup_values?.find(value => value.category?.code === 'PRIORITY');
+  if (lookup) return { label: lookup.name, color: lookup.color };
+  const option = FILTER_OPTIONS.priority?.find(item => item.value === String(record.priority));
+  return option ? { label: i18n.t(option.label), color: option.color } : null;
+};
+
+interface BoardCardProps {
+  record: Incident;
+  moving: boolean;
+  onOpen: (record: Incident) => void;
+  onDragStart: (record: Incident, x: number, y: number) => void;
+  onDragMove: (x: number, y: number) => void;
+  onDrop: (record: Incident, x: number) => void;
+  onDragEnd: () => void;
+}
+
+const BoardCard = ({ record, moving, onOpen, onDragStart, onDragMove, onDrop, onDragEnd }: BoardCardProps) => {
+  const { t } = useTranslation();
+  const priority = priorityOf(record);
+  const assignee = record.assignee;
+
+  // A long press picks the card up; a plain tap opens it
+  const pan = Gesture.Pan()
+    .runOnJS(true)
+    .activateAfterLongPress(250)
+    .onStart(event => onDragStart(record, event.absoluteX, event.absoluteY))
+    .onUpdate(event => onDragMove(event.absoluteX, event.absoluteY))
+    .onEnd(event => onDrop(record, event.absoluteX))
+    .onFinalize(onDragEnd);
+  const tap = Gesture.Tap()
+    .runOnJS(true)
+    .onEnd((_event, success) => {
+      if (success) onOpen(record);
+    });
+
+  return (
+    <GestureDetector gesture={Gesture.Exclusive(pan, tap)}>
+      <View style={[styles.card, moving && styles.cardMoving]}>
+        <View style={styles.cardHeader}>
+          <Text style={styles.cardNumber}>{record.incident_number}</Text>
+          {moving ? (
+            <ActivityIndicator size="small" color={COLORS.primary} />
+          ) : priority && (
+            <View style={[styles.priorityBadge, { backgroundColor: priority.color || COLORS.text.muted }]}>
+              <Text style={styles.priorityText}>{priority.label}</Text>
+            </View>
+          )}
+        </View>
+        <Text style={styles.cardTitle} numberOfLines={2}>{record.title}</Text>
+        <View style={styles.assigneeRow}>
+          <Ionicons name="person-outline" size={14} color={COLORS.text.secondary} />
+          <Text style={styles.assigneeText} numberOfLines={1}>
+            {assignee
+              ? [assignee.first_name, assignee.last_name].filter(Boolean).join(' ') || assignee.username
+              : t('board.unassigned')}
+          </Text>
+        </View>
+        <SlaBadge record={record} />
+      </View>
+    </GestureDetector>
+  );
+};
+
+const BoardScreen = () => {
+  const { t } = useTranslation();
+  const router = useRouter();
+  const { width: screenWidth } = useWindowDimensions();
+  const { type } = useLocalSearchParams<{ type?: string }>();
+  const recordType: RecordType = RECORD_TYPES.includes(type as RecordType) ? (type as RecordType) : 'incident';
+  const { accentColor, accentLight } = RECORD_FILTERS[recordType];
+
+  const [workflows, setWorkflows] = useState<Workflow[]>([]);
+  const [workflowId, setWorkflowId] = useState<string | null>(null);
+  const [states, setStates] = useState<WorkflowState[]>([]);
+  const [records, setRecords] = useState<Incident[]>([]);
+  const [totalRecords, setTotalRecords] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [movingId, setMovingId] = useState<string | null>(null);
+
+  // Drag state
+  const [dragged, setDragged] = useState<Incident | null>(null);
+  const [hoverIndex, setHoverIndex] = useState<number | null>(null);
+  const dragX = useSharedValue(0);
+  const dragY = useSharedValue(0);
+  const scrollRef = useRef<ScrollView>(null);
+  const scrollX = useRef(0);
+  const edgeDirection = useRef(0);
+  const lastDragX = useRef(0);
+  const edgeTimer = useRef<ReturnType<typeof setInterval> | null>(null);
+
+  useEffect(() => {
+    const loadWorkflows = async () => {
+      const response = await getWorkflows(true, recordType);
+      const list = response.success ? response.data : [];
+      setWorkflows(list);
+      setWorkflowId((list.find(workflow => workflow.is_default) ?? list[0])?.id ?? ALL_WORKFLOWS);
+    };
+    loadWorkflows();
+  }, [recordType]);
+
+  const fetchBoard = useCallback(async () => {
+    if (!workflowId) return;
+    setError('');
+
+    const [statesResponse, recordsResponse] = await Promise.all([
+      workflowId === ALL_WORKFLOWS ? getAllStates() : getWorkflowStates(workflowId),
+      getRecords(recordType, {
+        page: 1,
+        limit: BOARD_LIMIT,
+        ...(workflowId !== ALL_WORKFLOWS && { workflow_id: workflowId }),
+      }),
+    ]);
+
+    if (statesResponse.success && recordsResponse.success) {
+      setStates(statesResponse.data);
+      // Only records with a column are on screen, so only those count as shown
+      setRecords(recordsResponse.data.filter(record =>
+        statesResponse.data.some(state => isSameState(record.current_state, state))
+      ));
+      setTotalRecords(recordsResponse.pagination.total_items);
+    } else {
+      setError((!statesResponse.success && statesResponse.error) || (!recordsResponse.success && recordsResponse.error) || t('errors.fetchFailed'));
+    }
+    setLoading(false);
+  }, [workflowId, recordType, t]);
+
+  const selectWorkflow = (id: string) => {
+    if (id === workflowId) return;
+    setLoading(true);
+    setWorkflowId(id);
+  };
+
+  // Reloads when coming back from update-status or a record's details
+  useFocusEffect(
+    useCallback(() => {
+      fetchBoard();
+    }, [fetchBoard])
+  );
+
+  useEffect(() => () => {
+    if (edgeTimer.current) clearInterval(edgeTimer.current);
+  }, []);
+
+  const columnAt = (x: number): number | null => {
+    const offset = x + scrollX.current - BOARD_PADDING;
+    const index = Math.floor(offset / (COLUMN_WIDTH + COLUMN_GAP));
+    const withinColumn = offset - index * (COLUMN_WIDTH + COLUMN_GAP) <= COLUMN_WIDTH;
+    return index >= 0 && index < states.length && withinColumn ? index : null;
+  };
+
+  const stopEdgeScroll = () => {
+    if (edgeTimer.current) clearInterval(edgeTimer.current);
+    edgeTimer.current = null;
+    edgeDirection.current = 0;
+  };
+
+  const handleDragStart = (record: Incident, x: number, y: number) => {
+    dragX.value = x;
+    dragY.value = y;
+    lastDragX.current = x;
+    setDragged(record);
+    setHoverIndex(columnAt(x));
+
+    const maxScroll = Math.max(0, states.length * (COLUMN_WIDTH + COLUMN_GAP) + BOARD_PADDING * 2 - COLUMN_GAP - screenWidth);
+    edgeTimer.current = setInterval(() => {
+      if (edgeDirection.current === 0) return;
+      const next = Math.min(maxScroll, Math.max(0, scrollX.current + edgeDirection.current * EDGE_SCROLL_STEP));
+      if (next === scrollX.current) return;
+      scrollX.current = next;
+      scrollRef.current?.scrollTo({ x: next, animated: false });
+      setHoverIndex(columnAt(lastDragX.current));
+    }, EDGE_SCROLL_INTERVAL_MS);
+  };
+
+  const handleDragMove = (x: number, y: number) => {
+    dragX.value = x;
+    dragY.value = y;
+    lastDragX.current = x;
+    edgeDirection.current = x < EDGE_ZONE ? -1 : x > screenWidth - EDGE_ZONE ? 1 : 0;
+    setHoverIndex(columnAt(x));
+  };
+
+  const handleDragEnd = () => {
+    stopEdgeScroll();
+    setDragged(null);
+    setHoverIndex(null);
+  };
+
+  /**
+   * Moves a record to the state of the column it was dropped on, through the
+   * transition that leads there. Transitions that need input open the
+   * update-status form; drops with no available transition are refused.
+   */
+  const handleDrop = async (record: Incident, x: number) => {
+    const index = columnAt(x);
+    const target = index === null ? undefined : states[index];
+    if (!target || isSameState(record.current_state, target)) return;
+
+    setMovingId(record.id);
+    const response = await getAvailableTransitions(record.id);
+    setMovingId(null);
+    if (!response.success) {
+      Alert.alert(t('common.error'), response.error);
+      return;
+    }
+
+    const candidates = transitionsTo(response.data, target);
+    const executable = candidates.filter(entry => entry.can_execute);
+    if (executable.length === 0) {
+      Alert.alert(
+        t('board.dropRejected'),
+        candidates.find(entry => entry.reason)?.reason ||
+          t('board.noTransition', { number: record.incident_number, state: target.name })
+      );
+      return;
+    }
+
+    if (executable.length > 1 || needsTransitionForm(executable[0])) {
+      router.push({
+        pathname: '/update-status',
+        params: {
+          id: record.id,
+          type: recordType,
+          transitions: JSON.stringify(executable),
+          incident: JSON.stringify({
+            id: record.id,
+            classification_id: record.classification_id,
+            location_id: record.location_id,
+            department_id: record.department_id,
+            assignee_id: record.assignee_id,
+            version: record.version,
+          }),
+          ...(executable.length === 1 && { transition_id: executable[0].transition.id }),
+        },
+      });
+      return;
+    }
+
+    // Without a version the move couldn't be checked against concurrent changes
+    if (record.version === undefined) {
+      Alert.alert(t('common.error'), t('errors.noVersion'));
+      return;
+    }
+
+    // Show the card in its new column while the transition runs
+    const previousState = record.current_state;
+    setRecords(prev => prev.map(item => (item.id === record.id ? { ...item, current_state: target } : item)));
+    setMovingId(record.id);
+    const result = await executeTransition(record.id, {
+      transition_id: executable[0].transition.id,
+      version: record.version,
+    });
+    setMovingId(null);
+
+    if (result.success) {
+      fetchBoard();
+    } else {
+      setRecords(prev => prev.map(item => (item.id === record.id ? { ...item, current_state: previousState } : item)));
+      Alert.alert(t('common.error'), result.error);
+    }
+  };
+
+  const openRecord = (record: Incident) => router.push(`/${recordType}-details?id=${record.id}`);
+
+  const overlayStyle = useAnimatedStyle(() => ({
+    transform: [
+      { translateX: dragX.value - COLUMN_WIDTH / 2 },
+      { translateY: dragY.value - 40 },
+    ],
+  }));
+
+  const renderColumn = (state: WorkflowState, index: number) => {
+    const columnRecords = records.filter(record => isSameState(record.current_state, state));
+    const hovered = hoverIndex === index && !!dragged && !isSameState(dragged.current_state, state);
+
+    return (
+      <View
+        key={state.id ?? state.name}
+        style={[styles.column, hovered && { backgroundColor: accentLight, borderColor: accentColor }]}
+      >
+        <View style={styles.columnHeader}>
+          <View style={[styles.stateDot, { backgroundColor: state.color || COLORS.text.muted }]} />
+          <Text style={styles.columnTitle} numberOfLines={1}>{state.name}</Text>
+          <Text style={styles.columnCount}>{columnRecords.length}</Text>
+        </View>
+        <ScrollView contentContainerStyle={styles.columnContent} showsVerticalScrollIndicator={false}>
+          {columnRecords.length === 0 ? (
+            <Text style={styles.emptyColumn}>{hovered ? t('board.dropHere') : t('board.emptyColumn')}</Text>
+          ) : (
+            columnRecords.map(record => (
+              <BoardCard
+                key={record.id}
+                record={record}
+                moving={movingId === record.id}
+                onOpen={openRecord}
+                onDragStart={handleDragStart}
+                onDragMove={handleDragMove}
+                onDrop={handleDrop}
+                onDragEnd={handleDragEnd}
+              />
+            ))
+          )}
+        </ScrollView>
+      </View>
+    );
+  };
+
+  return (
+    <GestureHandlerRootView style={styles.root}>
+      <SafeAreaView style={styles.safeArea}>
+        <ImageBackground source={require('@/assets/images/background.png')} style={styles.header}>
+          <TouchableOpacity style={styles.headerIcon} onPress={() => router.back()}>
+            <Ionicons name="arrow-back" size={24} color="white" />
+          </TouchableOpacity>
+          <View style={styles.headerTitleContainer}>
+            <Text style={styles.headerTitle}>{t('board.title', { type: t(`tabs.${recordType}`) })}</Text>
+            {totalRecords > records.length && (
+              <Text style={styles.headerSubtitle}>
+                {t('board.showing', { count: records.length, total: totalRecords })}
+              </Text>
+            )}
+          </View>
+          <TouchableOpacity style={styles.headerIcon} onPress={fetchBoard}>
+            <Ionicons name="refresh" size={22} color="white" />
+          </TouchableOpacity>
+        </ImageBackground>
+
+        <View style={styles.content}>
+          {workflows.length > 0 && (
+            <ScrollView
+              horizontal
+              showsHorizontalScrollIndicator={false}
+              style={styles.chips}
+              contentContainerStyle={styles.chipsContent}
+            >
+              {[...workflows.map(workflow => ({ id: workflow.id, name: workflow.name })), { id: ALL_WORKFLOWS, name: t('board.allStates') }]
+                .map(chip => {
+                  const active = chip.id === workflowId;
+                  return (
+                    <TouchableOpacity
+                      key={chip.id}
+                      style={[styles.chip, active && { backgroundColor: accentColor, borderColor: accentColor }]}
+                      onPress={() => selectWorkflow(chip.id)}
+                    >
+                      <Text style={[styles.chipText, active && styles.chipTextActive]}>{chip.name}</Text>
+                    </TouchableOpacity>
+                  );
+                })}
+            </ScrollView>
+          )}
+
+          {loading ? (
+            <View style={styles.centered}>
+              <ActivityIndicator size="large" color={COLORS.primary} />
+              <Text style={styles.mutedText}>{t('board.loading')}</Text>
+            </View>
+          ) : error ? (
+            <View style={styles.centered}>
+              <Ionicons name="cloud-offline-outline" size={64} color={COLORS.text.muted} />
+              <Text style={styles.mutedText}>{error}</Text>
+              <TouchableOpacity style={styles.retryButton} onPress={fetchBoard}>
+                <Text style={styles.retryButtonText}>{t('common.retry')}</Text>
+              </TouchableOpacity>
+            </View>
+          ) : states.length === 0 ? (
+            <View style={styles.centered}>
+              <Ionicons name="albums-outline" size={64} color={COLORS.text.muted} />
+              <Text style={styles.mutedText}>{t('board.noStates')}</Text>
+            </View>
+          ) : (
+            <ScrollView
+              ref={scrollRef}
+              horizontal
+              scrollEnabled={!dragged}
+              onScroll={event => {
+                scrollX.current = event.nativeEvent.contentOffset.x;
+              }}
+              scrollEventThrottle={16}
+              contentContainerStyle={styles.board}
+              showsHorizontalScrollIndicator={false}
+            >
+              {states.map(renderColumn)}
+            </ScrollView>
+          )}
+        </View>
+      </SafeAreaView>
+
+      {dragged && (
+        <Animated.View pointerEvents="none" style={[styles.dragOverlay, overlayStyle]}>
+          <View style={[styles.card, styles.cardDragging]}>
+            <Text style={styles.cardNumber}>{dragged.incident_number}</Text>
+            <Text style={styles.cardTitle} numberOfLines={2}>{dragged.title}</Text>
+          </View>
+        </Animated.View>
+      )}
+    </GestureHandlerRootView>
+  );
+};
+
+const styles = StyleSheet.create({
+  root: { flex: 1 },
+  safeArea: { flex: 1, backgroundColor: COLORS.primary },
+  header: {
+    paddingHorizontal: 20, paddingTop: 20, paddingBottom: 24,
+    flexDirection: 'row', alignItems: 'center', gap: 12,
+  },
+  headerIcon: {
+    width: 40, height: 40, borderRadius: 20,
+    backgroundColor: 'rgba(255,255,255,0.15)', justifyContent: 'center', alignItems: 'center',
+  },
+  headerTitleContainer: { flex: 1 },
+  headerTitle: { color: 'white', fontSize: 20, fontWeight: 'bold' },
+  headerSubtitle: { color: 'rgba(255,255,255,0.8)', fontSize: 12, marginTop: 2 },
+  content: { flex: 1, backgroundColor: COLORS.background },
+  chips: { flexGrow: 0 },
+  chipsContent: { paddingHorizontal: BOARD_PADDING, paddingVertical: 12, gap: 8 },
+  chip: {
+    paddingHorizontal: 14, paddingVertical: 8, borderRadius: 18,
+    borderWidth: 1, borderColor: COLORS.text.muted, backgroundColor: COLORS.white,
+  },
+  chipText: { fontSize: 13, color: COLORS.text.secondary, fontWeight: '500' },
+  chipTextActive: { color: COLORS.white },
+  centered: { flex: 1, justifyContent: 'center', alignItems: 'center', paddingHorizontal: 40, gap: 12 },
+  mutedText: { fontSize: 14, color: COLORS.text.secondary, textAlign: 'center' },
+  retryButton: { backgroundColor: COLORS.primary, paddingHorizontal: 24, paddingVertical: 12, borderRadius: 12 },
+  retryButtonText: { color: COLORS.white, fontSize: 16, fontWeight: '600' },
+  board: { padding: BOARD_PADDING, paddingTop: 0, gap: COLUMN_GAP },
+  column: {
+    width: COLUMN_WIDTH, backgroundColor: COLORS.column, borderRadius: 14,
+    borderWidth: 2, borderColor: 'transparent', paddingTop: 12,
+  },
+  columnHeader: { flexDirection: 'row', alignItems: 'center', paddingHorizontal: 12, marginBottom: 8 },
+  stateDot: { width: 10, height: 10, borderRadius: 5, marginRight: 8 },
+  columnTitle: { flex: 1, fontSize: 15, fontWeight: 'bold', color: COLORS.text.primary },
+  columnCount: { fontSize: 13, fontWeight: '600', color: COLORS.text.secondary },
+  columnContent: { paddingHorizontal: 10, paddingBottom: 12, flexGrow: 1 },
+  emptyColumn: { fontSize: 13, color: COLORS.text.muted, textAlign: 'center', paddingVertical: 24 },
+  card: {
+    backgroundColor: COLORS.white, borderRadius: 12, padding: 12, marginBottom: 10,
+    ...Platform.select({
+      ios: { shadowColor: '#000', shadowOffset: { width: 0, height: 1 }, shadowOpacity: 0.06, shadowRadius: 4 },
+      android: { elevation: 1 },
+    }),
+  },
+  cardMoving: { opacity: 0.6 },
+  cardDragging: {
+    width: COLUMN_WIDTH - 20,
+    ...Platform.select({
+      ios: { shadowColor: '#000', shadowOffset: { width: 0, height: 8 }, shadowOpacity: 0.25, shadowRadius: 12 },
+      android: { elevation: 12 },
+    }),
+  },
+  cardHeader: { flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center', marginBottom: 6 },
+  cardNumber: { fontSize: 14, fontWeight: 'bold', color: COLORS.text.primary },
+  priorityBadge: { paddingHorizontal: 8, paddingVertical: 3, borderRadius: 6 },
+  priorityText: { color: 'white', fontSize: 10, fontWeight: 'bold' },
+  cardTitle: { fontSize: 13, color: COLORS.text.secondary, marginBottom: 8 },
+  assigneeRow: { flexDirection: 'row', alignItems: 'center', gap: 6, marginBottom: 4 },
+  assigneeText: { flex: 1, fontSize: 12, color: COLORS.text.secondary },
+  dragOverlay: { position: 'absolute', top: 0, left: 0 },
+});
+
+export default BoardScreen;
@@ -3,6 +3,7 @@ import { View, Text, StyleSheet, TouchableOpacity, TextInput, ScrollView, Alert,
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { useRouter } from 'expo-router';
 import { changePassword } from '@/src/api/user';
+import { PASSWORD_MIN_LENGTH, isPasswordValid } from '@/src/utils/passwordPolicy';
 
 const PasswordInput = ({ label, value, onChangeText }) => (
     <View style={styles.inputContainer}>
@@ -33,6 +34,10 @@ const ChangePasswordScreen = () => {
         Alert.alert('Error', 'Please fill out all fields.');
         return;
     }
+    if (!isPasswordValid(newPassword)) {
+        Alert.alert('Error', 'New password does not meet the password security rules.');
+        return;
+    }
     setLoading(true);
     const response = await changePassword({ current_password: currentPassword, new_password: newPassword });
     setLoading(false);
@@ -56,7 +61,7 @@ const ChangePasswordScreen = () => {
 
                 <View style={styles.securityInfo}>
                     <Text style={styles.securityTitle}>Password security</Text>
-                    <Text style={styles.securityText}>Password minimum length: <Text style={{fontWeight: 'bold'}}>8</Text></Text>
+                    <Text style={styles.securityText}>Password minimum length: <Text style={{fontWeight: 'bold'}}>{PASSWORD_MIN_LENGTH}</Text></Text>
                     <Text style={styles.securityText}>Password must contains: <Text style={{color: '#E74C3C'}}>Digit, Lowercase, Symbol</Text></Text>
                 </View>
             </View>
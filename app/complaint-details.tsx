@@ -5,9 +5,14 @@ import { Image } from 'expo-image';
 import { useRouter, useLocalSearchParams, useFocusEffect, Stack } from 'expo-router';
 import { Ionicons } from '@expo/vector-icons';
 import { AuthenticatedImageViewer } from '@/src/components/AuthenticatedImageViewer';
+import { CommentThread } from '@/src/components/CommentThread';
+import { ReportDownloadButton } from '@/src/components/ReportDownloadButton';
+import { SlaSection } from '@/src/components/SlaSection';
+import { usePermissions } from '@/src/hooks/usePermissions';
 import { useTranslation } from 'react-i18next';
 import { Audio } from 'expo-av';
-import { getIncidentById, getAvailableTransitions } from '@/src/api/incidents';
+import { getRecord, getAvailableTransitions } from '@/src/api/records';
+import { Attachment, AvailableTransition, Incident } from '@/src/api/models';
 import { baseURL } from '@/src/api/client';
 import * as SecureStore from 'expo-secure-store';
 import { downloadAndOpenAttachment } from '@/src/utils/attachmentDownload';
@@ -63,10 +68,11 @@ const SectionHeader = ({ title, icon }: { title: string; icon: string }) => (
 const ComplaintDetailsScreen = () => {
   const { t } = useTranslation();
   const router = useRouter();
+  const { canAccessRoute } = usePermissions();
   const { id } = useLocalSearchParams();
-  const [complaint, setComplaint] = useState<any>(null);
-  const [availableTransitions, setAvailableTransitions] = useState<any[]>([]);
-  const [attachments, setAttachments] = useState<any[]>([]);
+  const [complaint, setComplaint] = useState<Incident | null>(null);
+  const [availableTransitions, setAvailableTransitions] = useState<AvailableTransition[]>([]);
+  const [attachments, setAttachments] = useState<Attachment[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState('');
   const [token, setToken] = useState<string | null>(null);
@@ -95,7 +101,7 @@ const ComplaintDetailsScreen = () => {
 
     setLoading(true);
     const [detailsResponse, transitionsResponse] = await Promise.all([
-      getIncidentById(complaintId),
+      getRecord(complaintId),
       getAvailableTransitions(complaintId),
     ]);
 
@@ -194,7 +200,7 @@ const ComplaintDetailsScreen = () => {
     );
   }
 
-  const config = priorityConfig[complaint.priority] || { key: 'unknown', color: COLORS.text.muted };
+  const config = priorityConfig[complaint.priority ?? 0] || { key: 'unknown', color: COLORS.text.muted };
   const priorityText = t(`priorities.${config.key}`, config.key);
 
   return (
@@ -209,7 +215,16 @@ const ComplaintDetailsScreen = () => {
           <Text style={styles.headerTitle}>{complaint.incident_number}</Text>
           <Text style={styles.headerSubtitle}>{t('details.complaint')}</Text>
         </View>
-        <View style={{ width: 40 }} />
+        {canAccessRoute('edit-record', { type: 'complaint' }) && (
+          <TouchableOpacity
+            style={[styles.backButton, styles.editButton]}
+            onPress={() => router.push({ pathname: '/edit-record', params: { id: complaint.id, type: 'complaint' } })}
+            accessibilityLabel={t('editRecord.title')}
+          >
+            <Ionicons name="create-outline" size={22} color={COLORS.white} />
+          </TouchableOpacity>
+        )}
+        <ReportDownloadButton recordId={id as string} recordNumber={complaint.incident_number} />
       </ImageBackground>
 
       <ScrollView style={styles.container} showsVerticalScrollIndicator={false}>
@@ -237,6 +252,8 @@ const ComplaintDetailsScreen = () => {
           </View>
         </View>
 
+        <SlaSection record={complaint} />
+
         {/* Details Card */}
         <View style={styles.card}>
           <SectionHeader title={t('complaints.title')} icon="information-circle" />
@@ -279,28 +296,7 @@ const ComplaintDetailsScreen = () => {
 
         {/* Comments Card */}
         <View style={styles.card}>
-          <SectionHeader title={t('details.comments')} icon="chatbubbles" />
-          {complaint.comments && complaint.comments.length > 0 ? (
-            complaint.comments.map((comment: any) => (
-              <View style={styles.commentItem} key={comment.id}>
-                <View style={styles.commentHeader}>
-                  <View style={[styles.commentAvatar, { backgroundColor: COLORS.accent }]}>
-                    <Text style={styles.commentAvatarText}>{comment.author.username[0]}</Text>
-                  </View>
-                  <View style={styles.commentMeta}>
-                    <Text style={styles.commentAuthor}>{comment.author.username}</Text>
-                    <Text style={styles.commentDate}>{new Date(comment.created_at).toLocaleString()}</Text>
-                  </View>
-                </View>
-                <Text style={styles.commentContent}>{comment.content}</Text>
-              </View>
-            ))
-          ) : (
-            <View style={styles.emptyState}>
-              <Ionicons name="chatbubble-outline" size={32} color={COLORS.text.muted} />
-              <Text style={styles.emptyStateText}>{t('details.noComments')}</Text>
-            </View>
-          )}
+          <CommentThread recordId={id as string} recordType="complaint" initialComments={complaint.comments} />
         </View>
 
         {/* Attachments Card */}
@@ -401,24 +397,24 @@ const ComplaintDetailsScreen = () => {
           <SectionHeader title={t('details.transitionHistory')} icon="git-compare" />
           {complaint.transition_history && complaint.transition_history.length > 0 ? (
             <View style={styles.timeline}>
-              {complaint.transition_history.map((item: any, index: number) => (
+              {complaint.transition_history.map((item, index) => (
                 <View key={item.id} style={styles.timelineItem}>
                   <View style={styles.timelineLeft}>
                     <View style={[styles.timelineDot, { backgroundColor: COLORS.accent }]} />
-                    {index < complaint.transition_history.length - 1 && <View style={styles.timelineLine} />}
+                    {index < complaint.transition_history!.length - 1 && <View style={styles.timelineLine} />}
                   </View>
                   <View style={styles.timelineContent}>
                     <View style={styles.transitionBadges}>
                       <View style={styles.fromBadge}>
-                        <Text style={styles.fromBadgeText}>{item.from_state.name}</Text>
+                        <Text style={styles.fromBadgeText}>{item.from_state?.name}</Text>
                       </View>
                       <Ionicons name="arrow-forward" size={14} color={COLORS.text.muted} />
                       <View style={[styles.toBadge, { backgroundColor: COLORS.accentLight }]}>
-                        <Text style={[styles.toBadgeText, { color: COLORS.accent }]}>{item.to_state.name}</Text>
+                        <Text style={[styles.toBadgeText, { color: COLORS.accent }]}>{item.to_state?.name}</Text>
                       </View>
                     </View>
                     <Text style={styles.transitionMeta}>
-                      {t('details.by')} {item.performed_by.username} • {new Date(item.transitioned_at).toLocaleDateString()}
+                      {t('details.by')} {item.performed_by?.username} • {new Date(item.transitioned_at).toLocaleDateString()}
                     </Text>
                     {item.comment && (
                       <View style={styles.transitionComment}>
@@ -494,6 +490,7 @@ const styles = StyleSheet.create({
     width: 40, height: 40, borderRadius: 20,
     backgroundColor: 'rgba(255,255,255,0.15)', justifyContent: 'center', alignItems: 'center',
   },
+  editButton: { marginRight: 8 },
   headerCenter: { flex: 1, alignItems: 'center' },
   headerTitle: { color: COLORS.white, fontSize: 18, fontWeight: 'bold' },
   headerSubtitle: { color: 'rgba(255,255,255,0.7)', fontSize: 12, marginTop: 2 },
@@ -539,15 +536,6 @@ const styles = StyleSheet.create({
 
   descriptionText: { fontSize: 14, color: COLORS.text.secondary, lineHeight: 22 },
 
-  commentItem: { backgroundColor: COLORS.background, borderRadius: 12, padding: 12, marginBottom: 10 },
-  commentHeader: { flexDirection: 'row', alignItems: 'center', marginBottom: 8 },
-  commentAvatar: { width: 32, height: 32, borderRadius: 16, justifyContent: 'center', alignItems: 'center' },
-  commentAvatarText: { color: COLORS.white, fontSize: 13, fontWeight: 'bold' },
-  commentMeta: { marginLeft: 10 },
-  commentAuthor: { fontSize: 13, fontWeight: '600', color: COLORS.text.primary },
-  commentDate: { fontSize: 11, color: COLORS.text.muted },
-  commentContent: { fontSize: 14, color: COLORS.text.secondary, lineHeight: 20 },
-
   emptyState: { alignItems: 'center', paddingVertical: 24 },
   emptyStateText: { fontSize: 14, color: COLORS.text.muted, marginTop: 8 },
 
@@ -0,0 +1,372 @@
+import { getLookupCategories } from '@/src/api/lookups';
+import { Incident, LookupCategory, RecordType } from '@/src/api/models';
+import { getRecord, updateRecord } from '@/src/api/records';
+import { DynamicLookupField } from '@/src/components/DynamicLookupField';
+import LocationPicker from '@/src/components/LocationPickerOSM';
+import { TICKET_FORMS } from '@/src/constants/ticketForms';
+import { recordTypeOf } from '@/src/utils/inbox';
+import {
+  buildEditPayload,
+  changedFields,
+  EDIT_FIELDS,
+  EditField,
+  editValuesOf,
+  rebaseEdits,
+  RecordEditValues,
+  validateRecordEdit,
+} from '@/src/utils/recordEdit';
+import { getFieldLabel } from '@/src/utils/ticketForm';
+import { Ionicons } from '@expo/vector-icons';
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import React, { useCallback, useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import {
+  ActivityIndicator,
+  Alert,
+  ImageBackground,
+  KeyboardAvoidingView,
+  Platform,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+
+const COLORS = {
+  primary: '#1A237E',
+  background: '#F8F9FA',
+  white: '#FFFFFF',
+  border: '#E0E0E0',
+  error: '#E74C3C',
+  warning: { bg: '#FEF3C7', border: '#F59E0B', text: '#92400E' },
+  text: {
+    primary: '#333333',
+    secondary: '#666666',
+  },
+};
+
+type TextField = 'title' | 'description' | 'reporter_name' | 'reporter_email';
+
+// The record as loaded and the form values that go with it
+interface EditBase {
+  record: Incident;
+  // Version the edits are checked against when saving
+  version: number;
+  values: RecordEditValues;
+}
+
+const EditRecordScreen = () => {
+  const { t } = useTranslation();
+  const router = useRouter();
+  const params = useLocalSearchParams<{ id: string; type?: string }>();
+  const recordId = params.id;
+
+  const [base, setBase] = useState<EditBase | null>(null);
+  const [values, setValues] = useState<RecordEditValues | null>(null);
+  const [categories, setCategories] = useState<LookupCategory[]>([]);
+  const [errors, setErrors] = useState<Partial<Record<EditField, string>>>({});
+  // Fields someone else changed as well; their values are in base
+  const [conflicts, setConflicts] = useState<EditField[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [loadError, setLoadError] = useState('');
+
+  const recordType: RecordType = base
+    ? recordTypeOf(base.record)
+    : (Object.keys(TICKET_FORMS) as RecordType[]).find(type => type === params.type) ?? 'incident';
+  const accent = TICKET_FORMS[recordType].accentColor;
+  const changed = base && values ? changedFields(base.values, values) : [];
+
+  // The record as the server has it now, with the lookup categories the ticket forms ask for plus any it has answers in
+  const loadLatest = useCallback(async (): Promise<EditBase | string> => {
+    const [recordRes, lookupRes] = await Promise.all([getRecord(recordId), getLookupCategories()]);
+    if (!recordRes.success) return recordRes.error;
+
+    const record = recordRes.data;
+    // Without a version a save could silently overwrite someone else's changes
+    if (record.version === undefined) return t('errors.noVersion');
+
+    const answeredIds = new Set((record.lookup_values || []).map(value => value.category_id));
+    const editable = lookupRes.success
+      ? lookupRes.data.filter(cat => cat.is_active && (cat.add_to_incident_form || answeredIds.has(cat.id)))
+      : [];
+    setCategories(editable);
+    return { record, version: record.version, values: editValuesOf(record, editable) };
+  }, [recordId, t]);
+
+  useEffect(() => {
+    loadLatest().then(result => {
+      if (typeof result === 'string') {
+        setLoadError(result);
+      } else {
+        setBase(result);
+        setValues(result.values);
+      }
+      setLoading(false);
+    });
+  }, [loadLatest]);
+
+  const fieldLabel = (field: EditField) =>
+    field === 'lookups' ? t('editRecord.lookups') : getFieldLabel(field);
+
+  const setField = <K extends EditField>(field: K, value: RecordEditValues[K]) => {
+    setValues(prev => (prev ? { ...prev, [field]: value } : prev));
+    setErrors(prev => ({ ...prev, [field]: undefined }));
+  };
+
+  const handleLookupChange = (categoryId: string, value: any) => {
+    if (!values) return;
+    const lookups = { ...values.lookups };
+    if (value === undefined || value === null || value === '' || (Array.isArray(value) && value.length === 0)) {
+      delete lookups[categoryId];
+    } else {
+      lookups[categoryId] = value;
+    }
+    setField('lookups', lookups);
+  };
+
+  // Someone saved in between: keep the user's edits on top of their version and point out the overlaps
+  const handleConflict = async () => {
+    if (!base || !values) return;
+    const latest = await loadLatest();
+    if (typeof latest === 'string') {
+      Alert.alert(t('common.error'), latest);
+      return;
+    }
+
+    const merged = rebaseEdits(base.values, values, latest.values);
+    setBase(latest);
+    setValues(merged.values);
+    setConflicts(merged.conflicts);
+    Alert.alert(
+      t('common.conflictDetected', 'Conflict Detected'),
+      merged.conflicts.length > 0
+        ? t('editRecord.conflictOverlap', { fields: merged.conflicts.map(fieldLabel).join(', ') })
+        : t('editRecord.conflictMerged')
+    );
+  };
+
+  const handleSave = async () => {
+    if (!base || !values || changed.length === 0) return;
+    const validationErrors = validateRecordEdit(values);
+    setErrors(validationErrors);
+    if (Object.keys(validationErrors).length > 0) return;
+
+    setSaving(true);
+    const response = await updateRecord(
+      base.record.id,
+      buildEditPayload(values, changed, categories),
+      base.version
+    );
+    setSaving(false);
+
+    if (response.success) {
+      Alert.alert(t('common.success'), t('editRecord.saved'), [
+        { text: t('common.ok'), onPress: () => router.back() },
+      ]);
+    } else if (response.isConflict) {
+      handleConflict();
+    } else {
+      Alert.alert(t('common.error'), `${t('editRecord.saveFailed')}: ${response.error}`);
+    }
+  };
+
+  const handleBack = () => {
+    if (changed.length === 0) {
+      router.back();
+      return;
+    }
+    Alert.alert(t('editRecord.discardTitle'), t('editRecord.discardMessage'), [
+      { text: t('common.cancel'), style: 'cancel' },
+      { text: t('editRecord.discard'), style: 'destructive', onPress: () => router.back() },
+    ]);
+  };
+
+  const renderConflict = (field: EditField) => {
+    if (!conflicts.includes(field) || !base) return null;
+    return (
+      <View style={styles.conflictBanner}>
+        <Ionicons name="warning-outline" size={16} color={COLORS.warning.text} />
+        <Text style={styles.conflictText}>{t('editRecord.changedByOther')}</Text>
+        <TouchableOpacity
+          onPress={() => {
+            setField(field, base.values[field]);
+            setConflicts(prev => prev.filter(item => item !== field));
+          }}
+        >
+          <Text style={[styles.conflictAction, { color: accent }]}>{t('editRecord.useTheirs')}</Text>
+        </TouchableOpacity>
+      </View>
+    );
+  };
+
+  const renderTextField = (field: TextField) => {
+    if (!values) return null;
+    const multiline = field === 'description';
+    return (
+      <View key={field}>
+        <Text style={styles.label}>
+          {fieldLabel(field)} {field === 'title' && <Text style={styles.required}>*</Text>}
+        </Text>
+        {renderConflict(field)}
+        <TextInput
+          style={[styles.input, multiline && styles.multilineInput, errors[field] && styles.inputError]}
+          value={values[field]}
+          onChangeText={text => setField(field, text)}
+          placeholder={fieldLabel(field)}
+          placeholderTextColor="#999"
+          multiline={multiline}
+          textAlignVertical={multiline ? 'top' : undefined}
+          keyboardType={field === 'reporter_email' ? 'email-address' : 'default'}
+          autoCapitalize={field === 'reporter_email' ? 'none' : 'sentences'}
+        />
+        {errors[field] && <Text style={styles.errorText}>{errors[field]}</Text>}
+      </View>
+    );
+  };
+
+  const renderField = (field: EditField) => {
+    if (!values) return null;
+    switch (field) {
+      case 'geolocation':
+        return (
+          <View key={field}>
+            {renderConflict(field)}
+            <LocationPicker
+              label={fieldLabel(field)}
+              value={values.geolocation}
+              onChange={next => setField('geolocation', next)}
+            />
+          </View>
+        );
+      case 'lookups':
+        if (categories.length === 0) return null;
+        return (
+          <View key={field}>
+            <Text style={styles.sectionTitle}>{fieldLabel(field)}</Text>
+            {renderConflict(field)}
+            {categories.map(category => (
+              <DynamicLookupField
+                key={category.id}
+                category={category}
+                value={values.lookups[category.id]}
+                onChange={handleLookupChange}
+              />
+            ))}
+          </View>
+        );
+      default:
+        return renderTextField(field);
+    }
+  };
+
+  const renderBody = () => {
+    if (loading) {
+      return (
+        <View style={styles.centered}>
+          <ActivityIndicator size="large" color={accent} />
+        </View>
+      );
+    }
+    if (!base || !values) {
+      return (
+        <View style={styles.centered}>
+          <Ionicons name="alert-circle-outline" size={64} color={COLORS.error} />
+          <Text style={styles.errorMessage}>{loadError || t('details.fetchError')}</Text>
+          <TouchableOpacity style={[styles.saveButton, { backgroundColor: accent }]} onPress={() => router.back()}>
+            <Text style={styles.saveButtonText}>{t('common.back')}</Text>
+          </TouchableOpacity>
+        </View>
+      );
+    }
+
+    return (
+      <>
+        <ScrollView style={styles.form} contentContainerStyle={styles.formContent} keyboardShouldPersistTaps="handled">
+          {EDIT_FIELDS.map(renderField)}
+        </ScrollView>
+        <View style={styles.footer}>
+          <TouchableOpacity
+            style={[styles.saveButton, { backgroundColor: accent }, (saving || changed.length === 0) && styles.disabledButton]}
+            onPress={handleSave}
+            disabled={saving || changed.length === 0}
+          >
+            {saving ? (
+              <ActivityIndicator color={COLORS.white} />
+            ) : (
+              <Text style={styles.saveButtonText}>
+                {changed.length > 0 ? t('editRecord.saveChanges', { count: changed.length }) : t('editRecord.noChanges')}
+              </Text>
+            )}
+          </TouchableOpacity>
+        </View>
+      </>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.safeArea}>
+      <ImageBackground source={require('@/assets/images/background.png')} style={styles.header}>
+        <TouchableOpacity style={styles.headerIcon} onPress={handleBack}>
+          <Ionicons name="chevron-back" size={24} color={COLORS.white} />
+        </TouchableOpacity>
+        <View style={styles.headerCenter}>
+          <Text style={styles.headerTitle}>{base?.record.incident_number ?? ''}</Text>
+          <Text style={styles.headerSubtitle}>{t('editRecord.title')}</Text>
+        </View>
+        <View style={styles.headerIcon} />
+      </ImageBackground>
+      <KeyboardAvoidingView
+        style={styles.content}
+        behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+      >
+        {renderBody()}
+      </KeyboardAvoidingView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  safeArea: { flex: 1, backgroundColor: COLORS.primary },
+  header: {
+    paddingHorizontal: 16, paddingTop: 16, paddingBottom: 20,
+    flexDirection: 'row', alignItems: 'center',
+  },
+  headerIcon: {
+    width: 40, height: 40, borderRadius: 20,
+    backgroundColor: 'rgba(255,255,255,0.15)', justifyContent: 'center', alignItems: 'center',
+  },
+  headerCenter: { flex: 1, alignItems: 'center' },
+  headerTitle: { color: COLORS.white, fontSize: 18, fontWeight: 'bold' },
+  headerSubtitle: { color: 'rgba(255,255,255,0.8)', fontSize: 12, marginTop: 2 },
+  content: { flex: 1, backgroundColor: COLORS.background },
+  centered: { flex: 1, justifyContent: 'center', alignItems: 'center', paddingHorizontal: 40, gap: 16 },
+  errorMessage: { fontSize: 15, color: COLORS.text.secondary, textAlign: 'center' },
+  form: { flex: 1 },
+  formContent: { padding: 20, paddingBottom: 40 },
+  sectionTitle: { fontSize: 16, fontWeight: 'bold', color: COLORS.text.primary, marginBottom: 12 },
+  label: { fontSize: 14, fontWeight: '600', marginBottom: 8, color: COLORS.text.primary },
+  required: { color: COLORS.error },
+  input: {
+    backgroundColor: COLORS.white, borderRadius: 10, padding: 15, fontSize: 16, marginBottom: 20,
+    borderWidth: 1, borderColor: COLORS.border, color: COLORS.text.primary,
+  },
+  multilineInput: { height: 120 },
+  inputError: { borderColor: COLORS.error },
+  errorText: { color: COLORS.error, fontSize: 12, marginTop: -14, marginBottom: 16 },
+  conflictBanner: {
+    flexDirection: 'row', alignItems: 'center', gap: 8, padding: 10, marginBottom: 10,
+    borderRadius: 8, borderWidth: 1, backgroundColor: COLORS.warning.bg, borderColor: COLORS.warning.border,
+  },
+  conflictText: { flex: 1, fontSize: 13, color: COLORS.warning.text },
+  conflictAction: { fontSize: 13, fontWeight: 'bold' },
+  footer: { padding: 20, backgroundColor: COLORS.white, borderTopWidth: 1, borderTopColor: '#EEE' },
+  saveButton: { paddingVertical: 16, paddingHorizontal: 32, borderRadius: 12, alignItems: 'center' },
+  saveButtonText: { color: COLORS.white, fontSize: 16, fontWeight: 'bold' },
+  disabledButton: { opacity: 0.5 },
+});
+
+export default EditRecordScreen;
@@ -1,32 +1,326 @@
-import { View, Text, StyleSheet, TextInput, TouchableOpacity } from 'react-native';
-import React from 'react';
+import { View, Text, StyleSheet, TextInput, TouchableOpacity, Pressable, ActivityIndicator, Alert, ScrollView, KeyboardAvoidingView, Platform } from 'react-native';
+import React, { useState } from 'react';
 import { useRouter } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { useTranslation } from 'react-i18next';
+import { requestPasswordReset, verifyPasswordResetCode, resetPassword, ResetChannel } from '@/src/api/auth';
+import { useCountdown } from '@/src/hooks/useCountdown';
+import { PASSWORD_MIN_LENGTH, PASSWORD_RULES, getUnmetPasswordRules } from '@/src/utils/passwordPolicy';
+
+type Step = 'request' | 'verify' | 'reset';
+
+const CODE_LENGTH = 6;
+const DEFAULT_CODE_EXPIRY_SECONDS = 600;
+const DEFAULT_RESEND_SECONDS = 60;
 
 const ForgotPasswordScreen = () => {
+  const { t } = useTranslation();
   const router = useRouter();
+  const [step, setStep] = useState<Step>('request');
+  const [channel, setChannel] = useState<ResetChannel>('email');
+  const [identifier, setIdentifier] = useState('');
+  const [destination, setDestination] = useState('');
+  const [resetToken, setResetToken] = useState('');
+  const [code, setCode] = useState('');
+  const [newPassword, setNewPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [showPassword, setShowPassword] = useState(false);
+  const [expiresAt, setExpiresAt] = useState<number | null>(null);
+  const [resendAt, setResendAt] = useState<number | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  const expiresIn = useCountdown(expiresAt);
+  const resendIn = useCountdown(resendAt);
+  const isCodeExpired = step === 'verify' && !!expiresAt && expiresIn <= 0;
+  const unmetRules = getUnmetPasswordRules(newPassword);
+
+  const sendCode = async () => {
+    setLoading(true);
+    setError('');
+    const response = await requestPasswordReset(channel, identifier);
+    setLoading(false);
 
-  const handleSubmit = () => {
-    // TODO: Implement email submission logic
-    router.push('/otp');
+    if (!response.success) {
+      setError(response.error || t('forgotPassword.requestFailed'));
+      return false;
+    }
+
+    const data = response.data || {};
+    const now = Date.now();
+    setResetToken(data.reset_token);
+    setDestination(data.destination || identifier.trim());
+    setExpiresAt(now + (data.expires_in ?? DEFAULT_CODE_EXPIRY_SECONDS) * 1000);
+    setResendAt(now + (data.resend_after ?? DEFAULT_RESEND_SECONDS) * 1000);
+    setCode('');
+    return true;
   };
 
-  return (
-    <View style={styles.container}>
-      <View style={styles.inputContainer}>
-        <Text style={styles.inputLabel}>Enter your email</Text>
-        <TextInput
-          style={styles.textInput}
-          placeholder="p.jigar@leadergroup.com"
-          placeholderTextColor="#999"
-          keyboardType="email-address"
-          autoCapitalize="none"
-        />
+  const handleRequest = async () => {
+    if (!identifier.trim()) {
+      setError(channel === 'email' ? t('forgotPassword.emailRequired') : t('forgotPassword.phoneRequired'));
+      return;
+    }
+    if (await sendCode()) {
+      setStep('verify');
+    }
+  };
+
+  const handleResend = async () => {
+    if (resendIn > 0 || loading) return;
+    if (await sendCode()) {
+      Alert.alert(t('common.success'), t('forgotPassword.codeResent'));
+    }
+  };
+
+  const handleVerify = async () => {
+    if (code.length !== CODE_LENGTH || isCodeExpired) return;
+
+    setLoading(true);
+    setError('');
+    const response = await verifyPasswordResetCode(resetToken, code);
+    setLoading(false);
+
+    if (!response.success) {
+      setError(response.error || t('forgotPassword.invalidCode'));
+      return;
+    }
+
+    // The server may swap the request token for one that is only valid for setting the password
+    if (response.data?.reset_token) {
+      setResetToken(response.data.reset_token);
+    }
+    setStep('reset');
+  };
+
+  const handleReset = async () => {
+    if (unmetRules.length > 0) {
+      setError(t('forgotPassword.passwordTooWeak'));
+      return;
+    }
+    if (newPassword !== confirmPassword) {
+      setError(t('forgotPassword.passwordMismatch'));
+      return;
+    }
+
+    setLoading(true);
+    setError('');
+    const response = await resetPassword(resetToken, newPassword);
+    setLoading(false);
+
+    if (!response.success) {
+      setError(response.error || t('forgotPassword.resetFailed'));
+      return;
+    }
+
+    Alert.alert(t('common.success'), t('forgotPassword.resetSuccess'), [
+      { text: t('common.ok'), onPress: () => router.replace('/login') },
+    ]);
+  };
+
+  const handleChangeDestination = () => {
+    setStep('request');
+    setCode('');
+    setError('');
+    setExpiresAt(null);
+    setResendAt(null);
+  };
+
+  const formatSeconds = (seconds: number) =>
+    `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+
+  const renderError = () =>
+    error ? (
+      <View style={styles.errorContainer}>
+        <Ionicons name="alert-circle" size={18} color="#E74C3C" />
+        <Text style={styles.errorText}>{error}</Text>
       </View>
+    ) : null;
+
+  const renderSubmit = (label: string, onPress: () => void, disabled: boolean) => (
+    <TouchableOpacity
+      style={[styles.submitButton, (disabled || loading) && styles.disabledButton]}
+      onPress={onPress}
+      disabled={disabled || loading}
+    >
+      {loading ? <ActivityIndicator color="#fff" /> : <Text style={styles.submitButtonText}>{label}</Text>}
+    </TouchableOpacity>
+  );
+
+  return (
+    <KeyboardAvoidingView
+      behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+      style={styles.container}
+    >
+      <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+        {step === 'request' && (
+          <>
+            <Text style={styles.instructions}>{t('forgotPassword.requestInstructions')}</Text>
+
+            <View style={styles.channelToggle}>
+              {(['email', 'phone'] as ResetChannel[]).map(option => (
+                <TouchableOpacity
+                  key={option}
+                  style={[styles.channelOption, channel === option && styles.channelOptionActive]}
+                  onPress={() => {
+                    setChannel(option);
+                    setIdentifier('');
+                    setError('');
+                  }}
+                >
+                  <Ionicons
+                    name={option === 'email' ? 'mail-outline' : 'call-outline'}
+                    size={16}
+                    color={channel === option ? '#fff' : '#666'}
+                  />
+                  <Text style={[styles.channelText, channel === option && styles.channelTextActive]}>
+                    {t(`forgotPassword.${option}`)}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+
+            <View style={styles.inputContainer}>
+              <Text style={styles.inputLabel}>
+                {channel === 'email' ? t('forgotPassword.enterEmail') : t('forgotPassword.enterPhone')}
+              </Text>
+              <TextInput
+                style={styles.textInput}
+                value={identifier}
+                onChangeText={setIdentifier}
+                placeholder={channel === 'email' ? 'user@example.com' : '+971 50 000 0000'}
+                placeholderTextColor="#999"
+                keyboardType={channel === 'email' ? 'email-address' : 'phone-pad'}
+                autoCapitalize="none"
+                autoCorrect={false}
+              />
+            </View>
+
+            {renderError()}
+            {renderSubmit(t('forgotPassword.sendCode'), handleRequest, !identifier.trim())}
+          </>
+        )}
+
+        {step === 'verify' && (
+          <>
+            <Text style={styles.instructions}>{t('forgotPassword.verifyInstructions', { destination })}</Text>
+
+            <TextInput
+              style={styles.codeInput}
+              value={code}
+              onChangeText={text => {
+                setCode(text.replace(/\D/g, '').slice(0, CODE_LENGTH));
+                setError('');
+              }}
+              keyboardType="number-pad"
+              textContentType="oneTimeCode"
+              autoComplete="sms-otp"
+              maxLength={CODE_LENGTH}
+              placeholder={'•'.repeat(CODE_LENGTH)}
+              placeholderTextColor="#ccc"
+              autoFocus
+            />
+
+            <View style={styles.statusRow}>
+              <Ionicons
+                name={isCodeExpired ? 'alert-circle-outline' : 'time-outline'}
+                size={16}
+                color={isCodeExpired ? '#E74C3C' : '#666'}
+              />
+              <Text style={[styles.statusText, isCodeExpired && styles.statusTextError]}>
+                {isCodeExpired
+                  ? t('forgotPassword.codeExpired')
+                  : t('forgotPassword.codeExpiresIn', { time: formatSeconds(expiresIn) })}
+              </Text>
+            </View>
+
+            {renderError()}
+            {renderSubmit(t('forgotPassword.verifyCode'), handleVerify, code.length !== CODE_LENGTH || isCodeExpired)}
+
+            <View style={styles.linkRow}>
+              <Text style={styles.linkHint}>{t('otp.noCode')}</Text>
+              {resendIn > 0 ? (
+                <Text style={styles.linkDisabled}>{t('otp.resendIn', { time: formatSeconds(resendIn) })}</Text>
+              ) : (
+                <Pressable onPress={handleResend} disabled={loading}>
+                  <Text style={styles.link}>{t('otp.resend')}</Text>
+                </Pressable>
+              )}
+            </View>
+            <Pressable onPress={handleChangeDestination} style={styles.secondaryLink}>
+              <Text style={styles.secondaryLinkText}>
+                {channel === 'email' ? t('forgotPassword.changeEmail') : t('forgotPassword.changePhone')}
+              </Text>
+            </Pressable>
+          </>
+        )}
+
+        {step === 'reset' && (
+          <>
+            <Text style={styles.instructions}>{t('forgotPassword.resetInstructions')}</Text>
+
+            <View style={styles.inputContainer}>
+              <Text style={styles.inputLabel}>{t('forgotPassword.newPassword')}</Text>
+              <View style={styles.passwordRow}>
+                <TextInput
+                  style={[styles.textInput, styles.passwordInput]}
+                  value={newPassword}
+                  onChangeText={text => {
+                    setNewPassword(text);
+                    setError('');
+                  }}
+                  secureTextEntry={!showPassword}
+                  autoCapitalize="none"
+                />
+                <TouchableOpacity onPress={() => setShowPassword(!showPassword)} style={styles.eyeButton}>
+                  <Ionicons name={showPassword ? 'eye-off-outline' : 'eye-outline'} size={20} color="#666" />
+                </TouchableOpacity>
+              </View>
+            </View>
+
+            <View style={styles.inputContainer}>
+              <Text style={styles.inputLabel}>{t('forgotPassword.confirmPassword')}</Text>
+              <TextInput
+                style={styles.textInput}
+                value={confirmPassword}
+                onChangeText={text => {
+                  setConfirmPassword(text);
+                  setError('');
+                }}
+                secureTextEntry={!showPassword}
+                autoCapitalize="none"
+              />
+            </View>
+
+            <View style={styles.rulesContainer}>
+              <Text style={styles.rulesTitle}>{t('forgotPassword.passwordRules')}</Text>
+              {PASSWORD_RULES.map(rule => {
+                const met = newPassword.length > 0 && !unmetRules.includes(rule);
+                return (
+                  <View key={rule} style={styles.ruleRow}>
+                    <Ionicons
+                      name={met ? 'checkmark-circle' : 'ellipse-outline'}
+                      size={16}
+                      color={met ? '#2EC4B6' : '#999'}
+                    />
+                    <Text style={[styles.ruleText, met && styles.ruleTextMet]}>
+                      {t(`forgotPassword.rules.${rule}`, { count: PASSWORD_MIN_LENGTH })}
+                    </Text>
+                  </View>
+                );
+              })}
+            </View>
 
-      <TouchableOpacity style={styles.submitButton} onPress={handleSubmit}>
-        <Text style={styles.submitButtonText}>SUBMIT</Text>
-      </TouchableOpacity>
-    </View>
+            {renderError()}
+            {renderSubmit(
+              t('forgotPassword.resetPassword'),
+              handleReset,
+              unmetRules.length > 0 || newPassword !== confirmPassword
+            )}
+          </>
+        )}
+      </ScrollView>
+    </KeyboardAvoidingView>
   );
 };
 
@@ -34,8 +328,44 @@ const styles = StyleSheet.create({
   container: {
     flex: 1,
     backgroundColor: '#fff',
+  },
+  content: {
     paddingHorizontal: 20,
     paddingTop: 20,
+    paddingBottom: 40,
+  },
+  instructions: {
+    fontSize: 16,
+    color: '#666',
+    textAlign: 'center',
+    marginBottom: 24,
+  },
+  channelToggle: {
+    flexDirection: 'row',
+    borderWidth: 1,
+    borderColor: '#ccc',
+    borderRadius: 8,
+    overflow: 'hidden',
+    marginBottom: 20,
+  },
+  channelOption: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 6,
+    paddingVertical: 12,
+  },
+  channelOptionActive: {
+    backgroundColor: '#2EC4B6',
+  },
+  channelText: {
+    fontSize: 14,
+    color: '#666',
+    fontWeight: '600',
+  },
+  channelTextActive: {
+    color: '#fff',
   },
   inputContainer: {
     marginBottom: 20,
@@ -52,18 +382,123 @@ const styles = StyleSheet.create({
     padding: 15,
     fontSize: 16,
   },
+  passwordRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  passwordInput: {
+    flex: 1,
+  },
+  eyeButton: {
+    padding: 10,
+  },
+  codeInput: {
+    borderWidth: 1,
+    borderColor: '#ccc',
+    borderRadius: 8,
+    paddingVertical: 15,
+    fontSize: 24,
+    letterSpacing: 12,
+    textAlign: 'center',
+    marginBottom: 16,
+  },
+  statusRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 6,
+    marginBottom: 16,
+  },
+  statusText: {
+    fontSize: 14,
+    color: '#666',
+  },
+  statusTextError: {
+    color: '#E74C3C',
+  },
+  rulesContainer: {
+    marginBottom: 20,
+  },
+  rulesTitle: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    marginBottom: 10,
+  },
+  ruleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 6,
+  },
+  ruleText: {
+    fontSize: 14,
+    color: '#666',
+  },
+  ruleTextMet: {
+    color: '#2EC4B6',
+  },
+  errorContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#FFF5F5',
+    paddingVertical: 12,
+    paddingHorizontal: 16,
+    borderRadius: 12,
+    marginBottom: 20,
+    borderLeftWidth: 4,
+    borderLeftColor: '#E74C3C',
+  },
+  errorText: {
+    color: '#E74C3C',
+    marginLeft: 8,
+    fontSize: 14,
+    flex: 1,
+  },
   submitButton: {
     backgroundColor: '#2EC4B6',
     paddingVertical: 15,
     borderRadius: 8,
     alignItems: 'center',
-    marginTop: 20,
+    marginTop: 4,
+  },
+  disabledButton: {
+    backgroundColor: '#999',
   },
   submitButtonText: {
     color: '#fff',
     fontSize: 18,
     fontWeight: 'bold',
   },
+  linkRow: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    alignItems: 'center',
+    gap: 4,
+    marginTop: 20,
+  },
+  linkHint: {
+    fontSize: 14,
+    color: '#666',
+  },
+  link: {
+    fontSize: 14,
+    color: '#2EC4B6',
+    fontWeight: 'bold',
+  },
+  linkDisabled: {
+    fontSize: 14,
+    color: '#999',
+    fontWeight: '600',
+  },
+  secondaryLink: {
+    alignSelf: 'center',
+    marginTop: 20,
+  },
+  secondaryLinkText: {
+    fontSize: 14,
+    color: '#666',
+    textDecorationLine: 'underline',
+  },
 });
 
 export default ForgotPasswordScreen;
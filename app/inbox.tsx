@@ -0,0 +1,429 @@
+import { RecordType } from '@/src/api/models';
+import { SlaBadge } from '@/src/components/SlaBadge';
+import { RECORD_FILTERS } from '@/src/constants/recordFilters';
+import { useAuth } from '@/src/context/AuthContext';
+import { useServerProfiles } from '@/src/hooks/useServerProfiles';
+import {
+  activityAt,
+  countInboxByType,
+  EMPTY_INBOX_FILTERS,
+  filterInbox,
+  InboxBaseline,
+  InboxFeed,
+  InboxFilters,
+  InboxItem,
+  InboxMarker,
+  inboxMarkers,
+  InboxSource,
+  markerOf,
+} from '@/src/utils/inbox';
+import { formatRelativeTime } from '@/src/utils/relativeTime';
+import { Ionicons } from '@expo/vector-icons';
+import { useRouter } from 'expo-router';
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import {
+  ActivityIndicator,
+  FlatList,
+  ImageBackground,
+  Platform,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+
+const COLORS = {
+  primary: '#1A237E',
+  accent: '#2EC4B6',
+  background: '#F5F7FA',
+  white: '#FFFFFF',
+  border: '#E2E8F0',
+  text: {
+    primary: '#1A1A2E',
+    secondary: '#64748B',
+    muted: '#94A3B8',
+  },
+  marker: {
+    new: '#2563EB',
+    updated: '#F59E0B',
+  },
+  breached: '#DC2626',
+};
+
+const PAGE_SIZE = 20;
+
+const RECORD_TYPES: RecordType[] = ['incident', 'request', 'complaint', 'query'];
+
+const SOURCE_OPTIONS: (InboxSource | 'all')[] = ['all', 'assigned', 'reported'];
+
+const SOURCE_ICONS: Record<InboxSource, React.ComponentProps<typeof Ionicons>['name']> = {
+  assigned: 'checkbox-outline',
+  reported: 'create-outline',
+};
+
+const InboxCard = ({
+  item,
+  marker,
+  onOpen,
+}: {
+  item: InboxItem;
+  marker: InboxMarker | null;
+  onOpen: (item: InboxItem) => void;
+}) => {
+  const { t } = useTranslation();
+  const { record, recordType, sources } = item;
+  const { accentColor, accentLight } = RECORD_FILTERS[recordType];
+
+  return (
+    <TouchableOpacity style={styles.card} onPress={() => onOpen(item)} activeOpacity={0.7}>
+      <View style={[styles.cardBar, { backgroundColor: accentColor }]} />
+      <View style={styles.cardContent}>
+        <View style={styles.cardHeader}>
+          <View style={styles.idContainer}>
+            {marker && <View style={[styles.markerDot, { backgroundColor: COLORS.marker[marker] }]} />}
+            <Text style={[styles.idText, marker && styles.idTextUnread]}>{record.incident_number}</Text>
+          </View>
+          <View style={[styles.typeBadge, { backgroundColor: accentLight }]}>
+            <Text style={[styles.typeBadgeText, { color: accentColor }]}>{t(`inbox.types.${recordType}`)}</Text>
+          </View>
+        </View>
+        <Text style={[styles.title, marker && styles.titleUnread]} numberOfLines={2}>{record.title}</Text>
+        <View style={styles.metaRow}>
+          {record.current_state && (
+            <View style={[styles.statePill, { backgroundColor: `${record.current_state.color || COLORS.text.muted}20` }]}>
+              <Text style={[styles.stateText, { color: record.current_state.color || COLORS.text.secondary }]}>
+                {record.current_state.name}
+              </Text>
+            </View>
+          )}
+          {sources.map(source => (
+            <View key={source} style={styles.sourceTag}>
+              <Ionicons name={SOURCE_ICONS[source]} size={12} color={COLORS.text.secondary} />
+              <Text style={styles.sourceText}>{t(`inbox.sources.${source}`)}</Text>
+            </View>
+          ))}
+          <Text style={styles.timeText}>{formatRelativeTime(activityAt(record))}</Text>
+        </View>
+        {marker && (
+          <Text style={[styles.markerText, { color: COLORS.marker[marker] }]}>{t(`inbox.markers.${marker}`)}</Text>
+        )}
+        <SlaBadge record={record} />
+      </View>
+    </TouchableOpacity>
+  );
+};
+
+const InboxScreen = () => {
+  const { t } = useTranslation();
+  const router = useRouter();
+  const { user } = useAuth();
+  const { activeProfile } = useServerProfiles();
+  const userId = user?.id;
+  const serverId = activeProfile.id;
+
+  const feedRef = useRef<InboxFeed | null>(null);
+  const isLoadingMore = useRef(false);
+  const [items, setItems] = useState<InboxItem[]>([]);
+  const [hasMore, setHasMore] = useState(false);
+  const [baseline, setBaseline] = useState<InboxBaseline>({ since: null, opened: {} });
+  const [filters, setFilters] = useState<InboxFilters>(EMPTY_INBOX_FILTERS);
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [refreshing, setRefreshing] = useState(false);
+  const [error, setError] = useState('');
+
+  const loadPage = useCallback(async (feed: InboxFeed) => {
+    const response = await feed.loadMore();
+    // A refresh may have replaced the feed while this page was loading
+    if (feedRef.current !== feed) return;
+    if (response.success) {
+      setItems(response.data);
+      setError('');
+    } else {
+      setError(response.error || t('inbox.fetchFailed'));
+    }
+    setHasMore(feed.hasMore);
+    setLoading(false);
+    setLoadingMore(false);
+    setRefreshing(false);
+    isLoadingMore.current = false;
+  }, [t]);
+
+  const reload = useCallback(() => {
+    const feed = new InboxFeed(PAGE_SIZE);
+    feedRef.current = feed;
+    loadPage(feed);
+  }, [loadPage]);
+
+  // Markers compare against the previous visit for as long as the screen stays open
+  useEffect(() => {
+    inboxMarkers.startVisit({ userId, serverId }).then(setBaseline);
+    reload();
+  }, [userId, serverId, reload]);
+
+  const handleLoadMore = () => {
+    const feed = feedRef.current;
+    if (!feed || !hasMore || isLoadingMore.current || loading) return;
+    isLoadingMore.current = true;
+    setLoadingMore(true);
+    loadPage(feed);
+  };
+
+  const handleRefresh = () => {
+    setRefreshing(true);
+    reload();
+  };
+
+  const markRead = (records: InboxItem[]) => {
+    const opened = { ...baseline.opened };
+    records.forEach(item => {
+      opened[item.record.id] = activityAt(item.record);
+    });
+    setBaseline({ ...baseline, opened });
+    inboxMarkers.markOpened({ userId, serverId }, records.map(item => item.record));
+  };
+
+  const handleOpen = (item: InboxItem) => {
+    markRead([item]);
+    router.push(`/${item.recordType}-details?id=${item.record.id}`);
+  };
+
+  const updateFilters = (patch: Partial<InboxFilters>) => setFilters(prev => ({ ...prev, ...patch }));
+
+  const toggleType = (type: RecordType) =>
+    updateFilters({
+      types: filters.types.includes(type) ? filters.types.filter(item => item !== type) : [...filters.types, type],
+    });
+
+  const visibleItems = filterInbox(items, filters, baseline);
+  const typeCounts = countInboxByType(items, filters, baseline);
+  const unreadItems = items.filter(item => markerOf(item.record, baseline));
+  const newCount = unreadItems.filter(item => markerOf(item.record, baseline) === 'new').length;
+  const updatedCount = unreadItems.length - newCount;
+  // Counts cover the records loaded so far; more may follow
+  const countLabel = (count: number) => (hasMore ? `${count}+` : String(count));
+
+  const renderFilters = () => (
+    <View style={styles.filters}>
+      <View style={styles.searchInputContainer}>
+        <Ionicons name="search" size={18} color={COLORS.text.muted} />
+        <TextInput
+          style={styles.searchInput}
+          value={filters.search}
+          onChangeText={search => updateFilters({ search })}
+          placeholder={t('inbox.searchPlaceholder')}
+          placeholderTextColor={COLORS.text.muted}
+          autoCapitalize="none"
+        />
+        {filters.search.length > 0 && (
+          <TouchableOpacity onPress={() => updateFilters({ search: '' })}>
+            <Ionicons name="close-circle" size={18} color={COLORS.text.muted} />
+          </TouchableOpacity>
+        )}
+      </View>
+
+      <View style={styles.segmented}>
+        {SOURCE_OPTIONS.map(source => (
+          <TouchableOpacity
+            key={source}
+            style={[styles.segment, filters.source === source && styles.segmentActive]}
+            onPress={() => updateFilters({ source })}
+          >
+            <Text style={[styles.segmentText, filters.source === source && styles.segmentTextActive]}>
+              {t(`inbox.sources.${source}`)}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chips}>
+        {RECORD_TYPES.map(type => {
+          const active = filters.types.includes(type);
+          const { accentColor } = RECORD_FILTERS[type];
+          return (
+            <TouchableOpacity
+              key={type}
+              style={[styles.chip, active && { backgroundColor: accentColor, borderColor: accentColor }]}
+              onPress={() => toggleType(type)}
+            >
+              <Text style={[styles.chipText, active && styles.chipTextActive]}>
+                {t(`tabs.${type}`)} {countLabel(typeCounts[type])}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+        <TouchableOpacity
+          style={[styles.chip, filters.unreadOnly && styles.chipActive]}
+          onPress={() => updateFilters({ unreadOnly: !filters.unreadOnly })}
+        >
+          <Text style={[styles.chipText, filters.unreadOnly && styles.chipTextActive]}>{t('inbox.unreadOnly')}</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.chip, filters.breachedOnly && { backgroundColor: COLORS.breached, borderColor: COLORS.breached }]}
+          onPress={() => updateFilters({ breachedOnly: !filters.breachedOnly })}
+        >
+          <Text style={[styles.chipText, filters.breachedOnly && styles.chipTextActive]}>{t('inbox.breachedOnly')}</Text>
+        </TouchableOpacity>
+      </ScrollView>
+      {/* The endpoints have no per-type totals, so say the chips count what has been loaded */}
+      {hasMore && (
+        <Text style={styles.countsNote}>{t('inbox.loadedCounts', { count: items.length })}</Text>
+      )}
+    </View>
+  );
+
+  const renderFooter = () => {
+    if (!loadingMore) return null;
+    return (
+      <View style={styles.footerLoader}>
+        <ActivityIndicator size="small" color={COLORS.primary} />
+      </View>
+    );
+  };
+
+  const renderEmpty = () => {
+    if (loading) return null;
+    const filtered = items.length > 0;
+    return (
+      <View style={styles.emptyContainer}>
+        <Ionicons name="file-tray-outline" size={64} color={COLORS.text.muted} />
+        <Text style={styles.emptyTitle}>{filtered ? t('inbox.noMatches') : t('inbox.empty')}</Text>
+        <Text style={styles.emptySubtitle}>{filtered ? t('inbox.noMatchesDesc') : t('inbox.emptyDesc')}</Text>
+      </View>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.safeArea}>
+      <ImageBackground source={require('@/assets/images/background.png')} style={styles.header}>
+        <TouchableOpacity style={styles.headerIcon} onPress={() => router.back()}>
+          <Ionicons name="arrow-back" size={24} color="white" />
+        </TouchableOpacity>
+        <View style={styles.headerTitleContainer}>
+          <Text style={styles.headerTitle}>{t('inbox.title')}</Text>
+          {unreadItems.length > 0 && (
+            <Text style={styles.headerSubtitle}>
+              {t('inbox.unreadSummary', { new: newCount, updated: updatedCount })}
+            </Text>
+          )}
+        </View>
+        {unreadItems.length > 0 && (
+          <TouchableOpacity style={styles.headerIcon} onPress={() => markRead(unreadItems)}>
+            <Ionicons name="checkmark-done" size={22} color="white" />
+          </TouchableOpacity>
+        )}
+      </ImageBackground>
+
+      <View style={styles.content}>
+        {renderFilters()}
+
+        {loading ? (
+          <View style={styles.centered}>
+            <ActivityIndicator size="large" color={COLORS.primary} />
+            <Text style={styles.mutedText}>{t('inbox.loading')}</Text>
+          </View>
+        ) : error && items.length === 0 ? (
+          <View style={styles.centered}>
+            <Ionicons name="cloud-offline-outline" size={64} color={COLORS.text.muted} />
+            <Text style={styles.mutedText}>{error}</Text>
+            <TouchableOpacity style={styles.retryButton} onPress={reload}>
+              <Text style={styles.retryButtonText}>{t('common.retry')}</Text>
+            </TouchableOpacity>
+          </View>
+        ) : (
+          <FlatList
+            data={visibleItems}
+            renderItem={({ item }) => (
+              <InboxCard item={item} marker={markerOf(item.record, baseline)} onOpen={handleOpen} />
+            )}
+            keyExtractor={item => item.record.id}
+            contentContainerStyle={styles.listContent}
+            ListFooterComponent={renderFooter}
+            ListEmptyComponent={renderEmpty}
+            onEndReached={handleLoadMore}
+            onEndReachedThreshold={0.5}
+            refreshing={refreshing}
+            onRefresh={handleRefresh}
+            showsVerticalScrollIndicator={false}
+          />
+        )}
+      </View>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  safeArea: { flex: 1, backgroundColor: COLORS.primary },
+  header: {
+    paddingHorizontal: 20, paddingTop: 20, paddingBottom: 24,
+    flexDirection: 'row', alignItems: 'center', gap: 12,
+  },
+  headerIcon: {
+    width: 40, height: 40, borderRadius: 20,
+    backgroundColor: 'rgba(255,255,255,0.15)', justifyContent: 'center', alignItems: 'center',
+  },
+  headerTitleContainer: { flex: 1 },
+  headerTitle: { color: 'white', fontSize: 22, fontWeight: 'bold' },
+  headerSubtitle: { color: 'rgba(255,255,255,0.8)', fontSize: 12, marginTop: 2 },
+  content: { flex: 1, backgroundColor: COLORS.background },
+  filters: { paddingHorizontal: 16, paddingTop: 12, gap: 10 },
+  searchInputContainer: {
+    flexDirection: 'row', alignItems: 'center', gap: 8, backgroundColor: COLORS.white,
+    borderRadius: 10, paddingHorizontal: 12, height: 42, borderWidth: 1, borderColor: COLORS.border,
+  },
+  searchInput: { flex: 1, fontSize: 15, color: COLORS.text.primary },
+  segmented: { flexDirection: 'row', backgroundColor: COLORS.white, borderRadius: 10, padding: 3 },
+  segment: { flex: 1, paddingVertical: 8, alignItems: 'center', borderRadius: 8 },
+  segmentActive: { backgroundColor: COLORS.primary },
+  segmentText: { fontSize: 13, fontWeight: '500', color: COLORS.text.secondary },
+  segmentTextActive: { color: COLORS.white, fontWeight: '600' },
+  chips: { gap: 8, paddingBottom: 4 },
+  chip: {
+    paddingHorizontal: 12, paddingVertical: 7, borderRadius: 16,
+    borderWidth: 1, borderColor: COLORS.border, backgroundColor: COLORS.white,
+  },
+  chipActive: { backgroundColor: COLORS.primary, borderColor: COLORS.primary },
+  chipText: { fontSize: 12, fontWeight: '500', color: COLORS.text.secondary },
+  chipTextActive: { color: COLORS.white },
+  countsNote: { fontSize: 11, color: COLORS.text.muted },
+  centered: { flex: 1, justifyContent: 'center', alignItems: 'center', paddingHorizontal: 40, gap: 12 },
+  mutedText: { fontSize: 14, color: COLORS.text.secondary, textAlign: 'center' },
+  retryButton: { backgroundColor: COLORS.primary, paddingHorizontal: 24, paddingVertical: 12, borderRadius: 12 },
+  retryButtonText: { color: COLORS.white, fontSize: 16, fontWeight: '600' },
+  listContent: { padding: 16, paddingBottom: 40, flexGrow: 1 },
+  card: {
+    backgroundColor: COLORS.white, borderRadius: 14, marginBottom: 12, flexDirection: 'row',
+    ...Platform.select({
+      ios: { shadowColor: '#000', shadowOffset: { width: 0, height: 2 }, shadowOpacity: 0.06, shadowRadius: 8 },
+      android: { elevation: 2 },
+    }),
+  },
+  cardBar: { width: 4, borderTopLeftRadius: 14, borderBottomLeftRadius: 14 },
+  cardContent: { flex: 1, padding: 14 },
+  cardHeader: { flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center', marginBottom: 6 },
+  idContainer: { flexDirection: 'row', alignItems: 'center' },
+  markerDot: { width: 8, height: 8, borderRadius: 4, marginRight: 8 },
+  idText: { fontSize: 15, fontWeight: '600', color: COLORS.text.primary },
+  idTextUnread: { fontWeight: 'bold' },
+  typeBadge: { paddingHorizontal: 8, paddingVertical: 3, borderRadius: 6 },
+  typeBadgeText: { fontSize: 11, fontWeight: 'bold' },
+  title: { fontSize: 14, color: COLORS.text.secondary, marginBottom: 8 },
+  titleUnread: { color: COLORS.text.primary, fontWeight: '600' },
+  metaRow: { flexDirection: 'row', alignItems: 'center', flexWrap: 'wrap', gap: 8 },
+  statePill: { paddingHorizontal: 8, paddingVertical: 3, borderRadius: 10 },
+  stateText: { fontSize: 11, fontWeight: '600' },
+  sourceTag: { flexDirection: 'row', alignItems: 'center', gap: 3 },
+  sourceText: { fontSize: 11, color: COLORS.text.secondary },
+  timeText: { fontSize: 11, color: COLORS.text.muted, marginLeft: 'auto' },
+  markerText: { fontSize: 11, fontWeight: 'bold', marginTop: 6 },
+  footerLoader: { paddingVertical: 20, alignItems: 'center' },
+  emptyContainer: { flex: 1, justifyContent: 'center', alignItems: 'center', paddingVertical: 60 },
+  emptyTitle: { fontSize: 18, fontWeight: 'bold', color: COLORS.text.primary, marginTop: 16 },
+  emptySubtitle: { fontSize: 14, color: COLORS.text.secondary, marginTop: 8, textAlign: 'center' },
+});
+
+export default InboxScreen;
@@ -5,10 +5,15 @@ import { Image } from 'expo-image';
 import { useRouter, useLocalSearchParams, useFocusEffect } from 'expo-router';
 import { Ionicons } from '@expo/vector-icons';
 import { AuthenticatedImageViewer } from '@/src/components/AuthenticatedImageViewer';
+import { CommentThread } from '@/src/components/CommentThread';
+import { ReportDownloadButton } from '@/src/components/ReportDownloadButton';
+import { SlaSection } from '@/src/components/SlaSection';
+import { usePermissions } from '@/src/hooks/usePermissions';
 import { WebView } from 'react-native-webview';
 import { useAudioPlayer, AudioSource } from 'expo-audio';
 import { useTranslation } from 'react-i18next';
-import { getIncidentById, getAvailableTransitions } from '@/src/api/incidents';
+import { getRecord, getAvailableTransitions } from '@/src/api/records';
+import { Attachment, AvailableTransition, Incident, LookupValue } from '@/src/api/models';
 import { baseURL } from '@/src/api/client';
 import * as SecureStore from 'expo-secure-store';
 import { crashLogger } from '@/src/utils/crashLogger';
@@ -44,64 +49,6 @@ const priorityConfig: Record<number, { key: string; color: string }> = {
   5: { key: 'veryLow', color: COLORS.priority.veryLow },
 };
 
-interface LookupValue {
-  id: string;
-  name: string;
-  name_ar?: string;
-  color?: string;
-  category?: {
-    id: string;
-    name: string;
-    name_ar?: string;
-  };
-}
-
-interface IncidentData {
-  id: string;
-  incident_number: string;
-  title: string;
-  description?: string;
-  classification?: { id: string; name: string };
-  classification_id?: string;
-  current_state?: { name: string };
-  department?: { name: string };
-  department_id?: string;
-  location?: { id: string; name: string; address?: string };
-  location_id?: string;
-  assignee?: { id: string; first_name?: string; last_name?: string; phone?: string };
-  assignee_id?: string;
-  assignees?: Array<{ id: string; first_name?: string; last_name?: string; phone?: string }>;
-  reporter?: { username: string; first_name?: string; last_name?: string; email?: string; phone?: string };
-  reporter_email?: string;
-  reporter_name?: string;
-  priority?: number;
-  latitude?: number;
-  longitude?: number;
-  address?: string;
-  city?: string;
-  state?: string;
-  country?: string;
-  postal_code?: string;
-  created_at: string;
-  lookup_values?: LookupValue[];
-  custom_fields?: string;
-  attachments?: Array<{ id: string; file_name: string; mime_type: string }>;
-  comments?: Array<{ id: string; content: string; author: { username: string }; created_at: string }>;
-  transition_history?: Array<{
-    id: string;
-    from_state: { name: string };
-    to_state: { name: string };
-    performed_by: { username: string };
-    transitioned_at: string;
-    comment?: string;
-  }>;
-}
-
-interface TransitionData {
-  can_execute: boolean;
-  transition: { id: string; name: string };
-}
-
 const AudioPlayer = ({ attachment, token }: { attachment: { id: string; file_name: string }; token: string }) => {
   const audioSource: AudioSource = {
     uri: `${baseURL}/attachments/${attachment.id}/preview`,
@@ -181,10 +128,11 @@ const SectionHeader = ({ title, icon }: { title: string; icon: string }) => (
 const IncidentDetailsScreen = () => {
   const { t } = useTranslation();
   const router = useRouter();
+  const { canAccessRoute } = usePermissions();
   const { id } = useLocalSearchParams();
-  const [incident, setIncident] = useState<IncidentData | null>(null);
-  const [availableTransitions, setAvailableTransitions] = useState<TransitionData[]>([]);
-  const [attachments, setAttachments] = useState<Array<{ id: string; file_name: string; mime_type: string }>>([]);
+  const [incident, setIncident] = useState<Incident | null>(null);
+  const [availableTransitions, setAvailableTransitions] = useState<AvailableTransition[]>([]);
+  const [attachments, setAttachments] = useState<Attachment[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState('');
   const [token, setToken] = useState<string | null>(null);
@@ -213,7 +161,7 @@ const IncidentDetailsScreen = () => {
 
     try {
       const [detailsResponse, transitionsResponse] = await Promise.all([
-        getIncidentById(incidentId),
+        getRecord(incidentId),
         getAvailableTransitions(incidentId),
       ]);
 
@@ -235,7 +183,7 @@ const IncidentDetailsScreen = () => {
       }
 
       if (transitionsResponse.success) {
-        const executableTransitions = transitionsResponse.data.filter((t: TransitionData) => t.can_execute);
+        const executableTransitions = transitionsResponse.data.filter(t => t.can_execute);
         setAvailableTransitions(executableTransitions);
       } else {
         setAvailableTransitions([]);
@@ -364,7 +312,16 @@ const IncidentDetailsScreen = () => {
           <Text style={styles.headerTitle}>{incident.incident_number}</Text>
           <Text style={styles.headerSubtitle}>{t('incidents.incidentDetails')}</Text>
         </View>
-        <View style={{ width: 40 }} />
+        {canAccessRoute('edit-record', { type: 'incident' }) && (
+          <TouchableOpacity
+            style={[styles.backButton, styles.editButton]}
+            onPress={() => router.push({ pathname: '/edit-record', params: { id: incident.id, type: 'incident' } })}
+            accessibilityLabel={t('editRecord.title')}
+          >
+            <Ionicons name="create-outline" size={22} color={COLORS.white} />
+          </TouchableOpacity>
+        )}
+        <ReportDownloadButton recordId={id as string} recordNumber={incident.incident_number} />
       </ImageBackground>
 
       <ScrollView style={styles.container} showsVerticalScrollIndicator={false}>
@@ -389,6 +346,8 @@ const IncidentDetailsScreen = () => {
           </View>
         </View>
 
+        <SlaSection record={incident} />
+
         {/* Details Card with Lookup Values and Custom Fields Inside */}
         <View style={styles.card}>
           <SectionHeader title={t('incidents.incidentDetails')} icon="information-circle" />
@@ -722,28 +681,7 @@ const IncidentDetailsScreen = () => {
 
         {/* Comments Card */}
         <View style={styles.card}>
-          <SectionHeader title={t('details.comments')} icon="chatbubbles" />
-          {incident.comments && incident.comments.length > 0 ? (
-            incident.comments.map(comment => (
-              <View style={styles.commentItem} key={comment.id}>
-                <View style={styles.commentHeader}>
-                  <View style={styles.commentAvatar}>
-                    <Text style={styles.commentAvatarText}>{comment.author.username[0]}</Text>
-                  </View>
-                  <View style={styles.commentMeta}>
-                    <Text style={styles.commentAuthor}>{comment.author.username}</Text>
-                    <Text style={styles.commentDate}>{new Date(comment.created_at).toLocaleString()}</Text>
-                  </View>
-                </View>
-                <Text style={styles.commentContent}>{comment.content}</Text>
-              </View>
-            ))
-          ) : (
-            <View style={styles.emptyState}>
-              <Ionicons name="chatbubble-outline" size={32} color={COLORS.text.muted} />
-              <Text style={styles.emptyStateText}>{t('details.noComments')}</Text>
-            </View>
-          )}
+          <CommentThread recordId={id as string} recordType="incident" initialComments={incident.comments} />
         </View>
 
         {/* Transition History Card */}
@@ -760,15 +698,15 @@ const IncidentDetailsScreen = () => {
                   <View style={styles.timelineContent}>
                     <View style={styles.transitionBadges}>
                       <View style={styles.fromBadge}>
-                        <Text style={styles.fromBadgeText}>{item.from_state.name}</Text>
+                        <Text style={styles.fromBadgeText}>{item.from_state?.name}</Text>
                       </View>
                       <Ionicons name="arrow-forward" size={14} color={COLORS.text.muted} />
                       <View style={styles.toBadge}>
-                        <Text style={styles.toBadgeText}>{item.to_state.name}</Text>
+                        <Text style={styles.toBadgeText}>{item.to_state?.name}</Text>
                       </View>
                     </View>
                     <Text style={styles.transitionMeta}>
-                      {t('details.by')} {item.performed_by.username} • {new Date(item.transitioned_at).toLocaleDateString()}
+                      {t('details.by')} {item.performed_by?.username} • {new Date(item.transitioned_at).toLocaleDateString()}
                     </Text>
                     {item.comment && (
                       <View style={styles.transitionComment}>
@@ -847,6 +785,7 @@ const styles = StyleSheet.create({
     width: 40, height: 40, borderRadius: 20,
     backgroundColor: 'rgba(255,255,255,0.15)', justifyContent: 'center', alignItems: 'center',
   },
+  editButton: { marginRight: 8 },
   headerCenter: { flex: 1, alignItems: 'center' },
   headerTitle: { color: COLORS.white, fontSize: 18, fontWeight: 'bold' },
   headerSubtitle: { color: 'rgba(255,255,255,0.7)', fontSize: 12, marginTop: 2 },
@@ -899,15 +838,6 @@ const styles = StyleSheet.create({
   reporterActions: { flexDirection: 'row', gap: 8 },
   reporterActionButton: { width: 36, height: 36, borderRadius: 18, backgroundColor: COLORS.white, justifyContent: 'center', alignItems: 'center' },
 
-  commentItem: { backgroundColor: COLORS.background, borderRadius: 12, padding: 12, marginBottom: 10 },
-  commentHeader: { flexDirection: 'row', alignItems: 'center', marginBottom: 8 },
-  commentAvatar: { width: 32, height: 32, borderRadius: 16, backgroundColor: COLORS.accent, justifyContent: 'center', alignItems: 'center' },
-  commentAvatarText: { color: COLORS.white, fontSize: 13, fontWeight: 'bold' },
-  commentMeta: { marginLeft: 10 },
-  commentAuthor: { fontSize: 13, fontWeight: '600', color: COLORS.text.primary },
-  commentDate: { fontSize: 11, color: COLORS.text.muted },
-  commentContent: { fontSize: 14, color: COLORS.text.secondary, lineHeight: 20 },
-
   emptyState: { alignItems: 'center', paddingVertical: 24 },
   emptyStateText: { fontSize: 14, color: COLORS.text.muted, marginTop: 8 },
 
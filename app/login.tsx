@@ -22,17 +22,26 @@ import { LinearGradient } from 'expo-linear-gradient';
 import { setLanguage, getCurrentLanguage } from '@/src/i18n';
 import { useAuth } from '@/src/context/AuthContext';
 import apiClient from '@/src/api/client';
+import { toOtpChallenge } from '@/src/api/auth';
+import { getSsoProvider, signInWithSso, SsoProvider } from '@/src/api/sso';
+import { getOtpLockout } from '@/src/utils/otpLockout';
+import { ServerProfilePicker } from '@/src/components/ServerProfilePicker';
+import { useServerProfiles } from '@/src/hooks/useServerProfiles';
 
 const LoginScreen = () => {
   const { t } = useTranslation();
   const router = useRouter();
-  const { login } = useAuth();
+  const { login, startOtpChallenge, sessionEndReason } = useAuth();
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   const [showPassword, setShowPassword] = useState(false);
   const [error, setError] = useState('');
   const [loading, setLoading] = useState(false);
   const [currentLang, setCurrentLang] = useState(getCurrentLanguage());
+  const [serverPickerVisible, setServerPickerVisible] = useState(false);
+  const { activeProfile } = useServerProfiles();
+  const [ssoProvider, setSsoProvider] = useState<SsoProvider | null>(null);
+  const [ssoLoading, setSsoLoading] = useState(false);
 
   // Animation refs
   const fadeAnim = useRef(new Animated.Value(0)).current;
@@ -65,6 +74,18 @@ const LoginScreen = () => {
     ]).start();
   }, []);
 
+  // Offer SSO only when the selected server has a provider configured
+  useEffect(() => {
+    let cancelled = false;
+    setSsoProvider(null);
+    getSsoProvider().then(response => {
+      if (!cancelled && response.success) setSsoProvider(response.data);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [activeProfile.id]);
+
   const handleLanguageChange = async (langCode: string) => {
     if (langCode === currentLang) return;
 
@@ -106,12 +127,25 @@ const LoginScreen = () => {
     setError('');
 
     try {
+      const lockedUntil = await getOtpLockout(email);
+      if (lockedUntil) {
+        const errorMsg = t('otp.lockedOut', { time: lockedUntil.toLocaleTimeString() });
+        setError(errorMsg);
+        Alert.alert(t('auth.loginError'), errorMsg);
+        return;
+      }
+
       const response = await apiClient.post('/auth/login', { email, password });
 
       if (response.data && response.data.success) {
-        const { token, refresh_token } = response.data.data;
-        await login(token, refresh_token);
-        router.push('/otp');
+        const data = response.data.data;
+        if (data.otp_required) {
+          // Tokens are only issued once the second factor is verified
+          startOtpChallenge(toOtpChallenge(data, email));
+          router.push('/otp');
+        } else {
+          await login(data.token, data.refresh_token);
+        }
       } else {
         const errorMsg = 'Invalid response from server';
         setError(errorMsg);
@@ -126,6 +160,25 @@ const LoginScreen = () => {
     }
   };
 
+  const handleSsoLogin = async () => {
+    if (!ssoProvider) return;
+    Keyboard.dismiss();
+    setSsoLoading(true);
+    setError('');
+
+    try {
+      const result = await signInWithSso(ssoProvider);
+      if (!result.success) {
+        setError(result.error);
+        Alert.alert(t('auth.loginError'), result.error);
+      } else if (result.data) {
+        await login(result.data.token, result.data.refreshToken);
+      }
+    } finally {
+      setSsoLoading(false);
+    }
+  };
+
   const handleEmailFocus = () => {
     Animated.spring(emailFocusAnim, {
       toValue: 1,
@@ -231,6 +284,19 @@ const LoginScreen = () => {
               <Text style={styles.subtitleText}>{t('auth.loginSubtitle')}</Text>
             </View>
 
+            {/* Server Profile */}
+            <TouchableOpacity
+              style={styles.serverChip}
+              onPress={() => setServerPickerVisible(true)}
+              activeOpacity={0.7}
+            >
+              <Ionicons name="server-outline" size={16} color="#2EC4B6" />
+              <Text style={styles.serverChipText} numberOfLines={1}>
+                {t('serverProfiles.server')}: {activeProfile.name}
+              </Text>
+              <Ionicons name="chevron-down" size={14} color="#666" />
+            </TouchableOpacity>
+
             {/* Input Fields Container */}
             <View style={styles.inputsContainer}>
               {/* Email Input */}
@@ -320,6 +386,16 @@ const LoginScreen = () => {
               </TouchableOpacity>
             </View>
 
+            {/* Why the previous session ended, until the user signs in again */}
+            {sessionEndReason && !error ? (
+              <View style={styles.noticeContainer}>
+                <Ionicons name="information-circle" size={18} color="#B45309" />
+                <Text style={styles.noticeText}>
+                  {sessionEndReason === 'revoked' ? t('auth.sessionRevoked') : t('auth.sessionExpired')}
+                </Text>
+              </View>
+            ) : null}
+
             {/* Error Message */}
             {error ? (
               <Animated.View style={styles.errorContainer}>
@@ -358,6 +434,34 @@ const LoginScreen = () => {
                 </LinearGradient>
               </TouchableOpacity>
             </Animated.View>
+
+            {/* Single Sign-On */}
+            {ssoProvider && (
+              <>
+                <View style={styles.ssoDivider}>
+                  <View style={styles.ssoDividerLine} />
+                  <Text style={styles.ssoDividerText}>{t('auth.or')}</Text>
+                  <View style={styles.ssoDividerLine} />
+                </View>
+                <TouchableOpacity
+                  style={styles.ssoButton}
+                  onPress={handleSsoLogin}
+                  disabled={loading || ssoLoading}
+                  activeOpacity={0.7}
+                >
+                  {ssoLoading ? (
+                    <ActivityIndicator color="#2EC4B6" size="small" />
+                  ) : (
+                    <>
+                      <Ionicons name="business-outline" size={20} color="#2EC4B6" />
+                      <Text style={styles.ssoButtonText}>
+                        {t('auth.ssoButton', { name: ssoProvider.displayName || t('auth.ssoDefaultName') })}
+                      </Text>
+                    </>
+                  )}
+                </TouchableOpacity>
+              </>
+            )}
           </Animated.View>
 
           {/* Footer */}
@@ -405,6 +509,11 @@ const LoginScreen = () => {
           </View>
         </LinearGradient>
       </ScrollView>
+
+      <ServerProfilePicker
+        visible={serverPickerVisible}
+        onClose={() => setServerPickerVisible(false)}
+      />
     </KeyboardAvoidingView>
   );
 };
@@ -464,7 +573,25 @@ const styles = StyleSheet.create({
     resizeMode: 'contain',
   },
   welcomeContainer: {
-    marginBottom: 40,
+    marginBottom: 24,
+  },
+  serverChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-start',
+    gap: 6,
+    maxWidth: '100%',
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    borderRadius: 20,
+    backgroundColor: 'rgba(46, 196, 182, 0.08)',
+    marginBottom: 24,
+  },
+  serverChipText: {
+    flexShrink: 1,
+    fontSize: 13,
+    color: '#333',
+    fontWeight: '600',
   },
   welcomeText: {
     fontSize: 32,
@@ -543,6 +670,23 @@ const styles = StyleSheet.create({
     fontSize: 14,
     flex: 1,
   },
+  noticeContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#FFFBEB',
+    paddingVertical: 12,
+    paddingHorizontal: 16,
+    borderRadius: 12,
+    marginBottom: 20,
+    borderLeftWidth: 4,
+    borderLeftColor: '#F59E0B',
+  },
+  noticeText: {
+    color: '#B45309',
+    marginLeft: 8,
+    fontSize: 14,
+    flex: 1,
+  },
   loginButton: {
     borderRadius: 14,
     overflow: 'hidden',
@@ -566,6 +710,37 @@ const styles = StyleSheet.create({
     fontWeight: '700',
     letterSpacing: 0.5,
   },
+  ssoDivider: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginVertical: 20,
+  },
+  ssoDividerLine: {
+    flex: 1,
+    height: 1,
+    backgroundColor: '#E5E5E5',
+  },
+  ssoDividerText: {
+    marginHorizontal: 12,
+    fontSize: 13,
+    color: '#999',
+  },
+  ssoButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 10,
+    borderWidth: 2,
+    borderColor: '#2EC4B6',
+    borderRadius: 14,
+    paddingVertical: 14,
+    backgroundColor: '#FFFFFF',
+  },
+  ssoButtonText: {
+    color: '#2EC4B6',
+    fontSize: 16,
+    fontWeight: '700',
+  },
   footer: {
     position: 'absolute',
     bottom: 30,
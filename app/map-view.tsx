@@ -1,4 +1,5 @@
-import { getIncidents, getRequests } from "@/src/api/incidents";
+import { Incident } from "@/src/api/models";
+import { getRecords } from "@/src/api/records";
 import { Ionicons } from "@expo/vector-icons";
 import { useLocalSearchParams, useRouter } from "expo-router";
 import React, { useEffect, useRef, useState } from "react";
@@ -26,15 +27,13 @@ const COLORS = {
   error: "#DC2626",
 };
 
-interface IncidentMarker {
-  id: string;
-  incident_number: string;
-  title: string;
-  latitude: number;
-  longitude: number;
-  priority?: number;
-  current_state?: { name: string };
-}
+type IncidentMarker = Incident & { latitude: number; longitude: number };
+
+const hasLocation = (incident: Incident): incident is IncidentMarker =>
+  incident.latitude !== undefined &&
+  incident.longitude !== undefined &&
+  !isNaN(incident.latitude) &&
+  !isNaN(incident.longitude);
 
 const MapViewScreen = () => {
   const { t } = useTranslation();
@@ -54,24 +53,14 @@ const MapViewScreen = () => {
   const fetchIncidentsWithLocation = async () => {
     setLoading(true);
     try {
-      const fetchFunction =
-        recordType === "request" ? getRequests : getIncidents;
-      const response = await fetchFunction({
+      const response = await getRecords(recordType === "request" ? "request" : "incident", {
         page: 1,
         limit: 1000,
         has_location: true,
       });
 
       if (response.success && response.data) {
-        const incidentsWithLocation = response.data.filter(
-          (inc: any) =>
-            inc.latitude !== null &&
-            inc.latitude !== undefined &&
-            inc.longitude !== null &&
-            inc.longitude !== undefined &&
-            !isNaN(inc.latitude) &&
-            !isNaN(inc.longitude),
-        );
+        const incidentsWithLocation = response.data.filter(hasLocation);
         setIncidents(incidentsWithLocation);
 
         // Update map markers
@@ -2,7 +2,12 @@ import {
   getMyAssignedIncidents,
   getMyReportedIncidents,
 } from "@/src/api/incidents";
+import { Incident } from "@/src/api/models";
+import { Pagination } from "@/src/api/result";
 import { getProfile } from "@/src/api/user";
+import { BulkActionBar } from "@/src/components/BulkActionBar";
+import { SlaBadge } from "@/src/components/SlaBadge";
+import { useBulkSelection } from "@/src/hooks/useBulkSelection";
 import { usePermissions } from "@/src/hooks/usePermissions";
 import { FontAwesome, Ionicons } from "@expo/vector-icons";
 import { useLocalSearchParams, useRouter } from "expo-router";
@@ -28,39 +33,25 @@ const priorityMap: Record<number, { key: string; color: string }> = {
   5: { key: "veryLow", color: "#2ECC71" },
 };
 
-interface Incident {
-  id: string;
-  incident_number: string;
-  title: string;
-  priority: number;
-  created_at: string;
-  due_date?: string;
-  sla_breached?: boolean;
-  current_state?: { name: string; color?: string };
-  location?: { name: string };
-  assignee?: { first_name?: string; username: string };
-  department?: { name: string };
-}
-
-interface PaginationInfo {
-  page: number;
-  limit: number;
-  total_items: number;
-  total_pages: number;
-}
-
 const IncidentCard = ({
   incident,
   isAssigned,
   ticketType,
+  selecting,
+  selected,
+  onToggleSelect,
 }: {
   incident: Incident;
   isAssigned: boolean;
   ticketType: "incident" | "request" | "complaint" | "query";
+  selecting: boolean;
+  selected: boolean;
+  // Left out when the user can't run any bulk action
+  onToggleSelect?: () => void;
 }) => {
   const router = useRouter();
   const { t } = useTranslation();
-  const priority = priorityMap[incident.priority] || {
+  const priority = priorityMap[incident.priority ?? 0] || {
     key: "unknown",
     color: "#95A5A6",
   };
@@ -84,8 +75,9 @@ const IncidentCard = ({
 
   return (
     <TouchableOpacity
-      style={styles.incidentCard}
-      onPress={() => router.push(getDetailRoute())}
+      style={[styles.incidentCard, selected && styles.incidentCardSelected]}
+      onPress={() => (selecting ? onToggleSelect?.() : router.push(getDetailRoute()))}
+      onLongPress={onToggleSelect}
     >
       <View
         style={[
@@ -96,6 +88,14 @@ const IncidentCard = ({
       <View style={styles.incidentCardContent}>
         <View style={styles.incidentCardHeader}>
           <View style={styles.incidentIdContainer}>
+            {selecting && (
+              <Ionicons
+                name={selected ? "checkbox" : "square-outline"}
+                size={20}
+                color="#1A237E"
+                style={styles.selectIcon}
+              />
+            )}
             <View
               style={[styles.incidentDot, { backgroundColor: priority.color }]}
             />
@@ -147,6 +147,7 @@ const IncidentCard = ({
             </View>
           )}
         </View>
+        <SlaBadge record={incident} />
         <View style={styles.metaRow}>
           {isAssigned
             ? incident.department && (
@@ -186,6 +187,7 @@ const MyIncidentsScreen = () => {
   );
   const [ticketType, setTicketType] = useState<"incident" | "request" | "complaint" | "query">("incident");
   const { canCreateIncidents, canUpdateIncidents } = usePermissions();
+  const selection = useBulkSelection(ticketType, activeTab);
 
   const [incidents, setIncidents] = useState<Incident[]>([]);
   const [loading, setLoading] = useState(true);
@@ -197,7 +199,7 @@ const MyIncidentsScreen = () => {
     username?: string;
     id?: string;
   } | null>(null);
-  const [pagination, setPagination] = useState<PaginationInfo>({
+  const [pagination, setPagination] = useState<Pagination>({
     page: 1,
     limit: 20,
     total_items: 0,
@@ -536,11 +538,14 @@ const MyIncidentsScreen = () => {
                 incident={item}
                 isAssigned={activeTab === "assigned"}
                 ticketType={ticketType}
+                selecting={selection.selecting}
+                selected={selection.isSelected(item.id)}
+                onToggleSelect={selection.enabled ? () => selection.toggle(item.id) : undefined}
               />
             )}
             keyExtractor={(item) => item.id}
             style={styles.flatList}
-            contentContainerStyle={styles.listContent}
+            contentContainerStyle={[styles.listContent, selection.selecting && styles.listContentSelecting]}
             ListHeaderComponent={incidents.length > 0 ? renderHeader : null}
             ListFooterComponent={renderFooter}
             ListEmptyComponent={renderEmpty}
@@ -552,6 +557,13 @@ const MyIncidentsScreen = () => {
           />
         )}
       </View>
+
+      <BulkActionBar
+        recordType={ticketType}
+        selection={selection}
+        records={incidents}
+        onComplete={() => fetchIncidents(1, false)}
+      />
     </SafeAreaView>
   );
 };
@@ -750,6 +762,10 @@ const styles = StyleSheet.create({
     backgroundColor: "#F5F5F5",
     flexGrow: 1,
   },
+  // Leaves room for the bulk action bar
+  listContentSelecting: {
+    paddingBottom: 150,
+  },
   listHeader: {
     marginBottom: 15,
   },
@@ -762,6 +778,10 @@ const styles = StyleSheet.create({
     color: "#999",
     marginTop: 4,
   },
+  incidentCardSelected: {
+    borderWidth: 2,
+    borderColor: "#1A237E",
+  },
   incidentCard: {
     backgroundColor: "white",
     borderRadius: 12,
@@ -791,6 +811,9 @@ const styles = StyleSheet.create({
     flexDirection: "row",
     alignItems: "center",
   },
+  selectIcon: {
+    marginRight: 8,
+  },
   incidentDot: {
     width: 8,
     height: 8,
@@ -0,0 +1,66 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useRouter } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { useTranslation } from 'react-i18next';
+
+const COLORS = {
+  primary: '#1A237E',
+  accent: '#2EC4B6',
+  background: '#F5F7FA',
+  white: '#FFFFFF',
+  text: {
+    primary: '#1A1A2E',
+    secondary: '#64748B',
+    muted: '#94A3B8',
+  },
+};
+
+// Where the root layout sends anyone who opens a route their permissions don't cover
+const NoAccessScreen = () => {
+  const { t } = useTranslation();
+  const router = useRouter();
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.content}>
+        <View style={styles.iconContainer}>
+          <Ionicons name="lock-closed-outline" size={48} color={COLORS.primary} />
+        </View>
+        <Text style={styles.title}>{t('noAccess.title')}</Text>
+        <Text style={styles.message}>{t('noAccess.message')}</Text>
+
+        <TouchableOpacity style={styles.primaryButton} onPress={() => router.replace('/(tabs)/explore')}>
+          <Ionicons name="grid-outline" size={18} color={COLORS.white} />
+          <Text style={styles.primaryButtonText}>{t('noAccess.goToDashboard')}</Text>
+        </TouchableOpacity>
+        {router.canGoBack() && (
+          <TouchableOpacity style={styles.secondaryButton} onPress={() => router.back()}>
+            <Text style={styles.secondaryButtonText}>{t('common.back')}</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: { flex: 1, backgroundColor: COLORS.background },
+  content: { flex: 1, justifyContent: 'center', alignItems: 'center', paddingHorizontal: 32 },
+  iconContainer: {
+    width: 96, height: 96, borderRadius: 48,
+    backgroundColor: `${COLORS.primary}10`, justifyContent: 'center', alignItems: 'center',
+  },
+  title: { fontSize: 20, fontWeight: 'bold', color: COLORS.text.primary, marginTop: 24 },
+  message: { fontSize: 14, color: COLORS.text.secondary, marginTop: 8, textAlign: 'center', lineHeight: 20 },
+  primaryButton: {
+    flexDirection: 'row', alignItems: 'center', justifyContent: 'center', gap: 8,
+    backgroundColor: COLORS.accent, borderRadius: 14, paddingVertical: 14, alignSelf: 'stretch', marginTop: 32,
+  },
+  primaryButtonText: { fontSize: 15, fontWeight: '600', color: COLORS.white },
+  secondaryButton: { paddingVertical: 14, alignSelf: 'stretch', alignItems: 'center', marginTop: 8 },
+  secondaryButtonText: { fontSize: 15, fontWeight: '600', color: COLORS.text.secondary },
+});
+
+export default NoAccessScreen;
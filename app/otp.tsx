@@ -1,33 +1,179 @@
-import React, { useState, useRef } from 'react';
-import { View, Text, StyleSheet, TextInput, TouchableOpacity, Pressable } from 'react-native';
+import React, { useState, useRef, useEffect } from 'react';
+import { View, Text, StyleSheet, TextInput, TouchableOpacity, Pressable, ActivityIndicator, Alert } from 'react-native';
 import { useRouter } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { useTranslation } from 'react-i18next';
+import { useAuth } from '@/src/context/AuthContext';
+import { verifyOtp, resendOtp, toOtpChallenge } from '@/src/api/auth';
+import { useCountdown } from '@/src/hooks/useCountdown';
+import { OTP_MAX_ATTEMPTS, getOtpLockout, lockOtp, clearOtpLockout } from '@/src/utils/otpLockout';
+import { crashLogger } from '@/src/utils/crashLogger';
+
+const OTP_LENGTH = 6;
+
+const formatSeconds = (seconds: number) => {
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}:${String(seconds % 60).padStart(2, '0')}`;
+};
 
 const OtpScreen = () => {
+  const { t } = useTranslation();
   const router = useRouter();
-  const [otp, setOtp] = useState<string[]>(new Array(6).fill(''));
+  const { otpChallenge, isAuthenticated, updateOtpChallenge, cancelOtpChallenge, login } = useAuth();
+  const [otp, setOtp] = useState<string[]>(new Array(OTP_LENGTH).fill(''));
+  const [verifying, setVerifying] = useState(false);
+  const [resending, setResending] = useState(false);
+  const [failedAttempts, setFailedAttempts] = useState(0);
+  const [lockedUntil, setLockedUntil] = useState<Date | null>(null);
+  const [error, setError] = useState('');
   const inputs = useRef<(TextInput | null)[]>([]);
 
-  const handleVerify = () => {
+  const expiresIn = useCountdown(otpChallenge?.expiresAt);
+  const resendIn = useCountdown(otpChallenge?.resendAvailableAt);
+  const isExpired = !!otpChallenge && expiresIn <= 0;
+  const isLocked = !!lockedUntil && lockedUntil.getTime() > Date.now();
+
+  // Without a pending challenge there is nothing to verify (e.g. the app was restarted)
+  useEffect(() => {
+    if (!otpChallenge && !isAuthenticated) {
+      router.replace('/login');
+    }
+  }, [otpChallenge, isAuthenticated, router]);
+
+  const email = otpChallenge?.email;
+  useEffect(() => {
+    if (!email) return;
+    getOtpLockout(email).then(setLockedUntil);
+  }, [email]);
+
+  const resetInputs = () => {
+    setOtp(new Array(OTP_LENGTH).fill(''));
+    inputs.current[0]?.focus();
+  };
+
+  const handleBackToLogin = () => {
+    cancelOtpChallenge();
+    router.replace('/login');
+  };
+
+  const handleLockout = async (serverLockedUntil?: string) => {
+    if (!otpChallenge) return;
+    const until = await lockOtp(otpChallenge.email, serverLockedUntil);
+    setLockedUntil(until);
+
+    crashLogger.logWarning('OTP verification locked after repeated failures', {
+      type: 'OtpLockout',
+      lockedUntil: until.toISOString(),
+    }).catch(() => {});
+
+    Alert.alert(
+      t('otp.lockedTitle'),
+      t('otp.lockedOut', { time: until.toLocaleTimeString() }),
+      [{ text: t('common.ok'), onPress: handleBackToLogin }]
+    );
+  };
+
+  const handleVerify = async () => {
+    if (!otpChallenge || isLocked || isExpired) return;
+
     const enteredOtp = otp.join('');
-    // TODO: Implement OTP verification logic
-    // On success, navigate to the main app or a new password screen
-    router.push('/explore');
+    if (enteredOtp.length !== OTP_LENGTH) {
+      setError(t('otp.incomplete', { count: OTP_LENGTH }));
+      return;
+    }
+
+    setVerifying(true);
+    setError('');
+    const response = await verifyOtp(otpChallenge.otpToken, enteredOtp);
+
+    if (response.success) {
+      await clearOtpLockout(otpChallenge.email);
+      // Storing the tokens authenticates the session; the root layout then leaves the auth screens
+      await login(response.token, response.refreshToken);
+      setVerifying(false);
+      return;
+    }
+
+    setVerifying(false);
+
+    if (response.code === 'OTP_EXPIRED') {
+      updateOtpChallenge({ expiresAt: Date.now() });
+      setError(t('otp.expired'));
+      return;
+    }
+
+    if (response.code === 'OTP_LOCKED' || response.lockedUntil) {
+      await handleLockout(response.lockedUntil);
+      return;
+    }
+
+    // The code was never checked, so this isn't a wrong attempt; keep it entered for another try
+    if (!response.isRejected) {
+      setError(response.isNetworkError ? t('errors.networkError') : t('errors.serverError'));
+      return;
+    }
+
+    const attempts = failedAttempts + 1;
+    setFailedAttempts(attempts);
+    const remaining = response.attemptsRemaining ?? OTP_MAX_ATTEMPTS - attempts;
+
+    if (remaining <= 0) {
+      await handleLockout();
+      return;
+    }
+
+    setError(t('otp.invalidCode', { count: remaining }));
+    resetInputs();
   };
 
-  const handleResend = () => {
-    // TODO: Implement resend code logic
+  const handleResend = async () => {
+    if (!otpChallenge || resendIn > 0 || resending || isLocked) return;
+
+    setResending(true);
+    setError('');
+    const response = await resendOtp(otpChallenge.otpToken);
+    setResending(false);
+
+    if (response.success) {
+      const refreshed = toOtpChallenge(
+        { otp_token: otpChallenge.otpToken, ...response.data },
+        otpChallenge.email
+      );
+      updateOtpChallenge({
+        otpToken: refreshed.otpToken,
+        expiresAt: refreshed.expiresAt,
+        resendAvailableAt: refreshed.resendAvailableAt,
+      });
+      resetInputs();
+      Alert.alert(t('common.success'), t('otp.resent'));
+    } else if (response.code === 'OTP_LOCKED' || response.lockedUntil) {
+      await handleLockout(response.lockedUntil);
+    } else {
+      setError(response.error || t('otp.resendFailed'));
+    }
   };
 
   const handleChange = (text: string, index: number) => {
+    // Pasting or SMS autofill delivers the whole code into one box
+    if (text.length > 1) {
+      const digits = text.replace(/\D/g, '').slice(0, OTP_LENGTH).split('');
+      const newOtp = new Array(OTP_LENGTH).fill('');
+      digits.forEach((digit, i) => (newOtp[i] = digit));
+      setOtp(newOtp);
+      inputs.current[Math.min(digits.length, OTP_LENGTH - 1)]?.focus();
+      return;
+    }
+
     if (isNaN(Number(text))) {
       return; // Only allow numbers
     }
     const newOtp = [...otp];
     newOtp[index] = text;
     setOtp(newOtp);
+    setError('');
 
     // Move to next input
-    if (text !== '' && index < 5) {
+    if (text !== '' && index < OTP_LENGTH - 1) {
       inputs.current[index + 1]?.focus();
     }
   };
@@ -39,37 +185,94 @@ const OtpScreen = () => {
     }
   };
 
+  if (!otpChallenge) {
+    return null;
+  }
+
+  const destination = otpChallenge.destination || otpChallenge.email;
+  const verifyDisabled = verifying || isExpired || isLocked || otp.join('').length !== OTP_LENGTH;
+
   return (
     <View style={styles.container}>
       <Text style={styles.instructions}>
-        Please enter the OTP which is send to your mobile number
+        {otpChallenge.channel === 'email'
+          ? t('otp.instructionsEmail', { destination })
+          : t('otp.instructionsSms', { destination })}
       </Text>
 
       <View style={styles.otpContainer}>
         {otp.map((digit, index) => (
           <TextInput
             key={index}
-            style={styles.otpInput}
+            style={[styles.otpInput, !!error && styles.otpInputError]}
             value={digit}
             onChangeText={(text) => handleChange(text, index)}
             onKeyPress={(e) => handleKeyPress(e, index)}
-            keyboardType="numeric"
-            maxLength={1}
-            ref={(ref) => (inputs.current[index] = ref)}
+            keyboardType="number-pad"
+            textContentType="oneTimeCode"
+            autoComplete={index === 0 ? 'sms-otp' : 'off'}
+            maxLength={index === 0 ? OTP_LENGTH : 1}
+            editable={!isLocked && !verifying}
+            ref={(ref) => { inputs.current[index] = ref; }}
           />
         ))}
       </View>
 
-      <TouchableOpacity style={styles.verifyButton} onPress={handleVerify}>
-        <Text style={styles.verifyButtonText}>VERIFY</Text>
+      <View style={styles.statusRow}>
+        <Ionicons
+          name={isExpired ? 'alert-circle-outline' : 'time-outline'}
+          size={16}
+          color={isExpired ? '#E74C3C' : '#666'}
+        />
+        <Text style={[styles.statusText, isExpired && styles.errorText]}>
+          {isExpired ? t('otp.expired') : t('otp.expiresIn', { time: formatSeconds(expiresIn) })}
+        </Text>
+      </View>
+
+      {error && !isExpired ? (
+        <View style={styles.errorContainer}>
+          <Ionicons name="alert-circle" size={18} color="#E74C3C" />
+          <Text style={styles.errorText}>{error}</Text>
+        </View>
+      ) : null}
+
+      {isLocked && lockedUntil && (
+        <View style={styles.errorContainer}>
+          <Ionicons name="lock-closed" size={18} color="#E74C3C" />
+          <Text style={styles.errorText}>{t('otp.lockedOut', { time: lockedUntil.toLocaleTimeString() })}</Text>
+        </View>
+      )}
+
+      <TouchableOpacity
+        style={[styles.verifyButton, verifyDisabled && styles.disabledButton]}
+        onPress={handleVerify}
+        disabled={verifyDisabled}
+      >
+        {verifying ? (
+          <ActivityIndicator color="#fff" />
+        ) : (
+          <Text style={styles.verifyButtonText}>{t('otp.verify')}</Text>
+        )}
       </TouchableOpacity>
 
       <View style={styles.resendContainer}>
-        <Text style={styles.resendText}>Didn&apos;t receive code?</Text>
-        <Pressable onPress={handleResend}>
-          <Text style={styles.resendLink}>Resend Code</Text>
-        </Pressable>
+        <Text style={styles.resendText}>{t('otp.noCode')}</Text>
+        {resendIn > 0 ? (
+          <Text style={styles.resendCooldown}>{t('otp.resendIn', { time: formatSeconds(resendIn) })}</Text>
+        ) : (
+          <Pressable onPress={handleResend} disabled={resending || isLocked}>
+            {resending ? (
+              <ActivityIndicator size="small" color="#2EC4B6" />
+            ) : (
+              <Text style={[styles.resendLink, isLocked && styles.resendLinkDisabled]}>{t('otp.resend')}</Text>
+            )}
+          </Pressable>
+        )}
       </View>
+
+      <Pressable onPress={handleBackToLogin} style={styles.backToLogin}>
+        <Text style={styles.backToLoginText}>{t('otp.backToLogin')}</Text>
+      </Pressable>
     </View>
   );
 };
@@ -90,7 +293,7 @@ const styles = StyleSheet.create({
   otpContainer: {
     flexDirection: 'row',
     justifyContent: 'space-between',
-    marginBottom: 30,
+    marginBottom: 20,
   },
   otpInput: {
     width: 45,
@@ -101,12 +304,46 @@ const styles = StyleSheet.create({
     textAlign: 'center',
     fontSize: 20,
   },
+  otpInputError: {
+    borderColor: '#E74C3C',
+  },
+  statusRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 6,
+    marginBottom: 20,
+  },
+  statusText: {
+    fontSize: 14,
+    color: '#666',
+  },
+  errorContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#FFF5F5',
+    paddingVertical: 12,
+    paddingHorizontal: 16,
+    borderRadius: 12,
+    marginBottom: 20,
+    borderLeftWidth: 4,
+    borderLeftColor: '#E74C3C',
+  },
+  errorText: {
+    color: '#E74C3C',
+    marginLeft: 8,
+    fontSize: 14,
+    flex: 1,
+  },
   verifyButton: {
     backgroundColor: '#2EC4B6',
     paddingVertical: 15,
     borderRadius: 8,
     alignItems: 'center',
   },
+  disabledButton: {
+    backgroundColor: '#999',
+  },
   verifyButtonText: {
     color: '#fff',
     fontSize: 18,
@@ -115,6 +352,8 @@ const styles = StyleSheet.create({
   resendContainer: {
     flexDirection: 'row',
     justifyContent: 'center',
+    alignItems: 'center',
+    gap: 4,
     marginTop: 20,
   },
   resendText: {
@@ -126,6 +365,23 @@ const styles = StyleSheet.create({
     color: '#2EC4B6',
     fontWeight: 'bold',
   },
+  resendLinkDisabled: {
+    color: '#999',
+  },
+  resendCooldown: {
+    fontSize: 14,
+    color: '#999',
+    fontWeight: '600',
+  },
+  backToLogin: {
+    alignSelf: 'center',
+    marginTop: 30,
+  },
+  backToLoginText: {
+    fontSize: 14,
+    color: '#666',
+    textDecorationLine: 'underline',
+  },
 });
 
 export default OtpScreen;
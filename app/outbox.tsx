@@ -0,0 +1,225 @@
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, FlatList, ActivityIndicator, Alert, ImageBackground, Platform } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useRouter } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { useTranslation } from 'react-i18next';
+import { useOutbox } from '@/src/hooks/useOutbox';
+import { OutboxItem, OutboxStatus } from '@/src/utils/outbox';
+
+const COLORS = {
+  primary: '#1A237E',
+  accent: '#2EC4B6',
+  background: '#F5F7FA',
+  white: '#FFFFFF',
+  text: {
+    primary: '#1A1A2E',
+    secondary: '#64748B',
+    muted: '#94A3B8',
+  },
+  error: '#DC2626',
+};
+
+const statusConfig: Record<OutboxStatus, { icon: string; color: string }> = {
+  pending: { icon: 'time-outline', color: '#F59E0B' },
+  uploading: { icon: 'cloud-upload-outline', color: '#3B82F6' },
+  failed: { icon: 'alert-circle-outline', color: '#DC2626' },
+  sent: { icon: 'checkmark-circle-outline', color: '#22C55E' },
+};
+
+const recordTypeIcons: Record<string, string> = {
+  incident: 'alert-circle',
+  request: 'document-text',
+  complaint: 'megaphone',
+  query: 'help-circle',
+};
+
+const OutboxCard = ({ item, onRetry, onRemove }: {
+  item: OutboxItem;
+  onRetry: (id: string) => void;
+  onRemove: (id: string) => void;
+}) => {
+  const { t } = useTranslation();
+  const status = statusConfig[item.status];
+  const pendingFiles = item.attachments.filter(a => !a.uploaded).length;
+
+  return (
+    <View style={styles.card}>
+      <View style={[styles.cardBar, { backgroundColor: status.color }]} />
+      <View style={styles.cardContent}>
+        <View style={styles.cardHeader}>
+          <View style={styles.typeContainer}>
+            <Ionicons name={recordTypeIcons[item.recordType] as any} size={16} color={COLORS.primary} />
+            <Text style={styles.typeText}>{t(`details.${item.recordType}`, item.recordType)}</Text>
+          </View>
+          <View style={[styles.statusBadge, { backgroundColor: `${status.color}20` }]}>
+            {item.status === 'uploading' ? (
+              <ActivityIndicator size="small" color={status.color} />
+            ) : (
+              <Ionicons name={status.icon as any} size={14} color={status.color} />
+            )}
+            <Text style={[styles.statusText, { color: status.color }]}>{t(`outbox.status.${item.status}`)}</Text>
+          </View>
+        </View>
+        <Text style={styles.title} numberOfLines={2}>{item.title || t('outbox.untitled')}</Text>
+        <Text style={styles.meta}>
+          {t('outbox.queuedAt', { date: new Date(item.createdAt).toLocaleString() })}
+        </Text>
+        {item.attachments.length > 0 && (
+          <Text style={styles.meta}>
+            {t('outbox.attachments', { count: item.attachments.length, pending: pendingFiles })}
+          </Text>
+        )}
+        {item.recordNumber && (
+          <Text style={styles.recordNumber}>{item.recordNumber}</Text>
+        )}
+        {item.error && (
+          <View style={styles.errorRow}>
+            <Ionicons name="warning-outline" size={14} color={COLORS.error} />
+            <Text style={styles.errorText}>{item.error}</Text>
+          </View>
+        )}
+        {item.status !== 'uploading' && (
+          <View style={styles.actions}>
+            {item.status !== 'sent' && (
+              <TouchableOpacity style={styles.actionButton} onPress={() => onRetry(item.id)}>
+                <Ionicons name="refresh" size={16} color={COLORS.accent} />
+                <Text style={[styles.actionText, { color: COLORS.accent }]}>{t('common.retry')}</Text>
+              </TouchableOpacity>
+            )}
+            <TouchableOpacity style={styles.actionButton} onPress={() => onRemove(item.id)}>
+              <Ionicons name="trash-outline" size={16} color={COLORS.error} />
+              <Text style={[styles.actionText, { color: COLORS.error }]}>
+                {item.status === 'sent' ? t('common.clear') : t('common.delete')}
+              </Text>
+            </TouchableOpacity>
+          </View>
+        )}
+      </View>
+    </View>
+  );
+};
+
+const OutboxScreen = () => {
+  const { t } = useTranslation();
+  const router = useRouter();
+  const { items, unsentCount, sync, retry, remove, clearSent } = useOutbox();
+  const [syncing, setSyncing] = useState(false);
+
+  const handleSync = async () => {
+    setSyncing(true);
+    await sync();
+    setSyncing(false);
+  };
+
+  const handleRemove = (id: string) => {
+    const item = items.find(i => i.id === id);
+    if (item?.status === 'sent') {
+      remove(id);
+      return;
+    }
+
+    Alert.alert(
+      t('outbox.deleteConfirmTitle'),
+      t('outbox.deleteConfirmMessage'),
+      [
+        { text: t('common.cancel'), style: 'cancel' },
+        { text: t('common.delete'), style: 'destructive', onPress: () => remove(id) },
+      ]
+    );
+  };
+
+  const hasSent = items.some(item => item.status === 'sent');
+  const sortedItems = [...items].sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+
+  return (
+    <SafeAreaView style={styles.safeArea}>
+      <ImageBackground source={require('@/assets/images/background.png')} style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.headerButton}>
+          <Ionicons name="chevron-back" size={24} color={COLORS.white} />
+        </TouchableOpacity>
+        <View style={styles.headerCenter}>
+          <Text style={styles.headerTitle}>{t('outbox.title')}</Text>
+          <Text style={styles.headerSubtitle}>{t('outbox.unsent', { count: unsentCount })}</Text>
+        </View>
+        <TouchableOpacity onPress={handleSync} style={styles.headerButton} disabled={syncing}>
+          {syncing ? (
+            <ActivityIndicator size="small" color={COLORS.white} />
+          ) : (
+            <Ionicons name="sync" size={22} color={COLORS.white} />
+          )}
+        </TouchableOpacity>
+      </ImageBackground>
+
+      <FlatList
+        data={sortedItems}
+        keyExtractor={(item) => item.id}
+        renderItem={({ item }) => <OutboxCard item={item} onRetry={retry} onRemove={handleRemove} />}
+        contentContainerStyle={styles.listContent}
+        refreshing={syncing}
+        onRefresh={handleSync}
+        ListHeaderComponent={hasSent ? (
+          <TouchableOpacity style={styles.clearSentButton} onPress={clearSent}>
+            <Ionicons name="checkmark-done" size={16} color={COLORS.text.secondary} />
+            <Text style={styles.clearSentText}>{t('outbox.clearSent')}</Text>
+          </TouchableOpacity>
+        ) : null}
+        ListEmptyComponent={
+          <View style={styles.emptyContainer}>
+            <Ionicons name="cloud-done-outline" size={64} color={COLORS.text.muted} />
+            <Text style={styles.emptyTitle}>{t('outbox.empty')}</Text>
+            <Text style={styles.emptySubtitle}>{t('outbox.emptyDesc')}</Text>
+          </View>
+        }
+      />
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  safeArea: { flex: 1, backgroundColor: COLORS.primary },
+  header: {
+    flexDirection: 'row', alignItems: 'center', justifyContent: 'space-between',
+    paddingHorizontal: 16, paddingTop: 12, paddingBottom: 20,
+  },
+  headerButton: {
+    width: 40, height: 40, borderRadius: 20,
+    backgroundColor: 'rgba(255,255,255,0.15)', justifyContent: 'center', alignItems: 'center',
+  },
+  headerCenter: { flex: 1, alignItems: 'center' },
+  headerTitle: { color: COLORS.white, fontSize: 18, fontWeight: 'bold' },
+  headerSubtitle: { color: 'rgba(255,255,255,0.7)', fontSize: 12, marginTop: 2 },
+
+  listContent: { padding: 16, paddingBottom: 40, backgroundColor: COLORS.background, flexGrow: 1 },
+  clearSentButton: { flexDirection: 'row', alignItems: 'center', alignSelf: 'flex-end', gap: 6, paddingVertical: 6, marginBottom: 8 },
+  clearSentText: { fontSize: 13, color: COLORS.text.secondary, fontWeight: '600' },
+
+  card: {
+    backgroundColor: COLORS.white, borderRadius: 14, marginBottom: 12, flexDirection: 'row',
+    ...Platform.select({
+      ios: { shadowColor: '#000', shadowOffset: { width: 0, height: 2 }, shadowOpacity: 0.06, shadowRadius: 8 },
+      android: { elevation: 2 },
+    }),
+  },
+  cardBar: { width: 4, borderTopLeftRadius: 14, borderBottomLeftRadius: 14 },
+  cardContent: { flex: 1, padding: 16 },
+  cardHeader: { flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center', marginBottom: 8 },
+  typeContainer: { flexDirection: 'row', alignItems: 'center', gap: 6 },
+  typeText: { fontSize: 13, fontWeight: '600', color: COLORS.primary },
+  statusBadge: { flexDirection: 'row', alignItems: 'center', gap: 4, paddingHorizontal: 10, paddingVertical: 4, borderRadius: 6 },
+  statusText: { fontSize: 11, fontWeight: 'bold' },
+  title: { fontSize: 15, fontWeight: '600', color: COLORS.text.primary, marginBottom: 6 },
+  meta: { fontSize: 12, color: COLORS.text.muted, marginBottom: 2 },
+  recordNumber: { fontSize: 13, fontWeight: 'bold', color: COLORS.accent, marginTop: 4 },
+  errorRow: { flexDirection: 'row', alignItems: 'flex-start', gap: 6, marginTop: 8 },
+  errorText: { flex: 1, fontSize: 12, color: COLORS.error },
+  actions: { flexDirection: 'row', justifyContent: 'flex-end', gap: 16, marginTop: 12 },
+  actionButton: { flexDirection: 'row', alignItems: 'center', gap: 4 },
+  actionText: { fontSize: 13, fontWeight: '600' },
+
+  emptyContainer: { flex: 1, justifyContent: 'center', alignItems: 'center', paddingVertical: 60 },
+  emptyTitle: { fontSize: 18, fontWeight: 'bold', color: COLORS.text.primary, marginTop: 16 },
+  emptySubtitle: { fontSize: 14, color: COLORS.text.secondary, marginTop: 8, textAlign: 'center' },
+});
+
+export default OutboxScreen;
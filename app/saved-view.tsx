@@ -0,0 +1,207 @@
+import React, { useState } from 'react';
+import { ActivityIndicator, Alert, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import { useTranslation } from 'react-i18next';
+import { RECORD_FILTERS } from '@/src/constants/recordFilters';
+import { useAuth } from '@/src/context/AuthContext';
+import { useServerProfiles } from '@/src/hooks/useServerProfiles';
+import { countActiveFilters, getFilterBadges } from '@/src/utils/recordFilters';
+import { parseSharedView, savedViews } from '@/src/utils/savedViews';
+
+const COLORS = {
+  primary: '#2EC4B6',
+  background: '#F5F7FA',
+  card: '#FFFFFF',
+  text: '#1A1A2E',
+  textSecondary: '#64748B',
+  chip: '#DBEAFE',
+  chipText: '#1A237E',
+  error: '#E74C3C',
+  white: '#FFFFFF',
+};
+
+// Target of automaxmobile://saved-view?type=...&name=...&filters=... links shared from the filter screens
+const SavedViewScreen = () => {
+  const { t } = useTranslation();
+  const router = useRouter();
+  const { user } = useAuth();
+  const { activeProfile } = useServerProfiles();
+  const params = useLocalSearchParams<{ type?: string; name?: string; filters?: string }>();
+  const [saving, setSaving] = useState(false);
+
+  const view = parseSharedView(params);
+  const viewName = view?.name || t('savedViews.sharedDefaultName');
+
+  const open = () => {
+    if (!view) return;
+    router.replace({ pathname: RECORD_FILTERS[view.recordType].listPath, params: view.filters });
+  };
+
+  const close = () => {
+    if (router.canGoBack()) {
+      router.back();
+    } else {
+      router.replace('/(tabs)/explore');
+    }
+  };
+
+  const handleSave = async () => {
+    if (!view) return;
+    setSaving(true);
+    try {
+      await savedViews.save(
+        { userId: user?.id, serverId: activeProfile.id },
+        { recordType: view.recordType, name: viewName, filters: view.filters }
+      );
+      open();
+    } catch (error: any) {
+      Alert.alert(t('common.error'), error.message);
+      setSaving(false);
+    }
+  };
+
+  // Lookup filters need their categories to be named and are left to the list
+  const badges = view ? getFilterBadges(RECORD_FILTERS[view.recordType], view.filters) : [];
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.card}>
+        <Ionicons
+          name={view ? 'bookmark-outline' : 'alert-circle-outline'}
+          size={48}
+          color={view ? COLORS.primary : COLORS.error}
+        />
+        <Text style={styles.title}>
+          {view ? t('savedViews.sharedTitle') : t('savedViews.invalidLink')}
+        </Text>
+
+        {view && (
+          <>
+            <Text style={styles.viewName}>{viewName}</Text>
+            <Text style={styles.viewMeta}>
+              {t(`details.${view.recordType}`, view.recordType)} · {t('savedViews.filterCount', { count: countActiveFilters(RECORD_FILTERS[view.recordType], view.filters) })}
+            </Text>
+            {badges.length > 0 && (
+              <View style={styles.chips}>
+                {badges.map(badge => (
+                  <View key={badge.key} style={styles.chip}>
+                    <Text style={styles.chipText}>{badge.value}</Text>
+                  </View>
+                ))}
+              </View>
+            )}
+
+            <TouchableOpacity style={styles.confirmButton} onPress={handleSave} disabled={saving}>
+              {saving ? (
+                <ActivityIndicator color={COLORS.white} />
+              ) : (
+                <Text style={styles.confirmButtonText}>{t('savedViews.saveAndOpen')}</Text>
+              )}
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.secondaryButton} onPress={open} disabled={saving}>
+              <Text style={styles.secondaryButtonText}>{t('savedViews.openOnly')}</Text>
+            </TouchableOpacity>
+          </>
+        )}
+
+        <TouchableOpacity style={styles.cancelButton} onPress={close} disabled={saving}>
+          <Text style={styles.cancelButtonText}>{t('common.cancel')}</Text>
+        </TouchableOpacity>
+      </View>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: COLORS.background,
+    justifyContent: 'center',
+    padding: 24,
+  },
+  card: {
+    backgroundColor: COLORS.card,
+    borderRadius: 16,
+    padding: 24,
+    alignItems: 'center',
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: COLORS.text,
+    marginTop: 12,
+    textAlign: 'center',
+  },
+  viewName: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: COLORS.text,
+    marginTop: 16,
+  },
+  viewMeta: {
+    fontSize: 13,
+    color: COLORS.textSecondary,
+    marginTop: 4,
+    textAlign: 'center',
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'center',
+    gap: 6,
+    marginTop: 12,
+  },
+  chip: {
+    backgroundColor: COLORS.chip,
+    borderRadius: 14,
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+  },
+  chipText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: COLORS.chipText,
+  },
+  confirmButton: {
+    alignSelf: 'stretch',
+    backgroundColor: COLORS.primary,
+    borderRadius: 12,
+    paddingVertical: 14,
+    alignItems: 'center',
+    marginTop: 24,
+  },
+  confirmButtonText: {
+    color: COLORS.white,
+    fontSize: 16,
+    fontWeight: '700',
+  },
+  secondaryButton: {
+    alignSelf: 'stretch',
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: COLORS.primary,
+    paddingVertical: 14,
+    alignItems: 'center',
+    marginTop: 10,
+  },
+  secondaryButtonText: {
+    color: COLORS.primary,
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  cancelButton: {
+    alignSelf: 'stretch',
+    paddingVertical: 14,
+    alignItems: 'center',
+    marginTop: 8,
+  },
+  cancelButtonText: {
+    color: COLORS.textSecondary,
+    fontSize: 15,
+    fontWeight: '600',
+  },
+});
+
+export default SavedViewScreen;
@@ -0,0 +1,359 @@
+import { RecordType, SearchHit } from '@/src/api/models';
+import { RECORD_TYPE_LIST } from '@/src/api/records';
+import { SlaBadge } from '@/src/components/SlaBadge';
+import { RECORD_FILTERS } from '@/src/constants/recordFilters';
+import { useAuth } from '@/src/context/AuthContext';
+import { useGlobalSearch } from '@/src/hooks/useGlobalSearch';
+import { usePermissions } from '@/src/hooks/usePermissions';
+import { useServerProfiles } from '@/src/hooks/useServerProfiles';
+import {
+  findNumberHit,
+  highlightParts,
+  isRecordNumberQuery,
+  matchesOf,
+  MIN_SEARCH_LENGTH,
+  recentSearches,
+  suggestionsFor,
+} from '@/src/utils/globalSearch';
+import { recordTypeOf } from '@/src/utils/inbox';
+import { Ionicons } from '@expo/vector-icons';
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import React, { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import {
+  ActivityIndicator,
+  FlatList,
+  ImageBackground,
+  Keyboard,
+  Platform,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+
+const COLORS = {
+  primary: '#1A237E',
+  background: '#F5F7FA',
+  white: '#FFFFFF',
+  border: '#E2E8F0',
+  highlight: '#FEF08A',
+  text: {
+    primary: '#1A1A2E',
+    secondary: '#64748B',
+    muted: '#94A3B8',
+  },
+};
+
+const HighlightedText = ({
+  text,
+  query,
+  style,
+  numberOfLines,
+}: {
+  text: string;
+  query: string;
+  style: object;
+  numberOfLines?: number;
+}) => (
+  <Text style={style} numberOfLines={numberOfLines}>
+    {highlightParts(text, query).map((part, index) => (
+      <Text key={index} style={part.match ? styles.highlight : undefined}>{part.text}</Text>
+    ))}
+  </Text>
+);
+
+const SearchResultCard = ({
+  hit,
+  query,
+  onOpen,
+}: {
+  hit: SearchHit;
+  query: string;
+  onOpen: (hit: SearchHit) => void;
+}) => {
+  const { t } = useTranslation();
+  const recordType = recordTypeOf(hit);
+  const { accentColor, accentLight } = RECORD_FILTERS[recordType];
+
+  return (
+    <TouchableOpacity style={styles.card} onPress={() => onOpen(hit)} activeOpacity={0.7}>
+      <View style={styles.cardHeader}>
+        <HighlightedText text={hit.incident_number} query={query} style={styles.idText} />
+        <View style={[styles.typeBadge, { backgroundColor: accentLight }]}>
+          <Text style={[styles.typeBadgeText, { color: accentColor }]}>{t(`inbox.types.${recordType}`)}</Text>
+        </View>
+      </View>
+      <HighlightedText text={hit.title} query={query} style={styles.title} numberOfLines={2} />
+      {matchesOf(hit, query).map(match => (
+        <View key={`${match.field}:${match.snippet}`} style={styles.matchRow}>
+          <Text style={styles.matchField}>{t(`search.fields.${match.field}`, match.field)}</Text>
+          {match.snippet && (
+            <HighlightedText text={match.snippet} query={query} style={styles.matchSnippet} numberOfLines={2} />
+          )}
+        </View>
+      ))}
+      <View style={styles.metaRow}>
+        {hit.current_state && (
+          <View style={[styles.statePill, { backgroundColor: `${hit.current_state.color || COLORS.text.muted}20` }]}>
+            <Text style={[styles.stateText, { color: hit.current_state.color || COLORS.text.secondary }]}>
+              {hit.current_state.name}
+            </Text>
+          </View>
+        )}
+        <SlaBadge record={hit} />
+      </View>
+    </TouchableOpacity>
+  );
+};
+
+const SearchScreen = () => {
+  const { t } = useTranslation();
+  const router = useRouter();
+  const params = useLocalSearchParams<{ q?: string }>();
+  const { user } = useAuth();
+  const { activeProfile } = useServerProfiles();
+  const { canAccessRoute } = usePermissions();
+  const owner = { userId: user?.id, serverId: activeProfile.id };
+
+  const [query, setQuery] = useState(params.q ?? '');
+  const [recent, setRecent] = useState<string[]>([]);
+  // Types the user may open; narrowed by the chips, every one of them when none is picked
+  const searchableTypes = RECORD_TYPE_LIST.filter(type => canAccessRoute(`${type}-details`));
+  const [pickedTypes, setPickedTypes] = useState<RecordType[]>([]);
+  const recordTypes = pickedTypes.length > 0 ? pickedTypes : searchableTypes;
+
+  const search = useGlobalSearch(query, recordTypes);
+  const trimmed = query.trim();
+  const searching = trimmed.length >= MIN_SEARCH_LENGTH;
+  const numberHit = findNumberHit(search.hits, search.query);
+  const suggestions = suggestionsFor(recent, query);
+
+  useEffect(() => {
+    recentSearches.list({ userId: user?.id, serverId: activeProfile.id }).then(setRecent);
+  }, [user?.id, activeProfile.id]);
+
+  const remember = (text: string) => {
+    recentSearches.add(owner, text).then(setRecent);
+  };
+
+  const openHit = (hit: SearchHit) => {
+    remember(trimmed);
+    Keyboard.dismiss();
+    router.push(`/${recordTypeOf(hit)}-details?id=${hit.id}`);
+  };
+
+  const handleSubmit = () => {
+    if (!searching) return;
+    // Quick lookup: a full record number goes straight to the record once it is found
+    if (numberHit && search.query === trimmed) {
+      openHit(numberHit);
+      return;
+    }
+    remember(trimmed);
+  };
+
+  const toggleType = (type: RecordType) =>
+    setPickedTypes(prev => (prev.includes(type) ? prev.filter(item => item !== type) : [...prev, type]));
+
+  const renderTypeChips = () => {
+    if (searchableTypes.length < 2) return null;
+    return (
+      <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chips}>
+        {searchableTypes.map(type => {
+          const active = pickedTypes.includes(type);
+          const { accentColor } = RECORD_FILTERS[type];
+          return (
+            <TouchableOpacity
+              key={type}
+              style={[styles.chip, active && { backgroundColor: accentColor, borderColor: accentColor }]}
+              onPress={() => toggleType(type)}
+            >
+              <Text style={[styles.chipText, active && styles.chipTextActive]}>{t(`tabs.${type}`)}</Text>
+            </TouchableOpacity>
+          );
+        })}
+      </ScrollView>
+    );
+  };
+
+  const renderSuggestions = () => {
+    if (suggestions.length === 0) return null;
+    return (
+      <View style={styles.suggestions}>
+        {!searching && (
+          <View style={styles.sectionHeader}>
+            <Text style={styles.sectionTitle}>{t('search.recent')}</Text>
+            <TouchableOpacity onPress={() => recentSearches.clear(owner).then(setRecent)}>
+              <Text style={styles.clearText}>{t('search.clearRecent')}</Text>
+            </TouchableOpacity>
+          </View>
+        )}
+        {suggestions.map(item => (
+          <TouchableOpacity key={item} style={styles.suggestionRow} onPress={() => setQuery(item)}>
+            <Ionicons name="time-outline" size={18} color={COLORS.text.muted} />
+            <Text style={styles.suggestionText} numberOfLines={1}>{item}</Text>
+            <TouchableOpacity
+              hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+              onPress={() => recentSearches.remove(owner, item).then(setRecent)}
+            >
+              <Ionicons name="close" size={18} color={COLORS.text.muted} />
+            </TouchableOpacity>
+          </TouchableOpacity>
+        ))}
+      </View>
+    );
+  };
+
+  const renderListHeader = () => (
+    <>
+      {renderSuggestions()}
+      {numberHit && (
+        <TouchableOpacity style={styles.quickOpen} onPress={() => openHit(numberHit)}>
+          <Ionicons name="open-outline" size={20} color={COLORS.white} />
+          <Text style={styles.quickOpenText}>{t('search.openRecord', { number: numberHit.incident_number })}</Text>
+          <Ionicons name="chevron-forward" size={18} color={COLORS.white} />
+        </TouchableOpacity>
+      )}
+      {searching && search.hits.length > 0 && (
+        <Text style={styles.sectionTitle}>{t('search.results', { count: search.hits.length })}</Text>
+      )}
+    </>
+  );
+
+  const renderEmpty = () => {
+    if (!searching) {
+      return recent.length === 0 ? (
+        <View style={styles.emptyContainer}>
+          <Ionicons name="search-outline" size={64} color={COLORS.text.muted} />
+          <Text style={styles.emptyTitle}>{t('search.emptyTitle')}</Text>
+          <Text style={styles.emptySubtitle}>{t('search.emptyDesc')}</Text>
+        </View>
+      ) : null;
+    }
+    if (search.loading || search.query !== trimmed) return null;
+    return (
+      <View style={styles.emptyContainer}>
+        <Ionicons name={search.error ? 'cloud-offline-outline' : 'document-text-outline'} size={64} color={COLORS.text.muted} />
+        <Text style={styles.emptyTitle}>{search.error ? t('search.failed') : t('search.noResults')}</Text>
+        <Text style={styles.emptySubtitle}>
+          {search.error || (isRecordNumberQuery(trimmed) ? t('search.noRecordWithNumber') : t('search.noResultsDesc'))}
+        </Text>
+      </View>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.safeArea}>
+      <ImageBackground source={require('@/assets/images/background.png')} style={styles.header}>
+        <TouchableOpacity style={styles.headerIcon} onPress={() => router.back()}>
+          <Ionicons name="arrow-back" size={24} color="white" />
+        </TouchableOpacity>
+        <View style={styles.searchInputContainer}>
+          <Ionicons name="search" size={20} color="#666" />
+          <TextInput
+            style={styles.searchInput}
+            value={query}
+            onChangeText={setQuery}
+            onSubmitEditing={handleSubmit}
+            placeholder={t('search.placeholder')}
+            placeholderTextColor="#999"
+            returnKeyType="search"
+            autoCapitalize="none"
+            autoCorrect={false}
+            autoFocus
+          />
+          {search.loading ? (
+            <ActivityIndicator size="small" color="#666" />
+          ) : query.length > 0 && (
+            <TouchableOpacity onPress={() => setQuery('')}>
+              <Ionicons name="close-circle" size={20} color="#999" />
+            </TouchableOpacity>
+          )}
+        </View>
+      </ImageBackground>
+
+      <View style={styles.content}>
+        {renderTypeChips()}
+        <FlatList
+          data={searching ? search.hits : []}
+          renderItem={({ item }) => <SearchResultCard hit={item} query={search.query} onOpen={openHit} />}
+          keyExtractor={item => item.id}
+          ListHeaderComponent={renderListHeader}
+          ListEmptyComponent={renderEmpty}
+          contentContainerStyle={styles.listContent}
+          keyboardShouldPersistTaps="handled"
+          keyboardDismissMode="on-drag"
+          showsVerticalScrollIndicator={false}
+        />
+      </View>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  safeArea: { flex: 1, backgroundColor: COLORS.primary },
+  header: {
+    paddingHorizontal: 16, paddingTop: 16, paddingBottom: 20,
+    flexDirection: 'row', alignItems: 'center', gap: 12,
+  },
+  headerIcon: {
+    width: 40, height: 40, borderRadius: 20,
+    backgroundColor: 'rgba(255,255,255,0.15)', justifyContent: 'center', alignItems: 'center',
+  },
+  searchInputContainer: {
+    flex: 1, flexDirection: 'row', alignItems: 'center', gap: 8,
+    backgroundColor: COLORS.white, borderRadius: 12, paddingHorizontal: 12, height: 44,
+  },
+  searchInput: { flex: 1, fontSize: 16, color: COLORS.text.primary },
+  content: { flex: 1, backgroundColor: COLORS.background },
+  chips: { gap: 8, paddingHorizontal: 16, paddingTop: 12 },
+  chip: {
+    paddingHorizontal: 12, paddingVertical: 7, borderRadius: 16,
+    borderWidth: 1, borderColor: COLORS.border, backgroundColor: COLORS.white,
+  },
+  chipText: { fontSize: 12, fontWeight: '500', color: COLORS.text.secondary },
+  chipTextActive: { color: COLORS.white },
+  listContent: { padding: 16, paddingBottom: 40, flexGrow: 1 },
+  suggestions: { marginBottom: 12 },
+  sectionHeader: { flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center' },
+  sectionTitle: { fontSize: 13, fontWeight: '600', color: COLORS.text.secondary, marginBottom: 8 },
+  clearText: { fontSize: 13, fontWeight: '600', color: COLORS.primary, marginBottom: 8 },
+  suggestionRow: {
+    flexDirection: 'row', alignItems: 'center', gap: 10, paddingVertical: 10,
+    borderBottomWidth: StyleSheet.hairlineWidth, borderBottomColor: COLORS.border,
+  },
+  suggestionText: { flex: 1, fontSize: 15, color: COLORS.text.primary },
+  quickOpen: {
+    flexDirection: 'row', alignItems: 'center', gap: 10, backgroundColor: COLORS.primary,
+    borderRadius: 12, padding: 14, marginBottom: 16,
+  },
+  quickOpenText: { flex: 1, fontSize: 15, fontWeight: '600', color: COLORS.white },
+  card: {
+    backgroundColor: COLORS.white, borderRadius: 14, padding: 14, marginBottom: 12,
+    ...Platform.select({
+      ios: { shadowColor: '#000', shadowOffset: { width: 0, height: 2 }, shadowOpacity: 0.06, shadowRadius: 8 },
+      android: { elevation: 2 },
+    }),
+  },
+  cardHeader: { flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center', marginBottom: 6 },
+  idText: { fontSize: 15, fontWeight: 'bold', color: COLORS.text.primary },
+  typeBadge: { paddingHorizontal: 8, paddingVertical: 3, borderRadius: 6 },
+  typeBadgeText: { fontSize: 11, fontWeight: 'bold' },
+  title: { fontSize: 14, fontWeight: '500', color: COLORS.text.primary, marginBottom: 8 },
+  highlight: { backgroundColor: COLORS.highlight, fontWeight: 'bold' },
+  matchRow: { marginBottom: 8 },
+  matchField: { fontSize: 11, fontWeight: '600', color: COLORS.text.muted, textTransform: 'uppercase' },
+  matchSnippet: { fontSize: 13, color: COLORS.text.secondary, marginTop: 2 },
+  metaRow: { flexDirection: 'row', alignItems: 'center', flexWrap: 'wrap', gap: 8 },
+  statePill: { paddingHorizontal: 8, paddingVertical: 3, borderRadius: 10 },
+  stateText: { fontSize: 11, fontWeight: '600' },
+  emptyContainer: { flex: 1, justifyContent: 'center', alignItems: 'center', paddingVertical: 60 },
+  emptyTitle: { fontSize: 18, fontWeight: 'bold', color: COLORS.text.primary, marginTop: 16 },
+  emptySubtitle: { fontSize: 14, color: COLORS.text.secondary, marginTop: 8, textAlign: 'center', paddingHorizontal: 24 },
+});
+
+export default SearchScreen;
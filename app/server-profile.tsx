@@ -0,0 +1,174 @@
+import React, { useState } from 'react';
+import { ActivityIndicator, Alert, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import { useTranslation } from 'react-i18next';
+import { useAuth } from '@/src/context/AuthContext';
+import { useOutbox } from '@/src/hooks/useOutbox';
+import { isValidServerUrl, serverProfiles } from '@/src/utils/serverProfiles';
+
+const COLORS = {
+  primary: '#2EC4B6',
+  background: '#F5F7FA',
+  card: '#FFFFFF',
+  text: '#1A1A2E',
+  textSecondary: '#64748B',
+  warning: '#F59E0B',
+  warningBg: '#FFFBEB',
+  error: '#E74C3C',
+  white: '#FFFFFF',
+};
+
+// Target of automaxmobile://server-profile?name=...&url=... links and scanned QR codes
+const ServerProfileScreen = () => {
+  const { t } = useTranslation();
+  const router = useRouter();
+  const { isAuthenticated, switchServer } = useAuth();
+  const { serverUnsentCount: unsentCount } = useOutbox();
+  const { name, url } = useLocalSearchParams<{ name?: string; url?: string }>();
+  const [saving, setSaving] = useState(false);
+
+  const isValid = !!url && isValidServerUrl(url);
+  const profileName = name || url || '';
+
+  const close = () => {
+    if (router.canGoBack()) {
+      router.back();
+    } else {
+      router.replace(isAuthenticated ? '/(tabs)/explore' : '/login');
+    }
+  };
+
+  const handleConfirm = async () => {
+    if (!url) return;
+    setSaving(true);
+    try {
+      const profile = await serverProfiles.addProfile({ name: profileName, url });
+      await switchServer(profile.id);
+      router.replace('/login');
+    } catch (error: any) {
+      Alert.alert(t('common.error'), error.message);
+      setSaving(false);
+    }
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.card}>
+        <Ionicons
+          name={isValid ? 'server-outline' : 'alert-circle-outline'}
+          size={48}
+          color={isValid ? COLORS.primary : COLORS.error}
+        />
+        <Text style={styles.title}>
+          {isValid ? t('serverProfiles.addTitle') : t('serverProfiles.invalidCode')}
+        </Text>
+
+        {isValid && (
+          <>
+            <Text style={styles.profileName}>{profileName}</Text>
+            <Text style={styles.profileUrl}>{url}</Text>
+
+            {(isAuthenticated || unsentCount > 0) && (
+              <View style={styles.warning}>
+                <Ionicons name="warning-outline" size={18} color={COLORS.warning} />
+                <Text style={styles.warningText}>
+                  {unsentCount > 0
+                    ? t('serverProfiles.switchWarningOutbox', { count: unsentCount })
+                    : t('serverProfiles.switchWarning')}
+                </Text>
+              </View>
+            )}
+
+            <TouchableOpacity style={styles.confirmButton} onPress={handleConfirm} disabled={saving}>
+              {saving ? (
+                <ActivityIndicator color={COLORS.white} />
+              ) : (
+                <Text style={styles.confirmButtonText}>{t('serverProfiles.addAndSwitch')}</Text>
+              )}
+            </TouchableOpacity>
+          </>
+        )}
+
+        <TouchableOpacity style={styles.cancelButton} onPress={close} disabled={saving}>
+          <Text style={styles.cancelButtonText}>{t('common.cancel')}</Text>
+        </TouchableOpacity>
+      </View>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: COLORS.background,
+    justifyContent: 'center',
+    padding: 24,
+  },
+  card: {
+    backgroundColor: COLORS.card,
+    borderRadius: 16,
+    padding: 24,
+    alignItems: 'center',
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: COLORS.text,
+    marginTop: 12,
+    textAlign: 'center',
+  },
+  profileName: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: COLORS.text,
+    marginTop: 16,
+  },
+  profileUrl: {
+    fontSize: 13,
+    color: COLORS.textSecondary,
+    marginTop: 4,
+    textAlign: 'center',
+  },
+  warning: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: 8,
+    backgroundColor: COLORS.warningBg,
+    borderRadius: 10,
+    padding: 12,
+    marginTop: 20,
+  },
+  warningText: {
+    flex: 1,
+    fontSize: 13,
+    color: COLORS.text,
+  },
+  confirmButton: {
+    alignSelf: 'stretch',
+    backgroundColor: COLORS.primary,
+    borderRadius: 12,
+    paddingVertical: 14,
+    alignItems: 'center',
+    marginTop: 24,
+  },
+  confirmButtonText: {
+    color: COLORS.white,
+    fontSize: 16,
+    fontWeight: '700',
+  },
+  cancelButton: {
+    alignSelf: 'stretch',
+    paddingVertical: 14,
+    alignItems: 'center',
+    marginTop: 8,
+  },
+  cancelButtonText: {
+    color: COLORS.textSecondary,
+    fontSize: 15,
+    fontWeight: '600',
+  },
+});
+
+export default ServerProfileScreen;
@@ -0,0 +1,287 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, FlatList, ActivityIndicator, Alert, ImageBackground, Platform } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useRouter } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { useTranslation } from 'react-i18next';
+import { Session } from '@/src/api/models';
+import { getSessions, revokeOtherSessions, revokeSession } from '@/src/api/sessions';
+import { formatRelativeTime } from '@/src/utils/relativeTime';
+
+const COLORS = {
+  primary: '#1A237E',
+  accent: '#2EC4B6',
+  background: '#F5F7FA',
+  white: '#FFFFFF',
+  text: {
+    primary: '#1A1A2E',
+    secondary: '#64748B',
+    muted: '#94A3B8',
+  },
+  error: '#DC2626',
+};
+
+const platformIcon = (platform?: string): string => {
+  const name = platform?.toLowerCase() || '';
+  if (name.startsWith('ios')) return 'logo-apple';
+  if (name.startsWith('android')) return 'logo-android';
+  if (name.startsWith('web')) return 'globe-outline';
+  return 'phone-portrait-outline';
+};
+
+// This device first, then the most recently active
+const sortSessions = (sessions: Session[]): Session[] =>
+  [...sessions].sort((a, b) => {
+    if (a.is_current !== b.is_current) return a.is_current ? -1 : 1;
+    return (b.last_seen_at || '').localeCompare(a.last_seen_at || '');
+  });
+
+const SessionCard = ({ session, revoking, onRevoke }: {
+  session: Session;
+  revoking: boolean;
+  onRevoke: (session: Session) => void;
+}) => {
+  const { t } = useTranslation();
+  const platform = [session.platform, session.os_version].filter(Boolean).join(' ');
+
+  return (
+    <View style={styles.card}>
+      <View style={styles.iconContainer}>
+        <Ionicons name={platformIcon(session.platform) as any} size={22} color={COLORS.primary} />
+      </View>
+      <View style={styles.cardContent}>
+        <View style={styles.cardHeader}>
+          <Text style={styles.deviceName} numberOfLines={1}>
+            {session.device_name || t('sessions.unknownDevice')}
+          </Text>
+          {session.is_current && (
+            <View style={styles.currentBadge}>
+              <Text style={styles.currentBadgeText}>{t('sessions.thisDevice')}</Text>
+            </View>
+          )}
+        </View>
+        {(!!platform || !!session.app_version) && (
+          <Text style={styles.meta}>
+            {[platform, session.app_version && t('sessions.appVersion', { version: session.app_version })]
+              .filter(Boolean)
+              .join(' · ')}
+          </Text>
+        )}
+        {!!session.location && (
+          <View style={styles.metaRow}>
+            <Ionicons name="location-outline" size={12} color={COLORS.text.muted} />
+            <Text style={styles.meta}>{session.location}</Text>
+          </View>
+        )}
+        <Text style={styles.meta}>
+          {session.is_current
+            ? t('sessions.activeNow')
+            : session.last_seen_at
+              ? t('sessions.lastSeen', { time: formatRelativeTime(session.last_seen_at) })
+              : t('sessions.lastSeenUnknown')}
+        </Text>
+        {!session.is_current && (
+          <View style={styles.actions}>
+            <TouchableOpacity style={styles.actionButton} onPress={() => onRevoke(session)} disabled={revoking}>
+              {revoking ? (
+                <ActivityIndicator size="small" color={COLORS.error} />
+              ) : (
+                <Ionicons name="log-out-outline" size={16} color={COLORS.error} />
+              )}
+              <Text style={[styles.actionText, { color: COLORS.error }]}>{t('sessions.revoke')}</Text>
+            </TouchableOpacity>
+          </View>
+        )}
+      </View>
+    </View>
+  );
+};
+
+const SessionsScreen = () => {
+  const { t } = useTranslation();
+  const router = useRouter();
+  const [sessions, setSessions] = useState<Session[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [revokingId, setRevokingId] = useState<string | null>(null);
+  const [revokingOthers, setRevokingOthers] = useState(false);
+
+  const loadSessions = useCallback(async () => {
+    const response = await getSessions();
+    if (response.success) {
+      setSessions(sortSessions(response.data));
+      setError(null);
+    } else {
+      setError(response.error);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadSessions().finally(() => setLoading(false));
+  }, [loadSessions]);
+
+  const handleRefresh = async () => {
+    setRefreshing(true);
+    await loadSessions();
+    setRefreshing(false);
+  };
+
+  const handleRevoke = (session: Session) => {
+    Alert.alert(
+      t('sessions.revokeConfirmTitle'),
+      t('sessions.revokeConfirmMessage', { device: session.device_name || t('sessions.unknownDevice') }),
+      [
+        { text: t('common.cancel'), style: 'cancel' },
+        {
+          text: t('sessions.revoke'),
+          style: 'destructive',
+          onPress: async () => {
+            setRevokingId(session.id);
+            const response = await revokeSession(session.id);
+            setRevokingId(null);
+            if (response.success) {
+              setSessions(current => current.filter(s => s.id !== session.id));
+            } else {
+              Alert.alert(t('common.error'), response.error);
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const handleRevokeOthers = () => {
+    Alert.alert(
+      t('sessions.revokeOthersConfirmTitle'),
+      t('sessions.revokeOthersConfirmMessage'),
+      [
+        { text: t('common.cancel'), style: 'cancel' },
+        {
+          text: t('sessions.revokeOthers'),
+          style: 'destructive',
+          onPress: async () => {
+            setRevokingOthers(true);
+            const response = await revokeOtherSessions();
+            setRevokingOthers(false);
+            if (response.success) {
+              setSessions(current => current.filter(s => s.is_current));
+            } else {
+              Alert.alert(t('common.error'), response.error);
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const otherCount = sessions.filter(s => !s.is_current).length;
+
+  return (
+    <SafeAreaView style={styles.safeArea}>
+      <ImageBackground source={require('@/assets/images/background.png')} style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()} style={styles.headerButton}>
+          <Ionicons name="chevron-back" size={24} color={COLORS.white} />
+        </TouchableOpacity>
+        <View style={styles.headerCenter}>
+          <Text style={styles.headerTitle}>{t('sessions.title')}</Text>
+          {!loading && (
+            <Text style={styles.headerSubtitle}>{t('sessions.count', { count: sessions.length })}</Text>
+          )}
+        </View>
+        <View style={styles.headerSpacer} />
+      </ImageBackground>
+
+      {loading ? (
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color={COLORS.accent} />
+        </View>
+      ) : (
+        <FlatList
+          data={sessions}
+          keyExtractor={(item) => item.id}
+          renderItem={({ item }) => (
+            <SessionCard session={item} revoking={revokingId === item.id} onRevoke={handleRevoke} />
+          )}
+          contentContainerStyle={styles.listContent}
+          refreshing={refreshing}
+          onRefresh={handleRefresh}
+          ListHeaderComponent={
+            <Text style={styles.intro}>{t('sessions.description')}</Text>
+          }
+          ListFooterComponent={otherCount > 0 ? (
+            <TouchableOpacity style={styles.revokeOthersButton} onPress={handleRevokeOthers} disabled={revokingOthers}>
+              {revokingOthers ? (
+                <ActivityIndicator size="small" color={COLORS.error} />
+              ) : (
+                <Ionicons name="log-out-outline" size={18} color={COLORS.error} />
+              )}
+              <Text style={styles.revokeOthersText}>{t('sessions.revokeOthers')}</Text>
+            </TouchableOpacity>
+          ) : null}
+          ListEmptyComponent={
+            <View style={styles.emptyContainer}>
+              <Ionicons name={error ? 'cloud-offline-outline' : 'phone-portrait-outline'} size={64} color={COLORS.text.muted} />
+              <Text style={styles.emptyTitle}>{error ? t('sessions.loadError') : t('sessions.empty')}</Text>
+              {!!error && <Text style={styles.emptySubtitle}>{error}</Text>}
+            </View>
+          }
+        />
+      )}
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  safeArea: { flex: 1, backgroundColor: COLORS.primary },
+  header: {
+    flexDirection: 'row', alignItems: 'center', justifyContent: 'space-between',
+    paddingHorizontal: 16, paddingTop: 12, paddingBottom: 20,
+  },
+  headerButton: {
+    width: 40, height: 40, borderRadius: 20,
+    backgroundColor: 'rgba(255,255,255,0.15)', justifyContent: 'center', alignItems: 'center',
+  },
+  headerSpacer: { width: 40 },
+  headerCenter: { flex: 1, alignItems: 'center' },
+  headerTitle: { color: COLORS.white, fontSize: 18, fontWeight: 'bold' },
+  headerSubtitle: { color: 'rgba(255,255,255,0.7)', fontSize: 12, marginTop: 2 },
+
+  loadingContainer: { flex: 1, justifyContent: 'center', alignItems: 'center', backgroundColor: COLORS.background },
+  listContent: { padding: 16, paddingBottom: 40, backgroundColor: COLORS.background, flexGrow: 1 },
+  intro: { fontSize: 13, color: COLORS.text.secondary, marginBottom: 12 },
+
+  card: {
+    backgroundColor: COLORS.white, borderRadius: 14, marginBottom: 12, flexDirection: 'row', padding: 16, gap: 12,
+    ...Platform.select({
+      ios: { shadowColor: '#000', shadowOffset: { width: 0, height: 2 }, shadowOpacity: 0.06, shadowRadius: 8 },
+      android: { elevation: 2 },
+    }),
+  },
+  iconContainer: {
+    width: 40, height: 40, borderRadius: 20,
+    backgroundColor: `${COLORS.primary}10`, justifyContent: 'center', alignItems: 'center',
+  },
+  cardContent: { flex: 1 },
+  cardHeader: { flexDirection: 'row', alignItems: 'center', gap: 8, marginBottom: 4 },
+  deviceName: { flexShrink: 1, fontSize: 15, fontWeight: '600', color: COLORS.text.primary },
+  currentBadge: { paddingHorizontal: 8, paddingVertical: 2, borderRadius: 6, backgroundColor: `${COLORS.accent}20` },
+  currentBadgeText: { fontSize: 11, fontWeight: 'bold', color: COLORS.accent },
+  metaRow: { flexDirection: 'row', alignItems: 'center', gap: 4 },
+  meta: { fontSize: 12, color: COLORS.text.muted, marginBottom: 2 },
+  actions: { flexDirection: 'row', justifyContent: 'flex-end', marginTop: 8 },
+  actionButton: { flexDirection: 'row', alignItems: 'center', gap: 4 },
+  actionText: { fontSize: 13, fontWeight: '600' },
+
+  revokeOthersButton: {
+    flexDirection: 'row', alignItems: 'center', justifyContent: 'center', gap: 8,
+    paddingVertical: 14, borderRadius: 14, borderWidth: 1, borderColor: COLORS.error, marginTop: 8,
+  },
+  revokeOthersText: { fontSize: 14, fontWeight: '600', color: COLORS.error },
+
+  emptyContainer: { flex: 1, justifyContent: 'center', alignItems: 'center', paddingVertical: 60 },
+  emptyTitle: { fontSize: 18, fontWeight: 'bold', color: COLORS.text.primary, marginTop: 16 },
+  emptySubtitle: { fontSize: 14, color: COLORS.text.secondary, marginTop: 8, textAlign: 'center' },
+});
+
+export default SessionsScreen;
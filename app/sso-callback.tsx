@@ -0,0 +1,28 @@
+import React, { useEffect } from 'react';
+import { ActivityIndicator, View } from 'react-native';
+import { useRouter } from 'expo-router';
+
+/**
+ * Target of automaxmobile://sso-callback. The browser session started by
+ * src/api/sso.ts reads the redirect itself; on Android the router sees the
+ * link as well, so this screen only steps back to where the flow began.
+ */
+const SsoCallbackScreen = () => {
+  const router = useRouter();
+
+  useEffect(() => {
+    if (router.canGoBack()) {
+      router.back();
+    } else {
+      router.replace('/login');
+    }
+  }, [router]);
+
+  return (
+    <View style={{ flex: 1, justifyContent: 'center', alignItems: 'center' }}>
+      <ActivityIndicator size="large" color="#2EC4B6" />
+    </View>
+  );
+};
+
+export default SsoCallbackScreen;
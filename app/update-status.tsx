@@ -5,7 +5,10 @@ import { useRouter, useLocalSearchParams } from 'expo-router';
 import { Ionicons, FontAwesome } from '@expo/vector-icons';
 import * as ImagePicker from 'expo-image-picker';
 import { useTranslation } from 'react-i18next';
-import { executeTransition, getMatchingUsers, uploadMultipleAttachments } from '@/src/api/incidents';
+import { getMatchingUsers } from '@/src/api/incidents';
+import { executeTransition, uploadMultipleAttachments } from '@/src/api/records';
+import { createIdempotencyKey } from '@/src/api/retryPolicy';
+import { AvailableTransition, Incident, UserSummary } from '@/src/api/models';
 import { getDepartmentsTree } from '@/src/api/departments';
 import { getLocationsTree } from '@/src/api/locations';
 import { getClassificationsTree } from '@/src/api/classifications';
@@ -22,13 +25,13 @@ const UpdateStatusModal = () => {
   const router = useRouter();
   const { t } = useTranslation();
   const { user } = useAuth();
-  const { id, type, transitions, incident: incidentParam } = useLocalSearchParams();
+  const { id, type, transitions, incident: incidentParam, transition_id: transitionIdParam } = useLocalSearchParams();
   const incidentId = Array.isArray(id) ? id[0] : id;
   const ticketType = Array.isArray(type) ? type[0] : (type || 'incident');
 
   // Safely parse JSON with error handling to prevent crashes
-  let availableTransitions = [];
-  let incident = null;
+  let availableTransitions: AvailableTransition[] = [];
+  let incident: Incident | null = null;
 
   try {
     availableTransitions = transitions ? JSON.parse(transitions as string) : [];
@@ -44,14 +47,17 @@ const UpdateStatusModal = () => {
     incident = null;
   }
 
-  const [selectedTransition, setSelectedTransition] = useState(null);
+  // Opened for one transition (a card dropped on the board), the form starts with it picked
+  const [selectedTransition, setSelectedTransition] = useState<AvailableTransition | null>(
+    () => availableTransitions.find(entry => entry.transition.id === transitionIdParam) ?? null
+  );
   const [comment, setComment] = useState('');
   const [loading, setLoading] = useState(false);
   const [showPicker, setShowPicker] = useState(false);
 
   // User selection state
-  const [matchingUsers, setMatchingUsers] = useState([]);
-  const [selectedUser, setSelectedUser] = useState(null);
+  const [matchingUsers, setMatchingUsers] = useState<UserSummary[]>([]);
+  const [selectedUser, setSelectedUser] = useState<UserSummary | null>(null);
   const [showUserPicker, setShowUserPicker] = useState(false);
   const [loadingUsers, setLoadingUsers] = useState(false);
 
@@ -92,6 +98,8 @@ const UpdateStatusModal = () => {
   // Geolocation state
   const [locationData, setLocationData] = useState<LocationData | undefined>(undefined);
   const locationDataRef = useRef<LocationData | undefined>(undefined);
+  // Reused when the same transition is resubmitted after a failure that left its outcome unknown
+  const idempotencyKeyRef = useRef(createIdempotencyKey());
 
   // Monitor locationData changes and keep ref in sync
   useEffect(() => {
@@ -496,14 +504,15 @@ const UpdateStatusModal = () => {
     }
 
     setLoading(true);
-    let uploadedAttachmentIds = [];
+    let uploadedAttachmentIds: string[] = [];
 
     // Upload attachments first if there are any
     if (attachments.length > 0) {
       setIsUploading(true);
       setUploadProgress(`Uploading ${attachments.length} file(s)...`);
 
-      const uploadResult = await uploadMultipleAttachments(incidentId, attachments);
+      // Transition evidence goes through the shared collection whatever the ticket type
+      const uploadResult = await uploadMultipleAttachments('incident', incidentId, attachments);
 
       if (uploadResult.success) {
         uploadedAttachmentIds = uploadResult.data.map(att => att.id);
@@ -540,7 +549,9 @@ const UpdateStatusModal = () => {
       field_changes: Object.keys(fieldChangeValues).length > 0 ? fieldChangeValues : undefined,
     };
 
-    const response = await executeTransition(incidentId, transitionData);
+    const response = await executeTransition(incidentId, transitionData, {
+      idempotencyKey: idempotencyKeyRef.current,
+    });
 
     setLoading(false);
     setUploadProgress('');
@@ -564,6 +575,9 @@ const UpdateStatusModal = () => {
         }},
       ]);
     } else {
+      if (!response.isNetworkError) {
+        idempotencyKeyRef.current = createIdempotencyKey();
+      }
       // Check for version conflict
       const errorMessage = response.error || '';
       if (errorMessage.includes('conflict') || errorMessage.includes('modified by another user')) {
@@ -583,8 +597,9 @@ const UpdateStatusModal = () => {
     }
   };
 
-  const handleTransitionSelect = (trans) => {
+  const handleTransitionSelect = (trans: AvailableTransition) => {
     setSelectedTransition(trans);
+    idempotencyKeyRef.current = createIdempotencyKey();
     setSelectedUser(null);
     setMatchingUsers([]);
     setFeedbackRating(0);
@@ -592,9 +607,11 @@ const UpdateStatusModal = () => {
     setFieldChangeValues({});
     setFieldChangeDisplayValues({});
     setShowPicker(false);
+  };
 
-    // Pre-fetch tree data for field changes that need hierarchical pickers
-    const fcs = trans.transition?.field_changes || [];
+  // Pre-fetch tree data for field changes that need hierarchical pickers
+  useEffect(() => {
+    const fcs = selectedTransition?.transition?.field_changes || [];
     if (fcs.some(fc => fc.field_name === 'department_id')) {
       getDepartmentsTree().then(r => { if (r.success) setDepartmentsTree(r.data); });
     }
@@ -604,7 +621,7 @@ const UpdateStatusModal = () => {
     if (fcs.some(fc => fc.field_name === 'classification_id')) {
       getClassificationsTree().then(r => { if (r.success) setClassificationsTree(r.data); });
     }
-  };
+  }, [selectedTransition]);
 
   return (
     <KeyboardAvoidingView
@@ -779,7 +796,7 @@ const UpdateStatusModal = () => {
           )}
 
           {/* Field Changes */}
-          {selectedTransition?.transition?.field_changes?.length > 0 && (
+          {!!selectedTransition?.transition?.field_changes?.length && (
             <>
               {selectedTransition.transition.field_changes
                 .slice()
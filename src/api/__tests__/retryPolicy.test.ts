@@ -0,0 +1,122 @@
+import { AxiosError, CanceledError } from 'axios';
+import {
+  createIdempotencyKey,
+  getRetryDelay,
+  getRetryRule,
+  isRetryableError,
+} from '@/src/api/retryPolicy';
+
+const NOW = new Date('2026-03-01T10:00:00Z').getTime();
+
+const responseError = (status: number, headers: Record<string, string> = {}) =>
+  ({ response: { status, headers } });
+
+describe('getRetryRule', () => {
+  const BASE_URL = 'https://api.example.com/api/v1';
+
+  it('retries reads', () => {
+    expect(getRetryRule({ url: '/incidents/42', method: 'GET' })?.retries).toBe(3);
+  });
+
+  it('never retries auth calls, whatever the method', () => {
+    expect(getRetryRule({ url: '/auth/refresh', method: 'post' })?.retries).toBe(0);
+    expect(getRetryRule({ url: '/auth/me', method: 'get' })?.retries).toBe(0);
+  });
+
+  it('retries creates and transitions with an idempotency key', () => {
+    expect(getRetryRule({ url: '/complaints', method: 'post' })).toMatchObject({ retries: 3, idempotent: true });
+    expect(getRetryRule({ url: '/incidents/42/transition', method: 'post' })).toMatchObject({ retries: 3, idempotent: true });
+  });
+
+  it('does not retry uploads', () => {
+    expect(getRetryRule({ url: '/incidents/42/attachments', method: 'post' })?.retries).toBe(0);
+  });
+
+  it('leaves other writes alone', () => {
+    expect(getRetryRule({ url: '/incidents/42', method: 'put' })).toBeUndefined();
+    expect(getRetryRule({ url: '/incidents/42/comments', method: 'post' })).toBeUndefined();
+  });
+
+  it('matches on the path without the base URL, host or query string', () => {
+    expect(getRetryRule({ url: `${BASE_URL}/queries`, baseURL: BASE_URL, method: 'post' })?.idempotent).toBe(true);
+    expect(getRetryRule({ url: 'https://other.example.com/incidents?draft=1', method: 'post' })?.idempotent).toBe(true);
+  });
+});
+
+describe('isRetryableError', () => {
+  it('retries when no response came back', () => {
+    expect(isRetryableError(new AxiosError('timeout', 'ECONNABORTED'))).toBe(true);
+  });
+
+  it('retries transient statuses only', () => {
+    [408, 429, 502, 503, 504].forEach(status => expect(isRetryableError(responseError(status))).toBe(true));
+    [400, 401, 404, 409, 500].forEach(status => expect(isRetryableError(responseError(status))).toBe(false));
+  });
+
+  it('does not retry cancelled or logged out requests', () => {
+    expect(isRetryableError(new CanceledError())).toBe(false);
+    expect(isRetryableError({ isNoToken: true })).toBe(false);
+    expect(isRetryableError({ isLogoutCancel: true })).toBe(false);
+    expect(isRetryableError(undefined)).toBe(false);
+  });
+});
+
+describe('getRetryDelay', () => {
+  let random: jest.SpyInstance;
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: NOW });
+    random = jest.spyOn(Math, 'random').mockReturnValue(0);
+  });
+
+  afterEach(() => {
+    random.mockRestore();
+    jest.useRealTimers();
+  });
+
+  it('doubles the backoff on each attempt, up to the cap', () => {
+    expect([1, 2, 3, 4, 5, 6].map(attempt => getRetryDelay(new AxiosError('timeout'), attempt)))
+      .toEqual([250, 500, 1000, 2000, 4000, 4000]);
+  });
+
+  it('jitters between half and all of the backoff', () => {
+    random.mockReturnValue(0.999);
+
+    const delay = getRetryDelay(new AxiosError('timeout'), 2)!;
+    expect(delay).toBeGreaterThan(500);
+    expect(delay).toBeLessThan(1000);
+  });
+
+  it('waits for a Retry-After in seconds', () => {
+    expect(getRetryDelay(responseError(429, { 'retry-after': '5' }), 1)).toBe(5000);
+  });
+
+  it('waits for a Retry-After given as an HTTP date', () => {
+    const at = new Date(NOW + 12000).toUTCString();
+
+    expect(getRetryDelay(responseError(503, { 'retry-after': at }), 1)).toBe(12000);
+  });
+
+  it('never waits less than the backoff', () => {
+    expect(getRetryDelay(responseError(429, { 'retry-after': '0' }), 3)).toBe(1000);
+    expect(getRetryDelay(responseError(503, { 'retry-after': new Date(NOW - 60000).toUTCString() }), 1)).toBe(250);
+  });
+
+  it('gives up when Retry-After asks for more than 30 seconds', () => {
+    expect(getRetryDelay(responseError(429, { 'retry-after': '30' }), 1)).toBe(30000);
+    expect(getRetryDelay(responseError(429, { 'retry-after': '31' }), 1)).toBeNull();
+  });
+
+  it('falls back to the backoff for an unreadable Retry-After', () => {
+    expect(getRetryDelay(responseError(429, { 'retry-after': 'later' }), 2)).toBe(500);
+  });
+});
+
+describe('createIdempotencyKey', () => {
+  it('creates distinct v4-shaped keys', () => {
+    const keys = new Set(Array.from({ length: 50 }, createIdempotencyKey));
+
+    expect(keys.size).toBe(50);
+    keys.forEach(key => expect(key).toMatch(/^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/));
+  });
+});
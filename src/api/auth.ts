@@ -1,5 +1,6 @@
-import apiClient, { setLoggingOut } from './client';
+import apiClient, { isNetworkError, setLoggingOut } from './client';
 import * as SecureStore from 'expo-secure-store';
+import { endSsoSession } from './sso';
 
 export const login = async (email: string, password: string) => {
   try {
@@ -38,4 +39,142 @@ export const logout = async () => {
   await SecureStore.deleteItemAsync('refreshToken');
 
   setLoggingOut(false);
+
+  // Sign out at the identity provider too, or the next SSO sign-in would skip the credentials
+  await endSsoSession();
+};
+
+export interface OtpChallenge {
+  otpToken: string;
+  email: string;
+  channel?: 'sms' | 'email';
+  destination?: string;
+  expiresAt: number;
+  resendAvailableAt: number;
+}
+
+const DEFAULT_OTP_EXPIRY_SECONDS = 300;
+const DEFAULT_OTP_RESEND_SECONDS = 60;
+
+// Builds the client-side challenge from the login / resend response, which carries
+// relative timings so the device clock doesn't have to agree with the server's
+export const toOtpChallenge = (data: any, email: string): OtpChallenge => {
+  const now = Date.now();
+  return {
+    otpToken: data.otp_token,
+    email,
+    channel: data.channel,
+    destination: data.destination,
+    expiresAt: now + (data.expires_in ?? DEFAULT_OTP_EXPIRY_SECONDS) * 1000,
+    resendAvailableAt: now + (data.resend_after ?? DEFAULT_OTP_RESEND_SECONDS) * 1000,
+  };
+};
+
+export interface OtpFailure {
+  success: false;
+  error: string;
+  code?: string;
+  attemptsRemaining?: number;
+  lockedUntil?: string;
+  // The request never reached the server
+  isNetworkError?: boolean;
+  // The server answered and turned the code down (a 4xx), as opposed to failing or not answering
+  isRejected?: boolean;
+}
+
+const otpErrorDetails = (error: any): OtpFailure => {
+  const data = error.response?.data || {};
+  const status: number | undefined = error.response?.status;
+  return {
+    success: false,
+    error: data.message || error.message,
+    code: data.code,
+    attemptsRemaining: data.data?.attempts_remaining,
+    lockedUntil: data.data?.locked_until,
+    isNetworkError: isNetworkError(error),
+    isRejected: status !== undefined && status >= 400 && status < 500 && status !== 429,
+  };
+};
+
+export const verifyOtp = async (
+  otpToken: string,
+  code: string
+): Promise<{ success: true; token: string; refreshToken?: string } | OtpFailure> => {
+  try {
+    const response = await apiClient.post('/auth/otp/verify', {
+      otp_token: otpToken,
+      code,
+    });
+
+    if (response.data && response.data.success) {
+      const { token, refresh_token } = response.data.data;
+      return { success: true, token, refreshToken: refresh_token };
+    }
+    return { success: false, error: 'Invalid response from server' };
+  } catch (error: any) {
+    return otpErrorDetails(error);
+  }
+};
+
+export const resendOtp = async (otpToken: string): Promise<{ success: true; data: any } | OtpFailure> => {
+  try {
+    const response = await apiClient.post('/auth/otp/resend', { otp_token: otpToken });
+
+    if (response.data && response.data.success) {
+      return { success: true, data: response.data.data };
+    }
+    return { success: false, error: 'Invalid response from server' };
+  } catch (error: any) {
+    return otpErrorDetails(error);
+  }
+};
+
+export type ResetChannel = 'email' | 'phone';
+
+// Starts a password reset; the server sends a code to the account's email or phone
+export const requestPasswordReset = async (channel: ResetChannel, identifier: string) => {
+  try {
+    const response = await apiClient.post('/auth/forgot-password', {
+      [channel]: identifier.trim(),
+    });
+
+    if (response.data && response.data.success) {
+      return { success: true, data: response.data.data };
+    }
+    return { success: false, error: 'Invalid response from server' };
+  } catch (error: any) {
+    return { success: false, error: error.response?.data?.message || error.message };
+  }
+};
+
+export const verifyPasswordResetCode = async (resetToken: string, code: string) => {
+  try {
+    const response = await apiClient.post('/auth/forgot-password/verify', {
+      reset_token: resetToken,
+      code,
+    });
+
+    if (response.data && response.data.success) {
+      return { success: true, data: response.data.data };
+    }
+    return { success: false, error: 'Invalid response from server' };
+  } catch (error: any) {
+    return { success: false, error: error.response?.data?.message || error.message };
+  }
+};
+
+export const resetPassword = async (resetToken: string, newPassword: string) => {
+  try {
+    const response = await apiClient.post('/auth/forgot-password/reset', {
+      reset_token: resetToken,
+      new_password: newPassword,
+    });
+
+    if (response.data && response.data.success) {
+      return { success: true };
+    }
+    return { success: false, error: 'Invalid response from server' };
+  } catch (error: any) {
+    return { success: false, error: error.response?.data?.message || error.message };
+  }
 };
@@ -1,11 +1,15 @@
+import { z } from 'zod';
 import apiClient from './client';
+import { Classification, ClassificationNode, ClassificationNodeSchema, ClassificationSchema } from './models';
+import { ApiResult, parseData } from './result';
+import { REFERENCE_TTL, referenceCache } from '@/src/utils/referenceCache';
 
-export const getClassifications = async (type?: 'incident' | 'request' | 'complaint' | 'query' | 'both' | 'all') => {
+const fetchClassifications = async (type?: 'incident' | 'request' | 'complaint' | 'query' | 'both' | 'all'): Promise<ApiResult<Classification[]>> => {
   try {
     const url = type ? `/admin/classifications?type=${type}` : '/admin/classifications';
     const response = await apiClient.get(url);
     if (response.data && response.data.success) {
-      return { success: true, data: response.data.data };
+      return parseData(z.array(ClassificationSchema), response.data.data, 'classification list');
     }
     return { success: false, error: 'Invalid response from server' };
   } catch (error: any) {
@@ -13,15 +17,21 @@ export const getClassifications = async (type?: 'incident' | 'request' | 'compla
   }
 };
 
-export const getClassificationsTree = async (type?: 'incident' | 'request' | 'complaint' | 'query' | 'both' | 'all') => {
+export const getClassifications = (type?: 'incident' | 'request' | 'complaint' | 'query' | 'both' | 'all'): Promise<ApiResult<Classification[]>> =>
+  referenceCache.get(`classifications:${type ?? 'default'}`, () => fetchClassifications(type), REFERENCE_TTL.structure);
+
+const fetchClassificationsTree = async (type?: 'incident' | 'request' | 'complaint' | 'query' | 'both' | 'all'): Promise<ApiResult<ClassificationNode[]>> => {
   try {
     const url = type ? `/admin/classifications/tree?type=${type}` : '/admin/classifications/tree';
     const response = await apiClient.get(url);
     if (response.data && response.data.success) {
-      return { success: true, data: response.data.data };
+      return parseData(z.array(ClassificationNodeSchema), response.data.data, 'classification tree');
     }
     return { success: false, error: response.data?.message || 'Invalid response from server' };
   } catch (error: any) {
     return { success: false, error: error.response?.data?.message || error.message };
   }
 };
+
+export const getClassificationsTree = (type?: 'incident' | 'request' | 'complaint' | 'query' | 'both' | 'all'): Promise<ApiResult<ClassificationNode[]>> =>
+  referenceCache.get(`classifications-tree:${type ?? 'default'}`, () => fetchClassificationsTree(type), REFERENCE_TTL.structure);
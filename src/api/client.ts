@@ -1,23 +1,45 @@
-import axios from 'axios';
+import axios, { isCancel } from 'axios';
+import Constants from 'expo-constants';
+import * as Device from 'expo-device';
 import * as SecureStore from 'expo-secure-store';
 import { router } from 'expo-router';
+import { Platform } from 'react-native';
 import { crashLogger } from '@/src/utils/crashLogger';
-
-export const baseURL = process.env.EXPO_PUBLIC_API_URL || 'http://192.168.31.107:8080/api/v1';
+import { isTokenExpiring } from '@/src/utils/jwt';
+import {
+  IDEMPOTENCY_HEADER,
+  createIdempotencyKey,
+  getRetryDelay,
+  getRetryRule,
+  isRetryableError,
+  wait,
+} from './retryPolicy';
+
+export const DEFAULT_BASE_URL = process.env.EXPO_PUBLIC_API_URL || 'http://192.168.31.107:8080/api/v1';
+
+// Follows the active server profile (see src/utils/serverProfiles.ts); read it at call time rather than caching it
+export let baseURL = DEFAULT_BASE_URL;
+
+// Lets the server describe this session in the user's list of signed-in devices.
+// Device names are user-chosen and may hold characters a header can't carry
+const DEVICE_HEADERS: Record<string, string> = {
+  'X-Device-Name': encodeURIComponent(Device.deviceName || Device.modelName || 'Unknown device'),
+  'X-Device-Platform': `${Platform.OS} ${Platform.Version}`,
+  'X-App-Version': Constants.expoConfig?.version || 'unknown',
+};
 
 const apiClient = axios.create({
   baseURL,
   headers: {
     'Content-Type': 'application/json',
+    ...DEVICE_HEADERS,
   },
 });
 
-// Flag to prevent multiple refresh attempts
-let isRefreshing = false;
-let failedQueue: Array<{
-  resolve: (value?: unknown) => void;
-  reject: (reason?: unknown) => void;
-}> = [];
+export const setBaseURL = (url: string) => {
+  baseURL = url;
+  apiClient.defaults.baseURL = url;
+};
 
 // Flag to prevent interceptor from running during logout
 let isLoggingOut = false;
@@ -26,24 +48,131 @@ export const setLoggingOut = (value: boolean) => {
   isLoggingOut = value;
 };
 
-const processQueue = (error: unknown, token: string | null = null) => {
-  failedQueue.forEach((prom) => {
-    if (error) {
-      prom.reject(error);
-    } else {
-      prom.resolve(token);
-    }
-  });
-  failedQueue = [];
+// True when the request never reached the server (offline, DNS failure, timeout),
+// as opposed to the server rejecting it or the client cancelling it locally
+export const isNetworkError = (error: any): boolean => {
+  return !!error && !error.response && !error.isNoToken && !error.isLogoutCancel && !isCancel(error);
+};
+
+// 'rejected': there is no refresh token or the server refused it, so the session is over.
+// 'unavailable': the server couldn't be reached or failed, so the session is kept for another try
+export type RefreshOutcome = 'refreshed' | 'rejected' | 'unavailable';
+
+// Statuses with which /auth/refresh turns down the refresh token itself
+const REFRESH_REJECTED_STATUSES = [400, 401, 403];
+
+// Why the session ended: 'revoked' when it was signed out from another device,
+// 'expired' for every other rejection
+export type SessionEndReason = 'revoked' | 'expired';
+
+// Error code the server sends with a rejected refresh token whose session was revoked
+const SESSION_REVOKED_CODE = 'SESSION_REVOKED';
+
+// The refresh currently running; concurrent callers share it instead of spending the refresh token twice
+let refreshPromise: Promise<RefreshOutcome> | null = null;
+
+const sessionExpiredListeners = new Set<(reason: SessionEndReason) => void>();
+
+// Called after the session ended because its refresh token was rejected
+export const onSessionExpired = (listener: (reason: SessionEndReason) => void): (() => void) => {
+  sessionExpiredListeners.add(listener);
+  return () => {
+    sessionExpiredListeners.delete(listener);
+  };
 };
 
-const redirectToLogin = async () => {
+const redirectToLogin = async (reason: SessionEndReason = 'expired') => {
   await SecureStore.deleteItemAsync('authToken');
   await SecureStore.deleteItemAsync('refreshToken');
   await SecureStore.deleteItemAsync('user');
+  sessionExpiredListeners.forEach(listener => listener(reason));
   router.replace('/login');
 };
 
+const requestRefresh = async (): Promise<RefreshOutcome> => {
+  const refreshToken = await SecureStore.getItemAsync('refreshToken');
+
+  if (!refreshToken) {
+    // Log missing refresh token
+    crashLogger.logWarning(
+      'No refresh token available - redirecting to login',
+      {
+        type: 'MissingRefreshToken',
+        context: 'User session expired or refresh token was deleted',
+      }
+    ).catch(() => {});
+
+    await redirectToLogin();
+    return 'rejected';
+  }
+
+  try {
+    const response = await axios.post(`${baseURL}/auth/refresh`, {
+      refresh_token: refreshToken,
+    }, { headers: DEVICE_HEADERS });
+
+    // The user logged out or switched servers while the refresh was in flight
+    if (isLoggingOut || (await SecureStore.getItemAsync('refreshToken')) !== refreshToken) {
+      return 'rejected';
+    }
+
+    const { token, refresh_token } = response.data.data;
+
+    await SecureStore.setItemAsync('authToken', token);
+    if (refresh_token) {
+      await SecureStore.setItemAsync('refreshToken', refresh_token);
+    }
+    return 'refreshed';
+  } catch (refreshError: any) {
+    const status = refreshError?.response?.status;
+
+    if (!REFRESH_REJECTED_STATUSES.includes(status)) {
+      // Offline or a server hiccup: the refresh token may still be good, so keep the session
+      crashLogger.logWarning(
+        'Token refresh failed - keeping the session for a later attempt',
+        {
+          type: 'TokenRefreshUnavailable',
+          errorMessage: refreshError?.message,
+          status,
+          context: 'Refresh endpoint unreachable or failing',
+        }
+      ).catch(() => {});
+      return 'unavailable';
+    }
+
+    // Log token refresh failure
+    crashLogger.logWarning(
+      'Token refresh failed - user will be redirected to login',
+      {
+        type: 'TokenRefreshError',
+        errorMessage: refreshError?.message,
+        status,
+        errorCode: refreshError?.response?.data?.code,
+        context: 'Refresh token expired or invalid',
+      }
+    ).catch(() => {});
+
+    const revoked = refreshError?.response?.data?.code === SESSION_REVOKED_CODE;
+    await redirectToLogin(revoked ? 'revoked' : 'expired');
+    return 'rejected';
+  }
+};
+
+/**
+ * Exchanges the refresh token for a new access token. Used by the 401 handler,
+ * before a request whose token is about to expire, and by the background
+ * refresh (src/utils/sessionRefresh.ts). Only a rejected refresh token ends
+ * the session; network and server failures leave the stored tokens alone.
+ */
+export const refreshAccessToken = (): Promise<RefreshOutcome> => {
+  if (!refreshPromise) {
+    refreshPromise = requestRefresh().finally(() => {
+      refreshPromise = null;
+    });
+  }
+  return refreshPromise;
+};
+
 // Interceptor to add the token to requests
 apiClient.interceptors.request.use(
   async (config) => {
@@ -54,12 +183,18 @@ apiClient.interceptors.request.use(
       return Promise.reject(error);
     }
 
-    const token = await SecureStore.getItemAsync('authToken');
+    let token = await SecureStore.getItemAsync('authToken');
 
     // If no token and not a public endpoint, reject the request
-    const publicEndpoints = ['/auth/login', '/auth/register', '/auth/forgot-password', '/auth/logout'];
+    const publicEndpoints = ['/auth/login', '/auth/register', '/auth/forgot-password', '/auth/logout', '/auth/otp/', '/auth/sso/'];
     const isPublicEndpoint = publicEndpoints.some(endpoint => config.url?.includes(endpoint));
 
+    // Refresh first rather than sending a token the server is about to turn down
+    if (token && !isPublicEndpoint && isTokenExpiring(token)) {
+      await refreshAccessToken();
+      token = await SecureStore.getItemAsync('authToken');
+    }
+
     if (!token && !isPublicEndpoint) {
       const error = new Error('No auth token available');
       (error as any).isNoToken = true;
@@ -69,6 +204,11 @@ apiClient.interceptors.request.use(
     if (token) {
       config.headers.Authorization = `Bearer ${token}`;
     }
+
+    // Callers may pass their own key to tie several calls together (e.g. an outbox replay)
+    if (getRetryRule(config)?.idempotent && !config.headers[IDEMPOTENCY_HEADER]) {
+      config.headers[IDEMPOTENCY_HEADER] = createIdempotencyKey();
+    }
     return config;
   },
   (error) => {
@@ -98,6 +238,8 @@ apiClient.interceptors.response.use(
       !isLoggingOut &&
       !(error as any).isLogoutCancel &&
       !(error as any).isNoToken &&
+      // Aborted by the caller, e.g. a search superseded by the next keystroke
+      !isCancel(error) &&
       // Don't log 401s as errors since they're handled by token refresh
       error.response?.status !== 401;
 
@@ -109,6 +251,7 @@ apiClient.interceptors.response.use(
         status: error.response?.status,
         statusText: error.response?.statusText,
         errorMessage: error.message,
+        retryAttempt: originalRequest?._retryCount,
       };
 
       // Add response data if available
@@ -185,76 +328,48 @@ apiClient.interceptors.response.use(
       return Promise.reject(error);
     }
 
-    // If already refreshing, queue this request
-    if (isRefreshing) {
-      return new Promise((resolve, reject) => {
-        failedQueue.push({ resolve, reject });
-      })
-        .then((token) => {
-          originalRequest.headers.Authorization = `Bearer ${token}`;
-          return apiClient(originalRequest);
-        })
-        .catch((err) => {
-          return Promise.reject(err);
-        });
-    }
-
     originalRequest._retry = true;
-    isRefreshing = true;
 
-    const refreshToken = await SecureStore.getItemAsync('refreshToken');
-
-    if (!refreshToken) {
-      isRefreshing = false;
-
-      // Log missing refresh token
-      crashLogger.logWarning(
-        'No refresh token available - redirecting to login',
-        {
-          type: 'MissingRefreshToken',
-          context: 'User session expired or refresh token was deleted',
-        }
-      ).catch(() => {});
+    // Another request already refreshed the token after this one was sent
+    const currentToken = await SecureStore.getItemAsync('authToken');
+    if (currentToken && originalRequest.headers?.Authorization !== `Bearer ${currentToken}`) {
+      return apiClient(originalRequest);
+    }
 
-      await redirectToLogin();
+    // The request interceptor picks up the new token on the replay
+    const outcome = await refreshAccessToken();
+    if (outcome !== 'refreshed') {
       return Promise.reject(error);
     }
+    return apiClient(originalRequest);
+  }
+);
 
-    try {
-      const response = await axios.post(`${baseURL}/auth/refresh`, {
-        refresh_token: refreshToken,
-      });
-
-      const { token, refresh_token } = response.data.data;
-
-      await SecureStore.setItemAsync('authToken', token);
-      if (refresh_token) {
-        await SecureStore.setItemAsync('refreshToken', refresh_token);
-      }
-
-      originalRequest.headers.Authorization = `Bearer ${token}`;
+// Replays transient failures according to the endpoint's rule in retryPolicy.ts
+apiClient.interceptors.response.use(
+  (response) => response,
+  async (error) => {
+    const config = error.config;
+    if (!config || isLoggingOut || !isRetryableError(error)) {
+      return Promise.reject(error);
+    }
 
-      processQueue(null, token);
+    const attempt = (config._retryCount || 0) + 1;
+    if (attempt > (getRetryRule(config)?.retries ?? 0)) {
+      return Promise.reject(error);
+    }
 
-      return apiClient(originalRequest);
-    } catch (refreshError: any) {
-      // Log token refresh failure
-      crashLogger.logWarning(
-        'Token refresh failed - user will be redirected to login',
-        {
-          type: 'TokenRefreshError',
-          errorMessage: refreshError?.message,
-          status: refreshError?.response?.status,
-          context: 'Refresh token expired or invalid',
-        }
-      ).catch(() => {});
+    const delay = getRetryDelay(error, attempt);
+    if (delay === null) {
+      return Promise.reject(error);
+    }
 
-      processQueue(refreshError, null);
-      await redirectToLogin();
-      return Promise.reject(refreshError);
-    } finally {
-      isRefreshing = false;
+    config._retryCount = attempt;
+    await wait(delay);
+    if (isLoggingOut) {
+      return Promise.reject(error);
     }
+    return apiClient(config);
   }
 );
 
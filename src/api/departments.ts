@@ -1,10 +1,14 @@
+import { z } from 'zod';
 import apiClient from './client';
+import { Department, DepartmentNode, DepartmentNodeSchema, DepartmentSchema } from './models';
+import { ApiResult, parseData } from './result';
+import { REFERENCE_TTL, referenceCache } from '@/src/utils/referenceCache';
 
-export const getDepartments = async () => {
+const fetchDepartments = async (): Promise<ApiResult<Department[]>> => {
   try {
     const response = await apiClient.get('/admin/departments');
     if (response.data && response.data.success) {
-      return { success: true, data: response.data.data };
+      return parseData(z.array(DepartmentSchema), response.data.data, 'department list');
     }
     return { success: false, error: 'Invalid response from server' };
   } catch (error: any) {
@@ -12,14 +16,20 @@ export const getDepartments = async () => {
   }
 };
 
-export const getDepartmentsTree = async () => {
+export const getDepartments = (): Promise<ApiResult<Department[]>> =>
+  referenceCache.get('departments', fetchDepartments, REFERENCE_TTL.structure);
+
+const fetchDepartmentsTree = async (): Promise<ApiResult<DepartmentNode[]>> => {
   try {
     const response = await apiClient.get('/admin/departments/tree');
     if (response.data && response.data.success) {
-      return { success: true, data: response.data.data };
+      return parseData(z.array(DepartmentNodeSchema), response.data.data, 'department tree');
     }
     return { success: false, error: response.data?.message || 'Invalid response from server' };
   } catch (error: any) {
     return { success: false, error: error.response?.data?.message || error.message };
   }
 };
+
+export const getDepartmentsTree = (): Promise<ApiResult<DepartmentNode[]>> =>
+  referenceCache.get('departments-tree', fetchDepartmentsTree, REFERENCE_TTL.structure);
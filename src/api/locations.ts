@@ -1,10 +1,14 @@
+import { z } from 'zod';
 import apiClient from './client';
+import { Location, LocationNode, LocationNodeSchema, LocationSchema } from './models';
+import { ApiResult, parseData } from './result';
+import { REFERENCE_TTL, referenceCache } from '@/src/utils/referenceCache';
 
-export const getLocations = async () => {
+const fetchLocations = async (): Promise<ApiResult<Location[]>> => {
   try {
     const response = await apiClient.get('/admin/locations');
     if (response.data && response.data.success) {
-      return { success: true, data: response.data.data };
+      return parseData(z.array(LocationSchema), response.data.data, 'location list');
     }
     return { success: false, error: 'Invalid response from server' };
   } catch (error: any) {
@@ -12,14 +16,20 @@ export const getLocations = async () => {
   }
 };
 
-export const getLocationsTree = async () => {
+export const getLocations = (): Promise<ApiResult<Location[]>> =>
+  referenceCache.get('locations', fetchLocations, REFERENCE_TTL.structure);
+
+const fetchLocationsTree = async (): Promise<ApiResult<LocationNode[]>> => {
   try {
     const response = await apiClient.get('/admin/locations/tree');
     if (response.data && response.data.success) {
-      return { success: true, data: response.data.data };
+      return parseData(z.array(LocationNodeSchema), response.data.data, 'location tree');
     }
     return { success: false, error: response.data?.message || 'Invalid response from server' };
   } catch (error: any) {
     return { success: false, error: error.response?.data?.message || error.message };
   }
 };
+
+export const getLocationsTree = (): Promise<ApiResult<LocationNode[]>> =>
+  referenceCache.get('locations-tree', fetchLocationsTree, REFERENCE_TTL.structure);
@@ -1,45 +1,22 @@
+import { z } from 'zod';
 import apiClient from './client';
+import { LookupCategory, LookupCategorySchema } from './models';
+import { ApiResult, parseData } from './result';
+import { REFERENCE_TTL, referenceCache } from '@/src/utils/referenceCache';
 
-export interface LookupValue {
-  id: string;
-  category_id: string;
-  code: string;
-  name: string;
-  name_ar?: string;
-  description?: string;
-  sort_order?: number;
-  color?: string;
-  is_default?: boolean;
-  is_active: boolean;
-}
+export type { FieldType, LookupCategory, LookupValue } from './models';
 
-export type FieldType = 'text' | 'number' | 'date' | 'select' | 'multiselect' | 'checkbox' | 'textarea';
-
-export interface LookupCategory {
-  id: string;
-  code: string;
-  name: string;
-  name_ar?: string;
-  description?: string;
-  is_system: boolean;
-  is_active: boolean;
-  add_to_incident_form?: boolean;
-  field_type?: FieldType;
-  validation_rules?: string;
-  values_count: number;
-  values?: LookupValue[];
-  created_at: string;
-  updated_at: string;
-}
-
-export const getLookupCategories = async () => {
+const fetchLookupCategories = async (): Promise<ApiResult<LookupCategory[]>> => {
   try {
     const response = await apiClient.get('/admin/lookups/categories');
     if (response.data && response.data.success) {
-      return { success: true, data: response.data.data };
+      return parseData(z.array(LookupCategorySchema), response.data.data, 'lookup category list');
     }
     return { success: false, error: 'Invalid response from server' };
   } catch (error: any) {
     return { success: false, error: error.response?.data?.message || error.message };
   }
 };
+
+export const getLookupCategories = (): Promise<ApiResult<LookupCategory[]>> =>
+  referenceCache.get('lookup-categories', fetchLookupCategories, REFERENCE_TTL.configuration);
@@ -0,0 +1,387 @@
+import { z } from 'zod';
+
+/**
+ * Shared domain model for everything the API layer returns.
+ *
+ * Each entity is declared once as a zod schema and its TypeScript type is
+ * inferred from it, so the static type and the runtime check can't drift.
+ * Schemas only describe the fields the app reads: unknown fields are kept
+ * (passthrough) and missing optional fields are fine, but a field the app
+ * relies on arriving with the wrong shape fails validation with a clear path.
+ */
+
+// The backend sends null for unset values; normalise to undefined so screens only deal with one
+const optional = <T extends z.ZodTypeAny>(schema: T) =>
+  z.preprocess(value => (value === null ? undefined : value), schema.optional());
+
+const id = z.string();
+const timestamp = z.string();
+
+export const RecordTypeSchema = z.enum(['incident', 'request', 'complaint', 'query']);
+
+// ==================== REFERENCE DATA ====================
+
+export const UserSummarySchema = z.object({
+  id,
+  username: optional(z.string()),
+  email: optional(z.string()),
+  first_name: optional(z.string()),
+  last_name: optional(z.string()),
+  phone: optional(z.string()),
+  avatar: optional(z.string()),
+}).passthrough();
+
+// Result of /admin/users/match: candidates for a manual assignment
+export const UserMatchSchema = z.object({
+  users: optional(z.array(UserSummarySchema)),
+}).passthrough();
+
+export const DepartmentSchema = z.object({
+  id,
+  name: z.string(),
+  code: optional(z.string()),
+  type: optional(z.string()),
+  parent_id: optional(z.string()),
+}).passthrough();
+
+export const LocationSchema = z.object({
+  id,
+  name: z.string(),
+  code: optional(z.string()),
+  type: optional(z.string()),
+  address: optional(z.string()),
+  level: optional(z.number()),
+  parent_id: optional(z.string()),
+}).passthrough();
+
+export const ClassificationSchema = z.object({
+  id,
+  name: z.string(),
+  type: optional(z.string()),
+  level: optional(z.number()),
+  parent_id: optional(z.string()),
+}).passthrough();
+
+// Tree endpoints return the same entities nested under `children`
+export type Department = z.infer<typeof DepartmentSchema>;
+export type Location = z.infer<typeof LocationSchema>;
+export type Classification = z.infer<typeof ClassificationSchema>;
+export type DepartmentNode = Department & { children?: DepartmentNode[] };
+export type LocationNode = Location & { children?: LocationNode[] };
+export type ClassificationNode = Classification & { children?: ClassificationNode[] };
+
+export const DepartmentNodeSchema: z.ZodType<DepartmentNode, z.ZodTypeDef, unknown> = DepartmentSchema.extend({
+  children: z.lazy(() => optional(z.array(DepartmentNodeSchema))),
+});
+
+export const LocationNodeSchema: z.ZodType<LocationNode, z.ZodTypeDef, unknown> = LocationSchema.extend({
+  children: z.lazy(() => optional(z.array(LocationNodeSchema))),
+});
+
+export const ClassificationNodeSchema: z.ZodType<ClassificationNode, z.ZodTypeDef, unknown> = ClassificationSchema.extend({
+  children: z.lazy(() => optional(z.array(ClassificationNodeSchema))),
+});
+
+export const LookupValueSchema = z.object({
+  id,
+  category_id: optional(z.string()),
+  code: optional(z.string()),
+  name: z.string(),
+  name_ar: optional(z.string()),
+  description: optional(z.string()),
+  color: optional(z.string()),
+  sort_order: optional(z.number()),
+  is_default: optional(z.boolean()),
+  is_active: optional(z.boolean()),
+  category: optional(z.object({
+    id: optional(z.string()),
+    code: optional(z.string()),
+    name: z.string(),
+    name_ar: optional(z.string()),
+  }).passthrough()),
+}).passthrough();
+
+export const FieldTypeSchema = z.enum(['text', 'number', 'date', 'select', 'multiselect', 'checkbox', 'textarea']);
+
+export const LookupCategorySchema = z.object({
+  id,
+  code: z.string(),
+  name: z.string(),
+  name_ar: optional(z.string()),
+  description: optional(z.string()),
+  is_system: optional(z.boolean()),
+  is_active: optional(z.boolean()),
+  add_to_incident_form: optional(z.boolean()),
+  field_type: optional(FieldTypeSchema),
+  validation_rules: optional(z.string()),
+  values_count: optional(z.number()),
+  values: optional(z.array(LookupValueSchema)),
+  created_at: optional(timestamp),
+  updated_at: optional(timestamp),
+}).passthrough();
+
+// ==================== WORKFLOW ====================
+
+export const WorkflowStateSchema = z.object({
+  id: optional(z.string()),
+  name: z.string(),
+  code: optional(z.string()),
+  color: optional(z.string()),
+  state_type: optional(z.string()),
+}).passthrough();
+
+export const TransitionRequirementSchema = z.object({
+  id: optional(z.string()),
+  requirement_type: z.string(),
+  is_mandatory: optional(z.boolean()),
+}).passthrough();
+
+export const FieldChangeSchema = z.object({
+  field_name: z.string(),
+  label: optional(z.string()),
+  is_required: optional(z.boolean()),
+  sort_order: optional(z.number()),
+  department_type_filter: optional(z.string()),
+}).passthrough();
+
+export const TransitionSchema = z.object({
+  id,
+  name: z.string(),
+  from_state: optional(WorkflowStateSchema),
+  to_state: optional(WorkflowStateSchema),
+  manual_select_user: optional(z.boolean()),
+  assignment_role_id: optional(z.string()),
+  requirements: optional(z.array(TransitionRequirementSchema)),
+  field_changes: optional(z.array(FieldChangeSchema)),
+}).passthrough();
+
+// Entry of /incidents/:id/available-transitions
+export const AvailableTransitionSchema = z.object({
+  can_execute: z.boolean(),
+  reason: optional(z.string()),
+  transition: TransitionSchema,
+  requirements: optional(z.array(TransitionRequirementSchema)),
+}).passthrough();
+
+export const TransitionHistoryEntrySchema = z.object({
+  id,
+  from_state: optional(WorkflowStateSchema),
+  to_state: optional(WorkflowStateSchema),
+  performed_by: optional(UserSummarySchema.partial({ id: true })),
+  transitioned_at: timestamp,
+  comment: optional(z.string()),
+}).passthrough();
+
+export const WorkflowSchema = z.object({
+  id,
+  name: z.string(),
+  code: optional(z.string()),
+  record_type: optional(z.string()),
+  is_active: optional(z.boolean()),
+  is_default: optional(z.boolean()),
+  required_fields: optional(z.array(z.string())),
+  classifications: optional(z.array(z.object({ id, name: z.string() }).passthrough())),
+  locations: optional(z.array(z.object({ id, name: z.string() }).passthrough())),
+  sources: optional(z.array(z.string())),
+  priorities: optional(z.array(z.number())),
+  severity_min: optional(z.number()),
+  severity_max: optional(z.number()),
+  priority_min: optional(z.number()),
+  priority_max: optional(z.number()),
+  states: optional(z.array(WorkflowStateSchema)),
+}).passthrough();
+
+// Result of /admin/workflows/match
+export const WorkflowMatchSchema = z.object({
+  workflow_id: optional(z.string()),
+  workflow: optional(WorkflowSchema),
+}).passthrough();
+
+// ==================== RECORDS ====================
+
+export const AttachmentSchema = z.object({
+  id,
+  file_name: z.string(),
+  mime_type: optional(z.string()),
+  file_size: optional(z.number()),
+  created_at: optional(timestamp),
+}).passthrough();
+
+export const CommentSchema = z.object({
+  id,
+  content: z.string(),
+  is_internal: optional(z.boolean()),
+  created_at: timestamp,
+  author: optional(UserSummarySchema.partial({ id: true })),
+}).passthrough();
+
+export const IncidentSchema = z.object({
+  id,
+  incident_number: z.string(),
+  record_type: optional(RecordTypeSchema),
+  title: z.string(),
+  description: optional(z.string()),
+  priority: optional(z.number()),
+  channel: optional(z.string()),
+  version: optional(z.number()),
+
+  current_state: optional(WorkflowStateSchema),
+  classification_id: optional(z.string()),
+  classification: optional(ClassificationSchema),
+  department_id: optional(z.string()),
+  department: optional(DepartmentSchema),
+  location_id: optional(z.string()),
+  location: optional(LocationSchema),
+
+  assignee_id: optional(z.string()),
+  assignee: optional(UserSummarySchema),
+  assignees: optional(z.array(UserSummarySchema)),
+  reporter: optional(UserSummarySchema.partial({ id: true })),
+  reporter_name: optional(z.string()),
+  reporter_email: optional(z.string()),
+
+  latitude: optional(z.coerce.number()),
+  longitude: optional(z.coerce.number()),
+  address: optional(z.string()),
+  city: optional(z.string()),
+  state: optional(z.string()),
+  country: optional(z.string()),
+  postal_code: optional(z.string()),
+
+  due_date: optional(timestamp),
+  sla_breached: optional(z.boolean()),
+  sla_status: optional(z.string()),
+  // SLA clock: the deadline already includes any time spent paused
+  sla_deadline: optional(timestamp),
+  sla_started_at: optional(timestamp),
+  sla_target_minutes: optional(z.number()),
+  sla_paused_seconds: optional(z.number()),
+  sla_paused_at: optional(timestamp),
+
+  lookup_values: optional(z.array(LookupValueSchema)),
+  custom_fields: optional(z.string()),
+  attachments: optional(z.array(AttachmentSchema)),
+  comments: optional(z.array(CommentSchema)),
+  transition_history: optional(z.array(TransitionHistoryEntrySchema)),
+  source_incident: optional(z.object({
+    id: optional(z.string()),
+    incident_number: z.string(),
+    title: optional(z.string()),
+  }).passthrough()),
+
+  created_at: timestamp,
+  updated_at: optional(timestamp),
+}).passthrough();
+
+// Where a search query matched a record, e.g. { field: 'comments', snippet: '...the pump at gate 3...' }
+export const SearchMatchSchema = z.object({
+  field: z.string(),
+  snippet: optional(z.string()),
+}).passthrough();
+
+// Result of /incidents/search: the record plus the fields that matched
+export const SearchHitSchema = IncidentSchema.extend({
+  matches: optional(z.array(SearchMatchSchema)),
+});
+
+// Create and transition endpoints only echo back enough to identify the record
+export const RecordRefSchema = z.object({
+  id,
+  incident_number: optional(z.string()),
+}).passthrough();
+
+export const StateCountSchema = z.object({
+  id: optional(z.string()),
+  name: z.string(),
+  count: z.number(),
+}).passthrough();
+
+export const IncidentStatsSchema = z.object({
+  total: z.number(),
+  by_state_details: optional(z.array(StateCountSchema)),
+}).passthrough();
+
+// ==================== NOTIFICATIONS ====================
+
+export const NotificationCategorySchema = z.enum(['assignment', 'transition', 'comment', 'sla']);
+
+// Per-category opt-in; categories the server leaves out are treated as enabled
+export const NotificationPreferencesSchema = z.object({
+  assignment: optional(z.boolean()),
+  transition: optional(z.boolean()),
+  comment: optional(z.boolean()),
+  sla: optional(z.boolean()),
+}).passthrough();
+
+// `data` block the backend attaches to every push message
+export const PushPayloadSchema = z.object({
+  category: NotificationCategorySchema,
+  record_id: id,
+  record_type: optional(RecordTypeSchema),
+  incident_number: optional(z.string()),
+}).passthrough();
+
+// ==================== AUTH ====================
+
+// Result of /auth/sso/config: the OpenID Connect provider a server accepts sign-ins from
+export const SsoConfigSchema = z.object({
+  enabled: z.boolean(),
+  issuer: optional(z.string()),
+  client_id: optional(z.string()),
+  scopes: optional(z.array(z.string())),
+  display_name: optional(z.string()),
+}).passthrough();
+
+// One signed-in device as listed by /users/me/sessions; device details are what the app reported when it last called in
+export const SessionSchema = z.object({
+  id,
+  device_name: optional(z.string()),
+  platform: optional(z.string()),
+  os_version: optional(z.string()),
+  app_version: optional(z.string()),
+  ip_address: optional(z.string()),
+  // Approximate, resolved by the server from the IP address, e.g. "Dubai, AE"
+  location: optional(z.string()),
+  created_at: optional(z.string()),
+  last_seen_at: optional(z.string()),
+  is_current: optional(z.boolean()),
+}).passthrough();
+
+// ==================== SECURITY ====================
+
+// App lock rules an administrator can impose on every mobile session; unset fields leave the choice to the user
+export const AppLockPolicySchema = z.object({
+  required: optional(z.boolean()),
+  max_inactivity_seconds: optional(z.number()),
+  max_failed_attempts: optional(z.number()),
+  allow_biometrics: optional(z.boolean()),
+}).passthrough();
+
+export type RecordType = z.infer<typeof RecordTypeSchema>;
+export type UserSummary = z.infer<typeof UserSummarySchema>;
+export type UserMatch = z.infer<typeof UserMatchSchema>;
+export type LookupValue = z.infer<typeof LookupValueSchema>;
+export type FieldType = z.infer<typeof FieldTypeSchema>;
+export type LookupCategory = z.infer<typeof LookupCategorySchema>;
+export type WorkflowState = z.infer<typeof WorkflowStateSchema>;
+export type TransitionRequirement = z.infer<typeof TransitionRequirementSchema>;
+export type FieldChange = z.infer<typeof FieldChangeSchema>;
+export type Transition = z.infer<typeof TransitionSchema>;
+export type AvailableTransition = z.infer<typeof AvailableTransitionSchema>;
+export type TransitionHistoryEntry = z.infer<typeof TransitionHistoryEntrySchema>;
+export type Workflow = z.infer<typeof WorkflowSchema>;
+export type WorkflowMatch = z.infer<typeof WorkflowMatchSchema>;
+export type Attachment = z.infer<typeof AttachmentSchema>;
+export type Comment = z.infer<typeof CommentSchema>;
+export type Incident = z.infer<typeof IncidentSchema>;
+export type SearchMatch = z.infer<typeof SearchMatchSchema>;
+export type SearchHit = z.infer<typeof SearchHitSchema>;
+export type RecordRef = z.infer<typeof RecordRefSchema>;
+export type StateCount = z.infer<typeof StateCountSchema>;
+export type IncidentStats = z.infer<typeof IncidentStatsSchema>;
+export type NotificationCategory = z.infer<typeof NotificationCategorySchema>;
+export type NotificationPreferences = z.infer<typeof NotificationPreferencesSchema>;
+export type PushPayload = z.infer<typeof PushPayloadSchema>;
+export type AppLockPolicy = z.infer<typeof AppLockPolicySchema>;
+export type SsoConfig = z.infer<typeof SsoConfigSchema>;
+export type Session = z.infer<typeof SessionSchema>;
@@ -0,0 +1,59 @@
+import apiClient from './client';
+import { NotificationPreferences, NotificationPreferencesSchema } from './models';
+import { ApiResult, parseData } from './result';
+
+export interface PushDeviceRegistration {
+  token: string;
+  platform: string;
+  device_name?: string;
+}
+
+export const registerPushDevice = async (device: PushDeviceRegistration): Promise<ApiResult<null>> => {
+  try {
+    const response = await apiClient.post('/notifications/devices', device);
+    if (response.data && response.data.success) {
+      return { success: true, data: null };
+    }
+    return { success: false, error: 'Invalid response from server' };
+  } catch (error: any) {
+    return { success: false, error: error.response?.data?.message || error.message };
+  }
+};
+
+export const unregisterPushDevice = async (token: string): Promise<ApiResult<null>> => {
+  try {
+    const response = await apiClient.delete(`/notifications/devices/${encodeURIComponent(token)}`);
+    if (response.data && response.data.success) {
+      return { success: true, data: null };
+    }
+    return { success: false, error: 'Invalid response from server' };
+  } catch (error: any) {
+    return { success: false, error: error.response?.data?.message || error.message };
+  }
+};
+
+export const getNotificationPreferences = async (): Promise<ApiResult<NotificationPreferences>> => {
+  try {
+    const response = await apiClient.get('/notifications/preferences');
+    if (response.data && response.data.success) {
+      return parseData(NotificationPreferencesSchema, response.data.data, 'notification preferences');
+    }
+    return { success: false, error: 'Invalid response from server' };
+  } catch (error: any) {
+    return { success: false, error: error.response?.data?.message || error.message };
+  }
+};
+
+export const updateNotificationPreferences = async (
+  preferences: NotificationPreferences
+): Promise<ApiResult<NotificationPreferences>> => {
+  try {
+    const response = await apiClient.put('/notifications/preferences', preferences);
+    if (response.data && response.data.success) {
+      return parseData(NotificationPreferencesSchema, response.data.data, 'notification preferences');
+    }
+    return { success: false, error: 'Invalid response from server' };
+  } catch (error: any) {
+    return { success: false, error: error.response?.data?.message || error.message };
+  }
+};
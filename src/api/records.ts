@@ -0,0 +1,318 @@
+import { isCancel } from 'axios';
+import { z } from 'zod';
+import apiClient, { isNetworkError } from './client';
+import { IDEMPOTENCY_HEADER } from './retryPolicy';
+import {
+  Attachment,
+  AttachmentSchema,
+  AvailableTransition,
+  AvailableTransitionSchema,
+  Incident,
+  IncidentSchema,
+  IncidentStats,
+  IncidentStatsSchema,
+  RecordRef,
+  RecordRefSchema,
+  RecordType,
+  SearchHit,
+  SearchHitSchema,
+} from './models';
+import { ApiResult, EMPTY_PAGINATION, PaginatedResult, parseData, parsePage } from './result';
+
+// Every ticket type lives in the shared /incidents collection and is told apart by record_type
+const RECORDS_PATH = '/incidents';
+
+interface RecordTypeEndpoints {
+  // Collection new records of this type are posted to
+  create: string;
+  // Collection whose /:id/attachments route accepts uploads for this type
+  attachments: string;
+}
+
+/**
+ * Per-type endpoint differences. Everything else (listing, details, stats,
+ * transitions) goes through the shared collection, so a new ticket type only
+ * needs an entry here.
+ */
+export const RECORD_TYPES: Record<RecordType, RecordTypeEndpoints> = {
+  incident: { create: RECORDS_PATH, attachments: RECORDS_PATH },
+  request: { create: RECORDS_PATH, attachments: RECORDS_PATH },
+  complaint: { create: '/complaints', attachments: '/complaints' },
+  query: { create: '/queries', attachments: '/complaints' },
+};
+
+export const RECORD_TYPE_LIST = Object.keys(RECORD_TYPES) as RecordType[];
+
+export interface MutationOptions {
+  // Reuse the same key when resubmitting the same change, so the server applies it only once.
+  // Without one the client generates a key per call, which still covers its automatic retries
+  idempotencyKey?: string;
+}
+
+const idempotencyHeaders = ({ idempotencyKey }: MutationOptions) =>
+  idempotencyKey ? { [IDEMPOTENCY_HEADER]: idempotencyKey } : undefined;
+
+export const getRecords = async (
+  recordType: RecordType,
+  params: Record<string, any> = {}
+): Promise<PaginatedResult<Incident>> => {
+  try {
+    // Set default pagination if not provided
+    const queryParams = {
+      page: params.page || 1,
+      limit: params.limit || 20,
+      record_type: recordType,
+      ...params,
+    };
+
+    const response = await apiClient.get(RECORDS_PATH, { params: queryParams });
+    if (response.data && response.data.success) {
+      return parsePage(IncidentSchema, response.data, `${recordType} list`);
+    }
+    return { success: false, pagination: EMPTY_PAGINATION, error: 'Invalid response from server' };
+  } catch (error: any) {
+    return { success: false, pagination: EMPTY_PAGINATION, error: error.response?.data?.message || error.message };
+  }
+};
+
+export const getRecord = async (id: string): Promise<ApiResult<Incident>> => {
+  try {
+    const response = await apiClient.get(`${RECORDS_PATH}/${id}`);
+    if (response.data && response.data.success) {
+      return parseData(IncidentSchema, response.data.data, 'record');
+    }
+    return { success: false, error: 'Invalid response from server' };
+  } catch (error: any) {
+    return { success: false, error: error.response?.data?.message || error.message };
+  }
+};
+
+export interface SearchOptions {
+  // Every type the user can see when left out
+  recordTypes?: RecordType[];
+  limit?: number;
+  // Aborts the request, e.g. when the query changed before the results came in
+  signal?: AbortSignal;
+}
+
+/**
+ * Full-text search across every record type: numbers, titles, descriptions,
+ * reporter names and emails, and comment text. Hits come best match first and
+ * name the fields that matched.
+ */
+export const searchRecords = async (
+  query: string,
+  { recordTypes, limit = 20, signal }: SearchOptions = {}
+): Promise<ApiResult<SearchHit[]>> => {
+  try {
+    const params: Record<string, any> = { q: query, limit };
+    if (recordTypes?.length) params.record_types = recordTypes.join(',');
+
+    const response = await apiClient.get(`${RECORDS_PATH}/search`, { params, signal });
+    if (response.data && response.data.success) {
+      return parseData(z.array(SearchHitSchema), response.data.data || [], 'search results');
+    }
+    return { success: false, error: 'Invalid response from server' };
+  } catch (error: any) {
+    if (isCancel(error)) {
+      return { success: false, error: error.message, isCanceled: true };
+    }
+    return { success: false, error: error.response?.data?.message || error.message };
+  }
+};
+
+export const createRecord = async (
+  recordType: RecordType,
+  recordData: any,
+  options: MutationOptions = {}
+): Promise<ApiResult<RecordRef>> => {
+  const { create } = RECORD_TYPES[recordType];
+  // Type-specific collections imply the type; the shared one needs it spelled out
+  const body = create === RECORDS_PATH ? { ...recordData, record_type: recordType } : recordData;
+
+  try {
+    const response = await apiClient.post(create, body, { headers: idempotencyHeaders(options) });
+    if (response.data && response.data.success) {
+      return parseData(RecordRefSchema, response.data.data, 'created record');
+    }
+    return { success: false, error: response.data?.error || 'Invalid response from server' };
+  } catch (error: any) {
+    const errorData = error.response?.data;
+    return {
+      success: false,
+      error: errorData?.error || errorData?.message || error.message,
+      isNetworkError: isNetworkError(error),
+      details: errorData?.details // validation error details
+    };
+  }
+};
+
+/**
+ * Changes fields of an existing record. `version` is the one the changes were
+ * made against; when someone else saved in between, the server refuses with
+ * 409 instead of overwriting their work.
+ */
+export const updateRecord = async (
+  id: string,
+  changes: Record<string, any>,
+  version: number
+): Promise<ApiResult<RecordRef>> => {
+  try {
+    const response = await apiClient.put(`${RECORDS_PATH}/${id}`, { ...changes, version });
+    if (response.data && response.data.success) {
+      return parseData(RecordRefSchema, response.data.data, 'updated record');
+    }
+    return { success: false, error: response.data?.error || 'Invalid response from server' };
+  } catch (error: any) {
+    const errorData = error.response?.data;
+    return {
+      success: false,
+      error: errorData?.error || errorData?.message || error.message,
+      isNetworkError: isNetworkError(error),
+      isConflict: error.response?.status === 409,
+      details: errorData?.details,
+    };
+  }
+};
+
+export const getRecordStats = async (recordType: RecordType, params = {}): Promise<ApiResult<IncidentStats>> => {
+  try {
+    const response = await apiClient.get(`${RECORDS_PATH}/stats`, { params: { ...params, record_type: recordType } });
+    if (response.data && response.data.success) {
+      return parseData(IncidentStatsSchema, response.data.data, 'statistics');
+    }
+    return { success: false, error: 'Invalid response from server' };
+  } catch (error: any) {
+    return { success: false, error: error.response?.data?.message || error.message };
+  }
+};
+
+export interface SlaCounts {
+  at_risk: number;
+  breached: number;
+}
+
+// Open records of a type that are at risk of or already past their SLA, via the filtered stats endpoint
+export const getSlaCounts = async (recordType: RecordType): Promise<ApiResult<SlaCounts>> => {
+  const [atRisk, breached] = await Promise.all([
+    getRecordStats(recordType, { sla_status: 'at_risk' }),
+    getRecordStats(recordType, { sla_status: 'breached' }),
+  ]);
+  if (!atRisk.success) return atRisk;
+  if (!breached.success) return breached;
+  return { success: true, data: { at_risk: atRisk.data.total, breached: breached.data.total } };
+};
+
+export const getAvailableTransitions = async (id: string): Promise<ApiResult<AvailableTransition[]>> => {
+  try {
+    const response = await apiClient.get(`${RECORDS_PATH}/${id}/available-transitions`);
+    if (response.data && response.data.success) {
+      return parseData(z.array(AvailableTransitionSchema), response.data.data, 'transition list');
+    }
+    return { success: false, error: 'Invalid response from server' };
+  } catch (error: any) {
+    return { success: false, error: error.response?.data?.message || error.message };
+  }
+};
+
+export const executeTransition = async (
+  id: string,
+  transitionData: any,
+  options: MutationOptions = {}
+): Promise<ApiResult<RecordRef>> => {
+  try {
+    const response = await apiClient.post(`${RECORDS_PATH}/${id}/transition`, transitionData, {
+      headers: idempotencyHeaders(options),
+    });
+
+    if (response.data && response.data.success) {
+      return parseData(RecordRefSchema, response.data.data, 'transition result');
+    }
+    return { success: false, error: 'Invalid response from server' };
+  } catch (error: any) {
+    return {
+      success: false,
+      error: error.response?.data?.error || error.response?.data?.message || error.message,
+      isNetworkError: isNetworkError(error),
+    };
+  }
+};
+
+// Hands a record to another user without moving it through the workflow
+export const assignRecord = async (id: string, assigneeId: string): Promise<ApiResult<RecordRef>> => {
+  try {
+    const response = await apiClient.put(`${RECORDS_PATH}/${id}/assign`, { assignee_id: assigneeId });
+    if (response.data && response.data.success) {
+      return parseData(RecordRefSchema, response.data.data, 'assignment result');
+    }
+    return { success: false, error: 'Invalid response from server' };
+  } catch (error: any) {
+    return {
+      success: false,
+      error: error.response?.data?.error || error.response?.data?.message || error.message,
+      isNetworkError: isNetworkError(error),
+    };
+  }
+};
+
+export const getAttachments = async (recordId: string): Promise<ApiResult<Attachment[]>> => {
+  try {
+    const response = await apiClient.get(`${RECORDS_PATH}/${recordId}/attachments`);
+    if (response.data && response.data.success) {
+      return parseData(z.array(AttachmentSchema), response.data.data, 'attachment list');
+    }
+    return { success: false, error: 'Invalid response from server' };
+  } catch (error: any) {
+    return { success: false, error: error.response?.data?.message || error.message };
+  }
+};
+
+export const uploadAttachment = async (
+  recordType: RecordType,
+  recordId: string,
+  file: any
+): Promise<ApiResult<Attachment>> => {
+  try {
+    const formData = new FormData();
+    formData.append('file', {
+      uri: file.uri,
+      name: file.name,
+      type: file.type,
+    } as any);
+
+    const response = await apiClient.post(`${RECORD_TYPES[recordType].attachments}/${recordId}/attachments`, formData, {
+      headers: {
+        'Content-Type': 'multipart/form-data',
+      },
+    });
+
+    if (response.data && response.data.success) {
+      return parseData(AttachmentSchema, response.data.data, 'attachment');
+    }
+    return { success: false, error: 'Invalid response from server' };
+  } catch (error: any) {
+    return { success: false, error: error.response?.data?.message || error.message, isNetworkError: isNetworkError(error) };
+  }
+};
+
+// Uploads one file at a time so a single failure doesn't lose the others
+export const uploadMultipleAttachments = async (recordType: RecordType, recordId: string, files: any[]) => {
+  const results: Attachment[] = [];
+  const errors: { file: string; error: string }[] = [];
+
+  for (const file of files) {
+    const result = await uploadAttachment(recordType, recordId, file);
+    if (result.success) {
+      results.push(result.data);
+    } else {
+      errors.push({ file: file.name, error: result.error });
+    }
+  }
+
+  return {
+    success: errors.length === 0,
+    data: results,
+    errors: errors.length > 0 ? errors : undefined,
+    partialSuccess: results.length > 0 && errors.length > 0,
+  };
+};
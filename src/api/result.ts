@@ -0,0 +1,91 @@
+import { z } from 'zod';
+import { crashLogger } from '@/src/utils/crashLogger';
+
+export interface ApiSuccess<T> {
+  success: true;
+  data: T;
+  error?: undefined;
+}
+
+export interface ApiFailure {
+  success: false;
+  data?: undefined;
+  error: string;
+  // The request never reached the server (see isNetworkError in client.ts)
+  isNetworkError?: boolean;
+  // Field level validation errors from the server
+  details?: unknown;
+  // The server answered, but the payload didn't match the expected model
+  isSchemaError?: boolean;
+  // The caller aborted the request through its signal
+  isCanceled?: boolean;
+  // The record changed on the server since the version the change was based on
+  isConflict?: boolean;
+}
+
+/**
+ * Result of every call in src/api. Both branches declare the other's fields as
+ * optional, so `response.data` and `response.error` can be read before narrowing.
+ */
+export type ApiResult<T> = ApiSuccess<T> | ApiFailure;
+
+export interface Pagination {
+  page: number;
+  limit: number;
+  total_items: number;
+  total_pages: number;
+}
+
+export type PaginatedResult<T> = ApiResult<T[]> & { pagination: Pagination };
+
+export const EMPTY_PAGINATION: Pagination = { page: 1, limit: 20, total_items: 0, total_pages: 0 };
+
+const formatIssues = (issues: z.ZodIssue[]) =>
+  issues
+    .slice(0, 3)
+    .map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+    .join('; ');
+
+/**
+ * Validates a server payload against its model. A mismatch becomes a failed
+ * result naming the offending fields (and is reported to the crash log), so a
+ * backend schema change surfaces as an error message rather than a blank screen.
+ */
+export const parseData = <T>(
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+  payload: unknown,
+  resource: string
+): ApiResult<T> => {
+  const parsed = schema.safeParse(payload);
+  if (parsed.success) {
+    return { success: true, data: parsed.data };
+  }
+
+  const summary = formatIssues(parsed.error.issues);
+  crashLogger.logWarning(`Unexpected ${resource} payload from server`, {
+    type: 'SchemaValidationError',
+    resource,
+    issues: summary,
+  }).catch(() => {});
+
+  return {
+    success: false,
+    error: `Unexpected ${resource} data from server (${summary})`,
+    isSchemaError: true,
+  };
+};
+
+// List endpoints return the page of items in `data` and the paging info beside it
+export const parsePage = <T>(
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+  body: any,
+  resource: string
+): PaginatedResult<T> => ({
+  ...parseData(z.array(schema), body.data || [], resource),
+  pagination: {
+    page: body.page || 1,
+    limit: body.limit || 20,
+    total_items: body.total_items || 0,
+    total_pages: body.total_pages || 0,
+  },
+});
@@ -0,0 +1,103 @@
+import { isCancel } from 'axios';
+
+/**
+ * Retry rules for apiClient. A failed request is replayed only when its rule
+ * allows it and the failure is transient (no response, timeout, 429, 502-504),
+ * with exponential backoff plus jitter, or after the server's Retry-After.
+ *
+ * Creates and transitions are not idempotent on their own, so their rules send
+ * an Idempotency-Key: every replay of one logical call carries the same key and
+ * the server returns the original result instead of applying it twice.
+ */
+
+export const IDEMPOTENCY_HEADER = 'Idempotency-Key';
+
+type HttpMethod = 'get' | 'head' | 'post' | 'put' | 'patch' | 'delete';
+
+interface RetryRule {
+  // Matched against the request path, without the base URL or query string
+  path: RegExp;
+  // Any method when left out
+  methods?: HttpMethod[];
+  // Replays after the first attempt
+  retries: number;
+  // Attach an idempotency key so replays are safe for a non-idempotent call
+  idempotent?: boolean;
+}
+
+// First match wins; requests no rule covers are not retried
+const RETRY_RULES: RetryRule[] = [
+  // Login, OTP and token refresh are left to the user (and the 401 handler)
+  { path: /\/auth\//, retries: 0 },
+  // Uploads are large and not deduplicated by the server; the outbox replays them instead
+  { path: /\/attachments$/, methods: ['post'], retries: 0 },
+  // Record creation, one collection per ticket type (see RECORD_TYPES)
+  { path: /^\/(incidents|complaints|queries)$/, methods: ['post'], retries: 3, idempotent: true },
+  { path: /^\/incidents\/[^/]+\/transition$/, methods: ['post'], retries: 3, idempotent: true },
+  { path: /.*/, methods: ['get', 'head'], retries: 3 },
+];
+
+const RETRYABLE_STATUSES = [408, 429, 502, 503, 504];
+
+const BASE_DELAY_MS = 500;
+const MAX_BACKOFF_MS = 8000;
+// A Retry-After longer than this is treated as "not now" and the error is returned
+const MAX_RETRY_AFTER_MS = 30000;
+
+const requestPath = (url: string = '', baseURL: string = '') => {
+  const path = baseURL && url.startsWith(baseURL) ? url.slice(baseURL.length) : url;
+  return path.split('?')[0].replace(/^https?:\/\/[^/]+/i, '');
+};
+
+export const getRetryRule = (config: { url?: string; baseURL?: string; method?: string }): RetryRule | undefined => {
+  const path = requestPath(config.url, config.baseURL);
+  const method = (config.method || 'get').toLowerCase() as HttpMethod;
+  return RETRY_RULES.find(rule => rule.path.test(path) && (!rule.methods || rule.methods.includes(method)));
+};
+
+// Random v4-style UUID; only needs to be unique, not unguessable
+export const createIdempotencyKey = (): string =>
+  'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, char => {
+    const random = (Math.random() * 16) | 0;
+    return (char === 'x' ? random : (random & 0x3) | 0x8).toString(16);
+  });
+
+// Failures worth another attempt: the server was unreachable, timed out or asked us to back off
+export const isRetryableError = (error: any): boolean => {
+  if (!error || isCancel(error) || error.isNoToken || error.isLogoutCancel) {
+    return false;
+  }
+  if (!error.response) {
+    return true;
+  }
+  return RETRYABLE_STATUSES.includes(error.response.status);
+};
+
+// Retry-After is either delay-seconds or an HTTP date
+const parseRetryAfter = (value: unknown): number | null => {
+  if (typeof value !== 'string' && typeof value !== 'number') return null;
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(String(value));
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+};
+
+/**
+ * Milliseconds to wait before replay number `attempt` (starting at 1), or null
+ * when the server asked for a longer pause than is worth waiting for.
+ */
+export const getRetryDelay = (error: any, attempt: number): number | null => {
+  const backoff = Math.min(MAX_BACKOFF_MS, BASE_DELAY_MS * 2 ** (attempt - 1));
+  // Equal jitter: at least half the backoff, so clients that failed together spread out
+  const delay = backoff / 2 + Math.random() * (backoff / 2);
+
+  const retryAfter = parseRetryAfter(error?.response?.headers?.['retry-after']);
+  if (retryAfter === null) {
+    return delay;
+  }
+  return retryAfter > MAX_RETRY_AFTER_MS ? null : Math.max(delay, retryAfter);
+};
+
+export const wait = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
@@ -0,0 +1,15 @@
+import apiClient from './client';
+import { AppLockPolicy, AppLockPolicySchema } from './models';
+import { ApiResult, parseData } from './result';
+
+export const getAppLockPolicy = async (): Promise<ApiResult<AppLockPolicy>> => {
+  try {
+    const response = await apiClient.get('/mobile/app-lock-policy');
+    if (response.data && response.data.success) {
+      return parseData(AppLockPolicySchema, response.data.data, 'app lock policy');
+    }
+    return { success: false, error: 'Invalid response from server' };
+  } catch (error: any) {
+    return { success: false, error: error.response?.data?.message || error.message };
+  }
+};
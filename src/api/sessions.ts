@@ -0,0 +1,43 @@
+import { z } from 'zod';
+import apiClient from './client';
+import { Session, SessionSchema } from './models';
+import { ApiResult, parseData } from './result';
+
+// Every session signed in to the user's account, this device's included (flagged is_current)
+export const getSessions = async (): Promise<ApiResult<Session[]>> => {
+  try {
+    const response = await apiClient.get('/users/me/sessions');
+    if (response.data && response.data.success) {
+      return parseData(z.array(SessionSchema), response.data.data || [], 'sessions');
+    }
+    return { success: false, error: 'Invalid response from server' };
+  } catch (error: any) {
+    return { success: false, error: error.response?.data?.message || error.message };
+  }
+};
+
+// Signs another device out; its next refresh is rejected and the app there returns to login
+export const revokeSession = async (sessionId: string): Promise<ApiResult<null>> => {
+  try {
+    const response = await apiClient.delete(`/users/me/sessions/${encodeURIComponent(sessionId)}`);
+    if (response.data && response.data.success) {
+      return { success: true, data: null };
+    }
+    return { success: false, error: 'Invalid response from server' };
+  } catch (error: any) {
+    return { success: false, error: error.response?.data?.message || error.message };
+  }
+};
+
+// Signs out every session except the one making the call
+export const revokeOtherSessions = async (): Promise<ApiResult<null>> => {
+  try {
+    const response = await apiClient.delete('/users/me/sessions', { params: { scope: 'others' } });
+    if (response.data && response.data.success) {
+      return { success: true, data: null };
+    }
+    return { success: false, error: 'Invalid response from server' };
+  } catch (error: any) {
+    return { success: false, error: error.response?.data?.message || error.message };
+  }
+};
@@ -0,0 +1,169 @@
+import * as AuthSession from 'expo-auth-session';
+import * as SecureStore from 'expo-secure-store';
+import * as WebBrowser from 'expo-web-browser';
+import apiClient from './client';
+import { SsoConfigSchema } from './models';
+import { ApiResult, parseData } from './result';
+
+// Lets the web build close the provider's popup; a no-op on native
+WebBrowser.maybeCompleteAuthSession();
+
+// SecureStore key for what logout needs to end the session at the identity provider
+const SSO_SESSION_KEY = 'ssoSession';
+
+// Path the identity provider redirects back to: automaxmobile://sso-callback
+export const SSO_CALLBACK_PATH = 'sso-callback';
+
+const DEFAULT_SCOPES = ['openid', 'profile', 'email', 'offline_access'];
+
+export interface SsoProvider {
+  issuer: string;
+  clientId: string;
+  scopes: string[];
+  displayName?: string;
+}
+
+export interface SsoTokens {
+  token: string;
+  refreshToken?: string;
+}
+
+interface SsoSession {
+  issuer: string;
+  clientId: string;
+  idToken?: string;
+}
+
+/**
+ * Provider set at build time, which takes precedence over the server's. Meant
+ * for development against a local mock identity provider, see ANDROID_BUILD_GUIDE.md.
+ */
+const providerFromEnv = (): SsoProvider | null => {
+  const issuer = process.env.EXPO_PUBLIC_OIDC_ISSUER;
+  const clientId = process.env.EXPO_PUBLIC_OIDC_CLIENT_ID;
+  if (!issuer || !clientId) return null;
+  return {
+    issuer,
+    clientId,
+    scopes: process.env.EXPO_PUBLIC_OIDC_SCOPES?.split(/\s+/).filter(Boolean) || DEFAULT_SCOPES,
+    displayName: process.env.EXPO_PUBLIC_OIDC_NAME,
+  };
+};
+
+const redirectUri = () => AuthSession.makeRedirectUri({ path: SSO_CALLBACK_PATH });
+
+// The active server's SSO provider, or null when it only accepts email and password
+export const getSsoProvider = async (): Promise<ApiResult<SsoProvider | null>> => {
+  const override = providerFromEnv();
+  if (override) {
+    return { success: true, data: override };
+  }
+
+  try {
+    const response = await apiClient.get('/auth/sso/config');
+    if (response.data && response.data.success) {
+      const result = parseData(SsoConfigSchema, response.data.data, 'SSO configuration');
+      if (!result.success) return result;
+
+      const { enabled, issuer, client_id, scopes, display_name } = result.data;
+      if (!enabled || !issuer || !client_id) {
+        return { success: true, data: null };
+      }
+      return {
+        success: true,
+        data: { issuer, clientId: client_id, scopes: scopes?.length ? scopes : DEFAULT_SCOPES, displayName: display_name },
+      };
+    }
+    return { success: false, error: 'Invalid response from server' };
+  } catch (error: any) {
+    // Servers without SSO support don't have the endpoint at all
+    if (error.response?.status === 404) {
+      return { success: true, data: null };
+    }
+    return { success: false, error: error.response?.data?.message || error.message };
+  }
+};
+
+/**
+ * Runs the authorization code flow with PKCE in the system browser, then has
+ * the server redeem the code for the usual token pair. The code verifier never
+ * leaves the device before that exchange, so an intercepted redirect is useless
+ * on its own. Resolves to null data when the user closes the browser.
+ */
+export const signInWithSso = async (provider: SsoProvider): Promise<ApiResult<SsoTokens | null>> => {
+  try {
+    const discovery = await AuthSession.fetchDiscoveryAsync(provider.issuer);
+    const request = new AuthSession.AuthRequest({
+      clientId: provider.clientId,
+      redirectUri: redirectUri(),
+      scopes: provider.scopes,
+      responseType: AuthSession.ResponseType.Code,
+      usePKCE: true,
+    });
+
+    const result = await request.promptAsync(discovery);
+    if (result.type !== 'success' && result.type !== 'error') {
+      return { success: true, data: null };
+    }
+    if (result.type === 'error') {
+      return {
+        success: false,
+        error: result.params.error_description || result.error?.message || result.params.error || 'SSO sign-in failed',
+      };
+    }
+
+    const response = await apiClient.post('/auth/sso/token', {
+      code: result.params.code,
+      code_verifier: request.codeVerifier,
+      redirect_uri: request.redirectUri,
+    });
+
+    if (response.data && response.data.success) {
+      const { token, refresh_token, id_token } = response.data.data;
+      const session: SsoSession = { issuer: provider.issuer, clientId: provider.clientId, idToken: id_token };
+      await SecureStore.setItemAsync(SSO_SESSION_KEY, JSON.stringify(session));
+      return { success: true, data: { token, refreshToken: refresh_token } };
+    }
+    return { success: false, error: 'Invalid response from server' };
+  } catch (error: any) {
+    return { success: false, error: error.response?.data?.message || error.message };
+  }
+};
+
+// Drops the stored SSO session without contacting the provider, e.g. when switching servers
+export const forgetSsoSession = async () => {
+  await SecureStore.deleteItemAsync(SSO_SESSION_KEY).catch(() => {});
+};
+
+/**
+ * RP-initiated logout: sends the browser to the provider's end_session_endpoint
+ * so the next SSO sign-in asks for credentials again. Does nothing when the
+ * session didn't come from SSO or the provider doesn't advertise the endpoint.
+ */
+export const endSsoSession = async () => {
+  const stored = await SecureStore.getItemAsync(SSO_SESSION_KEY).catch(() => null);
+  if (!stored) return;
+  await forgetSsoSession();
+
+  try {
+    const session: SsoSession = JSON.parse(stored);
+    const discovery = await AuthSession.fetchDiscoveryAsync(session.issuer);
+    if (!discovery.endSessionEndpoint) return;
+
+    const params: Record<string, string> = {
+      client_id: session.clientId,
+      post_logout_redirect_uri: redirectUri(),
+    };
+    if (session.idToken) {
+      params.id_token_hint = session.idToken;
+    }
+    const query = Object.entries(params)
+      .map(([key, value]) => `${encodeURIComponent(key)}=${encodeURIComponent(value)}`)
+      .join('&');
+    const separator = discovery.endSessionEndpoint.includes('?') ? '&' : '?';
+
+    await WebBrowser.openAuthSessionAsync(`${discovery.endSessionEndpoint}${separator}${query}`, redirectUri());
+  } catch (error) {
+    console.error('[SSO] Failed to end the identity provider session:', error);
+  }
+};
@@ -1,13 +1,20 @@
+import { z } from 'zod';
 import apiClient from './client';
+import { UserSummary, UserSummarySchema } from './models';
+import { ApiResult, parseData } from './result';
+import { REFERENCE_TTL, referenceCache } from '@/src/utils/referenceCache';
 
-export const getUsers = async () => {
+const fetchUsers = async (): Promise<ApiResult<UserSummary[]>> => {
   try {
     const response = await apiClient.get('/admin/users');
     if (response.data && response.data.success) {
-      return { success: true, data: response.data.data };
+      return parseData(z.array(UserSummarySchema), response.data.data, 'user list');
     }
     return { success: false, error: 'Invalid response from server' };
   } catch (error: any) {
     return { success: false, error: error.response?.data?.message || error.message };
   }
 };
+
+export const getUsers = (): Promise<ApiResult<UserSummary[]>> =>
+  referenceCache.get('users', fetchUsers, REFERENCE_TTL.users);
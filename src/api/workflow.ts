@@ -1,8 +1,12 @@
+import { z } from 'zod';
 import apiClient from './client';
+import { RecordType, Workflow, WorkflowMatch, WorkflowMatchSchema, WorkflowSchema, WorkflowState, WorkflowStateSchema } from './models';
+import { ApiResult, parseData } from './result';
+import { REFERENCE_TTL, referenceCache } from '@/src/utils/referenceCache';
 
-export type RecordType = 'incident' | 'request' | 'complaint' | 'query';
+export type { RecordType, Workflow } from './models';
 
-export const getWorkflows = async (activeOnly = true, recordType?: RecordType) => {
+const fetchWorkflows = async (activeOnly = true, recordType?: RecordType | 'both' | 'all'): Promise<ApiResult<Workflow[]>> => {
   try {
     const params = new URLSearchParams();
     if (activeOnly) {
@@ -15,7 +19,7 @@ export const getWorkflows = async (activeOnly = true, recordType?: RecordType) =
     const url = queryString ? `/admin/workflows?${queryString}` : '/admin/workflows';
     const response = await apiClient.get(url);
     if (response.data && response.data.success) {
-      return { success: true, data: response.data.data };
+      return parseData(z.array(WorkflowSchema), response.data.data, 'workflow list');
     }
     return { success: false, error: 'Invalid response from server' };
   } catch (error: any) {
@@ -23,16 +27,19 @@ export const getWorkflows = async (activeOnly = true, recordType?: RecordType) =
   }
 };
 
+export const getWorkflows = (activeOnly = true, recordType?: RecordType | 'both' | 'all'): Promise<ApiResult<Workflow[]>> =>
+  referenceCache.get(`workflows:${activeOnly ? 'active' : 'all'}:${recordType ?? 'default'}`, () => fetchWorkflows(activeOnly, recordType), REFERENCE_TTL.configuration);
+
 export const matchWorkflow = async (criteria: {
   classification_id?: string;
   location_id?: string;
   source?: string;
   priority?: number;
-}) => {
+}): Promise<ApiResult<WorkflowMatch>> => {
   try {
     const response = await apiClient.post('/admin/workflows/match', criteria);
     if (response.data && response.data.success) {
-      return { success: true, data: response.data.data };
+      return parseData(WorkflowMatchSchema, response.data.data, 'workflow match');
     }
     return { success: false, error: 'Invalid response from server' };
   } catch (error: any) {
@@ -40,11 +47,11 @@ export const matchWorkflow = async (criteria: {
   }
 };
 
-export const getWorkflowStates = async (workflowId: string) => {
+export const getWorkflowStates = async (workflowId: string): Promise<ApiResult<WorkflowState[]>> => {
   try {
     const response = await apiClient.get(`/admin/workflows/${workflowId}/states`);
     if (response.data && response.data.success) {
-      return { success: true, data: response.data.data };
+      return parseData(z.array(WorkflowStateSchema), response.data.data, 'workflow state list');
     }
     return { success: false, error: 'Invalid response from server' };
   } catch (error: any) {
@@ -53,11 +60,11 @@ export const getWorkflowStates = async (workflowId: string) => {
 };
 
 // Get all unique states from all workflows
-export const getAllStates = async () => {
+export const getAllStates = async (): Promise<ApiResult<WorkflowState[]>> => {
   try {
     const response = await getWorkflows();
-    if (response.success && response.data) {
-      const allStates: any[] = [];
+    if (response.success) {
+      const allStates: WorkflowState[] = [];
       const seenNames = new Set<string>();
 
       for (const workflow of response.data) {
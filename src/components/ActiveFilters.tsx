@@ -0,0 +1,111 @@
+import React, { useEffect, useState } from 'react';
+import { FlatList, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useTranslation } from 'react-i18next';
+import { LookupCategory, RecordType } from '@/src/api/models';
+import { RECORD_FILTERS } from '@/src/constants/recordFilters';
+import {
+  countActiveFilters,
+  FilterValues,
+  getFilterBadges,
+  hasLookupFilters,
+  loadFilterLookups,
+} from '@/src/utils/recordFilters';
+
+const COLORS = {
+  background: '#F5F7FA',
+  textSecondary: '#64748B',
+  clear: '#DC2626',
+};
+
+interface ActiveFiltersProps {
+  recordType: RecordType;
+  // The list's filter params, as read by toViewFilters
+  filters: FilterValues;
+  onClearAll: () => void;
+}
+
+// Badges for the filters a record list is showing, with a clear-all; renders nothing without filters
+export const ActiveFilters: React.FC<ActiveFiltersProps> = ({ recordType, filters, onClearAll }) => {
+  const { t } = useTranslation();
+  const [lookups, setLookups] = useState<LookupCategory[]>([]);
+  const needsLookups = hasLookupFilters(filters);
+
+  useEffect(() => {
+    if (needsLookups) loadFilterLookups().then(setLookups);
+  }, [needsLookups]);
+
+  const schema = RECORD_FILTERS[recordType];
+  const count = countActiveFilters(schema, filters);
+  if (count === 0) return null;
+
+  const badges = getFilterBadges(schema, filters, lookups);
+
+  return (
+    <View style={styles.container}>
+      <FlatList
+        horizontal
+        showsHorizontalScrollIndicator={false}
+        style={styles.scroll}
+        data={badges}
+        renderItem={({ item }) => (
+          <View style={[styles.badge, { backgroundColor: schema.accentLight }]}>
+            <Text style={styles.badgeLabel}>{item.label}:</Text>
+            <Text style={[styles.badgeValue, { color: schema.accentColor }]} numberOfLines={1}>{item.value}</Text>
+          </View>
+        )}
+        keyExtractor={item => item.key}
+      />
+      <TouchableOpacity onPress={onClearAll} style={styles.clearAllButton}>
+        <Ionicons name="close-circle" size={18} color={COLORS.clear} />
+        <Text style={styles.clearAllText}>{t('filter.clearAll')} ({count})</Text>
+      </TouchableOpacity>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: COLORS.background,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  scroll: {
+    flex: 1,
+  },
+  badge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    maxWidth: 260,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 20,
+    marginRight: 8,
+  },
+  badgeLabel: {
+    fontSize: 12,
+    color: COLORS.textSecondary,
+    marginRight: 4,
+  },
+  badgeValue: {
+    fontSize: 12,
+    fontWeight: 'bold',
+    flexShrink: 1,
+  },
+  clearAllButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    gap: 4,
+  },
+  clearAllText: {
+    fontSize: 12,
+    color: COLORS.clear,
+    fontWeight: '600',
+  },
+});
+
+export default ActiveFilters;
@@ -0,0 +1,66 @@
+import React, { ReactNode, useEffect } from 'react';
+import { Alert, Modal, StyleSheet, View } from 'react-native';
+import { useTranslation } from 'react-i18next';
+import { AppLockScreen } from '@/src/components/AppLockScreen';
+import { PinSetupModal } from '@/src/components/PinSetupModal';
+import { useAuth } from '@/src/context/AuthContext';
+import { useAppLock } from '@/src/hooks/useAppLock';
+import { appLock } from '@/src/utils/appLock';
+
+interface AppLockGateProps {
+  children: ReactNode;
+}
+
+/**
+ * Keeps the app behind the lock screen while it is locked, and makes a newly
+ * signed-in user choose a PIN when the organisation's policy requires one.
+ * Every touch inside counts as activity for the inactivity timeout.
+ */
+export const AppLockGate: React.FC<AppLockGateProps> = ({ children }) => {
+  const { t } = useTranslation();
+  const { isAuthenticated, logout } = useAuth();
+  const { state } = useAppLock();
+
+  // Watch for backgrounding and inactivity only while someone is signed in
+  useEffect(() => {
+    if (!isAuthenticated) return;
+    return appLock.start();
+  }, [isAuthenticated]);
+
+  // Too many wrong PINs: end the session as if whoever holds the phone had signed out
+  useEffect(() => {
+    return appLock.onWipe(() => {
+      logout();
+      Alert.alert(t('appLock.wipedTitle'), t('appLock.wipedMessage'));
+    });
+  }, [logout, t]);
+
+  return (
+    <View style={styles.container} onTouchStart={() => appLock.recordActivity()}>
+      {children}
+      {isAuthenticated && (
+        <>
+          {/* Until the lock settings are read it isn't known whether the app is locked, so show
+              nothing yet. The navigator stays mounted underneath, as the root layout navigates with it */}
+          <Modal visible={state === null} animationType="none" onRequestClose={() => {}}>
+            <View style={styles.placeholder} />
+          </Modal>
+          <AppLockScreen visible={!!state?.locked} />
+          <PinSetupModal visible={!!state?.setupRequired} onDone={() => {}} />
+        </>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  placeholder: {
+    flex: 1,
+    backgroundColor: '#FFFFFF',
+  },
+});
+
+export default AppLockGate;
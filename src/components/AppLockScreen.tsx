@@ -0,0 +1,110 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { AppState, Modal, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { useTranslation } from 'react-i18next';
+import { PinPad } from '@/src/components/PinPad';
+import { useAuth } from '@/src/context/AuthContext';
+import { useAppLock } from '@/src/hooks/useAppLock';
+import { appLock } from '@/src/utils/appLock';
+
+const COLORS = {
+  primary: '#2EC4B6',
+  background: '#FFFFFF',
+  textSecondary: '#64748B',
+  error: '#E74C3C',
+};
+
+interface AppLockScreenProps {
+  visible: boolean;
+}
+
+// Full-screen lock shown over everything, including other modals, until the user unlocks
+export const AppLockScreen: React.FC<AppLockScreenProps> = ({ visible }) => {
+  const { t } = useTranslation();
+  const { logout } = useAuth();
+  const { state, verifyPin } = useAppLock();
+  const [error, setError] = useState<string | undefined>();
+  const [checking, setChecking] = useState(false);
+
+  const biometricsEnabled = !!state?.biometricsEnabled;
+
+  const promptBiometrics = useCallback(() => {
+    if (biometricsEnabled && AppState.currentState === 'active') {
+      appLock.unlockWithBiometrics();
+    }
+  }, [biometricsEnabled]);
+
+  // Offer biometrics straight away, and again when the app comes back while still locked
+  useEffect(() => {
+    if (!visible) return;
+    setError(undefined);
+    promptBiometrics();
+    // Only after a real trip to the background: the biometric prompt itself makes the app inactive
+    let previousState = AppState.currentState;
+    const subscription = AppState.addEventListener('change', nextState => {
+      if (previousState === 'background' && nextState === 'active') promptBiometrics();
+      previousState = nextState;
+    });
+    return () => subscription.remove();
+  }, [visible, promptBiometrics]);
+
+  const handlePin = async (pin: string) => {
+    setChecking(true);
+    const result = await verifyPin(pin);
+    setChecking(false);
+    if (result === 'invalid' && state) {
+      const remaining = state.maxFailedAttempts - state.failedAttempts - 1;
+      setError(t('appLock.wrongPin', { count: Math.max(remaining, 0) }));
+    } else {
+      setError(undefined);
+    }
+  };
+
+  return (
+    <Modal visible={visible} animationType="fade" onRequestClose={() => {}}>
+      <SafeAreaView style={styles.container}>
+        <View style={styles.content}>
+          <Ionicons name="lock-closed" size={40} color={COLORS.primary} style={styles.icon} />
+          <PinPad
+            title={t('appLock.locked')}
+            subtitle={t('appLock.enterPin')}
+            error={error}
+            disabled={checking}
+            extraAction={biometricsEnabled ? { icon: 'finger-print', onPress: promptBiometrics } : undefined}
+            onComplete={handlePin}
+          />
+        </View>
+        <TouchableOpacity style={styles.signOutButton} onPress={logout}>
+          <Text style={styles.signOutText}>{t('auth.logout')}</Text>
+        </TouchableOpacity>
+      </SafeAreaView>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: COLORS.background,
+  },
+  content: {
+    flex: 1,
+    justifyContent: 'center',
+  },
+  icon: {
+    alignSelf: 'center',
+    marginBottom: 16,
+  },
+  signOutButton: {
+    paddingVertical: 16,
+    alignItems: 'center',
+  },
+  signOutText: {
+    color: COLORS.error,
+    fontSize: 15,
+    fontWeight: '600',
+  },
+});
+
+export default AppLockScreen;
@@ -0,0 +1,573 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  ActionSheetIOS,
+  Alert,
+  Linking,
+  Modal,
+  Platform,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { Audio } from 'expo-av';
+import * as DocumentPicker from 'expo-document-picker';
+import * as ImagePicker from 'expo-image-picker';
+import { useTranslation } from 'react-i18next';
+import { LocationData } from '@/src/components/LocationPickerOSM';
+import { WatermarkData, WatermarkProcessor } from '@/src/components/WatermarkProcessor';
+import { WatermarkPreview } from '@/src/components/WatermarkPreview';
+import { MAX_ATTACHMENT_SIZE_MB } from '@/src/constants/ticketForms';
+import { useAuth } from '@/src/context/AuthContext';
+import { crashLogger } from '@/src/utils/crashLogger';
+import { compressImage } from '@/src/utils/imageCompression';
+import { FormAttachment } from '@/src/utils/ticketForm';
+import { generateWatermarkedFilename } from '@/src/utils/watermarkUtils';
+
+const MAX_ATTACHMENT_SIZE_BYTES = MAX_ATTACHMENT_SIZE_MB * 1024 * 1024;
+// How long to wait for reverse geocoding before offering to stamp coordinates only
+const ADDRESS_WAIT_MS = 3000;
+
+interface PendingWatermark {
+  id: string;
+  imageUri: string;
+  data: WatermarkData;
+  originalName: string;
+}
+
+interface AttachmentFieldProps {
+  attachments: FormAttachment[];
+  onAdd: (files: FormAttachment[]) => void;
+  onRemove: (index: number) => void;
+  // Photos are stamped with this location; when required the camera waits for it
+  geolocation?: LocationData;
+  geolocationRequired?: boolean;
+  error?: string;
+  accentColor?: string;
+}
+
+const formatDuration = (seconds: number): string => {
+  const mins = Math.floor(seconds / 60);
+  const secs = seconds % 60;
+  return `${mins}:${secs.toString().padStart(2, '0')}`;
+};
+
+const openAppSettings = () => {
+  if (Platform.OS === 'ios') {
+    Linking.openURL('app-settings:');
+  } else {
+    Linking.openSettings();
+  }
+};
+
+// Photos, gallery items, documents and voice notes for a new ticket
+export const AttachmentField: React.FC<AttachmentFieldProps> = ({
+  attachments,
+  onAdd,
+  onRemove,
+  geolocation,
+  geolocationRequired = false,
+  error,
+  accentColor = '#2EC4B6',
+}) => {
+  const { t } = useTranslation();
+  const { user } = useAuth();
+
+  const [pickerVisible, setPickerVisible] = useState(false);
+  const [recording, setRecording] = useState<Audio.Recording | null>(null);
+  const [recordingDuration, setRecordingDuration] = useState(0);
+  const recordingTimerRef = useRef<ReturnType<typeof setInterval> | null>(null);
+
+  const [pendingWatermarks, setPendingWatermarks] = useState<PendingWatermark[]>([]);
+  const [preview, setPreview] = useState<PendingWatermark | null>(null);
+
+  // The camera flow awaits user input, so read the latest location through a ref
+  const geolocationRef = useRef(geolocation);
+  useEffect(() => {
+    geolocationRef.current = geolocation;
+  }, [geolocation]);
+
+  useEffect(() => {
+    return () => {
+      if (recordingTimerRef.current) clearInterval(recordingTimerRef.current);
+    };
+  }, []);
+
+  const logFailure = (error: unknown, action: string) => {
+    crashLogger.logError(error as Error, {
+      component: 'AttachmentField',
+      action,
+    }).catch(() => {});
+  };
+
+  const showPermissionAlert = (message: string) => {
+    Alert.alert(t('ticketForm.attachments.permissionRequired'), message, [
+      { text: t('common.cancel'), style: 'cancel' },
+      { text: t('ticketForm.attachments.openSettings'), onPress: openAppSettings },
+    ]);
+  };
+
+  // Drops files over the size limit and tells the user which ones were skipped
+  const addWithinSizeLimit = (files: FormAttachment[]) => {
+    const valid = files.filter(file => (file.size || 0) <= MAX_ATTACHMENT_SIZE_BYTES);
+    const oversized = files
+      .filter(file => (file.size || 0) > MAX_ATTACHMENT_SIZE_BYTES)
+      .map(file => `${file.name} (${((file.size || 0) / (1024 * 1024)).toFixed(1)}MB)`);
+
+    if (valid.length > 0) onAdd(valid);
+    if (oversized.length > 0) {
+      Alert.alert(
+        t('ticketForm.attachments.filesTooLargeTitle'),
+        t('ticketForm.attachments.filesTooLarge', { limit: MAX_ATTACHMENT_SIZE_MB, files: oversized.join('\n') })
+      );
+    }
+  };
+
+  const launchCamera = async () => {
+    try {
+      const { status } = await ImagePicker.requestCameraPermissionsAsync();
+      if (status !== 'granted') {
+        showPermissionAlert(t('ticketForm.attachments.cameraPermission'));
+        return;
+      }
+
+      const result = await ImagePicker.launchCameraAsync({
+        mediaTypes: ['images'],
+        allowsEditing: false,
+        quality: 0.8,
+        exif: true,
+      });
+      if (result.canceled || !result.assets?.length) return;
+
+      const asset = result.assets[0];
+      const location = geolocationRef.current;
+      const userName = user ? `${user.first_name} ${user.last_name}`.trim() || user.username : undefined;
+      const timestamp = new Date();
+
+      setPreview({
+        id: `watermark_${Date.now()}`,
+        imageUri: asset.uri,
+        data: {
+          latitude: location?.latitude,
+          longitude: location?.longitude,
+          address: location?.address,
+          city: location?.city,
+          state: location?.state,
+          country: location?.country,
+          userName,
+          timestamp,
+          appName: 'Automax',
+        },
+        originalName: generateWatermarkedFilename(asset.fileName || `photo_${Date.now()}.jpg`, {
+          appName: 'Automax',
+          userName,
+          userId: user?.id,
+          timestamp,
+          location: location ? `${location.city || ''} ${location.state || ''}`.trim() : undefined,
+        }),
+      });
+    } catch (error) {
+      console.error('[Camera] Error taking photo:', error);
+      logFailure(error, 'takePhoto');
+      Alert.alert(t('common.error'), t('ticketForm.attachments.cameraFailed'));
+    }
+  };
+
+  const handleTakePhoto = async () => {
+    if (geolocationRequired) {
+      if (!geolocationRef.current?.latitude) {
+        Alert.alert(t('ticketForm.attachments.locationRequiredTitle'), t('ticketForm.attachments.locationRequired'));
+        return;
+      }
+
+      const hasAddress = (location?: LocationData) => !!(location?.address || location?.city);
+      if (!hasAddress(geolocationRef.current)) {
+        Alert.alert(t('ticketForm.attachments.locationPendingTitle'), t('ticketForm.attachments.locationPending'));
+        await new Promise(resolve => setTimeout(resolve, ADDRESS_WAIT_MS));
+
+        if (!hasAddress(geolocationRef.current)) {
+          Alert.alert(
+            t('ticketForm.attachments.addressUnavailableTitle'),
+            t('ticketForm.attachments.addressUnavailable'),
+            [
+              { text: t('common.cancel'), style: 'cancel' },
+              { text: t('ticketForm.attachments.continue'), onPress: () => launchCamera() },
+            ]
+          );
+          return;
+        }
+      }
+    }
+
+    await launchCamera();
+  };
+
+  const handlePreviewAccept = () => {
+    if (preview) {
+      setPendingWatermarks(prev => [...prev, preview]);
+    }
+    setPreview(null);
+  };
+
+  const handlePreviewRetry = () => {
+    setPreview(null);
+    setTimeout(() => {
+      handleTakePhoto();
+    }, 300);
+  };
+
+  const handleWatermarkComplete = useCallback(async (pending: PendingWatermark, watermarkedUri: string) => {
+    const compression = await compressImage(watermarkedUri, {
+      quality: 0.75,
+      format: 'jpeg',
+      skipSmallFiles: true,
+    });
+
+    onAdd([{
+      uri: compression.success && compression.compressedUri ? compression.compressedUri : watermarkedUri,
+      name: pending.originalName,
+      type: 'image/jpeg',
+    }]);
+    setPendingWatermarks(prev => prev.filter(w => w.id !== pending.id));
+  }, [onAdd]);
+
+  const handlePickFromGallery = async () => {
+    try {
+      const { status } = await ImagePicker.requestMediaLibraryPermissionsAsync();
+      if (status !== 'granted') {
+        showPermissionAlert(t('ticketForm.attachments.galleryPermission'));
+        return;
+      }
+
+      const result = await ImagePicker.launchImageLibraryAsync({
+        mediaTypes: ['images', 'videos'],
+        allowsMultipleSelection: true,
+        quality: 0.8,
+      });
+      if (result.canceled || !result.assets) return;
+
+      addWithinSizeLimit(result.assets.map(asset => ({
+        uri: asset.uri,
+        name: asset.fileName || `image_${Date.now()}.jpg`,
+        type: asset.mimeType || 'image/jpeg',
+        size: asset.fileSize || 0,
+      })));
+    } catch (error) {
+      console.error('Error picking from gallery:', error);
+      logFailure(error, 'pickFromGallery');
+      Alert.alert(t('common.error'), t('ticketForm.attachments.galleryFailed'));
+    }
+  };
+
+  const handlePickDocument = async () => {
+    try {
+      const result = await DocumentPicker.getDocumentAsync({
+        type: '*/*',
+        multiple: true,
+      });
+      if (result.canceled || !result.assets) return;
+
+      addWithinSizeLimit(result.assets.map(asset => ({
+        uri: asset.uri,
+        name: asset.name,
+        type: asset.mimeType || 'application/octet-stream',
+        size: asset.size || 0,
+      })));
+    } catch (error) {
+      console.error('Error picking document:', error);
+      logFailure(error, 'pickDocument');
+      Alert.alert(t('common.error'), t('ticketForm.attachments.documentFailed'));
+    }
+  };
+
+  const startRecording = async () => {
+    try {
+      const permission = await Audio.requestPermissionsAsync();
+      if (!permission.granted) {
+        showPermissionAlert(t('ticketForm.attachments.microphonePermission'));
+        return;
+      }
+
+      await Audio.setAudioModeAsync({
+        allowsRecordingIOS: true,
+        playsInSilentModeIOS: true,
+      });
+
+      const { recording: newRecording } = await Audio.Recording.createAsync(
+        Audio.RecordingOptionsPresets.HIGH_QUALITY
+      );
+
+      setRecording(newRecording);
+      setRecordingDuration(0);
+      recordingTimerRef.current = setInterval(() => {
+        setRecordingDuration(prev => prev + 1);
+      }, 1000);
+    } catch (error) {
+      console.error('Failed to start recording:', error);
+      logFailure(error, 'startRecording');
+      Alert.alert(t('common.error'), t('ticketForm.attachments.recordingFailed'));
+    }
+  };
+
+  const stopRecording = async () => {
+    if (!recording) return;
+
+    if (recordingTimerRef.current) {
+      clearInterval(recordingTimerRef.current);
+      recordingTimerRef.current = null;
+    }
+
+    try {
+      await recording.stopAndUnloadAsync();
+      const uri = recording.getURI();
+      if (uri) {
+        onAdd([{
+          uri,
+          name: `voice-recording-${Date.now()}.m4a`,
+          type: 'audio/m4a',
+          isVoice: true,
+          duration: recordingDuration,
+        }]);
+      }
+    } catch (error) {
+      console.error('Failed to stop recording:', error);
+      logFailure(error, 'stopRecording');
+      Alert.alert(t('common.error'), t('ticketForm.attachments.recordingFailed'));
+    }
+
+    setRecording(null);
+    setRecordingDuration(0);
+  };
+
+  const pickerOptions = [
+    { key: 'camera', icon: 'camera', label: t('ticketForm.attachments.takePhoto'), onPress: handleTakePhoto },
+    { key: 'gallery', icon: 'images', label: t('ticketForm.attachments.chooseFromGallery'), onPress: handlePickFromGallery },
+    { key: 'document', icon: 'document', label: t('ticketForm.attachments.chooseFile'), onPress: handlePickDocument },
+    { key: 'voice', icon: 'mic', label: t('ticketForm.attachments.recordVoice'), onPress: startRecording },
+  ] as const;
+
+  const showAttachmentOptions = () => {
+    if (Platform.OS === 'ios') {
+      ActionSheetIOS.showActionSheetWithOptions(
+        {
+          options: [t('common.cancel'), ...pickerOptions.map(option => option.label)],
+          cancelButtonIndex: 0,
+        },
+        (buttonIndex) => {
+          pickerOptions[buttonIndex - 1]?.onPress();
+        }
+      );
+    } else {
+      setPickerVisible(true);
+    }
+  };
+
+  return (
+    <>
+      <View style={[styles.container, error && styles.containerError]}>
+        {attachments.length > 0 && (
+          <View style={styles.list}>
+            {attachments.map((file, index) => (
+              <View key={`${file.uri}-${index}`} style={styles.item}>
+                <View style={styles.itemInfo}>
+                  <Ionicons name={file.isVoice ? 'mic' : 'document-attach'} size={20} color={accentColor} />
+                  <Text style={styles.itemName} numberOfLines={1}>
+                    {file.name}
+                  </Text>
+                  {file.isVoice && file.duration !== undefined ? (
+                    <Text style={styles.itemMeta}>({formatDuration(file.duration)})</Text>
+                  ) : !!file.size && (
+                    <Text style={styles.itemMeta}>({(file.size / 1024).toFixed(1)} KB)</Text>
+                  )}
+                </View>
+                <TouchableOpacity onPress={() => onRemove(index)}>
+                  <Ionicons name="close-circle" size={22} color="#E74C3C" />
+                </TouchableOpacity>
+              </View>
+            ))}
+          </View>
+        )}
+        {recording ? (
+          <TouchableOpacity style={[styles.button, styles.recordingButton]} onPress={stopRecording}>
+            <Ionicons name="stop" size={24} color="#EF4444" />
+            <Text style={[styles.buttonText, styles.recordingButtonText]}>
+              {t('ticketForm.attachments.stopRecording', { duration: formatDuration(recordingDuration) })}
+            </Text>
+          </TouchableOpacity>
+        ) : (
+          <TouchableOpacity style={styles.button} onPress={showAttachmentOptions}>
+            <Ionicons name="cloud-upload-outline" size={24} color={accentColor} />
+            <Text style={[styles.buttonText, { color: accentColor }]}>
+              {attachments.length > 0 ? t('ticketForm.attachments.addMoreFiles') : t('ticketForm.attachments.tapToUpload')}
+            </Text>
+          </TouchableOpacity>
+        )}
+      </View>
+      {error && <Text style={styles.errorText}>{error}</Text>}
+
+      {/* Attachment Picker Modal (Android) */}
+      <Modal
+        visible={pickerVisible}
+        transparent
+        animationType="fade"
+        onRequestClose={() => setPickerVisible(false)}
+      >
+        <TouchableOpacity
+          style={styles.pickerOverlay}
+          activeOpacity={1}
+          onPress={() => setPickerVisible(false)}
+        >
+          <View style={styles.pickerContent}>
+            <Text style={styles.pickerTitle}>{t('ticketForm.attachments.addAttachment')}</Text>
+            {pickerOptions.map(option => (
+              <TouchableOpacity
+                key={option.key}
+                style={styles.pickerOption}
+                onPress={() => {
+                  setPickerVisible(false);
+                  option.onPress();
+                }}
+              >
+                <Ionicons name={option.icon} size={24} color={accentColor} />
+                <Text style={styles.pickerOptionText}>{option.label}</Text>
+              </TouchableOpacity>
+            ))}
+            <TouchableOpacity style={styles.pickerCancelButton} onPress={() => setPickerVisible(false)}>
+              <Text style={styles.pickerCancelText}>{t('common.cancel')}</Text>
+            </TouchableOpacity>
+          </View>
+        </TouchableOpacity>
+      </Modal>
+
+      {/* Hidden watermark processors */}
+      {pendingWatermarks.map((pending) => (
+        <WatermarkProcessor
+          key={pending.id}
+          imageUri={pending.imageUri}
+          data={pending.data}
+          onComplete={(watermarkedUri) => handleWatermarkComplete(pending, watermarkedUri)}
+        />
+      ))}
+
+      <WatermarkPreview
+        visible={!!preview}
+        imageUri={preview?.imageUri || ''}
+        watermarkData={preview?.data || {}}
+        onAccept={handlePreviewAccept}
+        onRetry={handlePreviewRetry}
+      />
+    </>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: 'white',
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: '#E0E0E0',
+    marginBottom: 20,
+    overflow: 'hidden',
+  },
+  containerError: {
+    borderColor: '#E74C3C',
+  },
+  list: {
+    padding: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#E0E0E0',
+  },
+  item: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: 8,
+    paddingHorizontal: 4,
+  },
+  itemInfo: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    flex: 1,
+    gap: 8,
+  },
+  itemName: {
+    fontSize: 14,
+    color: '#333',
+    flex: 1,
+  },
+  itemMeta: {
+    fontSize: 12,
+    color: '#666',
+  },
+  button: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    padding: 16,
+  },
+  buttonText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  recordingButton: {
+    backgroundColor: '#FEE2E2',
+  },
+  recordingButtonText: {
+    color: '#EF4444',
+  },
+  errorText: {
+    color: '#E74C3C',
+    fontSize: 12,
+    marginTop: -16,
+    marginBottom: 16,
+  },
+  pickerOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  pickerContent: {
+    backgroundColor: 'white',
+    borderRadius: 16,
+    width: '100%',
+    maxWidth: 400,
+    padding: 20,
+  },
+  pickerTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#333',
+    marginBottom: 16,
+    textAlign: 'center',
+  },
+  pickerOption: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 16,
+    padding: 16,
+    borderRadius: 10,
+    backgroundColor: '#F8F9FA',
+    marginBottom: 12,
+  },
+  pickerOptionText: {
+    fontSize: 16,
+    color: '#333',
+    fontWeight: '500',
+  },
+  pickerCancelButton: {
+    padding: 16,
+    alignItems: 'center',
+    marginTop: 8,
+  },
+  pickerCancelText: {
+    fontSize: 16,
+    color: '#E74C3C',
+    fontWeight: '600',
+  },
+});
+
+export default AttachmentField;
@@ -0,0 +1,152 @@
+import React, { useState } from 'react';
+import { Platform, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useTranslation } from 'react-i18next';
+import { Incident, RecordType } from '@/src/api/models';
+import { RECORD_FILTERS } from '@/src/constants/recordFilters';
+import { useBulkSelection } from '@/src/hooks/useBulkSelection';
+import { BULK_ACTIONS, BulkAction, BulkSummary } from '@/src/utils/bulkActions';
+import { BulkActionModal } from './BulkActionModal';
+
+const COLORS = {
+  white: '#FFFFFF',
+  text: '#1A1A2E',
+};
+
+const ACTION_ICONS: Record<BulkAction, React.ComponentProps<typeof Ionicons>['name']> = {
+  transition: 'swap-horizontal-outline',
+  assign: 'person-add-outline',
+  comment: 'chatbubble-outline',
+};
+
+interface BulkActionBarProps {
+  recordType: RecordType;
+  selection: ReturnType<typeof useBulkSelection>;
+  // Every record the list is showing, for select all
+  records: Incident[];
+  // Distance from the bottom of the screen, to clear a floating tab bar
+  bottomOffset?: number;
+  // Called after a run changed at least one record, to reload the list
+  onComplete: () => void;
+}
+
+// Bottom bar of a list in selection mode, with the bulk actions the user is allowed to run
+export const BulkActionBar: React.FC<BulkActionBarProps> = ({
+  recordType,
+  selection,
+  records,
+  bottomOffset = 16,
+  onComplete,
+}) => {
+  const { t } = useTranslation();
+  // The records are fixed when an action opens, so reloads underneath don't change the batch
+  const [pending, setPending] = useState<{ action: BulkAction; records: Incident[] } | null>(null);
+
+  if (!selection.selecting) return null;
+
+  const { accentColor } = RECORD_FILTERS[recordType];
+  const selected = records.filter(record => selection.isSelected(record.id));
+  const allSelected = selected.length === records.length;
+
+  const handleClose = (summary: BulkSummary | null) => {
+    setPending(null);
+    if (!summary) return;
+    // Failed records stay selected, ready for another try
+    selection.selectAll(summary.failed.map(item => item.id));
+    if (summary.succeeded > 0) onComplete();
+  };
+
+  return (
+    <View style={[styles.bar, { bottom: bottomOffset }]}>
+      <View style={styles.topRow}>
+        <TouchableOpacity style={styles.iconButton} onPress={selection.clear}>
+          <Ionicons name="close" size={22} color={COLORS.text} />
+        </TouchableOpacity>
+        <Text style={styles.countText}>{t('bulk.selected', { count: selected.length })}</Text>
+        <TouchableOpacity
+          onPress={() => (allSelected ? selection.clear() : selection.selectAll(records.map(record => record.id)))}
+        >
+          <Text style={[styles.selectAllText, { color: accentColor }]}>
+            {allSelected ? t('bulk.deselectAll') : t('bulk.selectAll')}
+          </Text>
+        </TouchableOpacity>
+      </View>
+      <View style={styles.actionsRow}>
+        {BULK_ACTIONS.filter(selection.canRun).map(action => (
+          <TouchableOpacity
+            key={action}
+            style={[styles.actionButton, { backgroundColor: accentColor }]}
+            onPress={() => setPending({ action, records: selected })}
+            disabled={selected.length === 0}
+          >
+            <Ionicons name={ACTION_ICONS[action]} size={18} color={COLORS.white} />
+            <Text style={styles.actionText}>{t(`bulk.actions.${action}`)}</Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      {pending && (
+        <BulkActionModal
+          action={pending.action}
+          records={pending.records}
+          accentColor={accentColor}
+          onClose={handleClose}
+        />
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  bar: {
+    position: 'absolute',
+    left: 16,
+    right: 16,
+    backgroundColor: COLORS.white,
+    borderRadius: 20,
+    padding: 12,
+    ...Platform.select({
+      ios: { shadowColor: '#000', shadowOffset: { width: 0, height: 4 }, shadowOpacity: 0.15, shadowRadius: 12 },
+      android: { elevation: 10 },
+    }),
+  },
+  topRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 10,
+  },
+  iconButton: {
+    padding: 4,
+    marginRight: 8,
+  },
+  countText: {
+    flex: 1,
+    fontSize: 15,
+    fontWeight: '600',
+    color: COLORS.text,
+  },
+  selectAllText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  actionsRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  actionButton: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 6,
+    paddingVertical: 10,
+    borderRadius: 12,
+  },
+  actionText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: COLORS.white,
+  },
+});
+
+export default BulkActionBar;
@@ -0,0 +1,492 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  ActivityIndicator,
+  FlatList,
+  KeyboardAvoidingView,
+  Modal,
+  Platform,
+  ScrollView,
+  StyleSheet,
+  Switch,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useTranslation } from 'react-i18next';
+import { Incident } from '@/src/api/models';
+import {
+  BulkAction,
+  BulkItem,
+  BulkSummary,
+  BulkTransition,
+  CommonTransitions,
+  bulkAssign,
+  bulkComment,
+  bulkTransition,
+  loadCommonTransitions,
+  runBulkAction,
+} from '@/src/utils/bulkActions';
+import { FilterChoice, loadFilterChoices } from '@/src/utils/recordFilters';
+
+const COLORS = {
+  overlay: 'rgba(0,0,0,0.5)',
+  white: '#FFFFFF',
+  background: '#F5F7FA',
+  border: '#E2E8F0',
+  text: '#1A1A2E',
+  textSecondary: '#64748B',
+  muted: '#94A3B8',
+  disabled: '#CBD5E1',
+  success: '#16A34A',
+  error: '#DC2626',
+  internal: '#F59E0B',
+};
+
+const ITEM_ICONS: Record<Exclude<BulkItem['status'], 'running'>, { name: React.ComponentProps<typeof Ionicons>['name']; color: string }> = {
+  pending: { name: 'ellipse-outline', color: COLORS.muted },
+  done: { name: 'checkmark-circle', color: COLORS.success },
+  failed: { name: 'close-circle', color: COLORS.error },
+};
+
+interface BulkActionModalProps {
+  action: BulkAction;
+  records: Incident[];
+  accentColor: string;
+  // Called with the run's outcome, or null when closed before running
+  onClose: (summary: BulkSummary | null) => void;
+}
+
+// Collects the input for a bulk action, runs it record by record and reports what failed
+export const BulkActionModal: React.FC<BulkActionModalProps> = ({ action, records, accentColor, onClose }) => {
+  const { t } = useTranslation();
+  const [items, setItems] = useState<BulkItem[]>([]);
+  const [running, setRunning] = useState(false);
+  const [summary, setSummary] = useState<BulkSummary | null>(null);
+
+  // Transition
+  const [common, setCommon] = useState<CommonTransitions | null>(null);
+  const [loadError, setLoadError] = useState('');
+  const [transition, setTransition] = useState<BulkTransition | null>(null);
+
+  // Assign
+  const [users, setUsers] = useState<FilterChoice[] | null>(null);
+  const [userSearch, setUserSearch] = useState('');
+  const [assigneeId, setAssigneeId] = useState<string | null>(null);
+
+  // Comment, also the transition comment
+  const [comment, setComment] = useState('');
+  const [isInternal, setIsInternal] = useState(false);
+
+  const fetchTransitions = useCallback(async () => {
+    setLoadError('');
+    setCommon(null);
+    const result = await loadCommonTransitions(records);
+    if (result.success) {
+      setCommon(result.data);
+    } else {
+      setLoadError(result.error);
+    }
+  }, [records]);
+
+  useEffect(() => {
+    if (action === 'transition') fetchTransitions();
+    if (action === 'assign') loadFilterChoices('users').then(setUsers);
+  }, [action, fetchTransitions]);
+
+  const trimmedComment = comment.trim();
+  const canApply =
+    action === 'transition' ? !!transition && (!transition.commentRequired || !!trimmedComment) :
+    action === 'assign' ? !!assigneeId :
+    !!trimmedComment;
+
+  const handleApply = async () => {
+    const perform =
+      action === 'transition' && transition ? bulkTransition(transition.transition.id, trimmedComment) :
+      action === 'assign' && assigneeId ? bulkAssign(assigneeId) :
+      bulkComment(trimmedComment, isInternal);
+
+    setRunning(true);
+    const result = await runBulkAction(records, perform, setItems);
+    setRunning(false);
+    setSummary(result);
+  };
+
+  const close = () => {
+    if (!running) onClose(summary);
+  };
+
+  const renderTransitionSetup = () => {
+    if (loadError) {
+      return (
+        <View style={styles.centered}>
+          <Text style={styles.errorText}>{loadError}</Text>
+          <TouchableOpacity style={styles.retryButton} onPress={fetchTransitions}>
+            <Text style={[styles.retryText, { color: accentColor }]}>{t('common.retry')}</Text>
+          </TouchableOpacity>
+        </View>
+      );
+    }
+    if (!common) {
+      return (
+        <View style={styles.centered}>
+          <ActivityIndicator color={accentColor} />
+          <Text style={styles.hint}>{t('bulk.loadingTransitions')}</Text>
+        </View>
+      );
+    }
+
+    return (
+      <ScrollView style={styles.setupScroll} keyboardShouldPersistTaps="handled">
+        {common.transitions.length === 0 && (
+          <Text style={styles.emptyText}>{t('bulk.noCommonTransitions')}</Text>
+        )}
+        {common.transitions.map(option => {
+          const selected = transition?.transition.id === option.transition.id;
+          return (
+            <TouchableOpacity
+              key={option.transition.id}
+              style={[styles.option, selected && { borderColor: accentColor }]}
+              onPress={() => setTransition(option)}
+            >
+              <Ionicons
+                name={selected ? 'radio-button-on' : 'radio-button-off'}
+                size={20}
+                color={selected ? accentColor : COLORS.muted}
+              />
+              <View style={styles.optionBody}>
+                <Text style={styles.optionLabel}>{option.transition.name}</Text>
+                {option.transition.to_state && (
+                  <View style={styles.stateRow}>
+                    <Ionicons name="arrow-forward" size={12} color={COLORS.textSecondary} />
+                    <View style={[styles.stateDot, { backgroundColor: option.transition.to_state.color || COLORS.muted }]} />
+                    <Text style={styles.stateText}>{option.transition.to_state.name}</Text>
+                  </View>
+                )}
+              </View>
+            </TouchableOpacity>
+          );
+        })}
+        {common.skipped > 0 && (
+          <Text style={styles.hint}>{t('bulk.skippedTransitions', { count: common.skipped })}</Text>
+        )}
+        {transition?.commentAllowed && (
+          <TextInput
+            style={[styles.input, styles.multiline]}
+            value={comment}
+            onChangeText={setComment}
+            placeholder={transition.commentRequired ? t('bulk.commentRequired') : t('bulk.commentOptional')}
+            placeholderTextColor={COLORS.muted}
+            multiline
+            textAlignVertical="top"
+          />
+        )}
+      </ScrollView>
+    );
+  };
+
+  const renderAssignSetup = () => {
+    if (!users) {
+      return (
+        <View style={styles.centered}>
+          <ActivityIndicator color={accentColor} />
+        </View>
+      );
+    }
+    const query = userSearch.trim().toLowerCase();
+    const visible = query ? users.filter(user => user.label.toLowerCase().includes(query)) : users;
+
+    return (
+      <View style={styles.setupScroll}>
+        <TextInput
+          style={styles.input}
+          value={userSearch}
+          onChangeText={setUserSearch}
+          placeholder={t('bulk.searchUsers')}
+          placeholderTextColor={COLORS.muted}
+          autoCapitalize="none"
+        />
+        <FlatList
+          data={visible}
+          keyExtractor={user => user.value}
+          keyboardShouldPersistTaps="handled"
+          ListEmptyComponent={<Text style={styles.emptyText}>{t('bulk.noUsers')}</Text>}
+          renderItem={({ item }) => {
+            const selected = assigneeId === item.value;
+            return (
+              <TouchableOpacity
+                style={[styles.option, selected && { borderColor: accentColor }]}
+                onPress={() => setAssigneeId(item.value)}
+              >
+                <Ionicons
+                  name={selected ? 'radio-button-on' : 'radio-button-off'}
+                  size={20}
+                  color={selected ? accentColor : COLORS.muted}
+                />
+                <Text style={[styles.optionLabel, styles.optionBody]}>{item.label}</Text>
+              </TouchableOpacity>
+            );
+          }}
+        />
+      </View>
+    );
+  };
+
+  const renderCommentSetup = () => (
+    <View>
+      <TextInput
+        style={[styles.input, styles.multiline]}
+        value={comment}
+        onChangeText={setComment}
+        placeholder={t('incidents.writeComment')}
+        placeholderTextColor={COLORS.muted}
+        multiline
+        textAlignVertical="top"
+        autoFocus
+      />
+      <View style={styles.internalToggle}>
+        <Switch
+          value={isInternal}
+          onValueChange={setIsInternal}
+          trackColor={{ false: COLORS.border, true: COLORS.internal }}
+        />
+        <Text style={styles.internalText}>{t('comments.markInternal')}</Text>
+      </View>
+    </View>
+  );
+
+  const renderProgress = () => {
+    const processed = items.filter(item => item.status === 'done' || item.status === 'failed').length;
+    return (
+      <View style={styles.setupScroll}>
+        <Text style={styles.progressText}>
+          {summary
+            ? summary.failed.length === 0
+              ? t('bulk.allSucceeded', { count: summary.succeeded })
+              : t('bulk.partialFailure', { succeeded: summary.succeeded, failed: summary.failed.length })
+            : t('bulk.progress', { current: processed, total: items.length })}
+        </Text>
+        <FlatList
+          data={items}
+          keyExtractor={item => item.id}
+          renderItem={({ item }) => (
+            <View style={styles.progressItem}>
+              {item.status === 'running' ? (
+                <ActivityIndicator size="small" color={accentColor} />
+              ) : (
+                <Ionicons name={ITEM_ICONS[item.status].name} size={20} color={ITEM_ICONS[item.status].color} />
+              )}
+              <View style={styles.optionBody}>
+                <Text style={styles.optionLabel}>{item.number}</Text>
+                {item.error && <Text style={styles.itemError}>{item.error}</Text>}
+              </View>
+            </View>
+          )}
+        />
+      </View>
+    );
+  };
+
+  const started = running || !!summary;
+
+  return (
+    <Modal visible transparent animationType="fade" onRequestClose={close}>
+      <KeyboardAvoidingView style={styles.overlay} behavior={Platform.OS === 'ios' ? 'padding' : undefined}>
+        <View style={styles.card}>
+          <Text style={[styles.title, { color: accentColor }]}>
+            {t(`bulk.titles.${action}`, { count: records.length })}
+          </Text>
+
+          {started
+            ? renderProgress()
+            : action === 'transition'
+              ? renderTransitionSetup()
+              : action === 'assign'
+                ? renderAssignSetup()
+                : renderCommentSetup()}
+
+          <View style={styles.actions}>
+            {started ? (
+              <TouchableOpacity
+                style={[styles.applyButton, { backgroundColor: running ? COLORS.disabled : accentColor }]}
+                onPress={close}
+                disabled={running}
+              >
+                <Text style={styles.applyText}>{t('common.done')}</Text>
+              </TouchableOpacity>
+            ) : (
+              <>
+                <TouchableOpacity style={[styles.cancelButton, { borderColor: accentColor }]} onPress={close}>
+                  <Text style={[styles.cancelText, { color: accentColor }]}>{t('common.cancel')}</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={[styles.applyButton, { backgroundColor: canApply ? accentColor : COLORS.disabled }]}
+                  onPress={handleApply}
+                  disabled={!canApply}
+                >
+                  <Text style={styles.applyText}>{t('bulk.apply', { count: records.length })}</Text>
+                </TouchableOpacity>
+              </>
+            )}
+          </View>
+        </View>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: COLORS.overlay,
+    justifyContent: 'center',
+    padding: 24,
+  },
+  card: {
+    backgroundColor: COLORS.white,
+    borderRadius: 16,
+    padding: 20,
+    maxHeight: '85%',
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    marginBottom: 12,
+  },
+  centered: {
+    alignItems: 'center',
+    paddingVertical: 24,
+    gap: 8,
+  },
+  setupScroll: {
+    flexShrink: 1,
+  },
+  hint: {
+    fontSize: 12,
+    color: COLORS.textSecondary,
+    marginTop: 8,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: COLORS.textSecondary,
+    textAlign: 'center',
+    paddingVertical: 16,
+  },
+  errorText: {
+    fontSize: 14,
+    color: COLORS.error,
+    textAlign: 'center',
+  },
+  retryButton: {
+    paddingVertical: 8,
+    paddingHorizontal: 16,
+  },
+  retryText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  option: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    borderRadius: 10,
+    padding: 12,
+    marginBottom: 8,
+  },
+  optionBody: {
+    flex: 1,
+    marginLeft: 10,
+  },
+  optionLabel: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: COLORS.text,
+  },
+  stateRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginTop: 4,
+  },
+  stateDot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+  },
+  stateText: {
+    fontSize: 12,
+    color: COLORS.textSecondary,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    borderRadius: 10,
+    paddingHorizontal: 14,
+    paddingVertical: 12,
+    fontSize: 15,
+    color: COLORS.text,
+    marginBottom: 8,
+  },
+  multiline: {
+    minHeight: 96,
+    marginTop: 8,
+  },
+  internalToggle: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  internalText: {
+    fontSize: 13,
+    color: COLORS.textSecondary,
+  },
+  progressText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: COLORS.text,
+    marginBottom: 12,
+  },
+  progressItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: COLORS.background,
+  },
+  itemError: {
+    fontSize: 12,
+    color: COLORS.error,
+    marginTop: 2,
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: 10,
+    marginTop: 16,
+  },
+  cancelButton: {
+    flex: 1,
+    paddingVertical: 12,
+    alignItems: 'center',
+    borderRadius: 10,
+    borderWidth: 1,
+  },
+  cancelText: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  applyButton: {
+    flex: 1,
+    paddingVertical: 12,
+    alignItems: 'center',
+    borderRadius: 10,
+  },
+  applyText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: COLORS.white,
+  },
+});
+
+export default BulkActionModal;
@@ -0,0 +1,239 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  Switch,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useTranslation } from 'react-i18next';
+import { getComments, addComment } from '@/src/api/incidents';
+import { Comment } from '@/src/api/models';
+import { RecordType } from '@/src/api/workflow';
+import { RECORD_PERMISSIONS } from '@/src/constants/permissions';
+import { usePermissions } from '@/src/hooks/usePermissions';
+import { formatRelativeTime } from '@/src/utils/relativeTime';
+import { crashLogger } from '@/src/utils/crashLogger';
+
+const COLORS = {
+  primary: '#1A237E',
+  accent: '#2EC4B6',
+  background: '#F5F7FA',
+  white: '#FFFFFF',
+  text: {
+    primary: '#1A1A2E',
+    secondary: '#64748B',
+    muted: '#94A3B8',
+  },
+  border: '#E2E8F0',
+  internal: '#F59E0B',
+};
+
+interface CommentThreadProps {
+  recordId: string;
+  recordType: RecordType;
+  initialComments?: Comment[];
+}
+
+// Empty when the comment carries no usable name, so the caller can show a translated fallback
+const getAuthorName = (comment: Comment): string => {
+  const author = comment.author;
+  if (!author) return '';
+  const fullName = `${author.first_name || ''} ${author.last_name || ''}`.trim();
+  return fullName || author.username || '';
+};
+
+export const CommentThread: React.FC<CommentThreadProps> = ({
+  recordId,
+  recordType,
+  initialComments = [],
+}) => {
+  const { t } = useTranslation();
+  const { hasPermission } = usePermissions();
+  const [comments, setComments] = useState<Comment[]>(initialComments);
+  const [loading, setLoading] = useState(false);
+  const [content, setContent] = useState('');
+  const [isInternal, setIsInternal] = useState(false);
+  const [posting, setPosting] = useState(false);
+
+  // Gates the whole composer, internal-note switch included (INCIDENTS_COMMENT and its equivalents)
+  const canComment = hasPermission(RECORD_PERMISSIONS[recordType].comment);
+
+  const fetchComments = useCallback(async () => {
+    setLoading(true);
+    const response = await getComments(recordId);
+    if (response.success && Array.isArray(response.data)) {
+      setComments(response.data);
+    }
+    setLoading(false);
+  }, [recordId]);
+
+  useEffect(() => {
+    fetchComments();
+  }, [fetchComments]);
+
+  const handlePost = async () => {
+    const trimmed = content.trim();
+    if (!trimmed || posting) return;
+
+    setPosting(true);
+    const response = await addComment(recordId, trimmed, isInternal);
+    setPosting(false);
+
+    if (response.success) {
+      setContent('');
+      setIsInternal(false);
+      await fetchComments();
+    } else {
+      crashLogger.logWarning('Failed to post comment', {
+        component: 'CommentThread',
+        recordId,
+        recordType,
+        error: response.error,
+      }).catch(() => {});
+      Alert.alert(t('common.error'), `${t('comments.postFailed')}: ${response.error}`);
+    }
+  };
+
+  return (
+    <View>
+      <View style={styles.header}>
+        <View style={styles.headerLeft}>
+          <Ionicons name="chatbubbles" size={20} color={COLORS.accent} />
+          <Text style={styles.headerTitle}>{t('details.comments')}</Text>
+          {comments.length > 0 && (
+            <View style={styles.countBadge}>
+              <Text style={styles.countText}>{comments.length}</Text>
+            </View>
+          )}
+        </View>
+        <TouchableOpacity onPress={fetchComments} disabled={loading} style={styles.refreshButton}>
+          {loading ? (
+            <ActivityIndicator size="small" color={COLORS.accent} />
+          ) : (
+            <Ionicons name="refresh" size={18} color={COLORS.text.secondary} />
+          )}
+        </TouchableOpacity>
+      </View>
+
+      {comments.length > 0 ? (
+        comments.map(comment => {
+          const authorName = getAuthorName(comment) || t('comments.unknownAuthor');
+          return (
+            <View
+              key={comment.id}
+              style={[styles.commentItem, comment.is_internal && styles.commentItemInternal]}
+            >
+              <View style={styles.commentHeader}>
+                <View style={styles.commentAvatar}>
+                  <Text style={styles.commentAvatarText}>{authorName[0]?.toUpperCase()}</Text>
+                </View>
+                <View style={styles.commentMeta}>
+                  <Text style={styles.commentAuthor}>{authorName}</Text>
+                  <Text style={styles.commentDate}>{formatRelativeTime(comment.created_at)}</Text>
+                </View>
+                {comment.is_internal && (
+                  <View style={styles.internalBadge}>
+                    <Ionicons name="lock-closed" size={10} color={COLORS.internal} />
+                    <Text style={styles.internalBadgeText}>{t('comments.internal')}</Text>
+                  </View>
+                )}
+              </View>
+              <Text style={styles.commentContent}>{comment.content}</Text>
+            </View>
+          );
+        })
+      ) : (
+        <View style={styles.emptyState}>
+          <Ionicons name="chatbubble-outline" size={32} color={COLORS.text.muted} />
+          <Text style={styles.emptyStateText}>{t('details.noComments')}</Text>
+        </View>
+      )}
+
+      {canComment && (
+        <View style={styles.composer}>
+          <TextInput
+            style={styles.input}
+            value={content}
+            onChangeText={setContent}
+            placeholder={t('incidents.writeComment')}
+            placeholderTextColor={COLORS.text.muted}
+            multiline
+            textAlignVertical="top"
+            editable={!posting}
+          />
+          <View style={styles.composerFooter}>
+            <View style={styles.internalToggle}>
+              <Switch
+                value={isInternal}
+                onValueChange={setIsInternal}
+                trackColor={{ false: COLORS.border, true: COLORS.internal }}
+                disabled={posting}
+              />
+              <Text style={styles.internalToggleText}>{t('comments.markInternal')}</Text>
+            </View>
+            <TouchableOpacity
+              style={[styles.sendButton, (!content.trim() || posting) && styles.sendButtonDisabled]}
+              onPress={handlePost}
+              disabled={!content.trim() || posting}
+            >
+              {posting ? (
+                <ActivityIndicator size="small" color={COLORS.white} />
+              ) : (
+                <>
+                  <Ionicons name="send" size={14} color={COLORS.white} />
+                  <Text style={styles.sendButtonText}>{t('incidents.send')}</Text>
+                </>
+              )}
+            </TouchableOpacity>
+          </View>
+        </View>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  header: { flexDirection: 'row', alignItems: 'center', justifyContent: 'space-between', marginBottom: 16 },
+  headerLeft: { flexDirection: 'row', alignItems: 'center', gap: 8 },
+  headerTitle: { fontSize: 16, fontWeight: 'bold', color: COLORS.text.primary },
+  countBadge: { backgroundColor: `${COLORS.accent}20`, paddingHorizontal: 8, paddingVertical: 2, borderRadius: 10 },
+  countText: { fontSize: 12, fontWeight: '600', color: COLORS.accent },
+  refreshButton: { width: 32, height: 32, borderRadius: 16, justifyContent: 'center', alignItems: 'center' },
+
+  commentItem: { backgroundColor: COLORS.background, borderRadius: 12, padding: 12, marginBottom: 10 },
+  commentItemInternal: { backgroundColor: '#FFFBEB', borderWidth: 1, borderColor: '#FDE68A' },
+  commentHeader: { flexDirection: 'row', alignItems: 'center', marginBottom: 8 },
+  commentAvatar: { width: 32, height: 32, borderRadius: 16, backgroundColor: COLORS.accent, justifyContent: 'center', alignItems: 'center' },
+  commentAvatarText: { color: COLORS.white, fontSize: 13, fontWeight: 'bold' },
+  commentMeta: { flex: 1, marginLeft: 10 },
+  commentAuthor: { fontSize: 13, fontWeight: '600', color: COLORS.text.primary },
+  commentDate: { fontSize: 11, color: COLORS.text.muted },
+  commentContent: { fontSize: 14, color: COLORS.text.secondary, lineHeight: 20 },
+  internalBadge: { flexDirection: 'row', alignItems: 'center', gap: 4, paddingHorizontal: 8, paddingVertical: 3, borderRadius: 6, backgroundColor: '#FEF3C7' },
+  internalBadgeText: { fontSize: 10, fontWeight: 'bold', color: COLORS.internal },
+
+  emptyState: { alignItems: 'center', paddingVertical: 24 },
+  emptyStateText: { fontSize: 14, color: COLORS.text.muted, marginTop: 8 },
+
+  composer: { marginTop: 8, borderTopWidth: 1, borderTopColor: COLORS.border, paddingTop: 12 },
+  input: {
+    minHeight: 70, maxHeight: 160, backgroundColor: COLORS.background, borderRadius: 10,
+    padding: 12, fontSize: 14, color: COLORS.text.primary, borderWidth: 1, borderColor: COLORS.border,
+  },
+  composerFooter: { flexDirection: 'row', alignItems: 'center', justifyContent: 'space-between', marginTop: 10 },
+  internalToggle: { flexDirection: 'row', alignItems: 'center', gap: 6 },
+  internalToggleText: { fontSize: 13, color: COLORS.text.secondary },
+  sendButton: {
+    flexDirection: 'row', alignItems: 'center', gap: 6, backgroundColor: COLORS.accent,
+    paddingHorizontal: 16, paddingVertical: 10, borderRadius: 10, minWidth: 80, justifyContent: 'center',
+  },
+  sendButtonDisabled: { opacity: 0.5 },
+  sendButtonText: { color: COLORS.white, fontSize: 14, fontWeight: '600' },
+});
+
+export default CommentThread;
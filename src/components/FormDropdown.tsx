@@ -0,0 +1,206 @@
+import React, { useState } from 'react';
+import {
+  ActivityIndicator,
+  FlatList,
+  Modal,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import { FontAwesome, Ionicons } from '@expo/vector-icons';
+import { useTranslation } from 'react-i18next';
+import { FormOption } from '@/src/constants/ticketForms';
+
+interface FormDropdownProps {
+  label: string;
+  value: string;
+  options: FormOption[];
+  onSelect: (option: FormOption | null) => void;
+  loading?: boolean;
+  error?: string;
+  allowClear?: boolean;
+  disabled?: boolean;
+  accentColor?: string;
+}
+
+export const FormDropdown: React.FC<FormDropdownProps> = ({
+  label,
+  value,
+  options,
+  onSelect,
+  loading,
+  error,
+  allowClear = true,
+  disabled,
+  accentColor = '#2EC4B6',
+}) => {
+  const { t } = useTranslation();
+  const [modalVisible, setModalVisible] = useState(false);
+
+  const choose = (option: FormOption | null) => {
+    onSelect(option);
+    setModalVisible(false);
+  };
+
+  return (
+    <>
+      <TouchableOpacity
+        style={[styles.dropdown, error && styles.dropdownError, disabled && styles.dropdownDisabled]}
+        onPress={() => setModalVisible(true)}
+        disabled={disabled}
+      >
+        <Text style={[styles.dropdownText, !value && styles.placeholderText]}>
+          {value || label}
+        </Text>
+        {loading ? (
+          <ActivityIndicator size="small" color="#666" />
+        ) : (
+          !disabled && <FontAwesome name="chevron-down" size={16} color="#666" />
+        )}
+      </TouchableOpacity>
+      {error && <Text style={styles.errorText}>{error}</Text>}
+
+      <Modal
+        visible={modalVisible}
+        transparent
+        animationType="slide"
+        onRequestClose={() => setModalVisible(false)}
+      >
+        <TouchableOpacity
+          style={styles.modalOverlay}
+          activeOpacity={1}
+          onPress={() => setModalVisible(false)}
+        >
+          <View style={styles.modalContent}>
+            <View style={styles.modalHeader}>
+              <Text style={styles.modalTitle}>{label}</Text>
+              <TouchableOpacity onPress={() => setModalVisible(false)}>
+                <Ionicons name="close" size={24} color="#333" />
+              </TouchableOpacity>
+            </View>
+
+            {allowClear && !!value && (
+              <TouchableOpacity style={styles.clearOption} onPress={() => choose(null)}>
+                <Text style={styles.clearOptionText}>{t('ticketForm.clearSelection')}</Text>
+                <Ionicons name="close-circle" size={20} color="#E74C3C" />
+              </TouchableOpacity>
+            )}
+
+            {options.length === 0 ? (
+              <View style={styles.emptyList}>
+                <Text style={styles.emptyText}>{t('ticketForm.noOptions')}</Text>
+              </View>
+            ) : (
+              <FlatList
+                data={options}
+                keyExtractor={(item) => item.id}
+                renderItem={({ item }) => (
+                  <TouchableOpacity style={styles.optionItem} onPress={() => choose(item)}>
+                    <Text style={styles.optionText}>{item.name}</Text>
+                    {value === item.name && (
+                      <Ionicons name="checkmark" size={20} color={accentColor} />
+                    )}
+                  </TouchableOpacity>
+                )}
+              />
+            )}
+          </View>
+        </TouchableOpacity>
+      </Modal>
+    </>
+  );
+};
+
+const styles = StyleSheet.create({
+  dropdown: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    backgroundColor: 'white',
+    padding: 15,
+    borderRadius: 10,
+    marginBottom: 20,
+    borderWidth: 1,
+    borderColor: '#E0E0E0',
+  },
+  dropdownError: {
+    borderColor: '#E74C3C',
+  },
+  dropdownDisabled: {
+    backgroundColor: '#F8F9FA',
+  },
+  dropdownText: {
+    fontSize: 16,
+    color: '#333',
+    flex: 1,
+  },
+  placeholderText: {
+    color: '#999',
+  },
+  errorText: {
+    color: '#E74C3C',
+    fontSize: 12,
+    marginTop: -16,
+    marginBottom: 16,
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'flex-end',
+  },
+  modalContent: {
+    backgroundColor: 'white',
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    maxHeight: '70%',
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: '#EEE',
+  },
+  modalTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  clearOption: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#F0F0F0',
+    backgroundColor: '#FFF5F5',
+  },
+  clearOptionText: {
+    fontSize: 16,
+    color: '#E74C3C',
+  },
+  optionItem: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#F0F0F0',
+  },
+  optionText: {
+    fontSize: 16,
+    color: '#333',
+  },
+  emptyList: {
+    padding: 40,
+    alignItems: 'center',
+  },
+  emptyText: {
+    color: '#999',
+    fontSize: 16,
+  },
+});
+
+export default FormDropdown;
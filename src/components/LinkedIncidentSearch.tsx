@@ -0,0 +1,193 @@
+import React, { useEffect, useState } from 'react';
+import {
+  ActivityIndicator,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useTranslation } from 'react-i18next';
+import { getRecords } from '@/src/api/records';
+import { FormOption } from '@/src/constants/ticketForms';
+
+const MIN_SEARCH_LENGTH = 2;
+const SEARCH_DEBOUNCE_MS = 500;
+
+interface LinkedIncidentSearchProps {
+  value: FormOption | null;
+  onChange: (incident: FormOption | null) => void;
+  error?: string;
+}
+
+// Lets a complaint or query reference one of the user's own incidents
+export const LinkedIncidentSearch: React.FC<LinkedIncidentSearchProps> = ({ value, onChange, error }) => {
+  const { t } = useTranslation();
+  const [search, setSearch] = useState('');
+  const [results, setResults] = useState<FormOption[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (search.length < MIN_SEARCH_LENGTH) {
+      setResults([]);
+      setLoading(false);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      setLoading(true);
+      const response = await getRecords('incident', {
+        search,
+        created_by_me: true, // Only show incidents created by current user
+        limit: 20,
+      });
+      if (cancelled) return;
+      setResults(response.success
+        ? response.data.map(i => ({ id: i.id, name: `${i.incident_number} - ${i.title}` }))
+        : []);
+      setLoading(false);
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [search]);
+
+  if (value) {
+    return (
+      <>
+        <View style={styles.selectedCard}>
+          <Text style={styles.selectedText}>{value.name}</Text>
+          <TouchableOpacity onPress={() => onChange(null)}>
+            <Ionicons name="close-circle" size={24} color="#666" />
+          </TouchableOpacity>
+        </View>
+        {error && <Text style={styles.errorText}>{error}</Text>}
+      </>
+    );
+  }
+
+  return (
+    <>
+      <View style={[styles.searchInputContainer, error && styles.inputError]}>
+        <Ionicons name="search" size={20} color="#666" style={styles.searchIcon} />
+        <TextInput
+          style={styles.searchInput}
+          placeholder={t('ticketForm.searchIncident')}
+          value={search}
+          onChangeText={setSearch}
+          placeholderTextColor="#999"
+        />
+        {loading && <ActivityIndicator size="small" color="#666" />}
+      </View>
+
+      {results.length > 0 && (
+        <View style={styles.searchResults}>
+          <ScrollView style={styles.searchResultsScroll} nestedScrollEnabled={true}>
+            {results.map((incident) => (
+              <TouchableOpacity
+                key={incident.id}
+                style={styles.searchResultItem}
+                onPress={() => {
+                  onChange(incident);
+                  setSearch('');
+                  setResults([]);
+                }}
+              >
+                <Text style={styles.searchResultText}>{incident.name}</Text>
+              </TouchableOpacity>
+            ))}
+          </ScrollView>
+        </View>
+      )}
+
+      {search.length >= MIN_SEARCH_LENGTH && !loading && results.length === 0 && (
+        <Text style={styles.noResultsText}>{t('ticketForm.noIncidentsFound')}</Text>
+      )}
+
+      {error && <Text style={styles.errorText}>{error}</Text>}
+    </>
+  );
+};
+
+const styles = StyleSheet.create({
+  selectedCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#E8F5E9',
+    padding: 12,
+    borderRadius: 10,
+    marginBottom: 20,
+    borderWidth: 1,
+    borderColor: '#4CAF50',
+  },
+  selectedText: {
+    fontSize: 14,
+    color: '#333',
+    flex: 1,
+  },
+  searchInputContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: 'white',
+    borderRadius: 10,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderWidth: 1,
+    borderColor: '#E0E0E0',
+    marginBottom: 20,
+  },
+  inputError: {
+    borderColor: '#E74C3C',
+  },
+  searchIcon: {
+    marginRight: 8,
+  },
+  searchInput: {
+    flex: 1,
+    fontSize: 14,
+    color: '#333',
+    padding: 0,
+  },
+  searchResults: {
+    backgroundColor: 'white',
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: '#E0E0E0',
+    marginTop: -12,
+    marginBottom: 20,
+    overflow: 'hidden',
+    maxHeight: 250,
+  },
+  searchResultsScroll: {
+    maxHeight: 250,
+  },
+  searchResultItem: {
+    padding: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#F0F0F0',
+  },
+  searchResultText: {
+    fontSize: 14,
+    color: '#333',
+  },
+  noResultsText: {
+    fontSize: 14,
+    color: '#999',
+    textAlign: 'center',
+    marginTop: -12,
+    paddingVertical: 12,
+  },
+  errorText: {
+    color: '#E74C3C',
+    fontSize: 12,
+    marginTop: -16,
+    marginBottom: 16,
+  },
+});
+
+export default LinkedIncidentSearch;
@@ -0,0 +1,148 @@
+import React, { useState } from 'react';
+import { StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { PIN_LENGTH } from '@/src/utils/appLock';
+
+const COLORS = {
+  primary: '#2EC4B6',
+  text: '#1A1A2E',
+  textSecondary: '#64748B',
+  border: '#CBD5E1',
+  keyBackground: '#F1F5F9',
+  error: '#E74C3C',
+};
+
+const KEYS = ['1', '2', '3', '4', '5', '6', '7', '8', '9'];
+
+interface PinPadProps {
+  title: string;
+  subtitle?: string;
+  error?: string;
+  disabled?: boolean;
+  // Shown bottom-left, e.g. to bring the biometric prompt back
+  extraAction?: { icon: string; onPress: () => void };
+  onComplete: (pin: string) => void;
+}
+
+// Numeric keypad that collects a PIN_LENGTH digit PIN and hands it over once complete
+export const PinPad: React.FC<PinPadProps> = ({ title, subtitle, error, disabled, extraAction, onComplete }) => {
+  const [pin, setPin] = useState('');
+
+  const handleDigit = (digit: string) => {
+    if (disabled || pin.length >= PIN_LENGTH) return;
+    const next = pin + digit;
+    setPin(next);
+    if (next.length === PIN_LENGTH) {
+      setPin('');
+      onComplete(next);
+    }
+  };
+
+  const handleDelete = () => {
+    setPin(current => current.slice(0, -1));
+  };
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.title}>{title}</Text>
+      {!!subtitle && <Text style={styles.subtitle}>{subtitle}</Text>}
+
+      <View style={styles.dots}>
+        {Array.from({ length: PIN_LENGTH }, (_, index) => (
+          <View key={index} style={[styles.dot, index < pin.length && styles.dotFilled]} />
+        ))}
+      </View>
+      <Text style={styles.error}>{error || ' '}</Text>
+
+      <View style={styles.keypad}>
+        {KEYS.map(key => (
+          <TouchableOpacity key={key} style={styles.key} onPress={() => handleDigit(key)} disabled={disabled}>
+            <Text style={styles.keyText}>{key}</Text>
+          </TouchableOpacity>
+        ))}
+        {extraAction ? (
+          <TouchableOpacity style={styles.actionKey} onPress={extraAction.onPress} disabled={disabled}>
+            <Ionicons name={extraAction.icon as any} size={28} color={COLORS.primary} />
+          </TouchableOpacity>
+        ) : (
+          <View style={styles.actionKey} />
+        )}
+        <TouchableOpacity style={styles.key} onPress={() => handleDigit('0')} disabled={disabled}>
+          <Text style={styles.keyText}>0</Text>
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.actionKey} onPress={handleDelete} disabled={disabled || pin.length === 0}>
+          <Ionicons name="backspace-outline" size={26} color={COLORS.textSecondary} />
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    alignItems: 'center',
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: COLORS.text,
+    textAlign: 'center',
+  },
+  subtitle: {
+    fontSize: 14,
+    color: COLORS.textSecondary,
+    textAlign: 'center',
+    marginTop: 6,
+  },
+  dots: {
+    flexDirection: 'row',
+    gap: 14,
+    marginTop: 28,
+  },
+  dot: {
+    width: 14,
+    height: 14,
+    borderRadius: 7,
+    borderWidth: 1.5,
+    borderColor: COLORS.border,
+  },
+  dotFilled: {
+    backgroundColor: COLORS.primary,
+    borderColor: COLORS.primary,
+  },
+  error: {
+    fontSize: 13,
+    color: COLORS.error,
+    marginTop: 12,
+    textAlign: 'center',
+  },
+  keypad: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'center',
+    width: 264,
+    marginTop: 16,
+    gap: 16,
+  },
+  key: {
+    width: 72,
+    height: 72,
+    borderRadius: 36,
+    backgroundColor: COLORS.keyBackground,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  keyText: {
+    fontSize: 26,
+    fontWeight: '600',
+    color: COLORS.text,
+  },
+  actionKey: {
+    width: 72,
+    height: 72,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+});
+
+export default PinPad;
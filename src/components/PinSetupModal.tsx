@@ -0,0 +1,109 @@
+import React, { useState } from 'react';
+import { ActivityIndicator, Alert, Modal, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useTranslation } from 'react-i18next';
+import { PinPad } from '@/src/components/PinPad';
+import { appLock } from '@/src/utils/appLock';
+
+const COLORS = {
+  primary: '#2EC4B6',
+  background: '#FFFFFF',
+  textSecondary: '#64748B',
+};
+
+interface PinSetupModalProps {
+  visible: boolean;
+  // Leave out when a PIN is mandatory, so the setup can't be dismissed
+  onCancel?: () => void;
+  onDone: () => void;
+}
+
+// Asks for a new app lock PIN twice and saves it, which also turns the lock on
+export const PinSetupModal: React.FC<PinSetupModalProps> = ({ visible, onCancel, onDone }) => {
+  const { t } = useTranslation();
+  const [firstPin, setFirstPin] = useState<string | null>(null);
+  const [error, setError] = useState<string | undefined>();
+  const [saving, setSaving] = useState(false);
+
+  const reset = () => {
+    setFirstPin(null);
+    setError(undefined);
+    setSaving(false);
+  };
+
+  const handleComplete = async (pin: string) => {
+    if (firstPin === null) {
+      setFirstPin(pin);
+      setError(undefined);
+      return;
+    }
+
+    if (pin !== firstPin) {
+      setFirstPin(null);
+      setError(t('appLock.pinMismatch'));
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await appLock.setPin(pin);
+      reset();
+      onDone();
+    } catch (error: any) {
+      reset();
+      Alert.alert(t('common.error'), error.message);
+    }
+  };
+
+  const handleCancel = () => {
+    reset();
+    onCancel?.();
+  };
+
+  return (
+    <Modal visible={visible} animationType="slide" onRequestClose={handleCancel}>
+      <SafeAreaView style={styles.container}>
+        <View style={styles.content}>
+          <PinPad
+            title={firstPin === null ? t('appLock.choosePin') : t('appLock.confirmPin')}
+            subtitle={t('appLock.pinHint')}
+            error={error}
+            disabled={saving}
+            onComplete={handleComplete}
+          />
+          {saving && <ActivityIndicator style={styles.spinner} color={COLORS.primary} />}
+        </View>
+        {onCancel && (
+          <TouchableOpacity style={styles.cancelButton} onPress={handleCancel} disabled={saving}>
+            <Text style={styles.cancelButtonText}>{t('common.cancel')}</Text>
+          </TouchableOpacity>
+        )}
+      </SafeAreaView>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: COLORS.background,
+  },
+  content: {
+    flex: 1,
+    justifyContent: 'center',
+  },
+  spinner: {
+    marginTop: 16,
+  },
+  cancelButton: {
+    paddingVertical: 16,
+    alignItems: 'center',
+  },
+  cancelButtonText: {
+    color: COLORS.textSecondary,
+    fontSize: 15,
+    fontWeight: '600',
+  },
+});
+
+export default PinSetupModal;
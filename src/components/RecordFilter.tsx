@@ -0,0 +1,636 @@
+import React, { useEffect, useState } from 'react';
+import { ActivityIndicator, Platform, ScrollView, StyleSheet, Text, TextInput, TouchableOpacity, View } from 'react-native';
+import DateTimePicker from '@react-native-community/datetimepicker';
+import { Ionicons } from '@expo/vector-icons';
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import { useTranslation } from 'react-i18next';
+import { LookupCategory, RecordType } from '@/src/api/models';
+import { SavedViewsSection } from '@/src/components/SavedViewsSection';
+import {
+  DATE_PRESETS,
+  FILTER_FIELDS,
+  FILTER_OPTIONS,
+  FilterField,
+  FilterFieldConfig,
+  FilterParam,
+  FilterSource,
+  RECORD_FILTERS,
+} from '@/src/constants/recordFilters';
+import {
+  countActiveFilters,
+  dateRangeParams,
+  describeField,
+  FilterChoice,
+  FilterValues,
+  joinNames,
+  joinValues,
+  loadFilterChoices,
+  loadFilterLookups,
+  localizedName,
+  lookupParam,
+  parseDateParam,
+  presetRange,
+  splitValues,
+  toDateParam,
+} from '@/src/utils/recordFilters';
+import { toViewFilters, ViewFilters } from '@/src/utils/savedViews';
+
+const COLORS = {
+  section: '#F8F9FA',
+  border: '#E0E0E0',
+  divider: '#EEE',
+  text: '#333',
+  textSecondary: '#666',
+  muted: '#999',
+  disabled: '#CCC',
+  close: '#E74C3C',
+  white: '#FFFFFF',
+};
+
+// Option lists longer than this get a search box
+const SEARCHABLE_OPTION_COUNT = 8;
+
+type ServerSource = Exclude<FilterSource, 'static'>;
+
+interface RecordFilterProps {
+  recordType: RecordType;
+}
+
+/**
+ * Filter screen of a record list, built from the record type's entry in
+ * RECORD_FILTERS. Reads the list's current filters from its route params and
+ * replaces the list with the new ones on apply.
+ */
+export const RecordFilter: React.FC<RecordFilterProps> = ({ recordType }) => {
+  const router = useRouter();
+  const { t } = useTranslation();
+  const params = useLocalSearchParams();
+  const schema = RECORD_FILTERS[recordType];
+  const accent = schema.accentColor;
+
+  const [values, setValues] = useState<FilterValues>(() => toViewFilters(params));
+  const [choices, setChoices] = useState<Partial<Record<ServerSource, FilterChoice[]>>>({});
+  const [lookups, setLookups] = useState<LookupCategory[]>([]);
+  const [loadingLookups, setLoadingLookups] = useState(schema.fields.includes('lookups'));
+  const [expandedSection, setExpandedSection] = useState<string | null>(null);
+  const [optionQuery, setOptionQuery] = useState('');
+  const [pickingDate, setPickingDate] = useState<FilterParam | null>(null);
+
+  useEffect(() => {
+    const sources = new Set<ServerSource>();
+    schema.fields.forEach(field => {
+      const source = FILTER_FIELDS[field].source;
+      if (source && source !== 'static') sources.add(source);
+    });
+    sources.forEach(async source => {
+      const list = await loadFilterChoices(source);
+      setChoices(prev => ({ ...prev, [source]: list }));
+    });
+
+    if (schema.fields.includes('lookups')) {
+      loadFilterLookups().then(categories => {
+        setLookups(categories);
+        setLoadingLookups(false);
+      });
+    }
+  }, [schema]);
+
+  const activeCount = countActiveFilters(schema, values);
+
+  const toggleSection = (section: string) => {
+    setExpandedSection(expandedSection === section ? null : section);
+    setOptionQuery('');
+    setPickingDate(null);
+  };
+
+  const updateValues = (changes: Record<string, string | undefined>) => {
+    setValues(prev => {
+      const next: Record<string, string | undefined> = { ...prev, ...changes };
+      Object.keys(next).forEach(key => {
+        if (!next[key]) delete next[key];
+      });
+      return next as FilterValues;
+    });
+  };
+
+  const clearParams = (keys: string[]) => {
+    updateValues(Object.fromEntries(keys.map(key => [key, undefined])));
+  };
+
+  // Picks or unpicks an option; single-choice fields close once something is picked
+  const toggleOption = (
+    param: string,
+    multi: boolean,
+    value: string,
+    options: FilterChoice[],
+    nameParam?: string
+  ) => {
+    const current = splitValues(values[param as FilterParam]);
+    let next: string[];
+    if (multi) {
+      next = current.includes(value) ? current.filter(item => item !== value) : [...current, value];
+    } else {
+      next = current[0] === value ? [] : [value];
+      if (next.length > 0) setExpandedSection(null);
+    }
+
+    const changes: Record<string, string | undefined> = { [param]: joinValues(next) };
+    if (nameParam) {
+      const names = next
+        .map(item => options.find(option => option.value === item)?.label)
+        .filter((name): name is string => !!name);
+      changes[nameParam] = joinNames(names);
+    }
+    updateValues(changes);
+  };
+
+  const applyFilters = () => {
+    const reporter = values.reporter?.trim();
+    router.replace({ pathname: schema.listPath, params: { ...values, reporter: reporter || undefined } });
+  };
+
+  const applyView = (viewFilters: ViewFilters) => {
+    router.replace({ pathname: schema.listPath, params: viewFilters });
+  };
+
+  const fieldChoices = (field: FilterField, config: FilterFieldConfig): FilterChoice[] | undefined => {
+    if (config.source === 'static') {
+      return (FILTER_OPTIONS[field] ?? []).map(option => ({ ...option, label: t(option.label) }));
+    }
+    return config.source ? choices[config.source] : [];
+  };
+
+  const renderSection = (
+    key: string,
+    icon: FilterFieldConfig['icon'],
+    label: string,
+    value: string | null,
+    body: () => React.ReactNode
+  ) => (
+    <View key={key} style={styles.filterSection}>
+      <TouchableOpacity style={styles.filterHeader} onPress={() => toggleSection(key)}>
+        <View style={styles.filterHeaderLeft}>
+          <Ionicons name={icon} size={20} color={accent} />
+          <Text style={styles.filterLabel}>{label}</Text>
+        </View>
+        <View style={styles.filterHeaderRight}>
+          <Text style={[styles.filterValue, value !== null && { color: accent, fontWeight: '600' }]} numberOfLines={1}>
+            {value ?? t('filter.all')}
+          </Text>
+          <Ionicons name={expandedSection === key ? 'chevron-up' : 'chevron-down'} size={20} color={COLORS.textSecondary} />
+        </View>
+      </TouchableOpacity>
+      {expandedSection === key && <View style={styles.filterOptions}>{body()}</View>}
+    </View>
+  );
+
+  const renderOption = (key: string, label: string, selected: boolean, onPress: () => void, color?: string) => (
+    <TouchableOpacity
+      key={key}
+      style={[styles.filterOption, selected && { backgroundColor: schema.accentLight }]}
+      onPress={onPress}
+    >
+      <View style={styles.optionLabel}>
+        {color && <View style={[styles.colorDot, { backgroundColor: color }]} />}
+        <Text style={[styles.filterOptionText, selected && { color: accent, fontWeight: '600' }]}>{label}</Text>
+      </View>
+      {selected && <Ionicons name="checkmark" size={20} color={accent} />}
+    </TouchableOpacity>
+  );
+
+  const renderOptionList = (
+    param: string,
+    multi: boolean,
+    options: FilterChoice[] | undefined,
+    allLabel: string,
+    nameParam?: string
+  ) => {
+    if (!options) return <ActivityIndicator size="small" color={accent} />;
+
+    const selected = splitValues(values[param as FilterParam]);
+    const query = optionQuery.trim().toLowerCase();
+    const visible = query ? options.filter(option => option.label.toLowerCase().includes(query)) : options;
+
+    return (
+      <>
+        {options.length > SEARCHABLE_OPTION_COUNT && (
+          <View style={styles.searchBox}>
+            <Ionicons name="search" size={18} color={COLORS.muted} />
+            <TextInput
+              style={styles.searchInput}
+              value={optionQuery}
+              onChangeText={setOptionQuery}
+              placeholder={t('common.search')}
+              placeholderTextColor={COLORS.muted}
+              autoCapitalize="none"
+            />
+          </View>
+        )}
+        {renderOption('all', allLabel, selected.length === 0, () => clearParams(nameParam ? [param, nameParam] : [param]))}
+        {visible.map(option =>
+          renderOption(
+            option.value,
+            option.label,
+            selected.includes(option.value),
+            () => toggleOption(param, multi, option.value, options, nameParam),
+            option.color
+          )
+        )}
+        {multi && selected.length > 0 && (
+          <Text style={styles.hint}>{t('filter.selectedCount', { count: selected.length })}</Text>
+        )}
+      </>
+    );
+  };
+
+  const renderDateButton = (param: FilterParam, label: string) => {
+    const date = parseDateParam(values[param]);
+    return (
+      <TouchableOpacity
+        style={[styles.dateButton, pickingDate === param && { borderColor: accent }]}
+        onPress={() => setPickingDate(pickingDate === param ? null : param)}
+      >
+        <Text style={styles.dateButtonLabel}>{label}</Text>
+        <Text style={[styles.dateButtonValue, date && { color: accent }]}>
+          {date ? date.toLocaleDateString() : t('filter.anyDate')}
+        </Text>
+      </TouchableOpacity>
+    );
+  };
+
+  const renderDateRange = (field: FilterField, config: FilterFieldConfig) => {
+    const [fromParam, toParam] = dateRangeParams(config);
+    return (
+      <>
+        <View style={styles.presetRow}>
+          {(DATE_PRESETS[field] ?? []).map(preset => {
+            const range = presetRange(preset);
+            const active = values[fromParam] === range.from && values[toParam] === range.to;
+            return (
+              <TouchableOpacity
+                key={preset.key}
+                style={[styles.presetChip, active && { backgroundColor: accent, borderColor: accent }]}
+                onPress={() => updateValues({ [fromParam]: range.from, [toParam]: range.to })}
+              >
+                <Text style={[styles.presetChipText, active && styles.presetChipTextActive]}>
+                  {t(`filter.datePresets.${preset.key}`)}
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+        <View style={styles.dateRow}>
+          {renderDateButton(fromParam, t('filter.from'))}
+          {renderDateButton(toParam, t('filter.to'))}
+        </View>
+        {pickingDate && (pickingDate === fromParam || pickingDate === toParam) && (
+          <>
+            <DateTimePicker
+              value={parseDateParam(values[pickingDate]) ?? new Date()}
+              mode="date"
+              display={Platform.OS === 'ios' ? 'spinner' : 'default'}
+              onChange={(event, selectedDate) => {
+                if (Platform.OS !== 'ios') setPickingDate(null);
+                if (event.type === 'set' && selectedDate) {
+                  updateValues({ [pickingDate]: toDateParam(selectedDate) });
+                }
+              }}
+            />
+            {Platform.OS === 'ios' && (
+              <TouchableOpacity style={styles.linkButton} onPress={() => setPickingDate(null)}>
+                <Text style={[styles.linkButtonText, { color: accent }]}>{t('common.done')}</Text>
+              </TouchableOpacity>
+            )}
+          </>
+        )}
+        {(values[fromParam] || values[toParam]) && (
+          <TouchableOpacity style={styles.linkButton} onPress={() => clearParams([fromParam, toParam])}>
+            <Text style={[styles.linkButtonText, { color: accent }]}>{t('filter.clearDates')}</Text>
+          </TouchableOpacity>
+        )}
+      </>
+    );
+  };
+
+  const renderLookups = (config: FilterFieldConfig) => {
+    if (loadingLookups) {
+      return (
+        <View key="lookups" style={styles.filterSection}>
+          <ActivityIndicator style={styles.lookupsLoader} size="small" color={accent} />
+        </View>
+      );
+    }
+
+    return lookups.map(category => {
+      const param = lookupParam(category);
+      const options: FilterChoice[] = (category.values ?? [])
+        .filter(item => item.is_active !== false)
+        .map(item => ({ value: item.id, label: localizedName(item), color: item.color }));
+      const selected = splitValues(values[param]);
+      const value = selected.length > 0
+        ? joinNames(selected.map(id => options.find(option => option.value === id)?.label ?? id)) ?? null
+        : null;
+
+      return renderSection(param, config.icon, localizedName(category), value, () =>
+        renderOptionList(param, true, options, t('filter.all'))
+      );
+    });
+  };
+
+  const renderField = (field: FilterField) => {
+    const config = FILTER_FIELDS[field];
+    const label = t(config.label);
+
+    switch (config.kind) {
+      case 'lookups':
+        return renderLookups(config);
+      case 'dateRange':
+        return renderSection(field, config.icon, label, describeField(field, values), () => renderDateRange(field, config));
+      case 'text':
+        return renderSection(field, config.icon, label, describeField(field, values), () => (
+          <View style={styles.searchBox}>
+            <Ionicons name="search" size={18} color={COLORS.muted} />
+            <TextInput
+              style={styles.searchInput}
+              value={values[config.param as FilterParam] ?? ''}
+              onChangeText={text => updateValues({ [config.param]: text })}
+              placeholder={t('filter.reporterPlaceholder')}
+              placeholderTextColor={COLORS.muted}
+              autoCapitalize="none"
+              autoCorrect={false}
+              returnKeyType="done"
+            />
+          </View>
+        ));
+      default:
+        return renderSection(field, config.icon, label, describeField(field, values), () =>
+          renderOptionList(
+            config.param,
+            config.kind === 'multi',
+            fieldChoices(field, config),
+            t(config.allLabel ?? 'filter.all'),
+            config.nameParam
+          )
+        );
+    }
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <View style={styles.headerTitleRow}>
+          <Text style={[styles.headerTitle, { color: accent }]}>{t(schema.title)}</Text>
+          {activeCount > 0 && (
+            <View style={[styles.countBadge, { backgroundColor: accent }]}>
+              <Text style={styles.countBadgeText}>{activeCount}</Text>
+            </View>
+          )}
+        </View>
+        <TouchableOpacity onPress={() => router.back()}>
+          <Ionicons name="close-circle" size={28} color={COLORS.close} />
+        </TouchableOpacity>
+      </View>
+
+      <ScrollView style={styles.optionsContainer} keyboardShouldPersistTaps="handled">
+        <SavedViewsSection recordType={recordType} currentFilters={values} onApply={applyView} />
+        {schema.fields.map(renderField)}
+        <View style={styles.bottomSpacer} />
+      </ScrollView>
+
+      <View style={styles.footer}>
+        <TouchableOpacity
+          style={[styles.resetButton, { borderColor: activeCount > 0 ? accent : COLORS.disabled }]}
+          onPress={() => setValues({})}
+          disabled={activeCount === 0}
+        >
+          <Text style={[styles.resetButtonText, { color: activeCount > 0 ? accent : COLORS.disabled }]}>
+            {activeCount > 0 ? `${t('filter.clearAll')} (${activeCount})` : t('filter.clearAll')}
+          </Text>
+        </TouchableOpacity>
+        <TouchableOpacity style={[styles.filterButton, { backgroundColor: accent }]} onPress={applyFilters}>
+          <Text style={styles.filterButtonText}>{t('filter.applyFilters')}</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: COLORS.white,
+    marginTop: 100,
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: COLORS.divider,
+  },
+  headerTitleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+  },
+  countBadge: {
+    minWidth: 22,
+    height: 22,
+    borderRadius: 11,
+    paddingHorizontal: 6,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  countBadgeText: {
+    color: COLORS.white,
+    fontSize: 12,
+    fontWeight: 'bold',
+  },
+  optionsContainer: {
+    flex: 1,
+    padding: 15,
+  },
+  filterSection: {
+    marginBottom: 10,
+    backgroundColor: COLORS.section,
+    borderRadius: 12,
+    overflow: 'hidden',
+  },
+  filterHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 15,
+  },
+  filterHeaderLeft: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+  },
+  filterHeaderRight: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    flexShrink: 1,
+    marginLeft: 12,
+  },
+  filterLabel: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: COLORS.text,
+  },
+  filterValue: {
+    fontSize: 14,
+    color: COLORS.textSecondary,
+    flexShrink: 1,
+  },
+  filterOptions: {
+    paddingHorizontal: 15,
+    paddingBottom: 15,
+    borderTopWidth: 1,
+    borderTopColor: COLORS.border,
+  },
+  filterOption: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingVertical: 12,
+    paddingHorizontal: 10,
+    borderRadius: 8,
+    marginTop: 8,
+  },
+  filterOptionText: {
+    fontSize: 15,
+    color: COLORS.text,
+  },
+  optionLabel: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    flexShrink: 1,
+  },
+  colorDot: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+  },
+  hint: {
+    fontSize: 12,
+    color: COLORS.muted,
+    marginTop: 10,
+  },
+  searchBox: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    backgroundColor: COLORS.white,
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    paddingHorizontal: 12,
+    height: 44,
+    marginTop: 12,
+  },
+  searchInput: {
+    flex: 1,
+    fontSize: 15,
+    color: COLORS.text,
+  },
+  presetRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginTop: 12,
+  },
+  presetChip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    backgroundColor: COLORS.white,
+  },
+  presetChipText: {
+    fontSize: 13,
+    color: COLORS.text,
+  },
+  presetChipTextActive: {
+    color: COLORS.white,
+    fontWeight: '600',
+  },
+  dateRow: {
+    flexDirection: 'row',
+    gap: 10,
+    marginTop: 12,
+  },
+  dateButton: {
+    flex: 1,
+    backgroundColor: COLORS.white,
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    padding: 12,
+  },
+  dateButtonLabel: {
+    fontSize: 12,
+    color: COLORS.muted,
+  },
+  dateButtonValue: {
+    fontSize: 15,
+    color: COLORS.text,
+    marginTop: 2,
+  },
+  linkButton: {
+    alignSelf: 'flex-start',
+    paddingVertical: 8,
+    marginTop: 4,
+  },
+  linkButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  lookupsLoader: {
+    padding: 15,
+  },
+  bottomSpacer: {
+    height: 20,
+  },
+  footer: {
+    flexDirection: 'row',
+    padding: 15,
+    borderTopWidth: 1,
+    borderTopColor: COLORS.divider,
+    gap: 10,
+  },
+  resetButton: {
+    flex: 1,
+    padding: 15,
+    alignItems: 'center',
+    borderRadius: 10,
+    borderWidth: 1,
+  },
+  resetButtonText: {
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+  filterButton: {
+    flex: 2,
+    padding: 15,
+    borderRadius: 10,
+    alignItems: 'center',
+  },
+  filterButtonText: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: COLORS.white,
+  },
+});
+
+export default RecordFilter;
@@ -0,0 +1,157 @@
+import React, { useState } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet, Modal, ActivityIndicator } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useTranslation } from 'react-i18next';
+import { ReportFormat } from '@/src/api/incidents';
+import { downloadAndShareReport } from '@/src/utils/attachmentDownload';
+
+const COLORS = {
+  accent: '#2EC4B6',
+  white: '#FFFFFF',
+  text: {
+    primary: '#1A1A2E',
+    secondary: '#64748B',
+  },
+  border: '#F0F0F0',
+};
+
+const formatOptions: { format: ReportFormat; icon: string }[] = [
+  { format: 'pdf', icon: 'document-text-outline' },
+  { format: 'txt', icon: 'reader-outline' },
+  { format: 'json', icon: 'code-slash-outline' },
+];
+
+interface ReportDownloadButtonProps {
+  recordId: string;
+  recordNumber: string;
+}
+
+// Header action that lets the user pick a report format, then downloads and shares it
+export const ReportDownloadButton: React.FC<ReportDownloadButtonProps> = ({ recordId, recordNumber }) => {
+  const { t } = useTranslation();
+  const [modalVisible, setModalVisible] = useState(false);
+  const [downloading, setDownloading] = useState(false);
+
+  const handleSelect = async (format: ReportFormat) => {
+    setModalVisible(false);
+    setDownloading(true);
+    await downloadAndShareReport(recordId, recordNumber, format);
+    setDownloading(false);
+  };
+
+  return (
+    <>
+      <TouchableOpacity
+        style={styles.headerButton}
+        onPress={() => setModalVisible(true)}
+        disabled={downloading}
+        accessibilityLabel={t('report.download')}
+      >
+        {downloading ? (
+          <ActivityIndicator size="small" color={COLORS.white} />
+        ) : (
+          <Ionicons name="download-outline" size={22} color={COLORS.white} />
+        )}
+      </TouchableOpacity>
+
+      <Modal
+        visible={modalVisible}
+        transparent
+        animationType="slide"
+        onRequestClose={() => setModalVisible(false)}
+      >
+        <TouchableOpacity
+          style={styles.modalOverlay}
+          activeOpacity={1}
+          onPress={() => setModalVisible(false)}
+        >
+          <View style={styles.modalContent}>
+            <View style={styles.modalHeader}>
+              <Text style={styles.modalTitle}>{t('report.download')}</Text>
+              <TouchableOpacity onPress={() => setModalVisible(false)}>
+                <Ionicons name="close" size={24} color={COLORS.text.primary} />
+              </TouchableOpacity>
+            </View>
+            <Text style={styles.modalSubtitle}>{t('report.chooseFormat')}</Text>
+            {formatOptions.map(option => (
+              <TouchableOpacity
+                key={option.format}
+                style={styles.optionItem}
+                onPress={() => handleSelect(option.format)}
+              >
+                <Ionicons name={option.icon as any} size={22} color={COLORS.accent} />
+                <View style={styles.optionTextContainer}>
+                  <Text style={styles.optionText}>{t(`report.formats.${option.format}`)}</Text>
+                  <Text style={styles.optionHint}>{t(`report.hints.${option.format}`)}</Text>
+                </View>
+                <Ionicons name="share-outline" size={18} color={COLORS.text.secondary} />
+              </TouchableOpacity>
+            ))}
+          </View>
+        </TouchableOpacity>
+      </Modal>
+    </>
+  );
+};
+
+const styles = StyleSheet.create({
+  headerButton: {
+    width: 40, height: 40, borderRadius: 20,
+    backgroundColor: 'rgba(255,255,255,0.15)', justifyContent: 'center', alignItems: 'center',
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'flex-end',
+  },
+  modalContent: {
+    backgroundColor: COLORS.white,
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    paddingBottom: 30,
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: '#EEE',
+  },
+  modalTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: COLORS.text.primary,
+  },
+  modalSubtitle: {
+    fontSize: 14,
+    color: COLORS.text.secondary,
+    paddingHorizontal: 20,
+    paddingTop: 12,
+    paddingBottom: 4,
+  },
+  optionItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 14,
+    padding: 16,
+    paddingHorizontal: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: COLORS.border,
+  },
+  optionTextContainer: {
+    flex: 1,
+  },
+  optionText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: COLORS.text.primary,
+  },
+  optionHint: {
+    fontSize: 12,
+    color: COLORS.text.secondary,
+    marginTop: 2,
+  },
+});
+
+export default ReportDownloadButton;
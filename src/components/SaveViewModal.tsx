@@ -0,0 +1,136 @@
+import React, { useEffect, useState } from 'react';
+import { KeyboardAvoidingView, Modal, Platform, StyleSheet, Text, TextInput, TouchableOpacity, View } from 'react-native';
+import { useTranslation } from 'react-i18next';
+
+const COLORS = {
+  primary: '#1A237E',
+  accent: '#2EC4B6',
+  overlay: 'rgba(0,0,0,0.5)',
+  white: '#FFFFFF',
+  border: '#E2E8F0',
+  text: '#1A1A2E',
+  textSecondary: '#64748B',
+  disabled: '#CBD5E1',
+};
+
+interface SaveViewModalProps {
+  visible: boolean;
+  initialName?: string;
+  onCancel: () => void;
+  onSave: (name: string) => void;
+}
+
+// Asks for the name to save the current filters under
+export const SaveViewModal: React.FC<SaveViewModalProps> = ({ visible, initialName = '', onCancel, onSave }) => {
+  const { t } = useTranslation();
+  const [name, setName] = useState(initialName);
+
+  useEffect(() => {
+    if (visible) setName(initialName);
+  }, [visible, initialName]);
+
+  const trimmed = name.trim();
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onCancel}>
+      <KeyboardAvoidingView style={styles.overlay} behavior={Platform.OS === 'ios' ? 'padding' : undefined}>
+        <View style={styles.card}>
+          <Text style={styles.title}>{t('savedViews.saveTitle')}</Text>
+          <Text style={styles.subtitle}>{t('savedViews.saveHint')}</Text>
+          <TextInput
+            style={styles.input}
+            value={name}
+            onChangeText={setName}
+            placeholder={t('savedViews.namePlaceholder')}
+            placeholderTextColor={COLORS.disabled}
+            maxLength={40}
+            autoFocus
+            returnKeyType="done"
+            onSubmitEditing={() => trimmed && onSave(trimmed)}
+          />
+          <View style={styles.actions}>
+            <TouchableOpacity style={styles.cancelButton} onPress={onCancel}>
+              <Text style={styles.cancelText}>{t('common.cancel')}</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.saveButton, !trimmed && styles.saveButtonDisabled]}
+              onPress={() => onSave(trimmed)}
+              disabled={!trimmed}
+            >
+              <Text style={styles.saveText}>{t('common.save')}</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: COLORS.overlay,
+    justifyContent: 'center',
+    padding: 24,
+  },
+  card: {
+    backgroundColor: COLORS.white,
+    borderRadius: 16,
+    padding: 20,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: COLORS.primary,
+  },
+  subtitle: {
+    fontSize: 13,
+    color: COLORS.textSecondary,
+    marginTop: 4,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    borderRadius: 10,
+    paddingHorizontal: 14,
+    paddingVertical: 12,
+    fontSize: 15,
+    color: COLORS.text,
+    marginTop: 16,
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: 10,
+    marginTop: 20,
+  },
+  cancelButton: {
+    flex: 1,
+    paddingVertical: 12,
+    alignItems: 'center',
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: COLORS.primary,
+  },
+  cancelText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: COLORS.primary,
+  },
+  saveButton: {
+    flex: 1,
+    paddingVertical: 12,
+    alignItems: 'center',
+    borderRadius: 10,
+    backgroundColor: COLORS.accent,
+  },
+  saveButtonDisabled: {
+    backgroundColor: COLORS.disabled,
+  },
+  saveText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: COLORS.white,
+  },
+});
+
+export default SaveViewModal;
@@ -0,0 +1,95 @@
+import React from 'react';
+import { ScrollView, StyleSheet, Text, TouchableOpacity } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { RecordType } from '@/src/api/workflow';
+import { useSavedViews } from '@/src/hooks/useSavedViews';
+import { SavedView, sameFilters, ViewFilters } from '@/src/utils/savedViews';
+
+const COLORS = {
+  primary: '#1A237E',
+  background: '#F5F7FA',
+  chip: '#FFFFFF',
+  chipBorder: '#E2E8F0',
+  text: '#64748B',
+  white: '#FFFFFF',
+};
+
+interface SavedViewChipsProps {
+  recordType: RecordType;
+  // Filters the list currently shows, to highlight the matching view
+  activeFilters: ViewFilters;
+  // Called with null when the active view is tapped again
+  onSelect: (view: SavedView | null) => void;
+}
+
+// Row of pinned saved views above a record list; renders nothing until a view is pinned
+export const SavedViewChips: React.FC<SavedViewChipsProps> = ({ recordType, activeFilters, onSelect }) => {
+  const { pinnedViews } = useSavedViews(recordType);
+
+  if (pinnedViews.length === 0) return null;
+
+  return (
+    <ScrollView
+      horizontal
+      showsHorizontalScrollIndicator={false}
+      style={styles.container}
+      contentContainerStyle={styles.content}
+    >
+      {pinnedViews.map(view => {
+        const active = sameFilters(view.filters, activeFilters);
+        return (
+          <TouchableOpacity
+            key={view.id}
+            style={[styles.chip, active && styles.chipActive]}
+            onPress={() => onSelect(active ? null : view)}
+          >
+            {view.isDefault && (
+              <Ionicons name="star" size={12} color={active ? COLORS.white : COLORS.primary} />
+            )}
+            <Text style={[styles.chipText, active && styles.chipTextActive]} numberOfLines={1}>
+              {view.name}
+            </Text>
+          </TouchableOpacity>
+        );
+      })}
+    </ScrollView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flexGrow: 0,
+    backgroundColor: COLORS.background,
+  },
+  content: {
+    paddingHorizontal: 16,
+    paddingTop: 12,
+    gap: 8,
+  },
+  chip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    maxWidth: 200,
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 20,
+    borderWidth: 1,
+    borderColor: COLORS.chipBorder,
+    backgroundColor: COLORS.chip,
+  },
+  chipActive: {
+    backgroundColor: COLORS.primary,
+    borderColor: COLORS.primary,
+  },
+  chipText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: COLORS.text,
+  },
+  chipTextActive: {
+    color: COLORS.white,
+  },
+});
+
+export default SavedViewChips;
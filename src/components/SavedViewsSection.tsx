@@ -0,0 +1,204 @@
+import React, { useState } from 'react';
+import { Alert, Share, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useTranslation } from 'react-i18next';
+import { RecordType } from '@/src/api/workflow';
+import { SaveViewModal } from '@/src/components/SaveViewModal';
+import { RECORD_FILTERS } from '@/src/constants/recordFilters';
+import { useSavedViews } from '@/src/hooks/useSavedViews';
+import { countActiveFilters } from '@/src/utils/recordFilters';
+import { buildViewLink, SavedView, sameFilters, ViewFilters } from '@/src/utils/savedViews';
+
+const COLORS = {
+  primary: '#1A237E',
+  accent: '#2EC4B6',
+  background: '#F8F9FA',
+  text: '#333',
+  textSecondary: '#666',
+  muted: '#94A3B8',
+  selected: '#E3F2FD',
+  error: '#E74C3C',
+};
+
+interface SavedViewsSectionProps {
+  recordType: RecordType;
+  // Filters as currently picked on the filter screen, saved by "Save current"
+  currentFilters: ViewFilters;
+  onApply: (filters: ViewFilters) => void;
+}
+
+// Saved views block at the top of the filter screens: apply, save, pin, make default, share and delete
+export const SavedViewsSection: React.FC<SavedViewsSectionProps> = ({ recordType, currentFilters, onApply }) => {
+  const { t } = useTranslation();
+  const { views, saveView, setPinned, toggleDefault, removeView } = useSavedViews(recordType);
+  const [saveVisible, setSaveVisible] = useState(false);
+
+  const schema = RECORD_FILTERS[recordType];
+  const hasFilters = countActiveFilters(schema, currentFilters) > 0;
+  const matchingView = views.find(view => sameFilters(view.filters, currentFilters));
+
+  const handleSave = async (name: string) => {
+    setSaveVisible(false);
+    await saveView(name, currentFilters);
+  };
+
+  const handleShare = async (view: SavedView) => {
+    try {
+      await Share.share({ message: t('savedViews.shareMessage', { name: view.name, link: buildViewLink(view) }) });
+    } catch (error: any) {
+      Alert.alert(t('common.error'), error.message);
+    }
+  };
+
+  const handleDelete = (view: SavedView) => {
+    Alert.alert(
+      t('savedViews.deleteTitle'),
+      t('savedViews.deleteMessage', { name: view.name }),
+      [
+        { text: t('common.cancel'), style: 'cancel' },
+        { text: t('common.delete'), style: 'destructive', onPress: () => removeView(view.id) },
+      ]
+    );
+  };
+
+  return (
+    <View style={styles.section}>
+      <View style={styles.header}>
+        <View style={styles.headerLeft}>
+          <Ionicons name="bookmark-outline" size={20} color={COLORS.primary} />
+          <Text style={styles.label}>{t('savedViews.title')}</Text>
+        </View>
+        <TouchableOpacity
+          style={styles.saveButton}
+          onPress={() => setSaveVisible(true)}
+          disabled={!hasFilters}
+        >
+          <Ionicons name="add-circle-outline" size={18} color={hasFilters ? COLORS.accent : COLORS.muted} />
+          <Text style={[styles.saveButtonText, !hasFilters && styles.saveButtonTextDisabled]}>
+            {t('savedViews.saveCurrent')}
+          </Text>
+        </TouchableOpacity>
+      </View>
+
+      {views.length === 0 ? (
+        <Text style={styles.emptyText}>{t('savedViews.empty')}</Text>
+      ) : (
+        views.map(view => {
+          const selected = view.id === matchingView?.id;
+          return (
+            <View key={view.id} style={[styles.viewRow, selected && styles.viewRowSelected]}>
+              <TouchableOpacity style={styles.viewName} onPress={() => onApply(view.filters)}>
+                <Text style={[styles.viewNameText, selected && styles.viewNameTextSelected]} numberOfLines={1}>
+                  {view.name}
+                </Text>
+                <Text style={styles.viewMeta}>
+                  {t('savedViews.filterCount', { count: countActiveFilters(schema, view.filters) })}
+                </Text>
+              </TouchableOpacity>
+              <TouchableOpacity style={styles.iconButton} onPress={() => toggleDefault(view.id)}>
+                <Ionicons name={view.isDefault ? 'star' : 'star-outline'} size={20} color={COLORS.primary} />
+              </TouchableOpacity>
+              <TouchableOpacity style={styles.iconButton} onPress={() => setPinned(view.id, !view.pinned)}>
+                <Ionicons name={view.pinned ? 'pin' : 'pin-outline'} size={20} color={COLORS.primary} />
+              </TouchableOpacity>
+              <TouchableOpacity style={styles.iconButton} onPress={() => handleShare(view)}>
+                <Ionicons name="share-social-outline" size={20} color={COLORS.primary} />
+              </TouchableOpacity>
+              <TouchableOpacity style={styles.iconButton} onPress={() => handleDelete(view)}>
+                <Ionicons name="trash-outline" size={20} color={COLORS.error} />
+              </TouchableOpacity>
+            </View>
+          );
+        })
+      )}
+
+      {views.length > 0 && <Text style={styles.hint}>{t('savedViews.hint')}</Text>}
+
+      <SaveViewModal
+        visible={saveVisible}
+        initialName={matchingView?.name}
+        onCancel={() => setSaveVisible(false)}
+        onSave={handleSave}
+      />
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  section: {
+    marginBottom: 10,
+    backgroundColor: COLORS.background,
+    borderRadius: 12,
+    padding: 15,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  headerLeft: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+  },
+  label: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: COLORS.text,
+  },
+  saveButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+  },
+  saveButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: COLORS.accent,
+  },
+  saveButtonTextDisabled: {
+    color: COLORS.muted,
+  },
+  emptyText: {
+    fontSize: 13,
+    color: COLORS.textSecondary,
+    marginTop: 10,
+  },
+  viewRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderRadius: 8,
+    paddingLeft: 10,
+    marginTop: 8,
+  },
+  viewRowSelected: {
+    backgroundColor: COLORS.selected,
+  },
+  viewName: {
+    flex: 1,
+    paddingVertical: 8,
+  },
+  viewNameText: {
+    fontSize: 15,
+    color: COLORS.text,
+  },
+  viewNameTextSelected: {
+    color: COLORS.primary,
+    fontWeight: '600',
+  },
+  viewMeta: {
+    fontSize: 12,
+    color: COLORS.muted,
+    marginTop: 2,
+  },
+  iconButton: {
+    padding: 8,
+  },
+  hint: {
+    fontSize: 12,
+    color: COLORS.muted,
+    marginTop: 10,
+  },
+});
+
+export default SavedViewsSection;
@@ -0,0 +1,196 @@
+import React, { useState } from 'react';
+import { Alert, FlatList, Modal, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useRouter } from 'expo-router';
+import { useTranslation } from 'react-i18next';
+import { ServerQrScanner } from '@/src/components/ServerQrScanner';
+import { useOutbox } from '@/src/hooks/useOutbox';
+import { useServerProfiles } from '@/src/hooks/useServerProfiles';
+import { parseProvisioningData, ServerProfile } from '@/src/utils/serverProfiles';
+
+interface ServerProfilePickerProps {
+  visible: boolean;
+  onClose: () => void;
+}
+
+// Bottom sheet for choosing the backend on the login screen, or adding one from a QR code
+export const ServerProfilePicker: React.FC<ServerProfilePickerProps> = ({ visible, onClose }) => {
+  const { t } = useTranslation();
+  const router = useRouter();
+  const { profiles, activeProfile, switchServer, removeProfile } = useServerProfiles();
+  const { serverUnsentCount } = useOutbox();
+  const [scannerVisible, setScannerVisible] = useState(false);
+
+  const switchTo = async (profile: ServerProfile) => {
+    try {
+      await switchServer(profile.id);
+    } catch (error: any) {
+      Alert.alert(t('common.error'), error.message);
+    }
+  };
+
+  const handleSelect = (profile: ServerProfile) => {
+    onClose();
+    if (profile.id === activeProfile.id) return;
+    if (serverUnsentCount === 0) {
+      switchTo(profile);
+      return;
+    }
+    // Queued submissions can only be sent from this server, so leaving it needs the user's say-so
+    Alert.alert(
+      t('serverProfiles.switchTitle', { name: profile.name }),
+      t('serverProfiles.switchWarningOutbox', { count: serverUnsentCount }),
+      [
+        { text: t('common.cancel'), style: 'cancel' },
+        { text: t('serverProfiles.switch'), onPress: () => switchTo(profile) },
+      ]
+    );
+  };
+
+  const handleRemove = (profile: ServerProfile) => {
+    Alert.alert(
+      t('serverProfiles.removeTitle'),
+      t('serverProfiles.removeMessage', { name: profile.name }),
+      [
+        { text: t('common.cancel'), style: 'cancel' },
+        { text: t('common.delete'), style: 'destructive', onPress: () => removeProfile(profile.id) },
+      ]
+    );
+  };
+
+  const handleScanned = (data: string) => {
+    setScannerVisible(false);
+    const draft = parseProvisioningData(data);
+    if (!draft) {
+      Alert.alert(t('common.error'), t('serverProfiles.invalidCode'));
+      return;
+    }
+    onClose();
+    // The provisioning screen asks for confirmation, same as an opened deep link
+    router.push({ pathname: '/server-profile', params: { name: draft.name, url: draft.url } });
+  };
+
+  return (
+    <>
+      <Modal visible={visible && !scannerVisible} transparent animationType="slide" onRequestClose={onClose}>
+        <TouchableOpacity style={styles.overlay} activeOpacity={1} onPress={onClose}>
+          <View style={styles.content}>
+            <View style={styles.header}>
+              <Text style={styles.title}>{t('serverProfiles.title')}</Text>
+              <TouchableOpacity onPress={onClose}>
+                <Ionicons name="close" size={24} color="#333" />
+              </TouchableOpacity>
+            </View>
+
+            <FlatList
+              data={profiles}
+              keyExtractor={(item) => item.id}
+              renderItem={({ item }) => {
+                const isActive = item.id === activeProfile.id;
+                return (
+                  <TouchableOpacity style={styles.profileItem} onPress={() => handleSelect(item)}>
+                    <View style={styles.profileInfo}>
+                      <Text style={[styles.profileName, isActive && styles.profileNameActive]}>{item.name}</Text>
+                      <Text style={styles.profileUrl} numberOfLines={1}>{item.url}</Text>
+                    </View>
+                    {isActive ? (
+                      <Ionicons name="checkmark-circle" size={22} color="#2EC4B6" />
+                    ) : (
+                      !item.builtIn && (
+                        <TouchableOpacity onPress={() => handleRemove(item)} hitSlop={8}>
+                          <Ionicons name="trash-outline" size={20} color="#E74C3C" />
+                        </TouchableOpacity>
+                      )
+                    )}
+                  </TouchableOpacity>
+                );
+              }}
+            />
+
+            <TouchableOpacity style={styles.scanButton} onPress={() => setScannerVisible(true)}>
+              <Ionicons name="qr-code-outline" size={20} color="#2EC4B6" />
+              <Text style={styles.scanButtonText}>{t('serverProfiles.scanQr')}</Text>
+            </TouchableOpacity>
+          </View>
+        </TouchableOpacity>
+      </Modal>
+
+      <ServerQrScanner
+        visible={scannerVisible}
+        onClose={() => setScannerVisible(false)}
+        onScanned={handleScanned}
+      />
+    </>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'flex-end',
+  },
+  content: {
+    backgroundColor: 'white',
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    maxHeight: '70%',
+    paddingBottom: 24,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: '#EEE',
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  profileItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#F0F0F0',
+  },
+  profileInfo: {
+    flex: 1,
+    marginRight: 12,
+  },
+  profileName: {
+    fontSize: 16,
+    color: '#333',
+  },
+  profileNameActive: {
+    fontWeight: '700',
+    color: '#2EC4B6',
+  },
+  profileUrl: {
+    fontSize: 12,
+    color: '#999',
+    marginTop: 2,
+  },
+  scanButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    marginHorizontal: 20,
+    marginTop: 16,
+    paddingVertical: 14,
+    borderRadius: 12,
+    borderWidth: 1.5,
+    borderColor: '#2EC4B6',
+  },
+  scanButtonText: {
+    color: '#2EC4B6',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+});
+
+export default ServerProfilePicker;
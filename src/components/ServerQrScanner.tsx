@@ -0,0 +1,126 @@
+import React, { useEffect, useRef } from 'react';
+import { Modal, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { CameraView, useCameraPermissions } from 'expo-camera';
+import { Ionicons } from '@expo/vector-icons';
+import { useTranslation } from 'react-i18next';
+
+interface ServerQrScannerProps {
+  visible: boolean;
+  onClose: () => void;
+  onScanned: (data: string) => void;
+}
+
+// Full screen camera that reports the first QR code it reads
+export const ServerQrScanner: React.FC<ServerQrScannerProps> = ({ visible, onClose, onScanned }) => {
+  const { t } = useTranslation();
+  const [permission, requestPermission] = useCameraPermissions();
+  // The camera keeps firing while the code stays in view
+  const scannedRef = useRef(false);
+  const askedRef = useRef(false);
+
+  useEffect(() => {
+    if (!visible) {
+      scannedRef.current = false;
+      askedRef.current = false;
+      return;
+    }
+    // Prompt once per opening; after that the button below asks again
+    if (permission && !permission.granted && permission.canAskAgain && !askedRef.current) {
+      askedRef.current = true;
+      requestPermission();
+    }
+  }, [visible, permission, requestPermission]);
+
+  const handleScanned = ({ data }: { data: string }) => {
+    if (scannedRef.current) return;
+    scannedRef.current = true;
+    onScanned(data);
+  };
+
+  return (
+    <Modal visible={visible} animationType="slide" onRequestClose={onClose}>
+      <View style={styles.container}>
+        {permission?.granted ? (
+          <CameraView
+            style={StyleSheet.absoluteFill}
+            facing="back"
+            barcodeScannerSettings={{ barcodeTypes: ['qr'] }}
+            onBarcodeScanned={handleScanned}
+          />
+        ) : (
+          <View style={styles.permissionContainer}>
+            <Ionicons name="camera-outline" size={48} color="#FFFFFF" />
+            <Text style={styles.permissionText}>{t('serverProfiles.cameraPermission')}</Text>
+            {permission?.canAskAgain !== false && (
+              <TouchableOpacity style={styles.permissionButton} onPress={requestPermission}>
+                <Text style={styles.permissionButtonText}>{t('serverProfiles.allowCamera')}</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+        )}
+
+        <View style={styles.frame} pointerEvents="none" />
+        <Text style={styles.hint}>{t('serverProfiles.scanHint')}</Text>
+
+        <TouchableOpacity style={styles.closeButton} onPress={onClose}>
+          <Ionicons name="close" size={28} color="#FFFFFF" />
+        </TouchableOpacity>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#000000',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  permissionContainer: {
+    ...StyleSheet.absoluteFillObject,
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingHorizontal: 32,
+  },
+  permissionText: {
+    color: '#FFFFFF',
+    fontSize: 15,
+    textAlign: 'center',
+    marginTop: 16,
+  },
+  permissionButton: {
+    marginTop: 20,
+    backgroundColor: '#2EC4B6',
+    paddingVertical: 12,
+    paddingHorizontal: 24,
+    borderRadius: 12,
+  },
+  permissionButtonText: {
+    color: '#FFFFFF',
+    fontWeight: '700',
+  },
+  frame: {
+    width: 240,
+    height: 240,
+    borderWidth: 3,
+    borderColor: '#2EC4B6',
+    borderRadius: 20,
+  },
+  hint: {
+    position: 'absolute',
+    bottom: 80,
+    color: '#FFFFFF',
+    fontSize: 14,
+    textAlign: 'center',
+    paddingHorizontal: 32,
+  },
+  closeButton: {
+    position: 'absolute',
+    top: 50,
+    right: 20,
+    padding: 8,
+  },
+});
+
+export default ServerQrScanner;
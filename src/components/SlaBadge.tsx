@@ -0,0 +1,65 @@
+import React from 'react';
+import { StyleSheet, Text, View } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useTranslation } from 'react-i18next';
+import { Incident } from '@/src/api/models';
+import { useNow } from '@/src/hooks/useNow';
+import { formatSlaDuration, getSlaInfo, SLA_STATUS_CONFIG } from '@/src/utils/sla';
+
+// Durations are shown to the minute, so a faster tick would not change the label
+const TICK_MS = 15 * 1000;
+
+interface SlaBadgeProps {
+  record: Incident;
+}
+
+// Live SLA countdown for list cards; renders nothing for records without an SLA
+export const SlaBadge: React.FC<SlaBadgeProps> = ({ record }) => {
+  const { t } = useTranslation();
+  const now = useNow(record.sla_paused_at ? null : TICK_MS);
+  const sla = getSlaInfo(record, now);
+
+  if (!sla) return null;
+
+  const config = SLA_STATUS_CONFIG[sla.status];
+  const duration = formatSlaDuration(sla.remainingSeconds);
+  let label = sla.remainingSeconds > 0
+    ? t('sla.remaining', { duration })
+    : t('sla.overdue', { duration });
+  if (sla.isPaused) {
+    label = `${t('sla.paused')} · ${label}`;
+  }
+
+  return (
+    <View style={[styles.badge, { backgroundColor: `${config.color}1A`, borderColor: config.color }]}>
+      <Ionicons
+        name={(sla.isPaused ? 'pause-circle-outline' : config.icon) as any}
+        size={12}
+        color={config.color}
+      />
+      <Text style={[styles.badgeText, { color: config.color }]} numberOfLines={1}>
+        {label}
+      </Text>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  badge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-start',
+    gap: 4,
+    paddingHorizontal: 8,
+    paddingVertical: 3,
+    borderRadius: 10,
+    borderWidth: 1,
+    marginTop: 6,
+  },
+  badgeText: {
+    fontSize: 11,
+    fontWeight: '600',
+  },
+});
+
+export default SlaBadge;
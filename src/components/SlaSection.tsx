@@ -0,0 +1,101 @@
+import React from 'react';
+import { Platform, StyleSheet, Text, View } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useTranslation } from 'react-i18next';
+import { Incident } from '@/src/api/models';
+import { useNow } from '@/src/hooks/useNow';
+import { formatSlaDuration, getSlaInfo, SLA_STATUS_CONFIG } from '@/src/utils/sla';
+
+const COLORS = {
+  white: '#FFFFFF',
+  accent: '#2EC4B6',
+  border: '#E2E8F0',
+  text: {
+    primary: '#1A1A2E',
+    secondary: '#64748B',
+  },
+};
+
+const TICK_MS = 1000;
+
+interface SlaSectionProps {
+  record: Incident;
+}
+
+const SlaRow = ({ icon, label, value, valueColor }: { icon: string; label: string; value: string; valueColor?: string }) => (
+  <View style={styles.row}>
+    <View style={styles.rowLeft}>
+      <Ionicons name={icon as any} size={18} color={COLORS.text.secondary} />
+      <Text style={styles.rowLabel}>{label}</Text>
+    </View>
+    <Text style={[styles.rowValue, valueColor ? { color: valueColor } : null]}>{value}</Text>
+  </View>
+);
+
+// SLA card for the details screens: status, target, elapsed, paused and remaining time
+export const SlaSection: React.FC<SlaSectionProps> = ({ record }) => {
+  const { t } = useTranslation();
+  const now = useNow(TICK_MS);
+  const sla = getSlaInfo(record, now);
+
+  if (!sla) return null;
+
+  const config = SLA_STATUS_CONFIG[sla.status];
+  const remaining = formatSlaDuration(sla.remainingSeconds);
+
+  return (
+    <View style={styles.card}>
+      <View style={styles.header}>
+        <View style={styles.headerLeft}>
+          <Ionicons name="timer-outline" size={20} color={COLORS.accent} />
+          <Text style={styles.title}>{t('sla.title')}</Text>
+        </View>
+        <View style={[styles.statusPill, { backgroundColor: config.color }]}>
+          <Text style={styles.statusText}>
+            {sla.isPaused ? t('sla.paused') : t(`sla.${config.key}`)}
+          </Text>
+        </View>
+      </View>
+
+      {sla.targetSeconds !== undefined && (
+        <SlaRow icon="flag-outline" label={t('sla.target')} value={formatSlaDuration(sla.targetSeconds)} />
+      )}
+      {sla.elapsedSeconds !== undefined && (
+        <SlaRow icon="hourglass-outline" label={t('sla.elapsed')} value={formatSlaDuration(sla.elapsedSeconds)} />
+      )}
+      <SlaRow
+        icon="pause-circle-outline"
+        label={t('sla.pausedTime')}
+        value={sla.pausedSeconds > 0 ? formatSlaDuration(sla.pausedSeconds) : '-'}
+      />
+      <SlaRow
+        icon={config.icon}
+        label={sla.remainingSeconds > 0 ? t('sla.timeRemaining') : t('sla.timeOverdue')}
+        value={remaining}
+        valueColor={config.color}
+      />
+      <SlaRow icon="calendar-outline" label={t('sla.deadline')} value={sla.deadline.toLocaleString()} />
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  card: {
+    backgroundColor: COLORS.white, marginHorizontal: 16, marginTop: 16, borderRadius: 16, padding: 16,
+    ...Platform.select({
+      ios: { shadowColor: '#000', shadowOffset: { width: 0, height: 2 }, shadowOpacity: 0.06, shadowRadius: 8 },
+      android: { elevation: 2 },
+    }),
+  },
+  header: { flexDirection: 'row', alignItems: 'center', justifyContent: 'space-between', marginBottom: 8 },
+  headerLeft: { flexDirection: 'row', alignItems: 'center', gap: 8 },
+  title: { fontSize: 16, fontWeight: 'bold', color: COLORS.text.primary },
+  statusPill: { paddingHorizontal: 10, paddingVertical: 4, borderRadius: 12 },
+  statusText: { fontSize: 12, fontWeight: '600', color: COLORS.white },
+  row: { flexDirection: 'row', alignItems: 'center', justifyContent: 'space-between', paddingVertical: 12, borderBottomWidth: 1, borderBottomColor: COLORS.border },
+  rowLeft: { flexDirection: 'row', alignItems: 'center', gap: 10 },
+  rowLabel: { fontSize: 14, color: COLORS.text.secondary },
+  rowValue: { fontSize: 14, fontWeight: '600', color: COLORS.text.primary, maxWidth: '50%', textAlign: 'right' },
+});
+
+export default SlaSection;
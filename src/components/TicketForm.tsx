@@ -0,0 +1,765 @@
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  KeyboardAvoidingView,
+  Platform,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import { useRouter } from 'expo-router';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { useTranslation } from 'react-i18next';
+import { getClassificationsTree } from '@/src/api/classifications';
+import { getDepartments } from '@/src/api/departments';
+import { getLocationsTree } from '@/src/api/locations';
+import { getLookupCategories } from '@/src/api/lookups';
+import { LookupCategory, RecordType, Workflow } from '@/src/api/models';
+import { createRecord, uploadMultipleAttachments } from '@/src/api/records';
+import { createIdempotencyKey } from '@/src/api/retryPolicy';
+import { getUsers } from '@/src/api/users';
+import { getWorkflows, matchWorkflow as matchWorkflowAPI } from '@/src/api/workflow';
+import { AttachmentField } from '@/src/components/AttachmentField';
+import { DynamicLookupField } from '@/src/components/DynamicLookupField';
+import { FormDropdown } from '@/src/components/FormDropdown';
+import { LinkedIncidentSearch } from '@/src/components/LinkedIncidentSearch';
+import LocationPicker from '@/src/components/LocationPickerOSM';
+import TreeSelect, { TreeNode } from '@/src/components/TreeSelect';
+import {
+  CHANNEL_OPTIONS,
+  DEFAULT_PRIORITY,
+  DEFAULT_SEVERITY,
+  FormOption,
+  PRIORITY_OPTIONS,
+  SEVERITY_OPTIONS,
+  SOURCE_OPTIONS,
+  TICKET_FIELD_ORDER,
+  TICKET_FORMS,
+  TicketField,
+} from '@/src/constants/ticketForms';
+import { useAuth } from '@/src/context/AuthContext';
+import { crashLogger } from '@/src/utils/crashLogger';
+import { isOfflineFailure, isOnline, outbox } from '@/src/utils/outbox';
+import {
+  buildAutoTitle,
+  buildTicketPayload,
+  filterTreeByAccess,
+  FormAttachment,
+  getFieldLabel,
+  getRequiredFields,
+  isFieldShown,
+  LookupAnswers,
+  lookupFieldKey,
+  mergeById,
+  normalizeTree,
+  TicketFormValues,
+  validateTicketForm,
+} from '@/src/utils/ticketForm';
+
+interface TicketFormProps {
+  recordType: RecordType;
+}
+
+const initialValues = (): TicketFormValues => ({
+  title: '',
+  channel: null,
+  source_incident_id: null,
+  classification_id: null,
+  location_id: null,
+  source: SOURCE_OPTIONS[0], // Fixed to mobile, non-editable
+  priority: DEFAULT_PRIORITY,
+  severity: DEFAULT_SEVERITY,
+  assignee_id: null,
+  department_id: null,
+  description: '',
+  reporter_name: '',
+  reporter_email: '',
+  geolocation: undefined,
+  attachments: [],
+});
+
+/**
+ * Ticket creation form rendered from the record type's schema (see
+ * constants/ticketForms) and the fields required by the matched workflow.
+ * Validation, payload building and submission are shared by every type.
+ */
+export const TicketForm: React.FC<TicketFormProps> = ({ recordType }) => {
+  const schema = TICKET_FORMS[recordType];
+  const accent = schema.accentColor;
+  const router = useRouter();
+  const insets = useSafeAreaInsets();
+  const { t } = useTranslation();
+  const { user } = useAuth();
+
+  const [values, setValues] = useState<TicketFormValues>(initialValues);
+  const [lookupAnswers, setLookupAnswers] = useState<LookupAnswers>({});
+  const [errors, setErrors] = useState<Record<string, string>>({});
+
+  const [classifications, setClassifications] = useState<TreeNode[]>([]);
+  const [locations, setLocations] = useState<TreeNode[]>([]);
+  const [users, setUsers] = useState<FormOption[]>([]);
+  const [departments, setDepartments] = useState<FormOption[]>([]);
+  const [lookupCategories, setLookupCategories] = useState<LookupCategory[]>([]);
+  const [allWorkflows, setAllWorkflows] = useState<Workflow[]>([]);
+  const [matchedWorkflow, setMatchedWorkflow] = useState<Workflow | null>(null);
+
+  const [loadingData, setLoadingData] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+  const hasFetchedDataRef = useRef(false);
+  // One key per form: resubmitting after an unclear failure can't create a second ticket
+  const idempotencyKeyRef = useRef(createIdempotencyKey());
+
+  const requiredFields = useMemo(() => getRequiredFields(schema, matchedWorkflow), [schema, matchedWorkflow]);
+
+  const clearError = useCallback((key: string) => {
+    setErrors(prev => {
+      if (!prev[key]) return prev;
+      const next = { ...prev };
+      delete next[key];
+      return next;
+    });
+  }, []);
+
+  const setField = <K extends TicketField>(field: K, value: TicketFormValues[K]) => {
+    setValues(prev => ({ ...prev, [field]: value }));
+    clearError(field);
+  };
+
+  const addAttachments = useCallback((files: FormAttachment[]) => {
+    setValues(prev => ({ ...prev, attachments: [...prev.attachments, ...files] }));
+    clearError('attachments');
+  }, [clearError]);
+
+  const removeAttachment = (index: number) => {
+    setValues(prev => ({ ...prev, attachments: prev.attachments.filter((_, i) => i !== index) }));
+  };
+
+  const handleLookupChange = (categoryId: string, value: any) => {
+    setLookupAnswers(prev => {
+      const next = { ...prev };
+      if (value === undefined || value === null || value === '' || (Array.isArray(value) && value.length === 0)) {
+        delete next[categoryId];
+      } else {
+        next[categoryId] = value;
+      }
+      return next;
+    });
+
+    const category = lookupCategories.find(c => c.id === categoryId);
+    if (category) clearError(lookupFieldKey(category));
+  };
+
+  const fetchAllData = useCallback(async () => {
+    setLoadingData(true);
+    try {
+      const [classResults, workflowResults, locRes, userRes, deptRes, lookupRes] = await Promise.all([
+        Promise.all(schema.scopes.map(scope => getClassificationsTree(scope))),
+        Promise.all(schema.scopes.map(scope => getWorkflows(true, scope))),
+        getLocationsTree(),
+        getUsers(),
+        getDepartments(),
+        getLookupCategories(),
+      ]);
+
+      let classificationTree = normalizeTree(
+        mergeById(classResults.map(res => (res.success ? res.data : []))),
+        schema.scopes
+      );
+      let locationTree = normalizeTree(locRes.success ? locRes.data : [], schema.scopes);
+
+      // Restrict choices to the user's assignments (unless super admin)
+      if (user && !user.is_super_admin) {
+        if (user.classifications?.length) {
+          classificationTree = filterTreeByAccess(classificationTree, new Set(user.classifications.map(c => c.id)));
+        }
+        if (user.locations?.length) {
+          locationTree = filterTreeByAccess(locationTree, new Set(user.locations.map(l => l.id)));
+        }
+      }
+
+      setClassifications(classificationTree);
+      setLocations(locationTree);
+
+      const workflows = mergeById(workflowResults.map(res => (res.success ? res.data : [])));
+      setAllWorkflows(workflows);
+
+      if (userRes.success) {
+        setUsers(userRes.data.map(u => ({
+          id: u.id,
+          name: `${u.first_name || ''} ${u.last_name || ''}`.trim() || u.email || u.id,
+        })));
+      }
+      if (deptRes.success) {
+        setDepartments(deptRes.data.map(d => ({ id: d.id, name: d.name })));
+      }
+      if (lookupRes.success) {
+        // Only categories configured for the ticket form
+        setLookupCategories(lookupRes.data.filter(cat => cat.add_to_incident_form && cat.is_active));
+      }
+
+      if (workflows.length === 0) {
+        Alert.alert(t('common.error'), t('ticketForm.workflowsUnavailable'), [
+          { text: t('common.retry'), onPress: () => fetchAllData() },
+          { text: t('common.back'), onPress: () => router.back() },
+        ]);
+      }
+    } catch (error) {
+      console.error('Error fetching form data:', error);
+      crashLogger.logError(error as Error, {
+        component: 'TicketForm',
+        action: 'fetchAllData',
+        recordType,
+      }).catch(() => {});
+
+      Alert.alert(t('common.error'), t('ticketForm.loadFailed'), [
+        { text: t('common.retry'), onPress: () => fetchAllData() },
+        { text: t('common.back'), onPress: () => router.back() },
+      ]);
+    }
+    setLoadingData(false);
+  }, [schema, user, recordType, router, t]);
+
+  // Fetch all data once when user is loaded
+  useEffect(() => {
+    if (user && !hasFetchedDataRef.current) {
+      hasFetchedDataRef.current = true;
+      fetchAllData();
+    }
+  }, [user, fetchAllData]);
+
+  // Auto-match workflow via backend API when criteria change
+  const classificationId = values.classification_id?.id;
+  const locationId = values.location_id?.id;
+  const sourceId = values.source?.id;
+  const priorityId = values.priority?.id;
+
+  useEffect(() => {
+    if (allWorkflows.length === 0) return;
+
+    let cancelled = false;
+    const fallback = () => allWorkflows.find(w => w.is_default) ?? allWorkflows[0] ?? null;
+
+    matchWorkflowAPI({
+      classification_id: classificationId,
+      location_id: locationId,
+      source: sourceId,
+      priority: priorityId ? parseInt(priorityId, 10) : undefined,
+    })
+      .then(result => {
+        if (cancelled) return;
+        const matchedId = result.success ? result.data.workflow_id : undefined;
+        setMatchedWorkflow(allWorkflows.find(w => w.id === matchedId) ?? fallback());
+      })
+      .catch(() => {
+        if (!cancelled) setMatchedWorkflow(fallback());
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [allWorkflows, classificationId, locationId, sourceId, priorityId]);
+
+  // Auto-generate title from classification, location, and geolocation
+  useEffect(() => {
+    if (!schema.autoTitle) return;
+    setValues(prev => {
+      const generated = buildAutoTitle(prev);
+      return generated && generated !== prev.title ? { ...prev, title: generated } : prev;
+    });
+    clearError('title');
+  }, [schema.autoTitle, values.classification_id, values.location_id, values.geolocation, clearError]);
+
+  const showSubmitResult = (title: string, message: string) => {
+    setSubmitting(false);
+    Alert.alert(title, message, [{ text: t('common.ok'), onPress: () => router.back() }]);
+  };
+
+  const handleSubmit = async () => {
+    const validationErrors = validateTicketForm(schema, matchedWorkflow, values, lookupCategories, lookupAnswers);
+    setErrors(validationErrors);
+
+    const firstError = Object.values(validationErrors)[0];
+    if (firstError || !matchedWorkflow) {
+      Alert.alert(t('ticketForm.validationError'), firstError || t('ticketForm.errors.noWorkflow'));
+      return;
+    }
+
+    setSubmitting(true);
+    const payload = buildTicketPayload(schema, matchedWorkflow, values, lookupCategories, lookupAnswers);
+    const files = values.attachments.map(({ uri, name, type }) => ({ uri, name, type }));
+
+    try {
+      // Keep the submission in the outbox when the device can't reach the server
+      const response = (await isOnline())
+        ? await createRecord(recordType, payload, { idempotencyKey: idempotencyKeyRef.current })
+        : null;
+      if (!response || isOfflineFailure(response)) {
+        await outbox.enqueue({
+          recordType,
+          title: payload.title,
+          payload,
+          attachments: files,
+          userId: user?.id,
+          idempotencyKey: idempotencyKeyRef.current,
+        });
+        showSubmitResult(t('outbox.savedOfflineTitle'), t('outbox.savedOfflineMessage'));
+        return;
+      }
+
+      if (!response.success) {
+        // The server answered, so nothing was created; an edited resubmission is a new request
+        idempotencyKeyRef.current = createIdempotencyKey();
+        setSubmitting(false);
+        Alert.alert(t('common.error'), `${t(`${schema.i18nKey}.createFailed`)}: ${response.error}`);
+        return;
+      }
+
+      if (files.length > 0) {
+        const uploadResult = await uploadMultipleAttachments(recordType, response.data.id, files);
+        if (!uploadResult.success) {
+          crashLogger.logWarning('Ticket created but some attachments failed to upload', {
+            type: 'AttachmentUploadFailure',
+            recordType,
+            recordId: response.data.id,
+            errors: uploadResult.errors,
+          }).catch(() => {});
+          showSubmitResult(t('ticketForm.partialSuccessTitle'), t('ticketForm.partialSuccess'));
+          return;
+        }
+      }
+
+      showSubmitResult(t('common.success'), t(`${schema.i18nKey}.created`));
+    } catch (error) {
+      console.error('Unexpected error during ticket creation:', error);
+      crashLogger.logError(error as Error, {
+        component: 'TicketForm',
+        action: 'submit',
+        recordType,
+        workflowId: matchedWorkflow.id,
+        attachmentCount: files.length,
+      }).catch(() => {});
+
+      setSubmitting(false);
+      Alert.alert(t('common.error'), `${t(`${schema.i18nKey}.createFailed`)}: ${(error as Error).message}`);
+    }
+  };
+
+  const renderLabel = (field: TicketField) => (
+    <Text style={styles.sectionTitle}>
+      {getFieldLabel(field)} {requiredFields.has(field) && <Text style={styles.required}>*</Text>}
+    </Text>
+  );
+
+  const renderDropdown = (field: TicketField & keyof TicketFormValues, options: FormOption[], extra?: { allowClear?: boolean; disabled?: boolean }) => {
+    const value = values[field] as FormOption | null;
+    return (
+      <View key={field}>
+        {renderLabel(field)}
+        <FormDropdown
+          label={t(`ticketForm.placeholders.${field}`)}
+          value={value?.name || ''}
+          options={options}
+          onSelect={option => setField(field, option)}
+          error={errors[field]}
+          accentColor={accent}
+          {...extra}
+        />
+      </View>
+    );
+  };
+
+  const renderTextInput = (field: 'description' | 'reporter_name' | 'reporter_email', placeholder: string) => (
+    <View key={field}>
+      {renderLabel(field)}
+      <TextInput
+        style={[field === 'description' ? styles.descriptionInput : styles.input, errors[field] && styles.inputError]}
+        placeholder={placeholder}
+        value={values[field]}
+        onChangeText={text => setField(field, text)}
+        placeholderTextColor="#999"
+        multiline={field === 'description'}
+        textAlignVertical={field === 'description' ? 'top' : undefined}
+        keyboardType={field === 'reporter_email' ? 'email-address' : 'default'}
+        autoCapitalize={field === 'reporter_email' ? 'none' : 'sentences'}
+      />
+      {errors[field] && <Text style={styles.errorText}>{errors[field]}</Text>}
+    </View>
+  );
+
+  const renderTreeSelect = (field: 'classification_id' | 'location_id', data: TreeNode[]) => (
+    <View key={field}>
+      {renderLabel(field)}
+      <TreeSelect
+        label={t(`ticketForm.placeholders.${field}`)}
+        value={values[field]?.name || ''}
+        data={data}
+        onSelect={node => setField(field, node ? { id: node.id, name: node.name } : null)}
+        required={requiredFields.has(field)}
+        error={errors[field]}
+        leafOnly={true}
+        placeholder={t(`ticketForm.placeholders.${field}`)}
+      />
+    </View>
+  );
+
+  const renderField = (field: TicketField | 'lookups') => {
+    if (field === 'lookups') {
+      // Lookup categories are only asked for when the workflow requires them
+      return lookupCategories
+        .filter(category => requiredFields.has(lookupFieldKey(category)))
+        .map(category => (
+          <DynamicLookupField
+            key={category.id}
+            category={category}
+            value={lookupAnswers[category.id]}
+            onChange={handleLookupChange}
+            required={true}
+            error={errors[lookupFieldKey(category)]}
+          />
+        ));
+    }
+
+    if (!isFieldShown(schema, field, requiredFields)) return null;
+
+    switch (field) {
+      case 'title':
+        return (
+          <View key={field}>
+            {renderLabel(field)}
+            {schema.autoTitle ? (
+              <>
+                <View style={[styles.input, styles.autoGeneratedField, errors.title && styles.inputError]}>
+                  <Text style={[styles.autoGeneratedText, !values.title && styles.placeholderText]}>
+                    {values.title || t('ticketForm.autoTitlePlaceholder')}
+                  </Text>
+                  <Ionicons name="lock-closed" size={16} color="#999" style={styles.lockIcon} />
+                </View>
+                <Text style={styles.helperText}>{t('ticketForm.autoTitleHelper')}</Text>
+              </>
+            ) : (
+              <TextInput
+                style={[styles.input, errors.title && styles.inputError]}
+                placeholder={t(`${schema.i18nKey}.titlePlaceholder`)}
+                value={values.title}
+                onChangeText={text => setField('title', text)}
+                placeholderTextColor="#999"
+              />
+            )}
+            {errors.title && <Text style={styles.errorText}>{errors.title}</Text>}
+          </View>
+        );
+      case 'channel':
+        return renderDropdown(field, CHANNEL_OPTIONS);
+      case 'source_incident_id':
+        return (
+          <View key={field}>
+            {renderLabel(field)}
+            <LinkedIncidentSearch
+              value={values.source_incident_id}
+              onChange={incident => setField(field, incident)}
+              error={errors.source_incident_id}
+            />
+          </View>
+        );
+      case 'classification_id':
+        return renderTreeSelect(field, classifications);
+      case 'location_id':
+        return renderTreeSelect(field, locations);
+      case 'source':
+        return renderDropdown(field, SOURCE_OPTIONS, { allowClear: false, disabled: true });
+      case 'priority':
+        return renderDropdown(field, PRIORITY_OPTIONS, { allowClear: false });
+      case 'severity':
+        return renderDropdown(field, SEVERITY_OPTIONS, { allowClear: false });
+      case 'assignee_id':
+        return renderDropdown(field, users);
+      case 'department_id':
+        return renderDropdown(field, departments);
+      case 'description':
+        return renderTextInput(field, t(`${schema.i18nKey}.descriptionPlaceholder`));
+      case 'reporter_name':
+        return renderTextInput(field, t(`${schema.i18nKey}.reporterNamePlaceholder`));
+      case 'reporter_email':
+        return renderTextInput(field, t(`${schema.i18nKey}.reporterEmailPlaceholder`));
+      case 'geolocation': {
+        const location = values.geolocation;
+        const place = location?.city || location?.address;
+        return (
+          <View key={field}>
+            <LocationPicker
+              label={getFieldLabel(field)}
+              value={location}
+              onChange={next => setField(field, next)}
+              required={requiredFields.has(field)}
+              autoFetch={true}
+              error={errors.geolocation}
+            />
+            {!!location?.latitude && !place && (
+              <Text style={[styles.locationStatus, styles.locationPending]}>{t('ticketForm.gettingAddress')}</Text>
+            )}
+            {!!place && (
+              <Text style={[styles.locationStatus, styles.locationResolved]}>{t('ticketForm.locationDetected', { place })}</Text>
+            )}
+          </View>
+        );
+      }
+      case 'attachments':
+        return (
+          <View key={field}>
+            {renderLabel(field)}
+            <AttachmentField
+              attachments={values.attachments}
+              onAdd={addAttachments}
+              onRemove={removeAttachment}
+              geolocation={values.geolocation}
+              geolocationRequired={requiredFields.has('geolocation')}
+              error={errors.attachments}
+              accentColor={accent}
+            />
+          </View>
+        );
+    }
+  };
+
+  return (
+    <KeyboardAvoidingView
+      style={styles.container}
+      behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+    >
+      <View style={styles.header}>
+        <Text style={styles.headerTitle}>{t(`${schema.i18nKey}.title`)}</Text>
+        <TouchableOpacity onPress={() => router.back()}>
+          <Ionicons name="close-circle" size={28} color="#E74C3C" />
+        </TouchableOpacity>
+      </View>
+
+      {loadingData ? (
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color={accent} />
+          <Text style={styles.loadingText}>{t('common.loading')}</Text>
+        </View>
+      ) : (
+        <>
+          <ScrollView style={styles.formContainer} showsVerticalScrollIndicator={false}>
+            {/* Auto-matched Workflow Display */}
+            <View style={[styles.workflowCard, { backgroundColor: schema.accentLight, borderColor: accent }]}>
+              <View style={styles.workflowHeader}>
+                <Ionicons name="git-branch" size={20} color={accent} />
+                <Text style={[styles.workflowLabel, { color: accent }]}>{t('ticketForm.workflow')}</Text>
+              </View>
+              {matchedWorkflow ? (
+                <View style={styles.workflowMatched}>
+                  <Ionicons name="checkmark-circle" size={18} color="#27AE60" />
+                  <Text style={styles.workflowName}>{matchedWorkflow.name}</Text>
+                </View>
+              ) : (
+                <Text style={styles.workflowHint}>{t('ticketForm.workflowHint')}</Text>
+              )}
+              {errors.workflow && <Text style={styles.workflowError}>{errors.workflow}</Text>}
+            </View>
+
+            {TICKET_FIELD_ORDER.map(renderField)}
+
+            <View style={styles.bottomPadding} />
+          </ScrollView>
+
+          <View style={[styles.submitContainer, { paddingBottom: 20 + insets.bottom }]}>
+            <TouchableOpacity
+              style={[styles.submitButton, { backgroundColor: accent }, submitting && styles.disabledButton]}
+              onPress={handleSubmit}
+              disabled={submitting}
+            >
+              {submitting ? (
+                <ActivityIndicator color="#fff" />
+              ) : (
+                <Text style={styles.submitButtonText}>{t(`${schema.i18nKey}.createButton`)}</Text>
+              )}
+            </TouchableOpacity>
+          </View>
+        </>
+      )}
+    </KeyboardAvoidingView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F8F9FA',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 20,
+    paddingTop: 50,
+    backgroundColor: 'white',
+    borderBottomWidth: 1,
+    borderBottomColor: '#EEE',
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  loadingText: {
+    marginTop: 10,
+    color: '#666',
+    fontSize: 16,
+  },
+  formContainer: {
+    flex: 1,
+    padding: 20,
+  },
+  workflowCard: {
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 20,
+    borderWidth: 1,
+  },
+  workflowHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  workflowLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    marginLeft: 8,
+  },
+  workflowMatched: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  workflowName: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+    marginLeft: 8,
+  },
+  workflowHint: {
+    fontSize: 14,
+    color: '#666',
+    fontStyle: 'italic',
+  },
+  workflowError: {
+    color: '#E74C3C',
+    fontSize: 12,
+    marginTop: 8,
+  },
+  sectionTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    marginBottom: 8,
+    color: '#333',
+  },
+  required: {
+    color: '#E74C3C',
+  },
+  input: {
+    backgroundColor: 'white',
+    borderRadius: 10,
+    padding: 15,
+    fontSize: 16,
+    marginBottom: 20,
+    borderWidth: 1,
+    borderColor: '#E0E0E0',
+    color: '#333',
+  },
+  inputError: {
+    borderColor: '#E74C3C',
+  },
+  descriptionInput: {
+    backgroundColor: 'white',
+    borderRadius: 10,
+    padding: 15,
+    fontSize: 16,
+    height: 120,
+    marginBottom: 20,
+    borderWidth: 1,
+    borderColor: '#E0E0E0',
+    color: '#333',
+  },
+  autoGeneratedField: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    backgroundColor: '#F8F9FA',
+    borderColor: '#D0D0D0',
+    paddingRight: 10,
+  },
+  autoGeneratedText: {
+    flex: 1,
+    fontSize: 16,
+    color: '#333',
+  },
+  placeholderText: {
+    color: '#999',
+  },
+  lockIcon: {
+    marginLeft: 8,
+  },
+  helperText: {
+    fontSize: 12,
+    color: '#666',
+    fontStyle: 'italic',
+    marginTop: -15,
+    marginBottom: 15,
+  },
+  locationStatus: {
+    fontSize: 12,
+    marginTop: 4,
+    marginLeft: 4,
+    marginBottom: 16,
+  },
+  locationPending: {
+    color: '#FF9800',
+  },
+  locationResolved: {
+    color: '#4CAF50',
+  },
+  errorText: {
+    color: '#E74C3C',
+    fontSize: 12,
+    marginTop: -16,
+    marginBottom: 16,
+  },
+  bottomPadding: {
+    height: 100,
+  },
+  submitContainer: {
+    position: 'absolute',
+    bottom: 0,
+    left: 0,
+    right: 0,
+    backgroundColor: 'white',
+    padding: 20,
+    borderTopWidth: 1,
+    borderTopColor: '#EEE',
+  },
+  submitButton: {
+    padding: 16,
+    borderRadius: 10,
+    alignItems: 'center',
+  },
+  disabledButton: {
+    backgroundColor: '#A0A0A0',
+  },
+  submitButtonText: {
+    color: 'white',
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+});
+
+export default TicketForm;
@@ -100,3 +100,45 @@ export const PERMISSIONS = {
 } as const;
 
 export type PermissionCode = (typeof PERMISSIONS)[keyof typeof PERMISSIONS];
+
+export type RecordPermissionAction = 'view' | 'viewAll' | 'create' | 'update' | 'transition' | 'assign' | 'comment';
+
+// Per record type permission codes, keyed the same way as RecordType in src/api/workflow.ts
+export const RECORD_PERMISSIONS: Record<'incident' | 'request' | 'complaint' | 'query', Record<RecordPermissionAction, PermissionCode>> = {
+  incident: {
+    view: PERMISSIONS.INCIDENTS_VIEW,
+    viewAll: PERMISSIONS.INCIDENTS_VIEW_ALL,
+    create: PERMISSIONS.INCIDENTS_CREATE,
+    update: PERMISSIONS.INCIDENTS_UPDATE,
+    transition: PERMISSIONS.INCIDENTS_TRANSITION,
+    assign: PERMISSIONS.INCIDENTS_ASSIGN,
+    comment: PERMISSIONS.INCIDENTS_COMMENT,
+  },
+  request: {
+    view: PERMISSIONS.REQUESTS_VIEW,
+    viewAll: PERMISSIONS.REQUESTS_VIEW_ALL,
+    create: PERMISSIONS.REQUESTS_CREATE,
+    update: PERMISSIONS.REQUESTS_UPDATE,
+    transition: PERMISSIONS.REQUESTS_TRANSITION,
+    assign: PERMISSIONS.REQUESTS_ASSIGN,
+    comment: PERMISSIONS.REQUESTS_COMMENT,
+  },
+  complaint: {
+    view: PERMISSIONS.COMPLAINTS_VIEW,
+    viewAll: PERMISSIONS.COMPLAINTS_VIEW_ALL,
+    create: PERMISSIONS.COMPLAINTS_CREATE,
+    update: PERMISSIONS.COMPLAINTS_UPDATE,
+    transition: PERMISSIONS.COMPLAINTS_TRANSITION,
+    assign: PERMISSIONS.COMPLAINTS_ASSIGN,
+    comment: PERMISSIONS.COMPLAINTS_COMMENT,
+  },
+  query: {
+    view: PERMISSIONS.QUERIES_VIEW,
+    viewAll: PERMISSIONS.QUERIES_VIEW_ALL,
+    create: PERMISSIONS.QUERIES_CREATE,
+    update: PERMISSIONS.QUERIES_UPDATE,
+    transition: PERMISSIONS.QUERIES_TRANSITION,
+    assign: PERMISSIONS.QUERIES_ASSIGN,
+    comment: PERMISSIONS.QUERIES_COMMENT,
+  },
+};
@@ -0,0 +1,262 @@
+import React from 'react';
+import { Ionicons } from '@expo/vector-icons';
+import { RecordType } from '@/src/api/models';
+
+type IconName = React.ComponentProps<typeof Ionicons>['name'];
+
+export type FilterField =
+  | 'state'
+  | 'priority'
+  | 'severity'
+  | 'assignee'
+  | 'classification'
+  | 'location'
+  | 'department'
+  | 'sla_status'
+  | 'channel'
+  | 'reporter'
+  | 'created'
+  | 'updated'
+  | 'due'
+  | 'lookups';
+
+/**
+ * How a filter is picked and kept in the list's route params:
+ * - multi: any number of options, their values joined with commas
+ * - single: one option
+ * - text: free text
+ * - dateRange: `<param>_from` and `<param>_to` as YYYY-MM-DD, either may be left open
+ * - lookups: a multi-select per lookup category, each in its own `lookup_<CATEGORY CODE>` param
+ */
+export type FilterKind = 'multi' | 'single' | 'text' | 'dateRange' | 'lookups';
+
+// Reference data a field offers its options from; 'static' ones are listed in FILTER_OPTIONS
+export type FilterSource = 'states' | 'users' | 'departments' | 'classifications' | 'locations' | 'static';
+
+export interface FilterFieldConfig {
+  kind: FilterKind;
+  // Route param the list reads the value from
+  param: string;
+  // Route param with the picked options' names, for options that come from the server
+  nameParam?: string;
+  // Query param of the records endpoint; multi-select values are sent comma separated
+  apiParam: string;
+  source?: FilterSource;
+  icon: IconName;
+  label: string;
+  // Option that clears the field, for option lists
+  allLabel?: string;
+}
+
+export interface FilterOption {
+  value: string;
+  // Translation key
+  label: string;
+  color?: string;
+}
+
+// Quick picks for a date range, in days from today; a missing end leaves that side open
+export interface DatePreset {
+  key: string;
+  from?: number;
+  to?: number;
+}
+
+export interface RecordFilterSchema {
+  recordType: RecordType;
+  title: string;
+  accentColor: string;
+  accentLight: string;
+  listPath: '/(tabs)/incident' | '/(tabs)/request' | '/(tabs)/complaint' | '/(tabs)/query';
+  filterPath: '/filter' | '/request-filter' | '/complaint-filter' | '/query-filter';
+  // Render order of the filter screen and of the badges above the list
+  fields: FilterField[];
+}
+
+export const LOOKUP_PARAM_PREFIX = 'lookup_';
+
+export const FILTER_FIELDS: Record<FilterField, FilterFieldConfig> = {
+  state: {
+    kind: 'multi', param: 'state_id', nameParam: 'state_name', apiParam: 'current_state_id', source: 'states',
+    icon: 'flag-outline', label: 'filter.status', allLabel: 'filter.allStatuses',
+  },
+  priority: {
+    kind: 'multi', param: 'priority', apiParam: 'priority', source: 'static',
+    icon: 'alert-circle-outline', label: 'filter.priority', allLabel: 'filter.allPriorities',
+  },
+  severity: {
+    kind: 'multi', param: 'severity', apiParam: 'severity', source: 'static',
+    icon: 'warning-outline', label: 'filter.severity', allLabel: 'filter.allSeverities',
+  },
+  assignee: {
+    kind: 'multi', param: 'assignee_id', nameParam: 'assignee_name', apiParam: 'assignee_id', source: 'users',
+    icon: 'person-outline', label: 'filter.assignee', allLabel: 'filter.allAssignees',
+  },
+  classification: {
+    kind: 'single', param: 'classification_id', nameParam: 'classification_name', apiParam: 'classification_id',
+    source: 'classifications', icon: 'folder-outline', label: 'filter.classification', allLabel: 'filter.allClassifications',
+  },
+  location: {
+    kind: 'single', param: 'location_id', nameParam: 'location_name', apiParam: 'location_id', source: 'locations',
+    icon: 'location-outline', label: 'filter.location', allLabel: 'filter.allLocations',
+  },
+  department: {
+    kind: 'single', param: 'department_id', nameParam: 'department_name', apiParam: 'department_id', source: 'departments',
+    icon: 'business-outline', label: 'filter.department', allLabel: 'filter.allDepartments',
+  },
+  sla_status: {
+    kind: 'single', param: 'sla_status', apiParam: 'sla_status', source: 'static',
+    icon: 'time-outline', label: 'filter.slaStatus', allLabel: 'filter.allSlaStatuses',
+  },
+  channel: {
+    kind: 'single', param: 'channel', apiParam: 'channel', source: 'static',
+    icon: 'megaphone-outline', label: 'filter.channel', allLabel: 'filter.allChannels',
+  },
+  reporter: {
+    kind: 'text', param: 'reporter', apiParam: 'reporter',
+    icon: 'person-circle-outline', label: 'filter.reporter',
+  },
+  created: {
+    kind: 'dateRange', param: 'created', apiParam: 'created',
+    icon: 'calendar-outline', label: 'filter.createdDate',
+  },
+  updated: {
+    kind: 'dateRange', param: 'updated', apiParam: 'updated',
+    icon: 'refresh-outline', label: 'filter.updatedDate',
+  },
+  due: {
+    kind: 'dateRange', param: 'due', apiParam: 'due',
+    icon: 'hourglass-outline', label: 'filter.dueDate',
+  },
+  lookups: {
+    kind: 'lookups', param: LOOKUP_PARAM_PREFIX, apiParam: 'lookup_value_ids',
+    icon: 'list-outline', label: 'filter.lookups',
+  },
+};
+
+// Every route param a record list takes its filters from, besides the per-category lookup params
+export const FILTER_PARAMS = [
+  'state_id', 'state_name',
+  'priority',
+  'severity',
+  'assignee_id', 'assignee_name',
+  'department_id', 'department_name',
+  'classification_id', 'classification_name',
+  'location_id', 'location_name',
+  'sla_status',
+  'channel',
+  'reporter',
+  'created_from', 'created_to',
+  'updated_from', 'updated_to',
+  'due_from', 'due_to',
+] as const;
+
+export type FilterParam = (typeof FILTER_PARAMS)[number];
+export type LookupFilterParam = `${typeof LOOKUP_PARAM_PREFIX}${string}`;
+
+export const FILTER_OPTIONS: Partial<Record<FilterField, FilterOption[]>> = {
+  priority: [
+    { value: '1', label: 'priorities.critical', color: '#E74C3C' },
+    { value: '2', label: 'priorities.high', color: '#E67E22' },
+    { value: '3', label: 'priorities.medium', color: '#F1C40F' },
+    { value: '4', label: 'priorities.low', color: '#3498DB' },
+    { value: '5', label: 'priorities.veryLow', color: '#2ECC71' },
+  ],
+  severity: [
+    { value: '1', label: 'severities.critical', color: '#E74C3C' },
+    { value: '2', label: 'severities.major', color: '#E67E22' },
+    { value: '3', label: 'severities.moderate', color: '#F1C40F' },
+    { value: '4', label: 'severities.minor', color: '#3498DB' },
+    { value: '5', label: 'severities.cosmetic', color: '#2ECC71' },
+  ],
+  sla_status: [
+    { value: 'on_track', label: 'sla.onTrack', color: '#2ECC71' },
+    { value: 'at_risk', label: 'sla.atRisk', color: '#F1C40F' },
+    { value: 'breached', label: 'sla.breached', color: '#E74C3C' },
+  ],
+  channel: [
+    { value: 'phone', label: 'filter.channels.phone' },
+    { value: 'email', label: 'filter.channels.email' },
+    { value: 'web', label: 'filter.channels.web' },
+    { value: 'mobile', label: 'filter.channels.mobile' },
+    { value: 'social_media', label: 'filter.channels.socialMedia' },
+    { value: 'in_person', label: 'filter.channels.inPerson' },
+    { value: 'other', label: 'filter.channels.other' },
+  ],
+};
+
+export const DATE_PRESETS: Partial<Record<FilterField, DatePreset[]>> = {
+  created: [
+    { key: 'today', from: 0, to: 0 },
+    { key: 'last7Days', from: -6, to: 0 },
+    { key: 'last30Days', from: -29, to: 0 },
+  ],
+  updated: [
+    { key: 'today', from: 0, to: 0 },
+    { key: 'last7Days', from: -6, to: 0 },
+    { key: 'last30Days', from: -29, to: 0 },
+  ],
+  due: [
+    { key: 'overdue', to: -1 },
+    { key: 'today', from: 0, to: 0 },
+    { key: 'next7Days', from: 0, to: 7 },
+  ],
+};
+
+// Lookup categories whose values are already offered by a field of their own
+export const LOOKUP_CODES_WITH_FIELDS = ['PRIORITY', 'SEVERITY'];
+
+const COMMON_FIELDS: FilterField[] = [
+  'state',
+  'priority',
+  'severity',
+  'assignee',
+  'classification',
+  'location',
+  'department',
+  'sla_status',
+  'reporter',
+  'created',
+  'updated',
+  'due',
+  'lookups',
+];
+
+export const RECORD_FILTERS: Record<RecordType, RecordFilterSchema> = {
+  incident: {
+    recordType: 'incident',
+    title: 'filter.titles.incident',
+    accentColor: '#1A237E',
+    accentLight: '#E3F2FD',
+    listPath: '/(tabs)/incident',
+    filterPath: '/filter',
+    fields: COMMON_FIELDS,
+  },
+  request: {
+    recordType: 'request',
+    title: 'filter.titles.request',
+    accentColor: '#9B59B6',
+    accentLight: '#F3E8FF',
+    listPath: '/(tabs)/request',
+    filterPath: '/request-filter',
+    fields: COMMON_FIELDS,
+  },
+  complaint: {
+    recordType: 'complaint',
+    title: 'filter.titles.complaint',
+    accentColor: '#E74C3C',
+    accentLight: '#FDEAEA',
+    listPath: '/(tabs)/complaint',
+    filterPath: '/complaint-filter',
+    fields: ['channel', ...COMMON_FIELDS],
+  },
+  query: {
+    recordType: 'query',
+    title: 'filter.titles.query',
+    accentColor: '#3498DB',
+    accentLight: '#E3F2FD',
+    listPath: '/(tabs)/query',
+    filterPath: '/query-filter',
+    fields: ['channel', ...COMMON_FIELDS],
+  },
+};
@@ -0,0 +1,70 @@
+import { PERMISSIONS, PermissionCode, RECORD_PERMISSIONS } from './permissions';
+
+type RecordKind = keyof typeof RECORD_PERMISSIONS;
+
+// Search params as expo-router hands them over
+export type RouteParams = Record<string, string | string[] | undefined>;
+
+// Permissions that open a route, any one of which is enough. Routes shared by
+// every record type work the list out from their `type` param
+export type RouteRequirement = PermissionCode[] | ((params: RouteParams) => PermissionCode[]);
+
+const recordKind = (params: RouteParams): RecordKind => {
+  const type = Array.isArray(params.type) ? params.type[0] : params.type;
+  return type && type in RECORD_PERMISSIONS ? (type as RecordKind) : 'incident';
+};
+
+// A record list is also where its creators start a new one, so create alone opens it
+const listAccess = (kind: RecordKind): PermissionCode[] => [
+  RECORD_PERMISSIONS[kind].view,
+  RECORD_PERMISSIONS[kind].viewAll,
+  RECORD_PERMISSIONS[kind].create,
+];
+
+const detailAccess = (kind: RecordKind): PermissionCode[] => [
+  RECORD_PERMISSIONS[kind].view,
+  RECORD_PERMISSIONS[kind].viewAll,
+];
+
+/**
+ * Route (its segments joined with '/') to the permissions it needs. Enforced
+ * for every navigation in app/_layout.tsx, so deep links and stale buttons end
+ * up on the no-access screen. Routes left out are open to anyone signed in.
+ */
+export const ROUTE_PERMISSIONS: Record<string, RouteRequirement> = {
+  '(tabs)/incident': listAccess('incident'),
+  '(tabs)/request': listAccess('request'),
+  '(tabs)/complaint': listAccess('complaint'),
+  '(tabs)/query': listAccess('query'),
+
+  'incident-details': detailAccess('incident'),
+  'request-details': detailAccess('request'),
+  'complaint-details': detailAccess('complaint'),
+  'query-details': detailAccess('query'),
+
+  'add-incident': [PERMISSIONS.INCIDENTS_CREATE],
+  'add-request': [PERMISSIONS.REQUESTS_CREATE],
+  'add-complaint': [PERMISSIONS.COMPLAINTS_CREATE],
+  'add-query': [PERMISSIONS.QUERIES_CREATE],
+
+  'filter': listAccess('incident'),
+  'request-filter': listAccess('request'),
+  'complaint-filter': listAccess('complaint'),
+  'query-filter': listAccess('query'),
+
+  'my-incidents': listAccess('incident'),
+  'inbox': (Object.keys(RECORD_PERMISSIONS) as RecordKind[]).flatMap(listAccess),
+  'search': (Object.keys(RECORD_PERMISSIONS) as RecordKind[]).flatMap(detailAccess),
+  'saved-view': params => listAccess(recordKind(params)),
+  'map-view': params => detailAccess(recordKind(params)),
+  'board': params => detailAccess(recordKind(params)),
+  'update-status': params => [RECORD_PERMISSIONS[recordKind(params)].transition],
+  'edit-record': params => [RECORD_PERMISSIONS[recordKind(params)].update],
+};
+
+// Permissions needed for a route, or null when it has no restriction
+export const getRoutePermissions = (route: string, params: RouteParams = {}): PermissionCode[] | null => {
+  const requirement = ROUTE_PERMISSIONS[route];
+  if (!requirement) return null;
+  return typeof requirement === 'function' ? requirement(params) : requirement;
+};
@@ -0,0 +1,188 @@
+import { RecordType } from '@/src/api/models';
+
+export interface FormOption {
+  id: string;
+  name: string;
+}
+
+export type TicketField =
+  | 'title'
+  | 'channel'
+  | 'source_incident_id'
+  | 'classification_id'
+  | 'location_id'
+  | 'source'
+  | 'priority'
+  | 'severity'
+  | 'assignee_id'
+  | 'department_id'
+  | 'description'
+  | 'reporter_name'
+  | 'reporter_email'
+  | 'geolocation'
+  | 'attachments';
+
+/**
+ * How a field takes part in a form:
+ * - required: always shown and always validated
+ * - visible: always shown, validated only when the matched workflow requires it
+ * - workflow: shown and validated only when the matched workflow requires it
+ * Fields missing from a schema are never shown, even if a workflow lists them.
+ */
+export type FieldMode = 'required' | 'visible' | 'workflow';
+
+// Classification and workflow scopes a form pulls its options from
+export type TicketScope = RecordType | 'both' | 'all';
+
+export interface TicketFormSchema {
+  recordType: RecordType;
+  // Namespace of the per-type strings (title, placeholders, create button, results)
+  i18nKey: 'addIncident' | 'addRequest' | 'addComplaint' | 'addQuery';
+  accentColor: string;
+  accentLight: string;
+  scopes: TicketScope[];
+  // Build the title from classification, location and geolocation instead of asking for it
+  autoTitle: boolean;
+  fields: Partial<Record<TicketField, FieldMode>>;
+}
+
+// Render order; 'lookups' is where the workflow's lookup categories are inserted
+export const TICKET_FIELD_ORDER: (TicketField | 'lookups')[] = [
+  'title',
+  'channel',
+  'source_incident_id',
+  'classification_id',
+  'location_id',
+  'source',
+  'lookups',
+  'priority',
+  'severity',
+  'assignee_id',
+  'department_id',
+  'description',
+  'reporter_name',
+  'reporter_email',
+  'geolocation',
+  'attachments',
+];
+
+// Workflows may still use the singular name for the attachments requirement
+export const FIELD_ALIASES: Record<string, TicketField> = {
+  attachment: 'attachments',
+};
+
+export const PRIORITY_OPTIONS: FormOption[] = [
+  { id: '1', name: 'Critical' },
+  { id: '2', name: 'High' },
+  { id: '3', name: 'Medium' },
+  { id: '4', name: 'Low' },
+  { id: '5', name: 'Very Low' },
+];
+
+export const SEVERITY_OPTIONS: FormOption[] = [
+  { id: '1', name: 'Critical' },
+  { id: '2', name: 'Major' },
+  { id: '3', name: 'Moderate' },
+  { id: '4', name: 'Minor' },
+  { id: '5', name: 'Cosmetic' },
+];
+
+// Only mobile option for mobile app
+export const SOURCE_OPTIONS: FormOption[] = [
+  { id: 'mobile', name: 'Mobile App' },
+];
+
+export const CHANNEL_OPTIONS: FormOption[] = [
+  { id: 'phone', name: 'Phone' },
+  { id: 'email', name: 'Email' },
+  { id: 'web', name: 'Web Portal' },
+  { id: 'mobile', name: 'Mobile App' },
+  { id: 'social_media', name: 'Social Media' },
+  { id: 'in_person', name: 'In Person' },
+  { id: 'other', name: 'Other' },
+];
+
+export const DEFAULT_PRIORITY = PRIORITY_OPTIONS[2]; // Medium
+export const DEFAULT_SEVERITY = SEVERITY_OPTIONS[2]; // Moderate
+
+// File size limit: 10MB (adjust based on your server configuration)
+export const MAX_ATTACHMENT_SIZE_MB = 10;
+
+const COMMON_FIELDS: Partial<Record<TicketField, FieldMode>> = {
+  title: 'required',
+  severity: 'workflow',
+  assignee_id: 'workflow',
+  department_id: 'workflow',
+  description: 'workflow',
+  reporter_name: 'workflow',
+  reporter_email: 'workflow',
+  geolocation: 'workflow',
+  attachments: 'workflow',
+};
+
+export const TICKET_FORMS: Record<RecordType, TicketFormSchema> = {
+  incident: {
+    recordType: 'incident',
+    i18nKey: 'addIncident',
+    accentColor: '#2EC4B6',
+    accentLight: '#E8F8F7',
+    scopes: ['incident'],
+    autoTitle: true,
+    fields: {
+      ...COMMON_FIELDS,
+      classification_id: 'required',
+      location_id: 'required',
+      source: 'required',
+      priority: 'required',
+    },
+  },
+  request: {
+    recordType: 'request',
+    i18nKey: 'addRequest',
+    accentColor: '#9B59B6',
+    accentLight: '#F3E8FF',
+    scopes: ['request'],
+    autoTitle: true,
+    fields: {
+      ...COMMON_FIELDS,
+      classification_id: 'required',
+      location_id: 'required',
+      source: 'required',
+      priority: 'required',
+    },
+  },
+  complaint: {
+    recordType: 'complaint',
+    i18nKey: 'addComplaint',
+    accentColor: '#E74C3C',
+    accentLight: '#FDEAEA',
+    scopes: ['complaint'],
+    autoTitle: false,
+    fields: {
+      ...COMMON_FIELDS,
+      channel: 'workflow',
+      source_incident_id: 'workflow',
+      classification_id: 'workflow',
+      location_id: 'workflow',
+      source: 'visible',
+      priority: 'workflow',
+    },
+  },
+  query: {
+    recordType: 'query',
+    i18nKey: 'addQuery',
+    accentColor: '#3498DB',
+    accentLight: '#E3F2FD',
+    scopes: ['query', 'both', 'all'],
+    autoTitle: false,
+    fields: {
+      ...COMMON_FIELDS,
+      channel: 'visible',
+      source_incident_id: 'workflow',
+      classification_id: 'required',
+      location_id: 'workflow',
+      source: 'visible',
+      priority: 'workflow',
+    },
+  },
+};
@@ -1,7 +1,15 @@
 import React, { createContext, useContext, useState, useEffect, useCallback, ReactNode } from 'react';
 import * as SecureStore from 'expo-secure-store';
 import { router } from 'expo-router';
+import { onSessionExpired, SessionEndReason } from '../api/client';
 import { getProfile } from '../api/user';
+import { logout as apiLogout, OtpChallenge } from '../api/auth';
+import { forgetSsoSession } from '../api/sso';
+import { appLock } from '../utils/appLock';
+import { pushNotifications } from '../utils/pushNotifications';
+import { referenceCache } from '../utils/referenceCache';
+import { serverProfiles } from '../utils/serverProfiles';
+import { sessionRefresh } from '../utils/sessionRefresh';
 
 export interface Role {
   id: string;
@@ -47,8 +55,15 @@ interface AuthContextType {
   user: User | null;
   isAuthenticated: boolean;
   isLoading: boolean;
+  otpChallenge: OtpChallenge | null;
+  // Set when the session ended on its own rather than by logout, so login can say why
+  sessionEndReason: SessionEndReason | null;
+  startOtpChallenge: (challenge: OtpChallenge) => void;
+  updateOtpChallenge: (changes: Partial<OtpChallenge>) => void;
+  cancelOtpChallenge: () => void;
   login: (token: string, refreshToken?: string) => Promise<void>;
   logout: () => Promise<void>;
+  switchServer: (profileId: string) => Promise<void>;
   refreshUser: () => Promise<void>;
   hasPermission: (permission: string) => boolean;
   hasAnyPermission: (permissions: string[]) => boolean;
@@ -58,6 +73,18 @@ interface AuthContextType {
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
+// Everything that decides which reference data the server hands this user
+const accessScope = (user: User): string =>
+  JSON.stringify([
+    user.id,
+    user.is_super_admin,
+    [...(user.permissions || [])].sort(),
+    (user.roles || []).map(role => role.code).sort(),
+    (user.classifications || []).map(c => c.id).sort(),
+    (user.locations || []).map(l => l.id).sort(),
+    user.department_id || null,
+  ]);
+
 interface AuthProviderProps {
   children: ReactNode;
 }
@@ -65,9 +92,16 @@ interface AuthProviderProps {
 export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
   const [user, setUser] = useState<User | null>(null);
   const [isLoading, setIsLoading] = useState(true);
+  // Credentials were accepted but the second factor is still outstanding. No tokens
+  // are stored until it is verified, so the user is not authenticated in the meantime
+  const [otpChallenge, setOtpChallenge] = useState<OtpChallenge | null>(null);
+  const [sessionEndReason, setSessionEndReason] = useState<SessionEndReason | null>(null);
 
   const loadUser = useCallback(async () => {
     try {
+      // Point the API client at the saved server before the first request
+      await serverProfiles.initialize();
+
       const token = await SecureStore.getItemAsync('authToken');
       if (!token) {
         setUser(null);
@@ -77,11 +111,15 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
 
       const response = await getProfile();
       if (response.success && response.data) {
+        await referenceCache.setScope(accessScope(response.data));
+        await SecureStore.setItemAsync('user', JSON.stringify(response.data)).catch(() => {});
         setUser(response.data);
+      } else if (await SecureStore.getItemAsync('authToken')) {
+        // The API client only clears the tokens once the refresh token is rejected, so
+        // this was a transient failure: keep the session with the last profile loaded
+        const cachedUser = await SecureStore.getItemAsync('user');
+        setUser(current => current ?? (cachedUser ? JSON.parse(cachedUser) : null));
       } else {
-        // Token might be invalid, clear it
-        await SecureStore.deleteItemAsync('authToken');
-        await SecureStore.deleteItemAsync('refreshToken');
         setUser(null);
       }
     } catch (error) {
@@ -96,12 +134,49 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     loadUser();
   }, [loadUser]);
 
+  // Register this device for push once signed in, whether by login or a restored session
+  const userId = user?.id;
+  useEffect(() => {
+    if (!userId) return;
+    pushNotifications.register().catch(() => {});
+  }, [userId]);
+
+  // Refresh the access token before it expires for as long as someone is signed in
+  useEffect(() => {
+    if (!userId) return;
+    return sessionRefresh.start();
+  }, [userId]);
+
+  // The API client already cleared the tokens and headed to login; drop what belonged to the session
+  useEffect(() => {
+    return onSessionExpired(reason => {
+      referenceCache.clear();
+      appLock.reset();
+      setSessionEndReason(reason);
+      setUser(null);
+    });
+  }, []);
+
+  const startOtpChallenge = useCallback((challenge: OtpChallenge) => {
+    setOtpChallenge(challenge);
+  }, []);
+
+  const updateOtpChallenge = useCallback((changes: Partial<OtpChallenge>) => {
+    setOtpChallenge(current => (current ? { ...current, ...changes } : current));
+  }, []);
+
+  const cancelOtpChallenge = useCallback(() => {
+    setOtpChallenge(null);
+  }, []);
+
   const login = useCallback(async (token: string, refreshToken?: string) => {
     await SecureStore.setItemAsync('authToken', token);
     if (refreshToken) {
       await SecureStore.setItemAsync('refreshToken', refreshToken);
     }
     await loadUser();
+    setOtpChallenge(null);
+    setSessionEndReason(null);
   }, [loadUser]);
 
   const logout = useCallback(async () => {
@@ -109,13 +184,19 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
       // Import setLoggingOut here to avoid circular dependency
       const { setLoggingOut } = await import('../api/client');
 
-      // Set flag FIRST to block any new requests from other components
+      // Drop the push token while the auth token can still authorize the call
+      await pushNotifications.unregister().catch(() => {});
+
+      // Revoke the session on the server and at the SSO provider, and clear the tokens,
+      // BEFORE setting user to null so any triggered API calls are rejected
+      await apiLogout();
+
+      // Set flag to block any new requests from other components
       setLoggingOut(true);
 
-      // Clear local tokens BEFORE setting user to null
-      // This ensures any triggered API calls will be rejected due to no token
-      await SecureStore.deleteItemAsync('authToken');
-      await SecureStore.deleteItemAsync('refreshToken');
+      await SecureStore.deleteItemAsync('user');
+      await referenceCache.clear();
+      await appLock.reset();
 
       // Navigate to login BEFORE setting user to null
       // This unmounts components before they can react to user change
@@ -135,11 +216,39 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
       // If import fails, just clear tokens and navigate
       await SecureStore.deleteItemAsync('authToken');
       await SecureStore.deleteItemAsync('refreshToken');
+      await SecureStore.deleteItemAsync('user');
+      await referenceCache.clear();
+      await appLock.reset();
       router.replace('/login');
       setUser(null);
     }
   }, []);
 
+  // Session data belongs to the server it came from, so switching drops the
+  // session and the push registration. Queued submissions stay in the outbox,
+  // which only sends them to the server they were made on
+  const switchServer = useCallback(async (profileId: string) => {
+    await serverProfiles.initialize();
+    if (profileId === serverProfiles.getActiveProfile().id) return;
+
+    if (user) {
+      await pushNotifications.unregister().catch(() => {});
+    }
+    await pushNotifications.reset();
+    await referenceCache.clear();
+    await appLock.reset();
+
+    await SecureStore.deleteItemAsync('authToken');
+    await SecureStore.deleteItemAsync('refreshToken');
+    await SecureStore.deleteItemAsync('user');
+    await forgetSsoSession();
+
+    await serverProfiles.activate(profileId);
+    setOtpChallenge(null);
+    setSessionEndReason(null);
+    setUser(null);
+  }, [user]);
+
   const refreshUser = useCallback(async () => {
     await loadUser();
   }, [loadUser]);
@@ -174,8 +283,14 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     user,
     isAuthenticated: !!user,
     isLoading,
+    otpChallenge,
+    sessionEndReason,
+    startOtpChallenge,
+    updateOtpChallenge,
+    cancelOtpChallenge,
     login,
     logout,
+    switchServer,
     refreshUser,
     hasPermission,
     hasAnyPermission,
@@ -0,0 +1,23 @@
+import { useEffect, useState } from 'react';
+import { appLock, AppLockState } from '../utils/appLock';
+
+export const useAppLock = () => {
+  const [state, setState] = useState<AppLockState | null>(null);
+
+  useEffect(() => {
+    return appLock.subscribe(setState);
+  }, []);
+
+  return {
+    // Null until the saved settings have been read
+    state,
+    setPin: (pin: string) => appLock.setPin(pin),
+    disable: () => appLock.disable(),
+    setBiometrics: (enabled: boolean) => appLock.setBiometrics(enabled),
+    setTimeoutSeconds: (seconds: number) => appLock.setTimeoutSeconds(seconds),
+    verifyPin: (pin: string) => appLock.verifyPin(pin),
+    unlockWithBiometrics: () => appLock.unlockWithBiometrics(),
+  };
+};
+
+export default useAppLock;
@@ -0,0 +1,35 @@
+import { useEffect, useState } from 'react';
+import { RecordType } from '../api/workflow';
+import { RECORD_PERMISSIONS } from '../constants/permissions';
+import { BULK_ACTIONS, BulkAction } from '../utils/bulkActions';
+import { usePermissions } from './usePermissions';
+
+/**
+ * Multi-select state for a record list. Selection mode lasts while anything is
+ * selected; a new listKey (what the list shows: its filters, tab, ...) starts over.
+ */
+export const useBulkSelection = (recordType: RecordType, listKey = '') => {
+  const { hasPermission } = usePermissions();
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+
+  useEffect(() => {
+    setSelectedIds([]);
+  }, [recordType, listKey]);
+
+  const canRun = (action: BulkAction) => hasPermission(RECORD_PERMISSIONS[recordType][action]);
+
+  return {
+    selectedIds,
+    selecting: selectedIds.length > 0,
+    // Long-press only starts selecting when at least one bulk action is allowed
+    enabled: BULK_ACTIONS.some(canRun),
+    canRun,
+    isSelected: (id: string) => selectedIds.includes(id),
+    toggle: (id: string) =>
+      setSelectedIds(prev => (prev.includes(id) ? prev.filter(item => item !== id) : [...prev, id])),
+    selectAll: (ids: string[]) => setSelectedIds(ids),
+    clear: () => setSelectedIds([]),
+  };
+};
+
+export default useBulkSelection;
@@ -0,0 +1,26 @@
+import { useEffect, useState } from 'react';
+
+const secondsUntil = (targetTime: number | null | undefined): number =>
+  targetTime ? Math.max(0, Math.ceil((targetTime - Date.now()) / 1000)) : 0;
+
+// Seconds remaining until the given epoch milliseconds, ticking once a second
+export const useCountdown = (targetTime: number | null | undefined): number => {
+  const [remaining, setRemaining] = useState(() => secondsUntil(targetTime));
+
+  useEffect(() => {
+    setRemaining(secondsUntil(targetTime));
+    if (!targetTime) return;
+
+    const interval = setInterval(() => {
+      const next = secondsUntil(targetTime);
+      setRemaining(next);
+      if (next <= 0) clearInterval(interval);
+    }, 1000);
+
+    return () => clearInterval(interval);
+  }, [targetTime]);
+
+  return remaining;
+};
+
+export default useCountdown;
@@ -0,0 +1,57 @@
+import { useEffect, useState } from 'react';
+import { SearchHit } from '../api/models';
+import { searchRecords } from '../api/records';
+import { RecordType } from '../api/workflow';
+import { MIN_SEARCH_LENGTH } from '../utils/globalSearch';
+
+const SEARCH_DEBOUNCE_MS = 350;
+
+interface SearchState {
+  // Query the hits belong to, which trails the typed one while a search runs
+  query: string;
+  hits: SearchHit[];
+  loading: boolean;
+  error: string;
+}
+
+const IDLE: SearchState = { query: '', hits: [], loading: false, error: '' };
+
+/**
+ * Server search that follows the typed query: waits for a pause in typing,
+ * then aborts whatever request is still running for an older query.
+ */
+export const useGlobalSearch = (query: string, recordTypes: RecordType[]) => {
+  const [state, setState] = useState<SearchState>(IDLE);
+  const trimmed = query.trim();
+  const typesKey = recordTypes.join(',');
+
+  useEffect(() => {
+    if (trimmed.length < MIN_SEARCH_LENGTH || !typesKey) {
+      setState(IDLE);
+      return;
+    }
+
+    setState(prev => ({ ...prev, loading: true }));
+    const controller = new AbortController();
+    const timer = setTimeout(async () => {
+      const response = await searchRecords(trimmed, {
+        recordTypes: typesKey.split(',') as RecordType[],
+        signal: controller.signal,
+      });
+      // Superseded by a newer query; its own search reports instead
+      if (controller.signal.aborted) return;
+      setState(response.success
+        ? { query: trimmed, hits: response.data, loading: false, error: '' }
+        : { query: trimmed, hits: [], loading: false, error: response.error });
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [trimmed, typesKey]);
+
+  return state;
+};
+
+export default useGlobalSearch;
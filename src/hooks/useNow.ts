@@ -0,0 +1,18 @@
+import { useEffect, useState } from 'react';
+
+// Current epoch milliseconds, refreshed every intervalMs; pass null to stop ticking
+export const useNow = (intervalMs: number | null): number => {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    setNow(Date.now());
+    if (!intervalMs) return;
+
+    const interval = setInterval(() => setNow(Date.now()), intervalMs);
+    return () => clearInterval(interval);
+  }, [intervalMs]);
+
+  return now;
+};
+
+export default useNow;
@@ -0,0 +1,32 @@
+import { useEffect, useState } from 'react';
+import { useAuth } from '../context/AuthContext';
+import { outbox, OutboxItem } from '../utils/outbox';
+import { useServerProfiles } from './useServerProfiles';
+
+export const useOutbox = () => {
+  const { user } = useAuth();
+  const { activeProfile } = useServerProfiles();
+  const [items, setItems] = useState<OutboxItem[]>([]);
+
+  useEffect(() => {
+    return outbox.subscribe(setItems);
+  }, []);
+
+  // Only show submissions made on this server by the signed-in user
+  const serverItems = items.filter(item => item.serverId === activeProfile.id);
+  const userItems = serverItems.filter(item => !item.userId || item.userId === user?.id);
+
+  return {
+    items: userItems,
+    unsentCount: userItems.filter(item => item.status !== 'sent').length,
+    // Everyone's, for warning before leaving this server from the signed-out login screen
+    serverUnsentCount: serverItems.filter(item => item.status !== 'sent').length,
+    failedCount: userItems.filter(item => item.status === 'failed').length,
+    sync: () => outbox.processQueue(user?.id),
+    retry: (id: string) => outbox.retry(id, user?.id),
+    remove: (id: string) => outbox.remove(id),
+    clearSent: () => outbox.clearSent(),
+  };
+};
+
+export default useOutbox;
@@ -1,5 +1,6 @@
 import { useAuth } from '../context/AuthContext';
 import { PERMISSIONS } from '../constants/permissions';
+import { getRoutePermissions, RouteParams } from '../constants/routePermissions';
 
 export const usePermissions = () => {
   const { user, hasPermission, hasAnyPermission, hasAllPermissions, hasRole } = useAuth();
@@ -15,6 +16,12 @@ export const usePermissions = () => {
     isSuperAdmin: user?.is_super_admin ?? false,
     isAuthenticated: !!user,
 
+    // Route access, per the map in src/constants/routePermissions.ts
+    canAccessRoute: (route: string, params?: RouteParams) => {
+      const required = getRoutePermissions(route, params);
+      return !required || hasAnyPermission(required);
+    },
+
     // Incident permissions
     canViewIncidents: () => hasPermission(PERMISSIONS.INCIDENTS_VIEW),
     canViewAllIncidents: () => hasPermission(PERMISSIONS.INCIDENTS_VIEW_ALL),
@@ -0,0 +1,39 @@
+import { useEffect, useState } from 'react';
+import { useAuth } from '../context/AuthContext';
+import { RecordType } from '../api/workflow';
+import { SavedView, savedViews, ViewFilters } from '../utils/savedViews';
+import { useServerProfiles } from './useServerProfiles';
+
+export const useSavedViews = (recordType: RecordType) => {
+  const { user } = useAuth();
+  const { activeProfile } = useServerProfiles();
+  const [allViews, setAllViews] = useState<SavedView[]>([]);
+  const [loaded, setLoaded] = useState(false);
+
+  useEffect(() => {
+    return savedViews.subscribe(nextViews => {
+      setAllViews(nextViews);
+      setLoaded(true);
+    });
+  }, []);
+
+  const owner = { userId: user?.id, serverId: activeProfile.id };
+
+  // Only the signed-in user's views for this record type on the active server
+  const views = allViews
+    .filter(view => view.recordType === recordType && view.userId === owner.userId && view.serverId === owner.serverId)
+    .sort((a, b) => a.name.localeCompare(b.name));
+
+  return {
+    views,
+    pinnedViews: views.filter(view => view.pinned),
+    defaultView: views.find(view => view.isDefault) ?? null,
+    loaded,
+    saveView: (name: string, filters: ViewFilters) => savedViews.save(owner, { recordType, name, filters }),
+    setPinned: (id: string, pinned: boolean) => savedViews.setPinned(id, pinned),
+    toggleDefault: (id: string) => savedViews.toggleDefault(id),
+    removeView: (id: string) => savedViews.remove(id),
+  };
+};
+
+export default useSavedViews;
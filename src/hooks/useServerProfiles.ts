@@ -0,0 +1,25 @@
+import { useEffect, useState } from 'react';
+import { useAuth } from '../context/AuthContext';
+import { ServerProfile, serverProfiles } from '../utils/serverProfiles';
+
+export const useServerProfiles = () => {
+  const { switchServer } = useAuth();
+  const [profiles, setProfiles] = useState<ServerProfile[]>(() => serverProfiles.getProfiles());
+  const [activeProfile, setActiveProfile] = useState<ServerProfile>(() => serverProfiles.getActiveProfile());
+
+  useEffect(() => {
+    return serverProfiles.subscribe((nextProfiles, nextActive) => {
+      setProfiles(nextProfiles);
+      setActiveProfile(nextActive);
+    });
+  }, []);
+
+  return {
+    profiles,
+    activeProfile,
+    switchServer,
+    removeProfile: (id: string) => serverProfiles.removeProfile(id),
+  };
+};
+
+export default useServerProfiles;
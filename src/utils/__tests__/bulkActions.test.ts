@@ -0,0 +1,91 @@
+import { AvailableTransition, Transition } from '@/src/api/models';
+import { commonTransitions } from '@/src/utils/bulkActions';
+
+const available = (
+  id: string,
+  overrides: Partial<Transition> = {},
+  entry: Partial<AvailableTransition> = {}
+): AvailableTransition => ({
+  can_execute: true,
+  transition: { id, name: id, ...overrides },
+  ...entry,
+});
+
+const comment = (is_mandatory: boolean) => ({ requirement_type: 'comment', is_mandatory });
+
+describe('commonTransitions', () => {
+  it('has nothing in common for an empty selection', () => {
+    expect(commonTransitions([])).toEqual({ transitions: [], skipped: 0 });
+  });
+
+  it("keeps only transitions every record can take, in the first record's order", () => {
+    const result = commonTransitions([
+      [available('resolve'), available('escalate'), available('close')],
+      [available('close'), available('resolve')],
+    ]);
+
+    expect(result.transitions.map(entry => entry.transition.id)).toEqual(['resolve', 'close']);
+    expect(result.skipped).toBe(0);
+  });
+
+  it('drops a transition one record cannot execute', () => {
+    const result = commonTransitions([
+      [available('resolve'), available('close')],
+      [available('resolve', {}, { can_execute: false, reason: 'Assignee only' }), available('close')],
+    ]);
+
+    expect(result.transitions.map(entry => entry.transition.id)).toEqual(['close']);
+    expect(result.skipped).toBe(0);
+  });
+
+  it('skips shared transitions that need input per record', () => {
+    const result = commonTransitions([
+      [
+        available('assign', { manual_select_user: true }),
+        available('attach', {}, { requirements: [{ requirement_type: 'attachment', is_mandatory: true }] }),
+        available('reclassify', { field_changes: [{ field_name: 'classification_id', is_required: true }] }),
+        available('resolve'),
+      ],
+      [available('assign'), available('attach'), available('reclassify'), available('resolve')],
+    ]);
+
+    expect(result.transitions.map(entry => entry.transition.id)).toEqual(['resolve']);
+    expect(result.skipped).toBe(3);
+  });
+
+  it('skips a transition that needs input on any one record', () => {
+    const result = commonTransitions([
+      [available('resolve')],
+      [available('resolve', { requirements: [{ requirement_type: 'feedback', is_mandatory: true }] })],
+    ]);
+
+    expect(result).toEqual({ transitions: [], skipped: 1 });
+  });
+
+  it('keeps transitions whose per-record input is optional', () => {
+    const result = commonTransitions([
+      [available('resolve', { field_changes: [{ field_name: 'department_id' }] },
+        { requirements: [{ requirement_type: 'attachment', is_mandatory: false }] })],
+    ]);
+
+    expect(result.transitions).toHaveLength(1);
+  });
+
+  it('asks for a comment when any record requires one', () => {
+    const result = commonTransitions([
+      [available('resolve', {}, { requirements: [comment(false)] })],
+      [available('resolve', {}, { requirements: [comment(true)] })],
+      [available('resolve')],
+    ]);
+
+    expect(result.transitions[0]).toMatchObject({ commentRequired: true, commentAllowed: true });
+  });
+
+  it('offers an optional comment only when a record takes one', () => {
+    const withOptional = commonTransitions([[available('resolve', { requirements: [comment(false)] })]]);
+    const without = commonTransitions([[available('resolve')]]);
+
+    expect(withOptional.transitions[0]).toMatchObject({ commentRequired: false, commentAllowed: true });
+    expect(without.transitions[0]).toMatchObject({ commentRequired: false, commentAllowed: false });
+  });
+});
@@ -0,0 +1,163 @@
+import { SearchHit } from '@/src/api/models';
+import {
+  findNumberHit,
+  highlightParts,
+  isRecordNumberQuery,
+  matchesOf,
+  recentSearches,
+  suggestionsFor,
+} from '@/src/utils/globalSearch';
+
+const hit = (overrides: Partial<SearchHit> = {}): SearchHit => ({
+  id: 'rec-1',
+  incident_number: 'INC-1042',
+  title: 'Water leak',
+  ...overrides,
+} as SearchHit);
+
+describe('isRecordNumberQuery', () => {
+  it('recognises record numbers with or without a dash', () => {
+    expect(isRecordNumberQuery('INC-1042')).toBe(true);
+    expect(isRecordNumberQuery('req 77')).toBe(true);
+    expect(isRecordNumberQuery('comp123')).toBe(true);
+  });
+
+  it('needs a digit and at most two words', () => {
+    expect(isRecordNumberQuery('incident')).toBe(false);
+    expect(isRecordNumberQuery('inc 10 pump')).toBe(false);
+  });
+
+  it('needs a known prefix', () => {
+    expect(isRecordNumberQuery('1042')).toBe(false);
+    expect(isRecordNumberQuery('TASK-1')).toBe(false);
+  });
+});
+
+describe('findNumberHit', () => {
+  const hits = [hit({ id: 'a', incident_number: 'INC-10' }), hit({ id: 'b', incident_number: 'INC-1042' })];
+
+  it('finds the hit whose number is the query, ignoring case, spaces and dashes', () => {
+    expect(findNumberHit(hits, 'inc 1042')?.id).toBe('b');
+    expect(findNumberHit(hits, 'INC10')?.id).toBe('a');
+  });
+
+  it('does not match on a number prefix', () => {
+    expect(findNumberHit(hits, 'INC-104')).toBeUndefined();
+  });
+
+  it('ignores queries that are not numbers', () => {
+    expect(findNumberHit([hit({ incident_number: 'INC' })], 'inc')).toBeUndefined();
+  });
+});
+
+describe('highlightParts', () => {
+  it('marks every term regardless of case', () => {
+    expect(highlightParts('Leak near the water tank', 'water LEAK')).toEqual([
+      { text: 'Leak', match: true },
+      { text: ' near the ', match: false },
+      { text: 'water', match: true },
+      { text: ' tank', match: false },
+    ]);
+  });
+
+  it('treats regular expression characters literally', () => {
+    expect(highlightParts('Cost (est.) 5$', '(est.)')).toEqual([
+      { text: 'Cost ', match: false },
+      { text: '(est.)', match: true },
+      { text: ' 5$', match: false },
+    ]);
+  });
+
+  it('returns the text unmarked for a blank query', () => {
+    expect(highlightParts('Water leak', '  ')).toEqual([{ text: 'Water leak', match: false }]);
+  });
+});
+
+describe('matchesOf', () => {
+  it("keeps the server's matches, without title and number", () => {
+    const reported = hit({
+      matches: [
+        { field: 'title', snippet: 'Water leak' },
+        { field: 'incident_number' },
+        { field: 'reporter_email', snippet: 'water@example.com' },
+      ],
+      description: 'water everywhere',
+    });
+
+    expect(matchesOf(reported, 'water')).toEqual([{ field: 'reporter_email', snippet: 'water@example.com' }]);
+  });
+
+  it('finds matches in the returned fields when the server reports none', () => {
+    const found = hit({
+      description: 'Pipe burst',
+      reporter_name: 'Jane Pipe',
+      reporter: { email: 'jane@example.com' } as SearchHit['reporter'],
+      comments: [
+        { content: 'Plumber called about the pipe' },
+        { content: 'Pipe fixed' },
+      ] as SearchHit['comments'],
+    });
+
+    expect(matchesOf(found, 'pipe')).toEqual([
+      { field: 'description', snippet: 'Pipe burst' },
+      { field: 'reporter_name', snippet: 'Jane Pipe' },
+      { field: 'comments', snippet: 'Plumber called about the pipe' },
+    ]);
+  });
+
+  it('cuts long text down to the context around the first match', () => {
+    const description = `${'a'.repeat(60)} leak ${'b'.repeat(60)}`;
+    const [match] = matchesOf(hit({ description }), 'leak');
+
+    expect(match.snippet).toBe(`…${'a'.repeat(39)} leak ${'b'.repeat(39)}…`);
+  });
+});
+
+describe('suggestionsFor', () => {
+  const recent = ['pump failure', 'INC-1042', 'Pump room', 'leak', 'power', 'parking', 'pumps'];
+
+  it('offers the latest searches before anything is typed', () => {
+    expect(suggestionsFor(recent, ' ')).toEqual(recent.slice(0, 5));
+  });
+
+  it('offers searches containing what is typed, but not the typed text itself', () => {
+    expect(suggestionsFor(recent, 'PUMP')).toEqual(['pump failure', 'Pump room', 'pumps']);
+    expect(suggestionsFor(recent, 'leak')).toEqual([]);
+  });
+});
+
+describe('recentSearches', () => {
+  it('moves a repeated search to the top, ignoring case', async () => {
+    const owner = { userId: 'user-1', serverId: 'server-1' };
+    await recentSearches.add(owner, 'leak');
+    await recentSearches.add(owner, 'pump');
+
+    expect(await recentSearches.add(owner, '  LEAK ')).toEqual(['LEAK', 'pump']);
+  });
+
+  it('ignores searches shorter than the minimum', async () => {
+    const owner = { userId: 'user-2' };
+
+    expect(await recentSearches.add(owner, ' a ')).toEqual([]);
+  });
+
+  it('keeps the ten latest searches', async () => {
+    const owner = { userId: 'user-3' };
+    for (let i = 1; i <= 12; i++) {
+      await recentSearches.add(owner, `search ${i}`);
+    }
+
+    const list = await recentSearches.list(owner);
+    expect(list).toHaveLength(10);
+    expect(list[0]).toBe('search 12');
+    expect(list[9]).toBe('search 3');
+  });
+
+  it("keeps each owner's searches apart", async () => {
+    await recentSearches.add({ userId: 'user-4', serverId: 'server-1' }, 'leak');
+
+    expect(await recentSearches.list({ userId: 'user-4', serverId: 'server-2' })).toEqual([]);
+    expect(await recentSearches.clear({ userId: 'user-4', serverId: 'server-1' })).toEqual([]);
+    expect(await recentSearches.list({ userId: 'user-4', serverId: 'server-1' })).toEqual([]);
+  });
+});
@@ -0,0 +1,122 @@
+import { getMyAssignedIncidents, getMyReportedIncidents } from '@/src/api/incidents';
+import { Incident } from '@/src/api/models';
+import { PaginatedResult } from '@/src/api/result';
+import { InboxBaseline, InboxFeed, markerOf, recordTypeOf } from '@/src/utils/inbox';
+
+jest.mock('@/src/api/incidents', () => ({
+  getMyAssignedIncidents: jest.fn(),
+  getMyReportedIncidents: jest.fn(),
+}));
+
+const mockedAssigned = jest.mocked(getMyAssignedIncidents);
+const mockedReported = jest.mocked(getMyReportedIncidents);
+
+const record = (id: string, created_at: string, overrides: Partial<Incident> = {}): Incident => ({
+  id,
+  incident_number: `INC-${id}`,
+  title: `Record ${id}`,
+  created_at,
+  ...overrides,
+} as Incident);
+
+const page = (records: Incident[], pageNo = 1, totalPages = 1): PaginatedResult<Incident> => ({
+  success: true,
+  data: records,
+  pagination: { page: pageNo, limit: 20, total_items: records.length, total_pages: totalPages },
+});
+
+describe('markerOf', () => {
+  const since = '2026-03-10T09:00:00Z';
+  const baseline = (opened: InboxBaseline['opened'] = {}): InboxBaseline => ({ since, opened });
+
+  it('marks nothing on the first visit', () => {
+    expect(markerOf(record('1', '2026-03-11T09:00:00Z'), { since: null, opened: {} })).toBeNull();
+  });
+
+  it('marks records created since the previous visit as new until they are opened', () => {
+    const created = record('1', '2026-03-11T09:00:00Z');
+
+    expect(markerOf(created, baseline())).toBe('new');
+    expect(markerOf(created, baseline({ '1': '2026-03-11T09:00:00Z' }))).toBeNull();
+  });
+
+  it('marks older records changed since the previous visit as updated', () => {
+    expect(markerOf(record('1', '2026-03-01T09:00:00Z', { updated_at: '2026-03-11T09:00:00Z' }), baseline()))
+      .toBe('updated');
+    expect(markerOf(record('1', '2026-03-01T09:00:00Z', { updated_at: '2026-03-09T09:00:00Z' }), baseline()))
+      .toBeNull();
+  });
+
+  it('compares against the last open when it came after the previous visit', () => {
+    const changed = record('1', '2026-03-01T09:00:00Z', { updated_at: '2026-03-11T09:00:00Z' });
+
+    expect(markerOf(changed, baseline({ '1': '2026-03-12T09:00:00Z' }))).toBeNull();
+    expect(markerOf(changed, baseline({ '1': '2026-03-10T12:00:00Z' }))).toBe('updated');
+  });
+});
+
+describe('recordTypeOf', () => {
+  it('prefers the record type and falls back to the number prefix', () => {
+    expect(recordTypeOf(record('1', '2026-03-01T09:00:00Z', { record_type: 'query' }))).toBe('query');
+    expect(recordTypeOf(record('1', '2026-03-01T09:00:00Z', { incident_number: 'comp-12' }))).toBe('complaint');
+    expect(recordTypeOf(record('1', '2026-03-01T09:00:00Z', { incident_number: '12' }))).toBe('incident');
+  });
+});
+
+describe('InboxFeed', () => {
+  beforeEach(() => {
+    mockedAssigned.mockReset();
+    mockedReported.mockReset();
+  });
+
+  it('merges both lists newest first', async () => {
+    mockedAssigned.mockResolvedValueOnce(page([record('a3', '2026-03-03T00:00:00Z'), record('a1', '2026-03-01T00:00:00Z')]));
+    mockedReported.mockResolvedValueOnce(page([record('r4', '2026-03-04T00:00:00Z'), record('r2', '2026-03-02T00:00:00Z')]));
+
+    const result = await new InboxFeed().loadMore();
+
+    expect(result.data?.map(item => item.record.id)).toEqual(['r4', 'a3', 'r2', 'a1']);
+    expect(result.data?.map(item => item.sources)).toEqual([['reported'], ['assigned'], ['reported'], ['assigned']]);
+  });
+
+  it('shows a record on both lists once, with both sources, and does not count it twice', async () => {
+    const shared = record('s', '2026-03-05T00:00:00Z');
+    mockedAssigned.mockResolvedValueOnce(page([shared, record('a1', '2026-03-01T00:00:00Z')]));
+    mockedReported.mockResolvedValueOnce(page([shared, record('r4', '2026-03-04T00:00:00Z')]));
+    const feed = new InboxFeed(2);
+
+    const first = await feed.loadMore();
+    expect(first.data?.map(item => item.record.id)).toEqual(['s', 'r4']);
+    expect(first.data?.[0].sources).toEqual(['assigned', 'reported']);
+    expect(feed.hasMore).toBe(true);
+
+    const second = await feed.loadMore();
+    expect(second.data?.map(item => item.record.id)).toEqual(['s', 'r4', 'a1']);
+    expect(feed.hasMore).toBe(false);
+  });
+
+  it('fetches the next page of a list once its buffer runs out', async () => {
+    mockedAssigned
+      .mockResolvedValueOnce(page([record('a2', '2026-03-02T00:00:00Z')], 1, 2))
+      .mockResolvedValueOnce(page([record('a1', '2026-03-01T00:00:00Z')], 2, 2));
+    mockedReported.mockResolvedValueOnce(page([]));
+
+    const result = await new InboxFeed().loadMore();
+
+    expect(result.data?.map(item => item.record.id)).toEqual(['a2', 'a1']);
+    expect(mockedAssigned.mock.calls).toEqual([[1, 20], [2, 20]]);
+    expect(mockedReported).toHaveBeenCalledTimes(1);
+  });
+
+  it('passes a failed fetch on', async () => {
+    mockedAssigned.mockResolvedValueOnce(page([record('a1', '2026-03-01T00:00:00Z')]));
+    mockedReported.mockResolvedValueOnce({
+      success: false,
+      error: 'Network Error',
+      isNetworkError: true,
+      pagination: { page: 1, limit: 20, total_items: 0, total_pages: 0 },
+    });
+
+    expect(await new InboxFeed().loadMore()).toMatchObject({ success: false, isNetworkError: true });
+  });
+});
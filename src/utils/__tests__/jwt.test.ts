@@ -0,0 +1,60 @@
+import { getTokenExpiry, isTokenExpiring, TOKEN_EXPIRY_MARGIN_MS } from '@/src/utils/jwt';
+
+const NOW = new Date('2026-03-01T10:00:00Z').getTime();
+
+const base64Url = (value: string) =>
+  btoa(value).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+const tokenWith = (claims: Record<string, unknown>) =>
+  `${base64Url(JSON.stringify({ alg: 'HS256', typ: 'JWT' }))}.${base64Url(JSON.stringify(claims))}.signature`;
+
+describe('getTokenExpiry', () => {
+  it('reads the exp claim in milliseconds', () => {
+    expect(getTokenExpiry(tokenWith({ sub: 'user-1', exp: 1772359200 }))).toBe(1772359200000);
+  });
+
+  it('decodes url-safe payloads that need padding', () => {
+    // This payload encodes with a '-' and two stripped '=' characters
+    expect(getTokenExpiry(tokenWith({ name: '?>', note: '>>>', exp: 1 }))).toBe(1000);
+  });
+
+  it('returns null for tokens without an expiry', () => {
+    expect(getTokenExpiry(tokenWith({ sub: 'user-1' }))).toBeNull();
+    expect(getTokenExpiry(tokenWith({ exp: '1772359200' }))).toBeNull();
+  });
+
+  it('returns null for opaque or malformed tokens', () => {
+    expect(getTokenExpiry('opaque-session-token')).toBeNull();
+    expect(getTokenExpiry('header.not-json.signature')).toBeNull();
+    expect(getTokenExpiry('')).toBeNull();
+  });
+});
+
+describe('isTokenExpiring', () => {
+  beforeEach(() => {
+    jest.useFakeTimers({ now: NOW });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  const expiringIn = (ms: number) => tokenWith({ exp: (NOW + ms) / 1000 });
+
+  it('is false while the token has more than the margin left', () => {
+    expect(isTokenExpiring(expiringIn(TOKEN_EXPIRY_MARGIN_MS + 1000))).toBe(false);
+  });
+
+  it('is true once the token is within the margin', () => {
+    expect(isTokenExpiring(expiringIn(TOKEN_EXPIRY_MARGIN_MS))).toBe(true);
+    expect(isTokenExpiring(expiringIn(-1000))).toBe(true);
+  });
+
+  it('uses the margin it is given', () => {
+    expect(isTokenExpiring(expiringIn(5 * 60 * 1000), 10 * 60 * 1000)).toBe(true);
+  });
+
+  it('never treats a token without an expiry as expiring', () => {
+    expect(isTokenExpiring('opaque-session-token')).toBe(false);
+  });
+});
@@ -0,0 +1,59 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { clearOtpLockout, getOtpLockout, lockOtp, OTP_LOCKOUT_MINUTES } from '@/src/utils/otpLockout';
+
+const NOW = new Date('2026-03-01T10:00:00Z').getTime();
+
+describe('otpLockout', () => {
+  beforeEach(async () => {
+    jest.useFakeTimers({ now: NOW });
+    await AsyncStorage.clear();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('is not locked when nothing was stored', async () => {
+    expect(await getOtpLockout('user@example.com')).toBeNull();
+  });
+
+  it('locks for the default period when the server sends no end time', async () => {
+    const until = await lockOtp('user@example.com');
+
+    expect(until.getTime()).toBe(NOW + OTP_LOCKOUT_MINUTES * 60 * 1000);
+    expect(await getOtpLockout('user@example.com')).toEqual(until);
+  });
+
+  it("honours the server's locked_until", async () => {
+    const until = await lockOtp('user@example.com', '2026-03-01T12:30:00Z');
+
+    expect(until.toISOString()).toBe('2026-03-01T12:30:00.000Z');
+  });
+
+  it('falls back to the default period when locked_until is not a date', async () => {
+    const until = await lockOtp('user@example.com', 'soon');
+
+    expect(until.getTime()).toBe(NOW + OTP_LOCKOUT_MINUTES * 60 * 1000);
+  });
+
+  it('keys lockouts by email regardless of case and spacing', async () => {
+    await lockOtp(' User@Example.com ');
+
+    expect(await getOtpLockout('user@example.com')).not.toBeNull();
+    expect(await getOtpLockout('other@example.com')).toBeNull();
+  });
+
+  it('releases the account once the lockout has passed', async () => {
+    await lockOtp('user@example.com');
+
+    jest.setSystemTime(NOW + OTP_LOCKOUT_MINUTES * 60 * 1000);
+    expect(await getOtpLockout('user@example.com')).toBeNull();
+  });
+
+  it('clears a lockout early', async () => {
+    await lockOtp('user@example.com');
+    await clearOtpLockout('USER@example.com');
+
+    expect(await getOtpLockout('user@example.com')).toBeNull();
+  });
+});
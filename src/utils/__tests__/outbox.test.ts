@@ -0,0 +1,209 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as Network from 'expo-network';
+import { createRecord, uploadAttachment } from '@/src/api/records';
+import { EnqueueOptions, outbox } from '@/src/utils/outbox';
+
+jest.mock('expo-file-system/legacy', () => ({
+  documentDirectory: 'file:///documents/',
+  makeDirectoryAsync: jest.fn(() => Promise.resolve()),
+  copyAsync: jest.fn(() => Promise.resolve()),
+  deleteAsync: jest.fn(() => Promise.resolve()),
+}));
+
+jest.mock('expo-network', () => ({
+  getNetworkStateAsync: jest.fn(() => Promise.resolve({ isConnected: true, isInternetReachable: true })),
+  addNetworkStateListener: jest.fn(() => ({ remove: jest.fn() })),
+}));
+
+jest.mock('@/src/api/records', () => ({
+  createRecord: jest.fn(),
+  uploadAttachment: jest.fn(),
+}));
+
+jest.mock('@/src/utils/crashLogger', () => ({
+  crashLogger: {
+    logInfo: jest.fn(() => Promise.resolve()),
+    logWarning: jest.fn(() => Promise.resolve()),
+    logError: jest.fn(() => Promise.resolve()),
+  },
+}));
+
+const mockServer = { id: 'server-a' };
+jest.mock('@/src/utils/serverProfiles', () => ({
+  serverProfiles: {
+    initialize: jest.fn(() => Promise.resolve()),
+    getActiveProfile: () => ({ id: mockServer.id, name: mockServer.id, url: `https://${mockServer.id}.example.com` }),
+  },
+}));
+
+const STORAGE_KEY = '@outbox_items';
+
+const created = (id: string) => ({ success: true as const, data: { id, incident_number: `INC-${id}` } });
+const offline = { success: false as const, error: 'Network Error', isNetworkError: true };
+const rejected = { success: false as const, error: 'Title is required' };
+const uploaded = (name: string) => ({
+  success: true as const,
+  data: { id: `att-${name}`, file_name: name, mime_type: 'image/jpeg', file_size: 1024, created_at: '2026-03-01T10:00:00Z' },
+});
+
+const ticket = (overrides: Partial<EnqueueOptions> = {}): EnqueueOptions => ({
+  recordType: 'incident',
+  title: 'Broken pump',
+  payload: { title: 'Broken pump' },
+  userId: 'user-1',
+  ...overrides,
+});
+
+const mockedCreateRecord = jest.mocked(createRecord);
+const mockedUploadAttachment = jest.mocked(uploadAttachment);
+
+const statusOf = async (id: string) => (await outbox.getItems()).find(item => item.id === id)?.status;
+
+describe('outbox', () => {
+  // Saved by an earlier app version; the outbox reads storage on first use
+  beforeAll(async () => {
+    await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify([{
+      id: 'outbox_1',
+      recordType: 'incident',
+      title: 'Broken pump',
+      payload: { title: 'Broken pump' },
+      attachments: [],
+      status: 'uploading',
+      attempts: 1,
+      createdAt: '2026-03-01T10:00:00Z',
+      updatedAt: '2026-03-01T10:00:00Z',
+    }]));
+  });
+
+  beforeEach(() => {
+    mockServer.id = 'server-a';
+    mockedCreateRecord.mockReset();
+    mockedUploadAttachment.mockReset();
+  });
+
+  afterEach(async () => {
+    for (const item of await outbox.getItems()) {
+      await outbox.remove(item.id);
+    }
+  });
+
+  it('restores items saved by an earlier run, filling in what older versions left out', async () => {
+    expect(await outbox.getItems()).toEqual([expect.objectContaining({
+      id: 'outbox_1',
+      status: 'pending',
+      idempotencyKey: 'outbox_1',
+      serverId: 'server-a',
+    })]);
+  });
+
+  it('persists queued items with their owner, server and idempotency key', async () => {
+    const item = await outbox.enqueue(ticket());
+
+    expect(item).toMatchObject({ status: 'pending', userId: 'user-1', serverId: 'server-a', attempts: 0 });
+    expect(item.idempotencyKey).toEqual(expect.any(String));
+    expect(JSON.parse((await AsyncStorage.getItem(STORAGE_KEY))!)).toEqual([item]);
+  });
+
+  it('keeps the key of an online attempt that may have reached the server', async () => {
+    const item = await outbox.enqueue(ticket({ idempotencyKey: 'online-attempt-key' }));
+
+    expect(item.idempotencyKey).toBe('online-attempt-key');
+  });
+
+  it('sends the key fixed at enqueue on every replay', async () => {
+    const item = await outbox.enqueue(ticket());
+    mockedCreateRecord.mockResolvedValueOnce(offline).mockResolvedValueOnce(created('rec-1'));
+
+    await outbox.processQueue('user-1');
+    await outbox.processQueue('user-1');
+
+    expect(mockedCreateRecord).toHaveBeenCalledTimes(2);
+    mockedCreateRecord.mock.calls.forEach(([, , options]) =>
+      expect(options).toEqual({ idempotencyKey: item.idempotencyKey })
+    );
+    expect(await statusOf(item.id)).toBe('sent');
+  });
+
+  it('replays oldest first and stops at the first item that is offline', async () => {
+    const first = await outbox.enqueue(ticket({ title: 'First', payload: { title: 'First' } }));
+    const second = await outbox.enqueue(ticket({ title: 'Second', payload: { title: 'Second' } }));
+    mockedCreateRecord.mockResolvedValueOnce(offline);
+
+    await outbox.processQueue('user-1');
+
+    expect(mockedCreateRecord).toHaveBeenCalledTimes(1);
+    expect(mockedCreateRecord.mock.calls[0][1]).toEqual({ title: 'First' });
+    expect(await statusOf(first.id)).toBe('pending');
+    expect(await statusOf(second.id)).toBe('pending');
+  });
+
+  it('marks a rejected item failed and moves on', async () => {
+    const first = await outbox.enqueue(ticket());
+    const second = await outbox.enqueue(ticket());
+    mockedCreateRecord.mockResolvedValueOnce(rejected).mockResolvedValueOnce(created('rec-2'));
+
+    await outbox.processQueue('user-1');
+
+    expect((await outbox.getItems()).find(item => item.id === first.id)).toMatchObject({
+      status: 'failed',
+      error: 'Title is required',
+    });
+    expect(await statusOf(second.id)).toBe('sent');
+  });
+
+  it("sends only the signed-in user's items, plus those without an owner", async () => {
+    const mine = await outbox.enqueue(ticket({ userId: 'user-1' }));
+    const theirs = await outbox.enqueue(ticket({ userId: 'user-2' }));
+    const unowned = await outbox.enqueue(ticket({ userId: undefined }));
+    mockedCreateRecord.mockResolvedValue(created('rec-3'));
+
+    await outbox.processQueue('user-1');
+
+    expect(mockedCreateRecord).toHaveBeenCalledTimes(2);
+    expect(await statusOf(mine.id)).toBe('sent');
+    expect(await statusOf(unowned.id)).toBe('sent');
+    expect(await statusOf(theirs.id)).toBe('pending');
+  });
+
+  it('keeps items for the server they were queued on', async () => {
+    const item = await outbox.enqueue(ticket());
+    mockedCreateRecord.mockResolvedValue(created('rec-4'));
+
+    mockServer.id = 'server-b';
+    await outbox.processQueue('user-1');
+    expect(mockedCreateRecord).not.toHaveBeenCalled();
+
+    mockServer.id = 'server-a';
+    await outbox.processQueue('user-1');
+    expect(await statusOf(item.id)).toBe('sent');
+  });
+
+  it('does nothing while the device is offline', async () => {
+    jest.mocked(Network.getNetworkStateAsync).mockResolvedValueOnce({ isConnected: false });
+    await outbox.enqueue(ticket());
+
+    await outbox.processQueue('user-1');
+
+    expect(mockedCreateRecord).not.toHaveBeenCalled();
+  });
+
+  it('resumes attachment uploads without creating the record again', async () => {
+    const item = await outbox.enqueue(ticket({
+      attachments: [{ uri: 'file:///a.jpg', name: 'a.jpg' }, { uri: 'file:///b.jpg', name: 'b.jpg' }],
+    }));
+    mockedCreateRecord.mockResolvedValue(created('rec-5'));
+    mockedUploadAttachment
+      .mockResolvedValueOnce(uploaded('a.jpg'))
+      .mockResolvedValueOnce(offline)
+      .mockResolvedValueOnce(uploaded('b.jpg'));
+
+    await outbox.processQueue('user-1');
+    expect(await statusOf(item.id)).toBe('pending');
+
+    await outbox.processQueue('user-1');
+    expect(mockedCreateRecord).toHaveBeenCalledTimes(1);
+    expect(mockedUploadAttachment).toHaveBeenCalledTimes(3);
+    expect(mockedUploadAttachment.mock.calls[2][2]).toMatchObject({ name: 'b.jpg' });
+    expect(await statusOf(item.id)).toBe('sent');
+  });
+});
@@ -0,0 +1,33 @@
+import { getUnmetPasswordRules, isPasswordValid, PASSWORD_MIN_LENGTH } from '@/src/utils/passwordPolicy';
+
+describe('passwordPolicy', () => {
+  it('reports every rule for an empty password', () => {
+    expect(getUnmetPasswordRules('')).toEqual(['minLength', 'digit', 'lowercase', 'symbol']);
+  });
+
+  it('accepts a password meeting every rule', () => {
+    expect(getUnmetPasswordRules('secret-42')).toEqual([]);
+    expect(isPasswordValid('secret-42')).toBe(true);
+  });
+
+  it('requires the minimum length exactly', () => {
+    const atLimit = 'a1!'.padEnd(PASSWORD_MIN_LENGTH, 'b');
+
+    expect(getUnmetPasswordRules(atLimit)).toEqual([]);
+    expect(getUnmetPasswordRules(atLimit.slice(1))).toEqual(['minLength']);
+  });
+
+  it('does not count upper case letters as lower case', () => {
+    expect(getUnmetPasswordRules('SECRET-42')).toEqual(['lowercase']);
+  });
+
+  it('counts spaces and non-Latin characters as symbols', () => {
+    expect(getUnmetPasswordRules('secret 42')).toEqual([]);
+    expect(getUnmetPasswordRules('secretكلمة42')).toEqual([]);
+  });
+
+  it('rejects a password missing a digit or a symbol', () => {
+    expect(isPasswordValid('secret-pass')).toBe(false);
+    expect(isPasswordValid('secret42pass')).toBe(false);
+  });
+});
@@ -0,0 +1,131 @@
+import { Incident, LookupCategory } from '@/src/api/models';
+import { buildEditPayload, changedFields, editValuesOf, rebaseEdits, RecordEditValues } from '@/src/utils/recordEdit';
+
+const base: RecordEditValues = {
+  title: 'Water leak',
+  description: 'Leak in the basement',
+  geolocation: { latitude: 24.7, longitude: 46.6, city: 'Riyadh' },
+  lookups: { 'cat-area': 'val-north' },
+  reporter_name: 'Jane',
+  reporter_email: 'jane@example.com',
+};
+
+const edit = (changes: Partial<RecordEditValues>): RecordEditValues => ({ ...base, ...changes });
+
+describe('changedFields', () => {
+  it('finds nothing between equal snapshots', () => {
+    expect(changedFields(base, edit({}))).toEqual([]);
+  });
+
+  it('ignores surrounding whitespace in text fields', () => {
+    expect(changedFields(base, edit({ title: '  Water leak ' }))).toEqual([]);
+  });
+
+  it('compares lookups and locations by value, whatever the key order', () => {
+    const reordered = edit({
+      geolocation: { city: 'Riyadh', longitude: 46.6, latitude: 24.7 },
+      lookups: { 'cat-area': 'val-north', 'cat-unset': undefined as unknown as string },
+    });
+
+    expect(changedFields(base, reordered)).toEqual([]);
+    expect(changedFields(base, edit({ lookups: { 'cat-area': 'val-south' } }))).toEqual(['lookups']);
+  });
+
+  it('lists changes in form order', () => {
+    expect(changedFields(base, edit({ reporter_email: '', title: 'Flood', geolocation: undefined })))
+      .toEqual(['title', 'geolocation', 'reporter_email']);
+  });
+});
+
+describe('rebaseEdits', () => {
+  it("keeps the user's changes and takes the server's for everything else", () => {
+    const edited = edit({ title: 'Flooded basement' });
+    const latest = edit({ description: 'Plumber on the way', reporter_name: 'Jane Doe' });
+
+    expect(rebaseEdits(base, edited, latest)).toEqual({
+      values: { ...latest, title: 'Flooded basement' },
+      conflicts: [],
+    });
+  });
+
+  it('flags fields both sides changed differently', () => {
+    const edited = edit({ title: 'Flooded basement', lookups: { 'cat-area': 'val-south' } });
+    const latest = edit({ title: 'Burst pipe', lookups: { 'cat-area': 'val-east' } });
+    const result = rebaseEdits(base, edited, latest);
+
+    expect(result.conflicts).toEqual(['title', 'lookups']);
+    expect(result.values.title).toBe('Flooded basement');
+    expect(result.values.lookups).toEqual({ 'cat-area': 'val-south' });
+  });
+
+  it('does not flag fields both sides changed the same way', () => {
+    const edited = edit({ title: 'Burst pipe', description: 'Mine' });
+    const latest = edit({ title: ' Burst pipe' });
+
+    expect(rebaseEdits(base, edited, latest).conflicts).toEqual([]);
+  });
+
+  it('keeps a field the user cleared', () => {
+    const edited = edit({ geolocation: undefined });
+    const latest = edit({ geolocation: { latitude: 25, longitude: 47 } });
+    const result = rebaseEdits(base, edited, latest);
+
+    expect(result.values.geolocation).toBeUndefined();
+    expect(result.conflicts).toEqual(['geolocation']);
+  });
+
+  it('takes every server change when the user changed nothing', () => {
+    const latest = edit({ title: 'Burst pipe', reporter_email: 'j.doe@example.com' });
+
+    expect(rebaseEdits(base, edit({}), latest)).toEqual({ values: latest, conflicts: [] });
+  });
+});
+
+describe('editValuesOf', () => {
+  const categories = [
+    { id: 'cat-area', code: 'AREA', field_type: 'select' },
+    { id: 'cat-tags', code: 'TAGS', field_type: 'multiselect' },
+    { id: 'cat-note', code: 'NOTE', field_type: 'text' },
+  ] as LookupCategory[];
+
+  it('reads lookup answers from lookup values and custom fields', () => {
+    const record = {
+      id: 'rec-1',
+      incident_number: 'INC-1',
+      title: 'Water leak',
+      lookup_values: [
+        { id: 'val-north', category_id: 'cat-area' },
+        { id: 'tag-1', category_id: 'cat-tags' },
+        { id: 'tag-2', category_id: 'cat-tags' },
+      ],
+      custom_fields: JSON.stringify({ 'lookup:NOTE': { value: 'Call first' } }),
+    } as Incident;
+
+    expect(editValuesOf(record, categories)).toEqual({
+      title: 'Water leak',
+      description: '',
+      geolocation: undefined,
+      lookups: { 'cat-area': 'val-north', 'cat-tags': ['tag-1', 'tag-2'], 'cat-note': 'Call first' },
+      reporter_name: '',
+      reporter_email: '',
+    });
+  });
+
+  it('ignores custom fields it cannot parse', () => {
+    const record = { id: 'rec-1', incident_number: 'INC-1', title: 'Leak', custom_fields: '{oops' } as Incident;
+
+    expect(editValuesOf(record, categories).lookups).toEqual({});
+  });
+});
+
+describe('buildEditPayload', () => {
+  it('sends only the changed fields, trimmed', () => {
+    expect(buildEditPayload(edit({ title: ' Flood ' }), ['title'], [])).toEqual({ title: 'Flood' });
+  });
+
+  it('clears every location field when the location was removed', () => {
+    expect(buildEditPayload(edit({ geolocation: undefined }), ['geolocation'], [])).toEqual({
+      latitude: null, longitude: null, address: null, city: null, state: null, country: null, postal_code: null,
+    });
+  });
+});
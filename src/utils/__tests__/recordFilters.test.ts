@@ -0,0 +1,96 @@
+import { RECORD_FILTERS } from '@/src/constants/recordFilters';
+import { buildRecordQuery, parseDateParam, presetRange, toDateParam } from '@/src/utils/recordFilters';
+
+const incidents = RECORD_FILTERS.incident;
+const complaints = RECORD_FILTERS.complaint;
+
+describe('buildRecordQuery', () => {
+  it('is empty without filters', () => {
+    expect(buildRecordQuery(incidents, {})).toEqual({});
+  });
+
+  it('sends option filters under their API names and leaves display names out', () => {
+    expect(buildRecordQuery(incidents, {
+      state_id: 'state-1,state-2',
+      state_name: 'Open, In progress',
+      priority: '1,2',
+      department_id: 'dep-1',
+      department_name: 'Water',
+    })).toEqual({
+      current_state_id: 'state-1,state-2',
+      priority: '1,2',
+      department_id: 'dep-1',
+    });
+  });
+
+  it('trims the reporter text and drops it when blank', () => {
+    expect(buildRecordQuery(incidents, { reporter: '  jane  ' })).toEqual({ reporter: 'jane' });
+    expect(buildRecordQuery(incidents, { reporter: '   ' })).toEqual({});
+  });
+
+  it('only sends fields the schema has', () => {
+    expect(buildRecordQuery(incidents, { channel: 'email' })).toEqual({});
+    expect(buildRecordQuery(complaints, { channel: 'email' })).toEqual({ channel: 'email' });
+  });
+
+  it('sends a date range from the start of the first day to the end of the last, in local time', () => {
+    expect(buildRecordQuery(incidents, { created_from: '2026-03-01', created_to: '2026-03-31' })).toEqual({
+      created_from: new Date(2026, 2, 1, 0, 0, 0, 0).toISOString(),
+      created_to: new Date(2026, 2, 31, 23, 59, 59, 999).toISOString(),
+    });
+  });
+
+  it('covers the whole day when a range starts and ends on it', () => {
+    const query = buildRecordQuery(incidents, { due_from: '2026-02-28', due_to: '2026-02-28' });
+
+    expect(new Date(query.due_to).getTime() - new Date(query.due_from).getTime()).toBe(24 * 60 * 60 * 1000 - 1);
+  });
+
+  it('leaves either side of a range open', () => {
+    expect(buildRecordQuery(incidents, { updated_from: '2026-03-01' })).toEqual({
+      updated_from: new Date(2026, 2, 1).toISOString(),
+    });
+    expect(buildRecordQuery(incidents, { updated_to: '2026-03-01' })).toEqual({
+      updated_to: new Date(2026, 2, 1, 23, 59, 59, 999).toISOString(),
+    });
+  });
+
+  it('ignores dates it cannot read', () => {
+    expect(buildRecordQuery(incidents, { created_from: 'yesterday', created_to: '2026-13' })).toEqual({});
+  });
+
+  it('joins the picked values of every lookup category', () => {
+    expect(buildRecordQuery(incidents, {
+      lookup_CATEGORY: 'val-1,val-2',
+      lookup_AREA: 'val-3',
+      lookup_EMPTY: '',
+    })).toEqual({ lookup_value_ids: 'val-1,val-2,val-3' });
+  });
+});
+
+describe('date params', () => {
+  it('round-trips a local date', () => {
+    const date = new Date(2026, 0, 5);
+
+    expect(toDateParam(date)).toBe('2026-01-05');
+    expect(parseDateParam('2026-01-05')).toEqual(date);
+  });
+
+  it('rejects incomplete or malformed dates', () => {
+    expect(parseDateParam(undefined)).toBeNull();
+    expect(parseDateParam('2026-01')).toBeNull();
+    expect(parseDateParam('not-a-date')).toBeNull();
+  });
+});
+
+describe('presetRange', () => {
+  it('counts days back across a month end in a leap year', () => {
+    expect(presetRange({ key: 'last7Days', from: -6, to: 0 }, new Date(2028, 2, 2, 18, 30)))
+      .toEqual({ from: '2028-02-25', to: '2028-03-02' });
+  });
+
+  it('leaves a side open when the preset has no end', () => {
+    expect(presetRange({ key: 'overdue', to: -1 }, new Date(2026, 0, 1)))
+      .toEqual({ from: undefined, to: '2025-12-31' });
+  });
+});
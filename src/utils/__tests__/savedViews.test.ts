@@ -0,0 +1,111 @@
+import { parseSharedView, SavedView, savedViews, toViewFilters, ViewOwner } from '@/src/utils/savedViews';
+
+jest.mock('expo-linking', () => ({
+  createURL: jest.fn((path: string) => `automaxmobile://${path}`),
+}));
+
+const jane: ViewOwner = { userId: 'user-1', serverId: 'server-1' };
+
+// The store's current views, as a subscriber first sees them
+const currentViews = () => new Promise<SavedView[]>(resolve => {
+  const unsubscribe = savedViews.subscribe(views => {
+    unsubscribe();
+    resolve(views);
+  });
+});
+
+const defaultsOf = async (owner: ViewOwner) =>
+  (await currentViews())
+    .filter(view => view.userId === owner.userId && view.serverId === owner.serverId && view.isDefault)
+    .map(view => view.name);
+
+describe('savedViews', () => {
+  afterEach(async () => {
+    for (const view of await currentViews()) {
+      await savedViews.remove(view.id);
+    }
+  });
+
+  it('saves a view for its owner with only the filters that carry a value', async () => {
+    const view = await savedViews.save(jane, {
+      recordType: 'incident',
+      name: '  Urgent  ',
+      filters: { priority: '1', state_id: '' },
+    });
+
+    expect(view).toMatchObject({
+      name: 'Urgent',
+      filters: { priority: '1' },
+      pinned: true,
+      isDefault: false,
+      userId: 'user-1',
+      serverId: 'server-1',
+    });
+    expect(await currentViews()).toEqual([view]);
+  });
+
+  it("replaces the owner's view of the same name, keeping its id and default", async () => {
+    const first = await savedViews.save(jane, { recordType: 'incident', name: 'Urgent', filters: { priority: '1' } });
+    await savedViews.toggleDefault(first.id);
+
+    const second = await savedViews.save(jane, { recordType: 'incident', name: 'URGENT', filters: { priority: '2' } });
+
+    expect(second).toMatchObject({ id: first.id, isDefault: true, filters: { priority: '2' } });
+    expect(await currentViews()).toHaveLength(1);
+  });
+
+  it('keeps views of the same name apart for other users, servers and record types', async () => {
+    const draft = { recordType: 'incident' as const, name: 'Urgent', filters: { priority: '1' } };
+    await savedViews.save(jane, draft);
+    await savedViews.save({ userId: 'user-2', serverId: 'server-1' }, draft);
+    await savedViews.save({ userId: 'user-1', serverId: 'server-2' }, draft);
+    await savedViews.save(jane, { ...draft, recordType: 'request' });
+
+    expect(new Set((await currentViews()).map(view => view.id)).size).toBe(4);
+  });
+
+  it('keeps one default per record type and owner', async () => {
+    const urgent = await savedViews.save(jane, { recordType: 'incident', name: 'Urgent', filters: { priority: '1' } });
+    const mine = await savedViews.save(jane, { recordType: 'incident', name: 'Mine', filters: { reporter: 'jane' } });
+    const requests = await savedViews.save(jane, { recordType: 'request', name: 'Open', filters: { state_id: 's-1' } });
+    const other = { userId: 'user-2', serverId: 'server-1' };
+    const theirs = await savedViews.save(other, { recordType: 'incident', name: 'Theirs', filters: { priority: '3' } });
+
+    await savedViews.toggleDefault(urgent.id);
+    await savedViews.toggleDefault(requests.id);
+    await savedViews.toggleDefault(theirs.id);
+    await savedViews.toggleDefault(mine.id);
+
+    expect(await defaultsOf(jane)).toEqual(['Mine', 'Open']);
+    expect(await defaultsOf(other)).toEqual(['Theirs']);
+  });
+
+  it('clears the default when it is toggled again', async () => {
+    const view = await savedViews.save(jane, { recordType: 'incident', name: 'Urgent', filters: { priority: '1' } });
+
+    await savedViews.toggleDefault(view.id);
+    await savedViews.toggleDefault(view.id);
+
+    expect(await defaultsOf(jane)).toEqual([]);
+  });
+});
+
+describe('toViewFilters', () => {
+  it('keeps known filter params, taking the first of repeated route params', () => {
+    expect(toViewFilters({ priority: ['1', '2'], lookup_AREA: 'val-1', sort: 'name', reporter: null }))
+      .toEqual({ priority: '1', lookup_AREA: 'val-1' });
+  });
+});
+
+describe('parseSharedView', () => {
+  it('reads a shared link', () => {
+    expect(parseSharedView({ type: 'complaint', name: ' Open ', filters: '{"state_id":"s-1"}' }))
+      .toEqual({ recordType: 'complaint', name: 'Open', filters: { state_id: 's-1' } });
+  });
+
+  it('rejects unknown record types, unreadable filters and links without filters', () => {
+    expect(parseSharedView({ type: 'task', filters: '{"state_id":"s-1"}' })).toBeNull();
+    expect(parseSharedView({ type: 'incident', filters: '{oops' })).toBeNull();
+    expect(parseSharedView({ type: 'incident', filters: '{"sort":"name"}' })).toBeNull();
+  });
+});
@@ -0,0 +1,100 @@
+import { Incident } from '@/src/api/models';
+import { getSlaInfo } from '@/src/utils/sla';
+
+const START = new Date('2026-03-01T08:00:00Z').getTime();
+const MINUTE = 60 * 1000;
+
+// A record started at START with a 100 minute target
+const record = (overrides: Partial<Incident> = {}): Incident => ({
+  id: 'rec-1',
+  incident_number: 'INC-1',
+  title: 'Broken pump',
+  sla_started_at: new Date(START).toISOString(),
+  sla_deadline: new Date(START + 100 * MINUTE).toISOString(),
+  ...overrides,
+} as Incident);
+
+describe('getSlaInfo', () => {
+  it('returns null without a deadline', () => {
+    expect(getSlaInfo(record({ sla_deadline: undefined }), START)).toBeNull();
+  });
+
+  it('returns null for closed records', () => {
+    const closed = record({ current_state: { state_type: 'terminal' } as Incident['current_state'] });
+
+    expect(getSlaInfo(closed, START)).toBeNull();
+  });
+
+  it('falls back to the due date', () => {
+    const info = getSlaInfo(record({ sla_deadline: undefined, due_date: new Date(START + 10 * MINUTE).toISOString() }), START);
+
+    expect(info?.remainingSeconds).toBe(600);
+  });
+
+  it('is on track while more than a quarter of the target is left', () => {
+    const info = getSlaInfo(record(), START + 74 * MINUTE);
+
+    expect(info?.status).toBe('on_track');
+    expect(info?.targetSeconds).toBe(6000);
+    expect(info?.elapsedSeconds).toBe(74 * 60);
+  });
+
+  it('turns at risk exactly when a quarter of the target is left', () => {
+    expect(getSlaInfo(record(), START + 75 * MINUTE - 1000)?.status).toBe('on_track');
+    expect(getSlaInfo(record(), START + 75 * MINUTE)?.status).toBe('at_risk');
+  });
+
+  it('uses sla_target_minutes over the span to the deadline', () => {
+    // 25% of a 40 minute target is 10 minutes
+    expect(getSlaInfo(record({ sla_target_minutes: 40 }), START + 89 * MINUTE)?.status).toBe('on_track');
+    expect(getSlaInfo(record({ sla_target_minutes: 40 }), START + 90 * MINUTE)?.status).toBe('at_risk');
+  });
+
+  it('is breached at the deadline and counts past it', () => {
+    expect(getSlaInfo(record(), START + 100 * MINUTE)?.status).toBe('breached');
+
+    const late = getSlaInfo(record(), START + 130 * MINUTE);
+    expect(late?.status).toBe('breached');
+    expect(late?.remainingSeconds).toBe(-30 * 60);
+  });
+
+  it('is breached when the server says so before the deadline', () => {
+    expect(getSlaInfo(record({ sla_breached: true }), START)?.status).toBe('breached');
+  });
+
+  it("keeps the server's status when it is further along", () => {
+    expect(getSlaInfo(record({ sla_status: 'at_risk' }), START)?.status).toBe('at_risk');
+  });
+
+  it("moves past the server's status when the clock has", () => {
+    expect(getSlaInfo(record({ sla_status: 'on_track' }), START + 80 * MINUTE)?.status).toBe('at_risk');
+  });
+
+  it('ignores an unknown reported status', () => {
+    expect(getSlaInfo(record({ sla_status: 'frozen' }), START)?.status).toBe('on_track');
+  });
+
+  it('freezes the clock while paused', () => {
+    const paused = record({ sla_paused_at: new Date(START + 50 * MINUTE).toISOString() });
+    const info = getSlaInfo(paused, START + 200 * MINUTE);
+
+    expect(info?.isPaused).toBe(true);
+    expect(info?.status).toBe('on_track');
+    expect(info?.remainingSeconds).toBe(50 * 60);
+    expect(info?.pausedSeconds).toBe(150 * 60);
+    expect(info?.elapsedSeconds).toBe(50 * 60);
+  });
+
+  it('leaves time already spent paused out of the target', () => {
+    // The deadline was pushed back by the 20 minutes the clock was paused
+    const resumed = record({
+      sla_deadline: new Date(START + 120 * MINUTE).toISOString(),
+      sla_paused_seconds: 20 * 60,
+    });
+    const info = getSlaInfo(resumed, START + 95 * MINUTE);
+
+    expect(info?.targetSeconds).toBe(6000);
+    expect(info?.elapsedSeconds).toBe(75 * 60);
+    expect(info?.status).toBe('at_risk');
+  });
+});
@@ -0,0 +1,364 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as Crypto from 'expo-crypto';
+import * as LocalAuthentication from 'expo-local-authentication';
+import * as SecureStore from 'expo-secure-store';
+import { AppState, AppStateStatus } from 'react-native';
+import i18n from '@/src/i18n';
+import { AppLockPolicy } from '@/src/api/models';
+import { getAppLockPolicy } from '@/src/api/security';
+import { crashLogger } from '@/src/utils/crashLogger';
+
+const SETTINGS_STORAGE_KEY = '@app_lock_settings';
+const POLICY_STORAGE_KEY = '@app_lock_policy';
+// SecureStore keys: the PIN hash and the failure count must survive restarts and stay off plain storage
+const PIN_KEY = 'appLockPin';
+const FAILED_ATTEMPTS_KEY = 'appLockFailedAttempts';
+
+export const PIN_LENGTH = 6;
+
+// Seconds of inactivity before the app locks; 0 locks as soon as the app leaves the foreground
+export const LOCK_TIMEOUT_OPTIONS = [0, 60, 300, 900];
+
+const DEFAULT_TIMEOUT_SECONDS = 60;
+const DEFAULT_MAX_FAILED_ATTEMPTS = 5;
+// How often foreground inactivity is checked
+const IDLE_CHECK_INTERVAL_MS = 15 * 1000;
+
+interface AppLockSettings {
+  enabled: boolean;
+  biometrics: boolean;
+  timeoutSeconds: number;
+}
+
+export interface AppLockState {
+  // The lock is on, by the user's choice or the organisation's policy
+  enabled: boolean;
+  locked: boolean;
+  hasPin: boolean;
+  // The policy requires a lock but no PIN has been chosen yet
+  setupRequired: boolean;
+  requiredByPolicy: boolean;
+  biometricsAvailable: boolean;
+  biometricsEnabled: boolean;
+  timeoutSeconds: number;
+  timeoutOptions: number[];
+  failedAttempts: number;
+  maxFailedAttempts: number;
+}
+
+export type PinResult = 'unlocked' | 'invalid' | 'wiped';
+
+type AppLockListener = (state: AppLockState) => void;
+
+const DEFAULT_SETTINGS: AppLockSettings = {
+  enabled: false,
+  biometrics: true,
+  timeoutSeconds: DEFAULT_TIMEOUT_SECONDS,
+};
+
+const hashPin = async (salt: string, pin: string) =>
+  Crypto.digestStringAsync(Crypto.CryptoDigestAlgorithm.SHA256, `${salt}:${pin}`);
+
+const randomSalt = () =>
+  Array.from(Crypto.getRandomBytes(16), byte => byte.toString(16).padStart(2, '0')).join('');
+
+/**
+ * Locks the app behind a PIN or device biometrics after a period of inactivity
+ * or when it goes to the background, and ends the session after too many wrong
+ * PINs. The backend can make the lock mandatory and cap its settings through
+ * the app lock policy, which always wins over the user's own choices.
+ */
+class AppLock {
+  private static instance: AppLock;
+  private settings: AppLockSettings = DEFAULT_SETTINGS;
+  private policy: AppLockPolicy = {};
+  private hasPin = false;
+  private biometricsAvailable = false;
+  private failedAttempts = 0;
+  private locked = false;
+  private lastActiveAt = Date.now();
+  private listeners = new Set<AppLockListener>();
+  private wipeHandlers = new Set<() => void>();
+  private loadPromise: Promise<void> | null = null;
+
+  private constructor() {}
+
+  static getInstance(): AppLock {
+    if (!AppLock.instance) {
+      AppLock.instance = new AppLock();
+    }
+    return AppLock.instance;
+  }
+
+  private load(): Promise<void> {
+    if (!this.loadPromise) {
+      this.loadPromise = (async () => {
+        try {
+          const [storedSettings, storedPolicy, pin, failedAttempts] = await Promise.all([
+            AsyncStorage.getItem(SETTINGS_STORAGE_KEY),
+            AsyncStorage.getItem(POLICY_STORAGE_KEY),
+            SecureStore.getItemAsync(PIN_KEY),
+            SecureStore.getItemAsync(FAILED_ATTEMPTS_KEY),
+          ]);
+          this.settings = storedSettings ? { ...DEFAULT_SETTINGS, ...JSON.parse(storedSettings) } : DEFAULT_SETTINGS;
+          this.policy = storedPolicy ? JSON.parse(storedPolicy) : {};
+          this.hasPin = !!pin;
+          this.failedAttempts = Number(failedAttempts) || 0;
+        } catch (error) {
+          console.error('[AppLock] Failed to load settings:', error);
+        }
+
+        try {
+          this.biometricsAvailable =
+            (await LocalAuthentication.hasHardwareAsync()) && (await LocalAuthentication.isEnrolledAsync());
+        } catch {
+          this.biometricsAvailable = false;
+        }
+
+        // A cold start counts as coming back from the background
+        this.locked = this.isEnabled();
+        this.notify();
+      })();
+    }
+    return this.loadPromise;
+  }
+
+  private isEnabled(): boolean {
+    return this.hasPin && (this.settings.enabled || !!this.policy.required);
+  }
+
+  private getTimeoutOptions(): number[] {
+    const max = this.policy.max_inactivity_seconds;
+    if (max === undefined) return LOCK_TIMEOUT_OPTIONS;
+    const allowed = LOCK_TIMEOUT_OPTIONS.filter(seconds => seconds <= max);
+    return allowed.length > 0 ? allowed : [0];
+  }
+
+  private getTimeoutSeconds(): number {
+    const max = this.policy.max_inactivity_seconds;
+    return max === undefined ? this.settings.timeoutSeconds : Math.min(this.settings.timeoutSeconds, max);
+  }
+
+  private getMaxFailedAttempts(): number {
+    return this.policy.max_failed_attempts || DEFAULT_MAX_FAILED_ATTEMPTS;
+  }
+
+  private getState(): AppLockState {
+    const biometricsAllowed = this.policy.allow_biometrics !== false;
+    return {
+      enabled: this.isEnabled(),
+      locked: this.locked,
+      hasPin: this.hasPin,
+      setupRequired: !!this.policy.required && !this.hasPin,
+      requiredByPolicy: !!this.policy.required,
+      biometricsAvailable: this.biometricsAvailable && biometricsAllowed,
+      biometricsEnabled: this.biometricsAvailable && biometricsAllowed && this.settings.biometrics,
+      timeoutSeconds: this.getTimeoutSeconds(),
+      timeoutOptions: this.getTimeoutOptions(),
+      failedAttempts: this.failedAttempts,
+      maxFailedAttempts: this.getMaxFailedAttempts(),
+    };
+  }
+
+  private notify() {
+    const state = this.getState();
+    this.listeners.forEach(listener => listener(state));
+  }
+
+  private async saveSettings(changes: Partial<AppLockSettings>) {
+    this.settings = { ...this.settings, ...changes };
+    try {
+      await AsyncStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(this.settings));
+    } catch (error) {
+      console.error('[AppLock] Failed to save settings:', error);
+    }
+    this.notify();
+  }
+
+  private async setFailedAttempts(count: number) {
+    this.failedAttempts = count;
+    if (count === 0) {
+      await SecureStore.deleteItemAsync(FAILED_ATTEMPTS_KEY).catch(() => {});
+    } else {
+      await SecureStore.setItemAsync(FAILED_ATTEMPTS_KEY, String(count)).catch(() => {});
+    }
+  }
+
+  subscribe(listener: AppLockListener): () => void {
+    this.listeners.add(listener);
+    this.load().then(() => listener(this.getState()));
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // Runs when too many wrong PINs were entered; the lock state is already reset by then
+  onWipe(handler: () => void): () => void {
+    this.wipeHandlers.add(handler);
+    return () => {
+      this.wipeHandlers.delete(handler);
+    };
+  }
+
+  // Fetches the organisation's policy; the last known one stays in force while offline
+  async syncPolicy(): Promise<void> {
+    await this.load();
+    const response = await getAppLockPolicy();
+    if (!response.success) return;
+
+    this.policy = response.data;
+    await AsyncStorage.setItem(POLICY_STORAGE_KEY, JSON.stringify(this.policy)).catch(() => {});
+    this.notify();
+  }
+
+  async setPin(pin: string): Promise<void> {
+    await this.load();
+    const salt = randomSalt();
+    await SecureStore.setItemAsync(PIN_KEY, `${salt}:${await hashPin(salt, pin)}`);
+    this.hasPin = true;
+    await this.setFailedAttempts(0);
+    this.lastActiveAt = Date.now();
+    await this.saveSettings({ enabled: true });
+  }
+
+  // Turns the lock off and forgets the PIN, unless the policy requires it
+  async disable(): Promise<void> {
+    await this.load();
+    if (this.policy.required) return;
+
+    await SecureStore.deleteItemAsync(PIN_KEY).catch(() => {});
+    this.hasPin = false;
+    this.locked = false;
+    await this.setFailedAttempts(0);
+    await this.saveSettings({ enabled: false });
+  }
+
+  async setBiometrics(enabled: boolean): Promise<void> {
+    await this.load();
+    await this.saveSettings({ biometrics: enabled });
+  }
+
+  async setTimeoutSeconds(seconds: number): Promise<void> {
+    await this.load();
+    await this.saveSettings({ timeoutSeconds: seconds });
+  }
+
+  lock() {
+    if (!this.isEnabled() || this.locked) return;
+    this.locked = true;
+    this.notify();
+  }
+
+  private unlock() {
+    this.locked = false;
+    this.lastActiveAt = Date.now();
+    this.notify();
+  }
+
+  // Touches count as activity and push the inactivity lock back
+  recordActivity() {
+    if (!this.locked) {
+      this.lastActiveAt = Date.now();
+    }
+  }
+
+  async verifyPin(pin: string): Promise<PinResult> {
+    await this.load();
+    const stored = await SecureStore.getItemAsync(PIN_KEY);
+    const [salt, hash] = (stored || '').split(':');
+
+    if (stored && (await hashPin(salt, pin)) === hash) {
+      await this.setFailedAttempts(0);
+      this.unlock();
+      return 'unlocked';
+    }
+
+    await this.setFailedAttempts(this.failedAttempts + 1);
+    if (this.failedAttempts >= this.getMaxFailedAttempts()) {
+      crashLogger.logWarning('App lock wiped the session after too many wrong PINs', {
+        type: 'AppLockWipe',
+        failedAttempts: this.failedAttempts,
+      }).catch(() => {});
+      await this.reset();
+      this.wipeHandlers.forEach(handler => handler());
+      return 'wiped';
+    }
+    this.notify();
+    return 'invalid';
+  }
+
+  async unlockWithBiometrics(): Promise<boolean> {
+    await this.load();
+    if (!this.getState().biometricsEnabled) return false;
+
+    try {
+      const result = await LocalAuthentication.authenticateAsync({
+        promptMessage: i18n.t('appLock.biometricPrompt'),
+        cancelLabel: i18n.t('appLock.usePin'),
+        // The app PIN is the fallback, not the device passcode
+        disableDeviceFallback: true,
+      });
+      if (result.success) {
+        this.unlock();
+        return true;
+      }
+    } catch (error) {
+      console.error('[AppLock] Biometric authentication failed:', error);
+    }
+    return false;
+  }
+
+  /**
+   * Forgets the PIN, settings and failure count. Called whenever a session ends,
+   * so the next user of the device starts from the policy defaults. The cached
+   * policy is kept: it belongs to the server, not the user.
+   */
+  async reset(): Promise<void> {
+    await this.load();
+    await SecureStore.deleteItemAsync(PIN_KEY).catch(() => {});
+    await AsyncStorage.removeItem(SETTINGS_STORAGE_KEY).catch(() => {});
+    this.settings = DEFAULT_SETTINGS;
+    this.hasPin = false;
+    this.locked = false;
+    await this.setFailedAttempts(0);
+    this.notify();
+  }
+
+  private isIdle(): boolean {
+    return Date.now() - this.lastActiveAt >= this.getTimeoutSeconds() * 1000;
+  }
+
+  // Watches backgrounding and inactivity while someone is signed in
+  start(): () => void {
+    this.load();
+    this.syncPolicy().catch(() => {});
+    this.lastActiveAt = Date.now();
+
+    const appStateSubscription = AppState.addEventListener('change', (nextState: AppStateStatus) => {
+      if (nextState === 'active') {
+        if (this.isIdle()) {
+          this.lock();
+        }
+        this.syncPolicy().catch(() => {});
+      } else if (nextState === 'background') {
+        // Lock right away for "immediately" so the app switcher snapshot shows the lock screen
+        if (this.getTimeoutSeconds() === 0) {
+          this.lock();
+        }
+      }
+    });
+
+    const idleTimer = setInterval(() => {
+      if (AppState.currentState === 'active' && this.getTimeoutSeconds() > 0 && this.isIdle()) {
+        this.lock();
+      }
+    }, IDLE_CHECK_INTERVAL_MS);
+
+    return () => {
+      appStateSubscription.remove();
+      clearInterval(idleTimer);
+    };
+  }
+}
+
+export const appLock = AppLock.getInstance();
@@ -2,6 +2,7 @@ import * as FileSystem from 'expo-file-system';
 import * as Sharing from 'expo-sharing';
 import { Alert, Platform } from 'react-native';
 import { baseURL } from '@/src/api/client';
+import { getIncidentReportPath, ReportFormat } from '@/src/api/incidents';
 import * as SecureStore from 'expo-secure-store';
 
 /**
@@ -26,48 +27,93 @@ export const downloadAndOpenAttachment = async (
     // Show loading alert
     Alert.alert('Downloading', 'Please wait...');
 
-    // Download the file with authentication
-    const downloadUrl = `${baseURL}/attachments/${attachmentId}`;
-    const fileUri = `${FileSystem.documentDirectory}${fileName}`;
-
-    const downloadResult = await FileSystem.downloadAsync(
-      downloadUrl,
-      fileUri,
-      {
-        headers: {
-          Authorization: `Bearer ${token}`,
-        },
-      }
+    await downloadAndShare(`${baseURL}/attachments/${attachmentId}`, fileName, token, 'Open with');
+  } catch (error: any) {
+    console.error('Error downloading attachment:', error);
+    Alert.alert(
+      'Download Error',
+      error.message || 'Failed to download attachment'
     );
+  }
+};
 
-    if (downloadResult.status !== 200) {
-      throw new Error(`Download failed with status ${downloadResult.status}`);
-    }
-
-    // Check if sharing is available
-    const isAvailable = await Sharing.isAvailableAsync();
+/**
+ * Downloads a generated record report and opens the system share sheet
+ * @param recordId The ID of the incident, request, complaint or query
+ * @param recordNumber Human readable number used for the file name
+ * @param format Report format to request from the server
+ * @returns Promise that resolves when the share sheet is dismissed
+ */
+export const downloadAndShareReport = async (
+  recordId: string,
+  recordNumber: string,
+  format: ReportFormat
+): Promise<void> => {
+  try {
+    const token = await SecureStore.getItemAsync('authToken');
 
-    if (!isAvailable) {
-      Alert.alert('Error', 'Sharing is not available on this device');
+    if (!token) {
+      Alert.alert('Error', 'Authentication required');
       return;
     }
 
-    // Share/open the file
-    await Sharing.shareAsync(downloadResult.uri, {
-      mimeType: getMimeType(fileName),
-      dialogTitle: 'Open with',
-      UTI: getUTI(fileName),
-    });
-
+    const safeName = (recordNumber || recordId).replace(/[^\w.-]/g, '_');
+    await downloadAndShare(
+      `${baseURL}${getIncidentReportPath(recordId, format)}`,
+      `${safeName}-report.${format}`,
+      token,
+      'Share report'
+    );
   } catch (error: any) {
-    console.error('Error downloading attachment:', error);
+    console.error('Error downloading report:', error);
     Alert.alert(
       'Download Error',
-      error.message || 'Failed to download attachment'
+      error.message || 'Failed to download report'
     );
   }
 };
 
+/**
+ * Downloads a file with the bearer token and hands it to the share sheet
+ */
+const downloadAndShare = async (
+  downloadUrl: string,
+  fileName: string,
+  token: string,
+  dialogTitle: string
+): Promise<void> => {
+  const fileUri = `${FileSystem.documentDirectory}${fileName}`;
+
+  const downloadResult = await FileSystem.downloadAsync(
+    downloadUrl,
+    fileUri,
+    {
+      headers: {
+        Authorization: `Bearer ${token}`,
+      },
+    }
+  );
+
+  if (downloadResult.status !== 200) {
+    throw new Error(`Download failed with status ${downloadResult.status}`);
+  }
+
+  // Check if sharing is available
+  const isAvailable = await Sharing.isAvailableAsync();
+
+  if (!isAvailable) {
+    Alert.alert('Error', 'Sharing is not available on this device');
+    return;
+  }
+
+  // Share/open the file
+  await Sharing.shareAsync(downloadResult.uri, {
+    mimeType: getMimeType(fileName),
+    dialogTitle,
+    UTI: getUTI(fileName),
+  });
+};
+
 /**
  * Get MIME type from file extension
  */
@@ -110,6 +156,7 @@ const getUTI = (fileName: string): string => {
     ppt: 'com.microsoft.powerpoint.ppt',
     pptx: 'org.openxmlformats.presentationml.presentation',
     txt: 'public.plain-text',
+    json: 'public.json',
     zip: 'public.zip-archive',
   };
 
@@ -0,0 +1,149 @@
+import i18n from '@/src/i18n';
+import { addComment } from '@/src/api/incidents';
+import { AvailableTransition, Incident, Transition } from '@/src/api/models';
+import { assignRecord, executeTransition, getAvailableTransitions } from '@/src/api/records';
+import { ApiResult } from '@/src/api/result';
+import { requirementsOf } from '@/src/utils/transitions';
+
+// Named after the RECORD_PERMISSIONS action that gates each one
+export type BulkAction = 'transition' | 'assign' | 'comment';
+
+export const BULK_ACTIONS: BulkAction[] = ['transition', 'assign', 'comment'];
+
+export type BulkItemStatus = 'pending' | 'running' | 'done' | 'failed';
+
+export interface BulkItem {
+  id: string;
+  number: string;
+  status: BulkItemStatus;
+  error?: string;
+}
+
+export interface BulkSummary {
+  succeeded: number;
+  failed: BulkItem[];
+}
+
+// A transition every selected record can take, with what the bulk run has to ask for
+export interface BulkTransition {
+  transition: Transition;
+  commentRequired: boolean;
+  commentAllowed: boolean;
+}
+
+export interface CommonTransitions {
+  transitions: BulkTransition[];
+  // Shared transitions left out because they need input per record
+  skipped: number;
+}
+
+// Requirements that can't be given once for a whole batch
+const PER_RECORD_REQUIREMENTS = ['attachment', 'feedback'];
+
+/**
+ * Whether a transition can run over many records with one shared comment.
+ * Attachments, feedback, field changes and a hand-picked assignee are
+ * specific to each record, so those transitions stay on update-status.
+ */
+export const supportsBulk = (available: AvailableTransition): boolean =>
+  !available.transition.manual_select_user &&
+  !requirementsOf(available).some(req => req.is_mandatory && PER_RECORD_REQUIREMENTS.includes(req.requirement_type)) &&
+  !(available.transition.field_changes ?? []).some(change => change.is_required);
+
+/**
+ * Transitions executable on every record, matched by transition id, so a
+ * batch spanning several workflows or states usually has none in common.
+ */
+export const commonTransitions = (lists: AvailableTransition[][]): CommonTransitions => {
+  if (lists.length === 0) return { transitions: [], skipped: 0 };
+
+  const shared = lists[0].filter(entry =>
+    entry.can_execute &&
+    lists.every(list => list.some(other => other.transition.id === entry.transition.id && other.can_execute))
+  );
+  const entriesOf = (id: string) =>
+    lists.map(list => list.find(other => other.transition.id === id) as AvailableTransition);
+
+  const transitions = shared
+    .filter(entry => entriesOf(entry.transition.id).every(supportsBulk))
+    .map(entry => {
+      const requirements = entriesOf(entry.transition.id).flatMap(requirementsOf)
+        .filter(req => req.requirement_type === 'comment');
+      return {
+        transition: entry.transition,
+        commentRequired: requirements.some(req => req.is_mandatory),
+        commentAllowed: requirements.length > 0,
+      };
+    });
+
+  return { transitions, skipped: shared.length - transitions.length };
+};
+
+export const loadCommonTransitions = async (records: Incident[]): Promise<ApiResult<CommonTransitions>> => {
+  const results = await Promise.all(records.map(record => getAvailableTransitions(record.id)));
+  const failedAt = results.findIndex(result => !result.success);
+  if (failedAt >= 0) {
+    const failed = results[failedAt];
+    return {
+      success: false,
+      error: i18n.t('bulk.transitionsLoadFailed', {
+        number: records[failedAt].incident_number,
+        error: failed.success ? '' : failed.error,
+      }),
+    };
+  }
+  const lists = results.map(result => (result.success ? result.data : []));
+  return { success: true, data: commonTransitions(lists) };
+};
+
+// Records without a version are left alone, as the transition couldn't be checked against concurrent changes
+export const bulkTransition = (transitionId: string, comment?: string) =>
+  async (record: Incident): Promise<ApiResult<unknown>> => {
+    if (record.version === undefined) {
+      return { success: false, error: i18n.t('errors.noVersion') };
+    }
+    return executeTransition(record.id, {
+      transition_id: transitionId,
+      comment: comment || undefined,
+      version: record.version,
+    });
+  };
+
+export const bulkAssign = (assigneeId: string) => (record: Incident) =>
+  assignRecord(record.id, assigneeId);
+
+export const bulkComment = (content: string, isInternal: boolean) => (record: Incident) =>
+  addComment(record.id, content, isInternal);
+
+/**
+ * Runs an action over the records one at a time, reporting each record's
+ * state as it goes. A failure is recorded and the run moves on, so one bad
+ * record doesn't hold up the rest of the batch.
+ */
+export const runBulkAction = async (
+  records: Incident[],
+  perform: (record: Incident) => Promise<ApiResult<unknown>>,
+  onProgress: (items: BulkItem[]) => void
+): Promise<BulkSummary> => {
+  let items: BulkItem[] = records.map(record => ({
+    id: record.id,
+    number: record.incident_number,
+    status: 'pending',
+  }));
+  const update = (index: number, patch: Partial<BulkItem>) => {
+    items = items.map((item, i) => (i === index ? { ...item, ...patch } : item));
+    onProgress(items);
+  };
+
+  onProgress(items);
+  for (let index = 0; index < records.length; index++) {
+    update(index, { status: 'running' });
+    const result = await perform(records[index]);
+    update(index, result.success ? { status: 'done' } : { status: 'failed', error: result.error });
+  }
+
+  return {
+    succeeded: items.filter(item => item.status === 'done').length,
+    failed: items.filter(item => item.status === 'failed'),
+  };
+};
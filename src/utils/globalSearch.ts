@@ -0,0 +1,177 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { SearchHit, SearchMatch } from '@/src/api/models';
+import { recordTypeOfNumber } from '@/src/utils/inbox';
+
+const RECENT_SEARCHES_STORAGE_KEY = '@recent_searches';
+const MAX_RECENT_SEARCHES = 10;
+const MAX_SUGGESTIONS = 5;
+// Characters of context kept on each side of a match in a snippet
+const SNIPPET_CONTEXT = 40;
+
+// Shorter queries are not sent to the server
+export const MIN_SEARCH_LENGTH = 2;
+
+export interface HighlightPart {
+  text: string;
+  match: boolean;
+}
+
+// Who recent searches belong to, as for saved views
+export interface SearchOwner {
+  userId?: string;
+  serverId?: string;
+}
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const termsOf = (query: string): string[] => query.trim().split(/\s+/).filter(Boolean);
+
+const termsPattern = (query: string): RegExp | null => {
+  const terms = termsOf(query);
+  return terms.length > 0 ? new RegExp(`(${terms.map(escapeRegExp).join('|')})`, 'gi') : null;
+};
+
+// A query shaped like a record number (INC-1042, req 77), which gets a shortcut to the record
+export const isRecordNumberQuery = (query: string): boolean =>
+  recordTypeOfNumber(query) !== null && /\d/.test(query) && termsOf(query).length <= 2;
+
+const normalizeNumber = (value: string) => value.replace(/[\s-]/g, '').toUpperCase();
+
+// The hit whose number is the query, ignoring case, spaces and dashes
+export const findNumberHit = (hits: SearchHit[], query: string): SearchHit | undefined => {
+  if (!isRecordNumberQuery(query)) return undefined;
+  const wanted = normalizeNumber(query);
+  return hits.find(hit => normalizeNumber(hit.incident_number) === wanted);
+};
+
+// Splits text into runs that do and don't contain a query term, for bolding the matches
+export const highlightParts = (text: string, query: string): HighlightPart[] => {
+  const pattern = termsPattern(query);
+  if (!pattern || !text) return [{ text, match: false }];
+  return text
+    .split(pattern)
+    .filter(part => part.length > 0)
+    .map(part => ({ text: part, match: termsOf(query).some(term => term.toLowerCase() === part.toLowerCase()) }));
+};
+
+// The part of a long text around its first match
+const snippetAround = (text: string, query: string): string | null => {
+  const pattern = termsPattern(query);
+  const found = pattern ? pattern.exec(text) : null;
+  if (!found) return null;
+
+  const start = Math.max(0, found.index - SNIPPET_CONTEXT);
+  const end = Math.min(text.length, found.index + found[0].length + SNIPPET_CONTEXT);
+  return `${start > 0 ? '…' : ''}${text.slice(start, end).trim()}${end < text.length ? '…' : ''}`;
+};
+
+/**
+ * Where a hit matched the query. The server's own report wins; older servers
+ * send none, so the fields the hit came back with are checked here instead.
+ * Title and number are left out, as the result row shows them anyway.
+ */
+export const matchesOf = (hit: SearchHit, query: string): SearchMatch[] => {
+  if (hit.matches && hit.matches.length > 0) {
+    return hit.matches.filter(match => match.field !== 'title' && match.field !== 'incident_number');
+  }
+
+  const candidates: [string, string | undefined][] = [
+    ['description', hit.description],
+    ['reporter_name', hit.reporter_name],
+    ['reporter_email', hit.reporter_email ?? hit.reporter?.email],
+    ...(hit.comments ?? []).map((comment): [string, string] => ['comments', comment.content]),
+  ];
+
+  const matches: SearchMatch[] = [];
+  candidates.forEach(([field, text]) => {
+    if (!text || matches.some(match => match.field === field)) return;
+    const snippet = snippetAround(text, query);
+    if (snippet) matches.push({ field, snippet });
+  });
+  return matches;
+};
+
+// Recent searches that continue what is typed, most recent first
+export const suggestionsFor = (recent: string[], query: string): string[] => {
+  const typed = query.trim().toLowerCase();
+  if (!typed) return recent.slice(0, MAX_SUGGESTIONS);
+  return recent
+    .filter(item => item.toLowerCase() !== typed && item.toLowerCase().includes(typed))
+    .slice(0, MAX_SUGGESTIONS);
+};
+
+class RecentSearches {
+  private static instance: RecentSearches;
+  private searches: Record<string, string[]> = {};
+  private loadPromise: Promise<void> | null = null;
+
+  private constructor() {}
+
+  static getInstance(): RecentSearches {
+    if (!RecentSearches.instance) {
+      RecentSearches.instance = new RecentSearches();
+    }
+    return RecentSearches.instance;
+  }
+
+  private load(): Promise<void> {
+    if (!this.loadPromise) {
+      this.loadPromise = (async () => {
+        try {
+          const stored = await AsyncStorage.getItem(RECENT_SEARCHES_STORAGE_KEY);
+          this.searches = stored ? JSON.parse(stored) : {};
+        } catch (error) {
+          console.error('[Search] Failed to load recent searches:', error);
+          this.searches = {};
+        }
+      })();
+    }
+    return this.loadPromise;
+  }
+
+  private async persist() {
+    try {
+      await AsyncStorage.setItem(RECENT_SEARCHES_STORAGE_KEY, JSON.stringify(this.searches));
+    } catch (error) {
+      console.error('[Search] Failed to save recent searches:', error);
+    }
+  }
+
+  private keyOf(owner: SearchOwner) {
+    return `${owner.serverId ?? ''}:${owner.userId ?? ''}`;
+  }
+
+  async list(owner: SearchOwner): Promise<string[]> {
+    await this.load();
+    return this.searches[this.keyOf(owner)] ?? [];
+  }
+
+  // Moves the query to the top; the same text in another case counts as the same search
+  async add(owner: SearchOwner, query: string): Promise<string[]> {
+    const trimmed = query.trim();
+    const current = await this.list(owner);
+    if (trimmed.length < MIN_SEARCH_LENGTH) return current;
+
+    const next = [trimmed, ...current.filter(item => item.toLowerCase() !== trimmed.toLowerCase())]
+      .slice(0, MAX_RECENT_SEARCHES);
+    this.searches[this.keyOf(owner)] = next;
+    await this.persist();
+    return next;
+  }
+
+  async remove(owner: SearchOwner, query: string): Promise<string[]> {
+    const next = (await this.list(owner)).filter(item => item !== query);
+    this.searches[this.keyOf(owner)] = next;
+    await this.persist();
+    return next;
+  }
+
+  async clear(owner: SearchOwner): Promise<string[]> {
+    await this.load();
+    delete this.searches[this.keyOf(owner)];
+    await this.persist();
+    return [];
+  }
+}
+
+export const recentSearches = RecentSearches.getInstance();
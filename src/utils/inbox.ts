@@ -0,0 +1,268 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { getMyAssignedIncidents, getMyReportedIncidents } from '@/src/api/incidents';
+import { Incident } from '@/src/api/models';
+import { ApiResult, PaginatedResult } from '@/src/api/result';
+import { RecordType } from '@/src/api/workflow';
+
+const INBOX_STORAGE_KEY = '@inbox_markers';
+// Opened records remembered per owner; the oldest are forgotten first
+const MAX_OPENED = 500;
+
+export type InboxSource = 'assigned' | 'reported';
+
+export type InboxMarker = 'new' | 'updated';
+
+export interface InboxItem {
+  record: Incident;
+  recordType: RecordType;
+  // Both when the user reported a record that is also assigned to them
+  sources: InboxSource[];
+}
+
+// Who the markers belong to, as for saved views
+export interface InboxOwner {
+  userId?: string;
+  serverId?: string;
+}
+
+// What the markers of one inbox visit compare against
+export interface InboxBaseline {
+  // Start of the previous visit; null on the first one, when nothing is marked
+  since: string | null;
+  // Record id to the activity time it had when the user last opened it
+  opened: Record<string, string>;
+}
+
+interface OwnerMarkers {
+  lastViewedAt?: string;
+  opened: Record<string, string>;
+}
+
+// Number prefixes of records that come without a record_type
+const NUMBER_PREFIXES: [string, RecordType][] = [
+  ['INC', 'incident'],
+  ['REQ', 'request'],
+  ['COMP', 'complaint'],
+  ['QUERY', 'query'],
+];
+
+// Type a record number belongs to by its prefix, or null when it has none of them
+export const recordTypeOfNumber = (incidentNumber: string): RecordType | null =>
+  NUMBER_PREFIXES.find(([prefix]) => incidentNumber.trim().toUpperCase().startsWith(prefix))?.[1] ?? null;
+
+export const recordTypeOf = (record: Incident): RecordType =>
+  record.record_type ?? recordTypeOfNumber(record.incident_number) ?? 'incident';
+
+// Last time anything happened to the record
+export const activityAt = (record: Incident): string => record.updated_at ?? record.created_at;
+
+const time = (value?: string | null): number => (value ? new Date(value).getTime() || 0 : 0);
+
+/**
+ * New: created since the previous visit and never opened. Updated: changed
+ * since the previous visit, or since the user last opened it if that was later.
+ */
+export const markerOf = (record: Incident, baseline: InboxBaseline): InboxMarker | null => {
+  if (!baseline.since) return null;
+  const openedAt = baseline.opened[record.id];
+  if (!openedAt && time(record.created_at) > time(baseline.since)) return 'new';
+  return time(activityAt(record)) > Math.max(time(baseline.since), time(openedAt)) ? 'updated' : null;
+};
+
+export interface InboxFilters {
+  source: InboxSource | 'all';
+  // Every type when empty
+  types: RecordType[];
+  unreadOnly: boolean;
+  breachedOnly: boolean;
+  search: string;
+}
+
+export const EMPTY_INBOX_FILTERS: InboxFilters = {
+  source: 'all',
+  types: [],
+  unreadOnly: false,
+  breachedOnly: false,
+  search: '',
+};
+
+// Filters that narrow every type the same way; the type filter itself is applied separately so the counts can ignore it
+const matchesCommonFilters = (item: InboxItem, filters: InboxFilters, baseline: InboxBaseline): boolean => {
+  const { record } = item;
+  const search = filters.search.trim().toLowerCase();
+  return (filters.source === 'all' || item.sources.includes(filters.source)) &&
+    (!filters.unreadOnly || markerOf(record, baseline) !== null) &&
+    (!filters.breachedOnly || !!record.sla_breached || record.sla_status === 'breached') &&
+    (!search || record.incident_number.toLowerCase().includes(search) || record.title.toLowerCase().includes(search));
+};
+
+export const filterInbox = (items: InboxItem[], filters: InboxFilters, baseline: InboxBaseline): InboxItem[] =>
+  items.filter(item =>
+    (filters.types.length === 0 || filters.types.includes(item.recordType)) &&
+    matchesCommonFilters(item, filters, baseline)
+  );
+
+// Loaded items of each type that pass every filter but the type filter. Only
+// totals once the feed has no more pages, as the endpoints report no per-type counts
+export const countInboxByType = (
+  items: InboxItem[],
+  filters: InboxFilters,
+  baseline: InboxBaseline
+): Record<RecordType, number> => {
+  const counts: Record<RecordType, number> = { incident: 0, request: 0, complaint: 0, query: 0 };
+  items.forEach(item => {
+    if (matchesCommonFilters(item, filters, baseline)) counts[item.recordType] += 1;
+  });
+  return counts;
+};
+
+interface SourceCursor {
+  source: InboxSource;
+  fetch: (page: number, limit: number) => Promise<PaginatedResult<Incident>>;
+  buffer: Incident[];
+  nextPage: number;
+  exhausted: boolean;
+}
+
+/**
+ * The user's assigned and reported records of every type as one stream,
+ * newest first. Both endpoints list newest first, so each page is a merge of
+ * the two cursors' heads; a record on both lists shows once with both sources.
+ */
+export class InboxFeed {
+  private cursors: SourceCursor[];
+  private items: InboxItem[] = [];
+  private indexById = new Map<string, number>();
+
+  constructor(private pageSize = 20) {
+    this.cursors = [
+      { source: 'assigned', fetch: getMyAssignedIncidents, buffer: [], nextPage: 1, exhausted: false },
+      { source: 'reported', fetch: getMyReportedIncidents, buffer: [], nextPage: 1, exhausted: false },
+    ];
+  }
+
+  get hasMore(): boolean {
+    return this.cursors.some(cursor => cursor.buffer.length > 0 || !cursor.exhausted);
+  }
+
+  private async refill(cursor: SourceCursor): Promise<ApiResult<void>> {
+    const response = await cursor.fetch(cursor.nextPage, this.pageSize);
+    if (!response.success) return response;
+    cursor.buffer = response.data;
+    cursor.nextPage += 1;
+    cursor.exhausted = response.data.length === 0 || response.pagination.page >= response.pagination.total_pages;
+    return { success: true, data: undefined };
+  }
+
+  private add(record: Incident, source: InboxSource) {
+    const index = this.indexById.get(record.id);
+    if (index !== undefined) {
+      const existing = this.items[index];
+      if (!existing.sources.includes(source)) {
+        this.items[index] = { ...existing, sources: [...existing.sources, source] };
+      }
+      return false;
+    }
+    this.indexById.set(record.id, this.items.length);
+    this.items.push({ record, recordType: recordTypeOf(record), sources: [source] });
+    return true;
+  }
+
+  // Loads up to one more page of records; resolves to everything loaded so far
+  async loadMore(): Promise<ApiResult<InboxItem[]>> {
+    let added = 0;
+    while (added < this.pageSize) {
+      for (const cursor of this.cursors) {
+        if (cursor.buffer.length === 0 && !cursor.exhausted) {
+          const refilled = await this.refill(cursor);
+          if (!refilled.success) return refilled;
+        }
+      }
+
+      const heads = this.cursors.filter(cursor => cursor.buffer.length > 0);
+      if (heads.length === 0) break;
+      const newest = heads.reduce((a, b) =>
+        time(a.buffer[0].created_at) >= time(b.buffer[0].created_at) ? a : b
+      );
+      if (this.add(newest.buffer.shift() as Incident, newest.source)) added += 1;
+    }
+    return { success: true, data: [...this.items] };
+  }
+}
+
+class InboxMarkers {
+  private static instance: InboxMarkers;
+  private markers: Record<string, OwnerMarkers> = {};
+  private loadPromise: Promise<void> | null = null;
+
+  private constructor() {}
+
+  static getInstance(): InboxMarkers {
+    if (!InboxMarkers.instance) {
+      InboxMarkers.instance = new InboxMarkers();
+    }
+    return InboxMarkers.instance;
+  }
+
+  private load(): Promise<void> {
+    if (!this.loadPromise) {
+      this.loadPromise = (async () => {
+        try {
+          const stored = await AsyncStorage.getItem(INBOX_STORAGE_KEY);
+          this.markers = stored ? JSON.parse(stored) : {};
+        } catch (error) {
+          console.error('[Inbox] Failed to load markers:', error);
+          this.markers = {};
+        }
+      })();
+    }
+    return this.loadPromise;
+  }
+
+  private async persist() {
+    try {
+      await AsyncStorage.setItem(INBOX_STORAGE_KEY, JSON.stringify(this.markers));
+    } catch (error) {
+      console.error('[Inbox] Failed to save markers:', error);
+    }
+  }
+
+  private keyOf(owner: InboxOwner) {
+    return `${owner.serverId ?? ''}:${owner.userId ?? ''}`;
+  }
+
+  private entry(owner: InboxOwner): OwnerMarkers {
+    const key = this.keyOf(owner);
+    if (!this.markers[key]) this.markers[key] = { opened: {} };
+    return this.markers[key];
+  }
+
+  // Starts a visit: hands back what to mark against and moves the owner's last view to now
+  async startVisit(owner: InboxOwner): Promise<InboxBaseline> {
+    await this.load();
+    const entry = this.entry(owner);
+    const baseline = { since: entry.lastViewedAt ?? null, opened: { ...entry.opened } };
+    entry.lastViewedAt = new Date().toISOString();
+    await this.persist();
+    return baseline;
+  }
+
+  // Clears the records' markers until they change again
+  async markOpened(owner: InboxOwner, records: Incident[]): Promise<void> {
+    await this.load();
+    const entry = this.entry(owner);
+    records.forEach(record => {
+      // Re-added so the keys stay in the order the records were opened, oldest first
+      delete entry.opened[record.id];
+      entry.opened[record.id] = activityAt(record);
+    });
+
+    const ids = Object.keys(entry.opened);
+    if (ids.length > MAX_OPENED) {
+      ids.slice(0, ids.length - MAX_OPENED).forEach(id => delete entry.opened[id]);
+    }
+    await this.persist();
+  }
+}
+
+export const inboxMarkers = InboxMarkers.getInstance();
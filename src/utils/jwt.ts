@@ -0,0 +1,30 @@
+// Refresh this long before the access token runs out, so requests never go out with a dead token
+export const TOKEN_EXPIRY_MARGIN_MS = 60 * 1000;
+
+const decodeBase64Url = (segment: string): string => {
+  const base64 = segment.replace(/-/g, '+').replace(/_/g, '/');
+  return atob(base64.padEnd(base64.length + ((4 - (base64.length % 4)) % 4), '='));
+};
+
+/**
+ * Expiry of a JWT in epoch milliseconds, read from its `exp` claim. The
+ * signature is not checked: this only decides when to refresh, the server
+ * still validates every token. Returns null for opaque or malformed tokens.
+ */
+export const getTokenExpiry = (token: string): number | null => {
+  const payload = token.split('.')[1];
+  if (!payload) return null;
+
+  try {
+    const { exp } = JSON.parse(decodeBase64Url(payload));
+    return typeof exp === 'number' ? exp * 1000 : null;
+  } catch {
+    return null;
+  }
+};
+
+// True when the token expires within `marginMs`; tokens without an expiry never do
+export const isTokenExpiring = (token: string, marginMs: number = TOKEN_EXPIRY_MARGIN_MS): boolean => {
+  const expiry = getTokenExpiry(token);
+  return expiry !== null && expiry - Date.now() <= marginMs;
+};
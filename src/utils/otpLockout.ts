@@ -0,0 +1,54 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+const OTP_LOCKOUT_STORAGE_KEY = '@otp_lockouts';
+
+export const OTP_MAX_ATTEMPTS = 5;
+export const OTP_LOCKOUT_MINUTES = 15;
+
+type LockoutMap = Record<string, number>;
+
+const readLockouts = async (): Promise<LockoutMap> => {
+  try {
+    const stored = await AsyncStorage.getItem(OTP_LOCKOUT_STORAGE_KEY);
+    return stored ? JSON.parse(stored) : {};
+  } catch (error) {
+    console.error('[OtpLockout] Failed to read lockouts:', error);
+    return {};
+  }
+};
+
+const writeLockouts = async (lockouts: LockoutMap) => {
+  try {
+    await AsyncStorage.setItem(OTP_LOCKOUT_STORAGE_KEY, JSON.stringify(lockouts));
+  } catch (error) {
+    console.error('[OtpLockout] Failed to save lockouts:', error);
+  }
+};
+
+const keyFor = (email: string) => email.trim().toLowerCase();
+
+// Returns when the lockout for this account ends, or null if it isn't locked
+export const getOtpLockout = async (email: string): Promise<Date | null> => {
+  const lockouts = await readLockouts();
+  const until = lockouts[keyFor(email)];
+  if (!until || until <= Date.now()) return null;
+  return new Date(until);
+};
+
+// Locks the account out of OTP verification on this device, honouring the server's
+// locked_until when it sends one so both sides release at the same time
+export const lockOtp = async (email: string, lockedUntil?: string): Promise<Date> => {
+  const serverUntil = lockedUntil ? new Date(lockedUntil).getTime() : NaN;
+  const until = isNaN(serverUntil) ? Date.now() + OTP_LOCKOUT_MINUTES * 60 * 1000 : serverUntil;
+
+  const lockouts = await readLockouts();
+  lockouts[keyFor(email)] = until;
+  await writeLockouts(lockouts);
+  return new Date(until);
+};
+
+export const clearOtpLockout = async (email: string) => {
+  const lockouts = await readLockouts();
+  delete lockouts[keyFor(email)];
+  await writeLockouts(lockouts);
+};
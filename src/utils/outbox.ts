@@ -0,0 +1,365 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as FileSystem from 'expo-file-system/legacy';
+import * as Network from 'expo-network';
+import { AppState } from 'react-native';
+import { createRecord, uploadAttachment } from '@/src/api/records';
+import { createIdempotencyKey } from '@/src/api/retryPolicy';
+import { RecordType } from '@/src/api/workflow';
+import { crashLogger } from '@/src/utils/crashLogger';
+import { serverProfiles } from '@/src/utils/serverProfiles';
+
+const OUTBOX_STORAGE_KEY = '@outbox_items';
+const OUTBOX_DIRECTORY = `${FileSystem.documentDirectory}outbox/`;
+
+export type OutboxStatus = 'pending' | 'uploading' | 'failed' | 'sent';
+
+export interface OutboxAttachment {
+  uri: string;
+  name: string;
+  type: string;
+  size?: number;
+  uploaded?: boolean;
+}
+
+export interface OutboxItem {
+  id: string;
+  recordType: RecordType;
+  title: string;
+  payload: Record<string, any>;
+  attachments: OutboxAttachment[];
+  status: OutboxStatus;
+  userId?: string;
+  // Server profile the item was queued against; it is only ever sent there
+  serverId: string;
+  // Fixed when the item is queued and sent with every create attempt, so a replay never creates the record twice
+  idempotencyKey: string;
+  recordId?: string;
+  recordNumber?: string;
+  error?: string;
+  attempts: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface EnqueueOptions {
+  recordType: RecordType;
+  title: string;
+  payload: Record<string, any>;
+  attachments?: { uri: string; name: string; type?: string; size?: number }[];
+  userId?: string;
+  // Key of an online attempt that may have reached the server before the device went offline
+  idempotencyKey?: string;
+}
+
+type OutboxListener = (items: OutboxItem[]) => void;
+type SendResult = 'sent' | 'failed' | 'offline';
+
+export const isOnline = async (): Promise<boolean> => {
+  try {
+    const state = await Network.getNetworkStateAsync();
+    return !!state.isConnected && state.isInternetReachable !== false;
+  } catch {
+    // If the network state can't be determined, let the request decide
+    return true;
+  }
+};
+
+class Outbox {
+  private static instance: Outbox;
+  private items: OutboxItem[] = [];
+  private listeners = new Set<OutboxListener>();
+  private loadPromise: Promise<void> | null = null;
+  private isProcessing = false;
+
+  private constructor() {}
+
+  static getInstance(): Outbox {
+    if (!Outbox.instance) {
+      Outbox.instance = new Outbox();
+    }
+    return Outbox.instance;
+  }
+
+  private load(): Promise<void> {
+    if (!this.loadPromise) {
+      this.loadPromise = (async () => {
+        try {
+          await serverProfiles.initialize();
+          const stored = await AsyncStorage.getItem(OUTBOX_STORAGE_KEY);
+          const parsed: OutboxItem[] = stored ? JSON.parse(stored) : [];
+          // Anything still marked uploading was interrupted by the app being closed.
+          // Items from before idempotency keys use their own unique id, and items from
+          // before per-server queues belong to the active server, as switching used to empty the outbox
+          this.items = parsed.map(item => ({
+            ...item,
+            status: item.status === 'uploading' ? 'pending' : item.status,
+            idempotencyKey: item.idempotencyKey || item.id,
+            serverId: item.serverId || serverProfiles.getActiveProfile().id,
+          }));
+        } catch (error) {
+          console.error('[Outbox] Failed to load items:', error);
+          this.items = [];
+        }
+      })();
+    }
+    return this.loadPromise;
+  }
+
+  private async persist() {
+    try {
+      await AsyncStorage.setItem(OUTBOX_STORAGE_KEY, JSON.stringify(this.items));
+    } catch (error) {
+      console.error('[Outbox] Failed to save items:', error);
+    }
+    this.notify();
+  }
+
+  private notify() {
+    const snapshot = [...this.items];
+    this.listeners.forEach(listener => listener(snapshot));
+  }
+
+  private async updateItem(id: string, changes: Partial<OutboxItem>) {
+    this.items = this.items.map(item =>
+      item.id === id ? { ...item, ...changes, updatedAt: new Date().toISOString() } : item
+    );
+    await this.persist();
+  }
+
+  private getItem(id: string): OutboxItem | undefined {
+    return this.items.find(item => item.id === id);
+  }
+
+  // Copy attachments out of the picker cache so the OS can't purge them before they are sent
+  private async persistAttachments(itemId: string, files: EnqueueOptions['attachments'] = []): Promise<OutboxAttachment[]> {
+    if (files.length === 0) return [];
+
+    const directory = `${OUTBOX_DIRECTORY}${itemId}/`;
+    try {
+      await FileSystem.makeDirectoryAsync(directory, { intermediates: true });
+    } catch (error) {
+      console.error('[Outbox] Failed to create attachment directory:', error);
+    }
+
+    const persisted: OutboxAttachment[] = [];
+    for (const [index, file] of files.entries()) {
+      const safeName = file.name.replace(/[^\w.-]/g, '_');
+      const target = `${directory}${index}_${safeName}`;
+      let uri = file.uri;
+      try {
+        await FileSystem.copyAsync({ from: file.uri, to: target });
+        uri = target;
+      } catch (error) {
+        console.error('[Outbox] Failed to copy attachment, keeping original uri:', error);
+      }
+      persisted.push({
+        uri,
+        name: file.name,
+        type: file.type || 'application/octet-stream',
+        size: file.size,
+      });
+    }
+    return persisted;
+  }
+
+  private async deleteAttachments(itemId: string) {
+    try {
+      await FileSystem.deleteAsync(`${OUTBOX_DIRECTORY}${itemId}/`, { idempotent: true });
+    } catch (error) {
+      console.error('[Outbox] Failed to delete attachments:', error);
+    }
+  }
+
+  async getItems(): Promise<OutboxItem[]> {
+    await this.load();
+    return [...this.items];
+  }
+
+  subscribe(listener: OutboxListener): () => void {
+    this.listeners.add(listener);
+    this.load().then(() => listener([...this.items]));
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  async enqueue(options: EnqueueOptions): Promise<OutboxItem> {
+    await this.load();
+
+    const now = new Date().toISOString();
+    const id = `outbox_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+    const item: OutboxItem = {
+      id,
+      recordType: options.recordType,
+      title: options.title,
+      payload: options.payload,
+      attachments: await this.persistAttachments(id, options.attachments),
+      status: 'pending',
+      userId: options.userId,
+      serverId: serverProfiles.getActiveProfile().id,
+      idempotencyKey: options.idempotencyKey ?? createIdempotencyKey(),
+      attempts: 0,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    this.items = [...this.items, item];
+    await this.persist();
+
+    crashLogger.logInfo('Submission queued in outbox', {
+      type: 'OutboxEnqueue',
+      outboxId: id,
+      recordType: item.recordType,
+      attachmentCount: item.attachments.length,
+    }).catch(() => {});
+
+    return item;
+  }
+
+  private async sendItem(id: string): Promise<SendResult> {
+    const item = this.getItem(id);
+    if (!item) return 'failed';
+
+    await this.updateItem(id, { status: 'uploading', error: undefined, attempts: item.attempts + 1 });
+
+    // Create the record once; a replay after a partial failure only uploads what is left
+    let recordId = item.recordId;
+    if (!recordId) {
+      const response = await createRecord(item.recordType, item.payload, {
+        idempotencyKey: item.idempotencyKey,
+      });
+      if (!response.success) {
+        if (response.isNetworkError) {
+          await this.updateItem(id, { status: 'pending' });
+          return 'offline';
+        }
+        await this.updateItem(id, { status: 'failed', error: response.error || 'Invalid response from server' });
+        return 'failed';
+      }
+      recordId = response.data.id;
+      await this.updateItem(id, { recordId, recordNumber: response.data.incident_number });
+    }
+
+    const attachments = [...(this.getItem(id)?.attachments || [])];
+    for (const [index, attachment] of attachments.entries()) {
+      if (attachment.uploaded) continue;
+
+      const result = await uploadAttachment(item.recordType, recordId, attachment);
+      if (!result.success) {
+        if (result.isNetworkError) {
+          await this.updateItem(id, { status: 'pending', attachments });
+          return 'offline';
+        }
+        await this.updateItem(id, {
+          status: 'failed',
+          attachments,
+          error: `${attachment.name}: ${result.error || 'Upload failed'}`,
+        });
+        return 'failed';
+      }
+      attachments[index] = { ...attachment, uploaded: true };
+      await this.updateItem(id, { attachments });
+    }
+
+    await this.updateItem(id, { status: 'sent', error: undefined });
+    await this.deleteAttachments(id);
+    return 'sent';
+  }
+
+  /**
+   * Replays the active server's pending items oldest first, stopping at the
+   * first one that can't reach the server. Items queued against other servers
+   * wait until the user switches back to them.
+   */
+  async processQueue(userId?: string): Promise<void> {
+    await this.load();
+    if (this.isProcessing) return;
+    if (!(await isOnline())) return;
+
+    this.isProcessing = true;
+    try {
+      const serverId = serverProfiles.getActiveProfile().id;
+      const queue = this.items.filter(item =>
+        item.status === 'pending' &&
+        item.serverId === serverId &&
+        (!userId || !item.userId || item.userId === userId)
+      );
+
+      for (const item of queue) {
+        // The user switched servers mid-run; the rest belongs to the previous one
+        if (serverProfiles.getActiveProfile().id !== serverId) break;
+        try {
+          const result = await this.sendItem(item.id);
+          if (result === 'offline') break;
+        } catch (error) {
+          console.error('[Outbox] Unexpected error sending item:', error);
+          crashLogger.logError(error as Error, {
+            type: 'OutboxSendError',
+            outboxId: item.id,
+            recordType: item.recordType,
+          }).catch(() => {});
+          await this.updateItem(item.id, {
+            status: 'failed',
+            error: error instanceof Error ? error.message : 'Unknown error',
+          });
+        }
+      }
+    } finally {
+      this.isProcessing = false;
+    }
+  }
+
+  async retry(id: string, userId?: string): Promise<void> {
+    await this.load();
+    const item = this.getItem(id);
+    if (!item || item.status === 'sent' || item.status === 'uploading') return;
+
+    await this.updateItem(id, { status: 'pending', error: undefined });
+    await this.processQueue(userId);
+  }
+
+  async remove(id: string): Promise<void> {
+    await this.load();
+    const item = this.getItem(id);
+    if (!item || item.status === 'uploading') return;
+
+    this.items = this.items.filter(i => i.id !== id);
+    await this.persist();
+    await this.deleteAttachments(id);
+  }
+
+  async clearSent(): Promise<void> {
+    await this.load();
+    this.items = this.items.filter(item => item.status !== 'sent');
+    await this.persist();
+  }
+
+  // Sends queued items whenever connectivity returns or the app comes back to the foreground
+  startAutoSync(userId?: string): () => void {
+    const networkSubscription = Network.addNetworkStateListener(state => {
+      if (state.isConnected && state.isInternetReachable !== false) {
+        this.processQueue(userId);
+      }
+    });
+
+    const appStateSubscription = AppState.addEventListener('change', nextState => {
+      if (nextState === 'active') {
+        this.processQueue(userId);
+      }
+    });
+
+    this.processQueue(userId);
+
+    return () => {
+      networkSubscription.remove();
+      appStateSubscription.remove();
+    };
+  }
+}
+
+export const outbox = Outbox.getInstance();
+
+// True when a create call failed only because the device couldn't reach the server
+export const isOfflineFailure = (response: any): boolean => {
+  return !!response && !response.success && !!response.isNetworkError;
+};
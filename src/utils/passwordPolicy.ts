@@ -0,0 +1,21 @@
+export const PASSWORD_MIN_LENGTH = 8;
+
+export type PasswordRule = 'minLength' | 'digit' | 'lowercase' | 'symbol';
+
+const rules: Record<PasswordRule, (password: string) => boolean> = {
+  minLength: password => password.length >= PASSWORD_MIN_LENGTH,
+  digit: password => /\d/.test(password),
+  lowercase: password => /[a-z]/.test(password),
+  symbol: password => /[^A-Za-z0-9]/.test(password),
+};
+
+export const PASSWORD_RULES = Object.keys(rules) as PasswordRule[];
+
+// Rules the password doesn't satisfy yet; an empty list means it is acceptable
+export const getUnmetPasswordRules = (password: string): PasswordRule[] => {
+  return PASSWORD_RULES.filter(rule => !rules[rule](password));
+};
+
+export const isPasswordValid = (password: string): boolean => {
+  return getUnmetPasswordRules(password).length === 0;
+};
@@ -0,0 +1,219 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import Constants from 'expo-constants';
+import * as Device from 'expo-device';
+import * as Notifications from 'expo-notifications';
+import { Platform } from 'react-native';
+import {
+  NotificationCategory,
+  NotificationPreferences,
+  PushPayload,
+  PushPayloadSchema,
+} from '@/src/api/models';
+import {
+  getNotificationPreferences,
+  registerPushDevice,
+  unregisterPushDevice,
+  updateNotificationPreferences,
+} from '@/src/api/notifications';
+import { ApiResult } from '@/src/api/result';
+import i18n from '@/src/i18n';
+import { crashLogger } from '@/src/utils/crashLogger';
+
+const PUSH_TOKEN_STORAGE_KEY = '@push_token';
+const PREFERENCES_STORAGE_KEY = '@notification_preferences';
+
+export const NOTIFICATION_CATEGORIES: NotificationCategory[] = ['assignment', 'transition', 'comment', 'sla'];
+
+type RouteListener = (route: string) => void;
+
+class PushNotifications {
+  private static instance: PushNotifications;
+  private preferences: NotificationPreferences = {};
+  private token: string | null = null;
+  private configured = false;
+
+  private constructor() {}
+
+  static getInstance(): PushNotifications {
+    if (!PushNotifications.instance) {
+      PushNotifications.instance = new PushNotifications();
+    }
+    return PushNotifications.instance;
+  }
+
+  /**
+   * Installs the foreground handler and the Android channels. Safe to call more
+   * than once; only the first call does any work.
+   */
+  async configure(): Promise<void> {
+    if (this.configured) return;
+    this.configured = true;
+
+    try {
+      const stored = await AsyncStorage.getItem(PREFERENCES_STORAGE_KEY);
+      this.preferences = stored ? JSON.parse(stored) : {};
+    } catch {
+      this.preferences = {};
+    }
+
+    // The server already filters by preference; this covers the window before a
+    // toggle reaches it, so a muted category never pops up while the app is open
+    Notifications.setNotificationHandler({
+      handleNotification: async (notification) => {
+        const payload = this.parsePayload(notification.request.content.data);
+        const show = !payload || this.isEnabled(payload.category);
+        return {
+          shouldShowBanner: show,
+          shouldShowList: show,
+          shouldPlaySound: show,
+          shouldSetBadge: false,
+        };
+      },
+    });
+
+    if (Platform.OS === 'android') {
+      for (const category of NOTIFICATION_CATEGORIES) {
+        await Notifications.setNotificationChannelAsync(category, {
+          name: i18n.t(`notifications.categories.${category}`),
+          importance: category === 'sla'
+            ? Notifications.AndroidImportance.MAX
+            : Notifications.AndroidImportance.HIGH,
+        }).catch(() => {});
+      }
+    }
+  }
+
+  /**
+   * Asks for permission, obtains the Expo push token and registers it with the
+   * backend. Returns false without prompting again if the user declined earlier.
+   */
+  async register(): Promise<boolean> {
+    await this.configure();
+
+    if (!Device.isDevice) {
+      return false;
+    }
+
+    try {
+      const current = await Notifications.getPermissionsAsync();
+      let granted = current.granted;
+      if (!granted && current.canAskAgain) {
+        granted = (await Notifications.requestPermissionsAsync()).granted;
+      }
+      if (!granted) {
+        return false;
+      }
+
+      const projectId = Constants.expoConfig?.extra?.eas?.projectId ?? Constants.easConfig?.projectId;
+      const { data: token } = await Notifications.getExpoPushTokenAsync(projectId ? { projectId } : undefined);
+
+      const response = await registerPushDevice({
+        token,
+        platform: Platform.OS,
+        device_name: Device.deviceName ?? undefined,
+      });
+      if (!response.success) {
+        crashLogger.logWarning('Failed to register push token', { error: response.error }).catch(() => {});
+        return false;
+      }
+
+      this.token = token;
+      await AsyncStorage.setItem(PUSH_TOKEN_STORAGE_KEY, token);
+      this.syncPreferences();
+      return true;
+    } catch (error) {
+      crashLogger.logError(error as Error, { context: 'pushNotifications.register' }).catch(() => {});
+      return false;
+    }
+  }
+
+  // Must run while the auth token is still valid, i.e. before logout clears it
+  async unregister(): Promise<void> {
+    const token = this.token ?? await AsyncStorage.getItem(PUSH_TOKEN_STORAGE_KEY).catch(() => null);
+    this.token = null;
+    await AsyncStorage.removeItem(PUSH_TOKEN_STORAGE_KEY).catch(() => {});
+    if (!token) return;
+
+    const response = await unregisterPushDevice(token);
+    if (!response.success) {
+      crashLogger.logWarning('Failed to unregister push token', { error: response.error }).catch(() => {});
+    }
+  }
+
+  // Forgets the token and cached preferences without telling the backend
+  async reset(): Promise<void> {
+    this.token = null;
+    this.preferences = {};
+    await AsyncStorage.multiRemove([PUSH_TOKEN_STORAGE_KEY, PREFERENCES_STORAGE_KEY]).catch(() => {});
+  }
+
+  isEnabled(category: NotificationCategory): boolean {
+    return this.preferences[category] !== false;
+  }
+
+  getPreferences(): NotificationPreferences {
+    return { ...this.preferences };
+  }
+
+  // Pulls the server copy, which wins over the local cache
+  async syncPreferences(): Promise<ApiResult<NotificationPreferences>> {
+    const response = await getNotificationPreferences();
+    if (response.success) {
+      await this.storePreferences(response.data);
+    }
+    return response;
+  }
+
+  async setPreference(category: NotificationCategory, enabled: boolean): Promise<ApiResult<NotificationPreferences>> {
+    const previous = this.preferences;
+    await this.storePreferences({ ...previous, [category]: enabled });
+
+    const response = await updateNotificationPreferences(this.preferences);
+    if (response.success) {
+      await this.storePreferences(response.data);
+    } else {
+      await this.storePreferences(previous);
+    }
+    return response;
+  }
+
+  getRouteForPayload(payload: PushPayload): string {
+    const recordType = payload.record_type ?? 'incident';
+    return `/${recordType}-details?id=${payload.record_id}`;
+  }
+
+  /**
+   * Calls onRoute with the details screen for every tapped notification,
+   * including the one that launched the app from a cold start.
+   */
+  addResponseListener(onRoute: RouteListener): () => void {
+    const handle = (response: Notifications.NotificationResponse | null) => {
+      if (!response) return;
+      const payload = this.parsePayload(response.notification.request.content.data);
+      if (payload) {
+        onRoute(this.getRouteForPayload(payload));
+      }
+    };
+
+    const launchResponse = Notifications.getLastNotificationResponse();
+    if (launchResponse) {
+      Notifications.clearLastNotificationResponse();
+      handle(launchResponse);
+    }
+
+    const subscription = Notifications.addNotificationResponseReceivedListener(handle);
+    return () => subscription.remove();
+  }
+
+  private parsePayload(data: unknown): PushPayload | null {
+    const parsed = PushPayloadSchema.safeParse(data);
+    return parsed.success ? parsed.data : null;
+  }
+
+  private async storePreferences(preferences: NotificationPreferences): Promise<void> {
+    this.preferences = preferences;
+    await AsyncStorage.setItem(PREFERENCES_STORAGE_KEY, JSON.stringify(preferences)).catch(() => {});
+  }
+}
+
+export const pushNotifications = PushNotifications.getInstance();
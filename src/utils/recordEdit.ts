@@ -0,0 +1,155 @@
+import i18n from '@/src/i18n';
+import { Incident, LookupCategory } from '@/src/api/models';
+import { LocationData } from '@/src/components/LocationPickerOSM';
+import { buildGeolocationPayload, buildLookupPayload, LookupAnswers, lookupFieldKey } from '@/src/utils/ticketForm';
+
+// Loose check; the server has the final say on what an email is
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export type EditField = 'title' | 'description' | 'geolocation' | 'lookups' | 'reporter_name' | 'reporter_email';
+
+// Render order of the edit form
+export const EDIT_FIELDS: EditField[] = ['title', 'description', 'geolocation', 'lookups', 'reporter_name', 'reporter_email'];
+
+export interface RecordEditValues {
+  title: string;
+  description: string;
+  geolocation: LocationData | undefined;
+  // Keyed by category id, as in the ticket forms
+  lookups: LookupAnswers;
+  reporter_name: string;
+  reporter_email: string;
+}
+
+// Free-form lookup answers are stored on the record as JSON keyed by lookup:<code>
+const parseCustomFields = (record: Incident): Record<string, any> => {
+  if (!record.custom_fields) return {};
+  try {
+    return JSON.parse(record.custom_fields) || {};
+  } catch {
+    return {};
+  }
+};
+
+// The lookup answers a record holds, in the shape DynamicLookupField edits them
+const lookupAnswersOf = (record: Incident, categories: LookupCategory[]): LookupAnswers => {
+  const customFields = parseCustomFields(record);
+  const answers: LookupAnswers = {};
+
+  categories.forEach(category => {
+    const fieldType = category.field_type || 'select';
+    if (fieldType === 'select' || fieldType === 'multiselect') {
+      const ids = (record.lookup_values || [])
+        .filter(value => value.category_id === category.id)
+        .map(value => value.id);
+      if (ids.length > 0) answers[category.id] = fieldType === 'multiselect' ? ids : ids[0];
+    } else {
+      const stored = customFields[lookupFieldKey(category)];
+      if (stored?.value !== undefined && stored.value !== null && stored.value !== '') {
+        answers[category.id] = stored.value;
+      }
+    }
+  });
+  return answers;
+};
+
+export const editValuesOf = (record: Incident, categories: LookupCategory[]): RecordEditValues => ({
+  title: record.title,
+  description: record.description || '',
+  geolocation: record.latitude && record.longitude
+    ? {
+      latitude: record.latitude,
+      longitude: record.longitude,
+      address: record.address,
+      city: record.city,
+      state: record.state,
+      country: record.country,
+      postal_code: record.postal_code,
+    }
+    : undefined,
+  lookups: lookupAnswersOf(record, categories),
+  reporter_name: record.reporter_name || '',
+  reporter_email: record.reporter_email || '',
+});
+
+// JSON with sorted keys, so answers entered in another order still compare equal
+const canonical = (value: unknown): string =>
+  JSON.stringify(value ?? null, (_key, item) =>
+    item && typeof item === 'object' && !Array.isArray(item)
+      ? Object.keys(item).sort().reduce<Record<string, unknown>>((sorted, key) => {
+        if (item[key] !== undefined) sorted[key] = item[key];
+        return sorted;
+      }, {})
+      : item
+  );
+
+const sameField = (a: RecordEditValues, b: RecordEditValues, field: EditField): boolean => {
+  if (field === 'title' || field === 'description' || field === 'reporter_name' || field === 'reporter_email') {
+    return a[field].trim() === b[field].trim();
+  }
+  return canonical(a[field]) === canonical(b[field]);
+};
+
+// Fields that differ between two snapshots of the form
+export const changedFields = (from: RecordEditValues, to: RecordEditValues): EditField[] =>
+  EDIT_FIELDS.filter(field => !sameField(from, to, field));
+
+/**
+ * After a version conflict: what the user changed stays, everything else takes
+ * the server's latest values. Returns the merged values and the fields both
+ * sides changed, which the user has to look at before saving again.
+ */
+export const rebaseEdits = (
+  base: RecordEditValues,
+  edited: RecordEditValues,
+  latest: RecordEditValues
+): { values: RecordEditValues; conflicts: EditField[] } => {
+  const mine = changedFields(base, edited);
+  const theirs = new Set(changedFields(base, latest));
+  const values = { ...latest };
+  mine.forEach(field => {
+    (values as Record<EditField, unknown>)[field] = edited[field];
+  });
+  return {
+    values,
+    conflicts: mine.filter(field => theirs.has(field) && !sameField(edited, latest, field)),
+  };
+};
+
+export const validateRecordEdit = (values: RecordEditValues): Partial<Record<EditField, string>> => {
+  const errors: Partial<Record<EditField, string>> = {};
+  if (!values.title.trim()) {
+    errors.title = i18n.t('ticketForm.errors.required', { field: i18n.t('ticketForm.fields.title') });
+  }
+  const email = values.reporter_email.trim();
+  if (email && !EMAIL_PATTERN.test(email)) {
+    errors.reporter_email = i18n.t('editRecord.invalidEmail');
+  }
+  return errors;
+};
+
+// Request body for updateRecord with only the changed fields; cleared fields are sent empty so they clear on the server
+export const buildEditPayload = (
+  values: RecordEditValues,
+  changed: EditField[],
+  categories: LookupCategory[]
+): Record<string, any> => {
+  const payload: Record<string, any> = {};
+  changed.forEach(field => {
+    switch (field) {
+      case 'geolocation':
+        Object.assign(payload, values.geolocation
+          ? buildGeolocationPayload(values.geolocation)
+          : { latitude: null, longitude: null, address: null, city: null, state: null, country: null, postal_code: null });
+        break;
+      case 'lookups':
+        payload.lookup_value_ids = [];
+        payload.custom_lookup_fields = {};
+        Object.assign(payload, buildLookupPayload(categories, values.lookups));
+        break;
+      default:
+        payload[field] = values[field].trim();
+    }
+  });
+  return payload;
+};
@@ -0,0 +1,269 @@
+import i18n, { isRTL } from '@/src/i18n';
+import { getClassifications } from '@/src/api/classifications';
+import { getDepartments } from '@/src/api/departments';
+import { getLocations } from '@/src/api/locations';
+import { getLookupCategories } from '@/src/api/lookups';
+import { LookupCategory } from '@/src/api/models';
+import { ApiResult } from '@/src/api/result';
+import { getUsers } from '@/src/api/users';
+import { getAllStates } from '@/src/api/workflow';
+import {
+  DatePreset,
+  FILTER_FIELDS,
+  FILTER_OPTIONS,
+  FILTER_PARAMS,
+  FilterField,
+  FilterFieldConfig,
+  FilterParam,
+  FilterSource,
+  LOOKUP_CODES_WITH_FIELDS,
+  LOOKUP_PARAM_PREFIX,
+  LookupFilterParam,
+  RecordFilterSchema,
+} from '@/src/constants/recordFilters';
+
+// Filters as they travel in route params and saved views: every value is a string
+export type FilterValues = Partial<Record<FilterParam | LookupFilterParam, string>>;
+
+// An option loaded from the server, already labelled for display
+export interface FilterChoice {
+  value: string;
+  label: string;
+  color?: string;
+}
+
+export interface FilterBadge {
+  key: string;
+  label: string;
+  value: string;
+}
+
+const LIST_SEPARATOR = ',';
+const NAME_SEPARATOR = ', ';
+
+export const isFilterParam = (key: string): key is FilterParam | LookupFilterParam =>
+  (FILTER_PARAMS as readonly string[]).includes(key) ||
+  (key.startsWith(LOOKUP_PARAM_PREFIX) && key.length > LOOKUP_PARAM_PREFIX.length);
+
+export const splitValues = (value?: string): string[] =>
+  value ? value.split(LIST_SEPARATOR).filter(Boolean) : [];
+
+export const joinValues = (values: string[]): string | undefined =>
+  values.length > 0 ? values.join(LIST_SEPARATOR) : undefined;
+
+export const joinNames = (names: string[]): string | undefined =>
+  names.length > 0 ? names.join(NAME_SEPARATOR) : undefined;
+
+export const lookupParam = (category: LookupCategory): LookupFilterParam =>
+  `${LOOKUP_PARAM_PREFIX}${category.code}`;
+
+export const dateRangeParams = (config: FilterFieldConfig) =>
+  [`${config.param}_from`, `${config.param}_to`] as [FilterParam, FilterParam];
+
+// Params a field keeps its value in; lookups own every `lookup_` param
+export const fieldParams = (config: FilterFieldConfig, values: FilterValues): string[] => {
+  switch (config.kind) {
+    case 'dateRange':
+      return dateRangeParams(config);
+    case 'lookups':
+      return Object.keys(values).filter(key => key.startsWith(LOOKUP_PARAM_PREFIX));
+    default:
+      return config.nameParam ? [config.param, config.nameParam] : [config.param];
+  }
+};
+
+// Lookup categories that can filter a list: option-based, active, and not already a field of their own
+export const filterableLookups = (categories: LookupCategory[]): LookupCategory[] =>
+  categories.filter(category => {
+    const fieldType = category.field_type ?? 'select';
+    return category.is_active !== false &&
+      (fieldType === 'select' || fieldType === 'multiselect') &&
+      (category.values?.length ?? 0) > 0 &&
+      !LOOKUP_CODES_WITH_FIELDS.includes(category.code.toUpperCase());
+  });
+
+export const localizedName = (item: { name: string; name_ar?: string }): string =>
+  (isRTL() && item.name_ar) || item.name;
+
+// Number of fields with a value; each lookup category counts on its own
+export const countActiveFilters = (schema: RecordFilterSchema, values: FilterValues): number =>
+  schema.fields.reduce((count, field) => {
+    const config = FILTER_FIELDS[field];
+    if (config.kind === 'lookups') {
+      return count + fieldParams(config, values).filter(key => values[key as LookupFilterParam]).length;
+    }
+    if (config.kind === 'dateRange') {
+      const [from, to] = dateRangeParams(config);
+      return count + (values[from] || values[to] ? 1 : 0);
+    }
+    return count + (values[config.param as FilterParam] ? 1 : 0);
+  }, 0);
+
+// YYYY-MM-DD in local time, the format date ranges are kept in
+export const toDateParam = (date: Date): string => {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+export const parseDateParam = (value?: string): Date | null => {
+  if (!value) return null;
+  const [year, month, day] = value.split('-').map(Number);
+  if (!year || !month || !day) return null;
+  return new Date(year, month - 1, day);
+};
+
+export const presetRange = (preset: DatePreset, today: Date = new Date()): { from?: string; to?: string } => {
+  const shift = (days?: number) => {
+    if (days === undefined) return undefined;
+    const date = new Date(today.getFullYear(), today.getMonth(), today.getDate() + days);
+    return toDateParam(date);
+  };
+  return { from: shift(preset.from), to: shift(preset.to) };
+};
+
+export const formatDateRange = (from?: string, to?: string): string => {
+  const fromDate = parseDateParam(from);
+  const toDate = parseDateParam(to);
+  if (fromDate && toDate) {
+    return from === to
+      ? fromDate.toLocaleDateString()
+      : `${fromDate.toLocaleDateString()} – ${toDate.toLocaleDateString()}`;
+  }
+  if (fromDate) return i18n.t('filter.dateFrom', { date: fromDate.toLocaleDateString() });
+  if (toDate) return i18n.t('filter.dateUntil', { date: toDate.toLocaleDateString() });
+  return i18n.t('filter.anyDate');
+};
+
+// Day boundaries in the device's time zone, sent as instants
+const startOfDay = (value: string) => parseDateParam(value)?.toISOString();
+const endOfDay = (value: string) => {
+  const date = parseDateParam(value);
+  if (!date) return undefined;
+  date.setHours(23, 59, 59, 999);
+  return date.toISOString();
+};
+
+/**
+ * Query params for getRecords from a list's filter values. Multi-select
+ * values go out comma separated, date ranges as `<field>_from`/`<field>_to`
+ * instants and all picked lookup values together in `lookup_value_ids`.
+ */
+export const buildRecordQuery = (schema: RecordFilterSchema, values: FilterValues): Record<string, string> => {
+  const query: Record<string, string> = {};
+
+  schema.fields.forEach(field => {
+    const config = FILTER_FIELDS[field];
+    switch (config.kind) {
+      case 'dateRange': {
+        const [from, to] = dateRangeParams(config);
+        const fromValue = values[from] && startOfDay(values[from]);
+        const toValue = values[to] && endOfDay(values[to]);
+        if (fromValue) query[`${config.apiParam}_from`] = fromValue;
+        if (toValue) query[`${config.apiParam}_to`] = toValue;
+        break;
+      }
+      case 'lookups': {
+        const ids = fieldParams(config, values).flatMap(key => splitValues(values[key as LookupFilterParam]));
+        const joined = joinValues(ids);
+        if (joined) query[config.apiParam] = joined;
+        break;
+      }
+      case 'text': {
+        const text = values[config.param as FilterParam]?.trim();
+        if (text) query[config.apiParam] = text;
+        break;
+      }
+      default: {
+        const value = values[config.param as FilterParam];
+        if (value) query[config.apiParam] = value;
+      }
+    }
+  });
+
+  return query;
+};
+
+const optionLabels = (field: FilterField, value: string): string =>
+  splitValues(value)
+    .map(item => {
+      const option = FILTER_OPTIONS[field]?.find(candidate => candidate.value === item);
+      return option ? i18n.t(option.label) : item;
+    })
+    .join(NAME_SEPARATOR);
+
+// Display value of a field, or null when it isn't set
+export const describeField = (field: FilterField, values: FilterValues): string | null => {
+  const config = FILTER_FIELDS[field];
+  if (config.kind === 'dateRange') {
+    const [from, to] = dateRangeParams(config);
+    return values[from] || values[to] ? formatDateRange(values[from], values[to]) : null;
+  }
+
+  const value = values[config.param as FilterParam];
+  if (!value) return null;
+  if (config.kind === 'text') return value;
+  if (config.nameParam) {
+    return values[config.nameParam as FilterParam] ||
+      i18n.t('filter.selectedCount', { count: splitValues(value).length });
+  }
+  return optionLabels(field, value);
+};
+
+/**
+ * Badges for the filters a list is showing, in the schema's field order.
+ * Lookup badges need the categories to name them and are skipped without.
+ */
+export const getFilterBadges = (
+  schema: RecordFilterSchema,
+  values: FilterValues,
+  lookupCategories: LookupCategory[] = []
+): FilterBadge[] =>
+  schema.fields.flatMap<FilterBadge>(field => {
+    const config = FILTER_FIELDS[field];
+    if (config.kind !== 'lookups') {
+      const value = describeField(field, values);
+      return value ? [{ key: field, label: i18n.t(config.label), value }] : [];
+    }
+
+    return lookupCategories.flatMap(category => {
+      const ids = splitValues(values[lookupParam(category)]);
+      if (ids.length === 0) return [];
+      const names = ids.map(id => {
+        const match = category.values?.find(item => item.id === id);
+        return match ? localizedName(match) : id;
+      });
+      return [{ key: lookupParam(category), label: localizedName(category), value: names.join(NAME_SEPARATOR) }];
+    });
+  });
+
+export const hasLookupFilters = (values: FilterValues): boolean =>
+  Object.keys(values).some(key => key.startsWith(LOOKUP_PARAM_PREFIX));
+
+const toChoices = <T>(result: ApiResult<T[]>, map: (item: T) => FilterChoice): FilterChoice[] =>
+  result.success ? result.data.map(map) : [];
+
+// Options of a server-backed field; an empty list when they can't be loaded
+export const loadFilterChoices = async (source: Exclude<FilterSource, 'static'>): Promise<FilterChoice[]> => {
+  switch (source) {
+    case 'states':
+      return toChoices(await getAllStates(), state => ({ value: state.id ?? '', label: state.name, color: state.color }))
+        .filter(choice => choice.value);
+    case 'users':
+      return toChoices(await getUsers(), user => ({
+        value: user.id,
+        label: [user.first_name, user.last_name].filter(Boolean).join(' ') || user.username || user.email || user.id,
+      }));
+    case 'departments':
+      return toChoices(await getDepartments(), department => ({ value: department.id, label: department.name }));
+    case 'classifications':
+      return toChoices(await getClassifications(), classification => ({ value: classification.id, label: classification.name }));
+    case 'locations':
+      return toChoices(await getLocations(), location => ({ value: location.id, label: location.name }));
+  }
+};
+
+export const loadFilterLookups = async (): Promise<LookupCategory[]> => {
+  const result = await getLookupCategories();
+  return result.success ? filterableLookups(result.data) : [];
+};
@@ -0,0 +1,152 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { ApiResult } from '@/src/api/result';
+
+const STORAGE_PREFIX = '@reference_cache:';
+const SCOPE_STORAGE_KEY = '@reference_cache_scope';
+
+const HOUR = 60 * 60 * 1000;
+
+// How long an entry is served without revalidating. Older entries are still
+// served at once, and refreshed in the background
+export const REFERENCE_TTL = {
+  // Organisation structure: classifications, locations, departments
+  structure: 24 * HOUR,
+  // Workflow definitions and lookup categories
+  configuration: 6 * HOUR,
+  // Users come and go more often than the rest
+  users: HOUR,
+};
+
+// Past this age an entry is only used when the network request fails
+const MAX_STALE_AGE = 7 * 24 * HOUR;
+
+interface CacheEntry<T> {
+  data: T;
+  fetchedAt: number;
+}
+
+/**
+ * Persistent stale-while-revalidate cache for the reference data behind the
+ * ticket forms and filter screens. Everything cached is visible to the signed-in
+ * user only, so the cache is dropped on logout, on a server switch and whenever
+ * the user's access changes (see setScope).
+ */
+class ReferenceCache {
+  private static instance: ReferenceCache;
+  private memory = new Map<string, CacheEntry<unknown>>();
+  private inFlight = new Map<string, Promise<ApiResult<unknown>>>();
+  // Bumped by clear() so a request that started before it can't write old data back
+  private generation = 0;
+
+  private constructor() {}
+
+  static getInstance(): ReferenceCache {
+    if (!ReferenceCache.instance) {
+      ReferenceCache.instance = new ReferenceCache();
+    }
+    return ReferenceCache.instance;
+  }
+
+  private async read<T>(key: string): Promise<CacheEntry<T> | null> {
+    const cached = this.memory.get(key);
+    if (cached) return cached as CacheEntry<T>;
+
+    try {
+      const stored = await AsyncStorage.getItem(STORAGE_PREFIX + key);
+      if (!stored) return null;
+      const entry: CacheEntry<T> = JSON.parse(stored);
+      this.memory.set(key, entry);
+      return entry;
+    } catch (error) {
+      console.error('[ReferenceCache] Failed to read entry:', error);
+      return null;
+    }
+  }
+
+  private async write<T>(key: string, data: T) {
+    const entry: CacheEntry<T> = { data, fetchedAt: Date.now() };
+    this.memory.set(key, entry);
+    try {
+      await AsyncStorage.setItem(STORAGE_PREFIX + key, JSON.stringify(entry));
+    } catch (error) {
+      console.error('[ReferenceCache] Failed to save entry:', error);
+    }
+  }
+
+  // One request per key at a time; successful results are stored
+  private revalidate<T>(key: string, fetcher: () => Promise<ApiResult<T>>): Promise<ApiResult<T>> {
+    const pending = this.inFlight.get(key);
+    if (pending) return pending as Promise<ApiResult<T>>;
+
+    const generation = this.generation;
+    const request: Promise<ApiResult<T>> = fetcher()
+      .then(async result => {
+        if (result.success && generation === this.generation) {
+          await this.write(key, result.data);
+        }
+        return result;
+      })
+      .finally(() => {
+        if (this.inFlight.get(key) === request) {
+          this.inFlight.delete(key);
+        }
+      });
+
+    this.inFlight.set(key, request);
+    return request;
+  }
+
+  /**
+   * Returns the cached value for `key` straight away when there is one, and
+   * refreshes it in the background once it is older than `ttl`. Without a
+   * usable entry it waits for `fetcher`, falling back to any cached copy if
+   * that fails, so forms keep working offline.
+   */
+  async get<T>(key: string, fetcher: () => Promise<ApiResult<T>>, ttl: number): Promise<ApiResult<T>> {
+    const entry = await this.read<T>(key);
+    const age = entry ? Date.now() - entry.fetchedAt : Infinity;
+
+    if (entry && age <= MAX_STALE_AGE) {
+      if (age > ttl) {
+        this.revalidate(key, fetcher).catch(() => {});
+      }
+      return { success: true, data: entry.data };
+    }
+
+    const result = await this.revalidate(key, fetcher);
+    if (!result.success && entry) {
+      return { success: true, data: entry.data };
+    }
+    return result;
+  }
+
+  async clear(): Promise<void> {
+    this.generation += 1;
+    this.memory.clear();
+    this.inFlight.clear();
+    try {
+      const keys = await AsyncStorage.getAllKeys();
+      await AsyncStorage.multiRemove(keys.filter(key => key.startsWith(STORAGE_PREFIX)));
+    } catch (error) {
+      console.error('[ReferenceCache] Failed to clear entries:', error);
+    }
+  }
+
+  /**
+   * Ties the cache to a user and their access. When the scope differs from the
+   * one the cache was filled under (another user, new roles or permissions),
+   * the cache is cleared first.
+   */
+  async setScope(scope: string): Promise<void> {
+    try {
+      const current = await AsyncStorage.getItem(SCOPE_STORAGE_KEY);
+      if (current === scope) return;
+      await this.clear();
+      await AsyncStorage.setItem(SCOPE_STORAGE_KEY, scope);
+    } catch (error) {
+      console.error('[ReferenceCache] Failed to update scope:', error);
+    }
+  }
+}
+
+export const referenceCache = ReferenceCache.getInstance();
@@ -0,0 +1,30 @@
+import i18n from '@/src/i18n';
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+/**
+ * Formats a timestamp relative to now ("5m ago", "3h ago"), falling back to
+ * the locale date once it is more than a week old
+ */
+export const formatRelativeTime = (value: string | Date, now: Date = new Date()): string => {
+  const date = value instanceof Date ? value : new Date(value);
+  if (isNaN(date.getTime())) return '';
+
+  const elapsed = now.getTime() - date.getTime();
+
+  if (elapsed < MINUTE) {
+    return i18n.t('time.justNow');
+  }
+  if (elapsed < HOUR) {
+    return i18n.t('time.minutesAgo', { count: Math.floor(elapsed / MINUTE) });
+  }
+  if (elapsed < DAY) {
+    return i18n.t('time.hoursAgo', { count: Math.floor(elapsed / HOUR) });
+  }
+  if (elapsed < 7 * DAY) {
+    return i18n.t('time.daysAgo', { count: Math.floor(elapsed / DAY) });
+  }
+  return date.toLocaleDateString();
+};
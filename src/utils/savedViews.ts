@@ -0,0 +1,197 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as Linking from 'expo-linking';
+import { RecordType } from '@/src/api/workflow';
+import { FilterValues, isFilterParam } from '@/src/utils/recordFilters';
+
+const SAVED_VIEWS_STORAGE_KEY = '@saved_views';
+
+// Path of the share link: automaxmobile://saved-view?type=...&name=...&filters=...
+export const SAVED_VIEW_LINK_PATH = 'saved-view';
+
+// Filters a view reopens the list with; see src/constants/recordFilters.ts for the params
+export type ViewFilters = FilterValues;
+
+export interface SavedView {
+  id: string;
+  recordType: RecordType;
+  name: string;
+  filters: ViewFilters;
+  // Shown as a chip above the record list
+  pinned: boolean;
+  // Applied when the list opens without filters; at most one per record type and owner
+  isDefault: boolean;
+  userId?: string;
+  // Server profile the view was saved on; its ids mean nothing on another server
+  serverId?: string;
+  createdAt: string;
+}
+
+// Who a view belongs to; views are only listed for the user and server that saved them
+export interface ViewOwner {
+  userId?: string;
+  serverId?: string;
+}
+
+export interface SharedView {
+  recordType: RecordType;
+  name: string;
+  filters: ViewFilters;
+}
+
+type SavedViewsListener = (views: SavedView[]) => void;
+
+const RECORD_TYPES: RecordType[] = ['incident', 'request', 'complaint', 'query'];
+
+const isOwnedBy = (view: SavedView, owner: ViewOwner) =>
+  view.userId === owner.userId && view.serverId === owner.serverId;
+
+// Keeps the known filter params that carry a value, whatever shape the route params came in
+export const toViewFilters = (params: Record<string, unknown>): ViewFilters => {
+  const filters: ViewFilters = {};
+  Object.keys(params).filter(isFilterParam).forEach(key => {
+    const raw = params[key];
+    const value = Array.isArray(raw) ? raw[0] : raw;
+    if (value !== undefined && value !== null && value !== '') {
+      filters[key] = String(value);
+    }
+  });
+  return filters;
+};
+
+export const sameFilters = (a: ViewFilters, b: ViewFilters): boolean => {
+  const keysA = Object.keys(a) as (keyof ViewFilters)[];
+  return keysA.length === Object.keys(b).length && keysA.every(key => a[key] === b[key]);
+};
+
+export const buildViewLink = (view: Pick<SavedView, 'recordType' | 'name' | 'filters'>): string =>
+  Linking.createURL(SAVED_VIEW_LINK_PATH, {
+    queryParams: { type: view.recordType, name: view.name, filters: JSON.stringify(view.filters) },
+  });
+
+// Reads the params of a share link; null when it isn't a usable view
+export const parseSharedView = (params: { type?: string; name?: string; filters?: string }): SharedView | null => {
+  const recordType = RECORD_TYPES.find(type => type === params.type);
+  if (!recordType || !params.filters) return null;
+
+  try {
+    const filters = toViewFilters(JSON.parse(params.filters));
+    if (Object.keys(filters).length === 0) return null;
+    return { recordType, name: params.name?.trim() || '', filters };
+  } catch {
+    return null;
+  }
+};
+
+class SavedViews {
+  private static instance: SavedViews;
+  private views: SavedView[] = [];
+  private listeners = new Set<SavedViewsListener>();
+  private loadPromise: Promise<void> | null = null;
+
+  private constructor() {}
+
+  static getInstance(): SavedViews {
+    if (!SavedViews.instance) {
+      SavedViews.instance = new SavedViews();
+    }
+    return SavedViews.instance;
+  }
+
+  private load(): Promise<void> {
+    if (!this.loadPromise) {
+      this.loadPromise = (async () => {
+        try {
+          const stored = await AsyncStorage.getItem(SAVED_VIEWS_STORAGE_KEY);
+          this.views = stored ? JSON.parse(stored) : [];
+        } catch (error) {
+          console.error('[SavedViews] Failed to load views:', error);
+          this.views = [];
+        }
+      })();
+    }
+    return this.loadPromise;
+  }
+
+  private async persist() {
+    try {
+      await AsyncStorage.setItem(SAVED_VIEWS_STORAGE_KEY, JSON.stringify(this.views));
+    } catch (error) {
+      console.error('[SavedViews] Failed to save views:', error);
+    }
+    this.notify();
+  }
+
+  private notify() {
+    const snapshot = [...this.views];
+    this.listeners.forEach(listener => listener(snapshot));
+  }
+
+  subscribe(listener: SavedViewsListener): () => void {
+    this.listeners.add(listener);
+    this.load().then(() => listener([...this.views]));
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // Saves the filters under a name, replacing the owner's view of the same name for that record type
+  async save(
+    owner: ViewOwner,
+    draft: { recordType: RecordType; name: string; filters: ViewFilters; pinned?: boolean }
+  ): Promise<SavedView> {
+    await this.load();
+    const name = draft.name.trim();
+    const existing = this.views.find(view =>
+      isOwnedBy(view, owner) &&
+      view.recordType === draft.recordType &&
+      view.name.toLowerCase() === name.toLowerCase()
+    );
+
+    const view: SavedView = {
+      id: existing?.id ?? `view_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+      recordType: draft.recordType,
+      name,
+      filters: toViewFilters(draft.filters),
+      pinned: draft.pinned ?? existing?.pinned ?? true,
+      isDefault: existing?.isDefault ?? false,
+      userId: owner.userId,
+      serverId: owner.serverId,
+      createdAt: existing?.createdAt ?? new Date().toISOString(),
+    };
+
+    this.views = existing
+      ? this.views.map(v => (v.id === existing.id ? view : v))
+      : [...this.views, view];
+    await this.persist();
+    return view;
+  }
+
+  async setPinned(id: string, pinned: boolean): Promise<void> {
+    await this.load();
+    this.views = this.views.map(view => (view.id === id ? { ...view, pinned } : view));
+    await this.persist();
+  }
+
+  // Makes the view its record type's default, or clears the default when it already was
+  async toggleDefault(id: string): Promise<void> {
+    await this.load();
+    const target = this.views.find(view => view.id === id);
+    if (!target) return;
+
+    const makeDefault = !target.isDefault;
+    this.views = this.views.map(view => {
+      if (view.id === id) return { ...view, isDefault: makeDefault };
+      const sameScope = view.recordType === target.recordType && isOwnedBy(view, target);
+      return sameScope && makeDefault ? { ...view, isDefault: false } : view;
+    });
+    await this.persist();
+  }
+
+  async remove(id: string): Promise<void> {
+    await this.load();
+    this.views = this.views.filter(view => view.id !== id);
+    await this.persist();
+  }
+}
+
+export const savedViews = SavedViews.getInstance();
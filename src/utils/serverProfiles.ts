@@ -0,0 +1,212 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as Linking from 'expo-linking';
+import { DEFAULT_BASE_URL, setBaseURL } from '@/src/api/client';
+
+const PROFILES_STORAGE_KEY = '@server_profiles';
+const ACTIVE_PROFILE_STORAGE_KEY = '@active_server_profile';
+
+// Path of the provisioning deep link: automaxmobile://server-profile?name=...&url=...
+export const PROVISIONING_PATH = 'server-profile';
+
+export interface ServerProfile {
+  id: string;
+  name: string;
+  url: string;
+  // Shipped with the build rather than added on this device
+  builtIn?: boolean;
+}
+
+export interface ServerProfileDraft {
+  name: string;
+  url: string;
+}
+
+type ProfilesListener = (profiles: ServerProfile[], active: ServerProfile) => void;
+
+const normalizeUrl = (url: string) => url.trim().replace(/\/+$/, '');
+
+export const isValidServerUrl = (url: string) => /^https?:\/\/[^\s/]+/i.test(url);
+
+const profileId = (url: string) => normalizeUrl(url).toLowerCase();
+
+/**
+ * Profiles shipped with the build. EXPO_PUBLIC_SERVER_PROFILES may hold a JSON
+ * array of { name, url } (dev, staging, tenants); without it the build only
+ * knows its default server.
+ */
+const loadBuiltInProfiles = (): ServerProfile[] => {
+  const defaults: ServerProfile[] = [{ id: profileId(DEFAULT_BASE_URL), name: 'Default', url: DEFAULT_BASE_URL, builtIn: true }];
+  const raw = process.env.EXPO_PUBLIC_SERVER_PROFILES;
+  if (!raw) return defaults;
+
+  try {
+    const parsed: ServerProfileDraft[] = JSON.parse(raw);
+    const profiles = parsed
+      .filter(profile => profile?.name && isValidServerUrl(profile?.url))
+      .map(profile => ({
+        id: profileId(profile.url),
+        name: profile.name,
+        url: normalizeUrl(profile.url),
+        builtIn: true,
+      }));
+    return profiles.length > 0 ? profiles : defaults;
+  } catch (error) {
+    console.error('[ServerProfiles] Invalid EXPO_PUBLIC_SERVER_PROFILES:', error);
+    return defaults;
+  }
+};
+
+/**
+ * Reads a server profile out of a provisioning deep link or QR code. Accepts
+ * the deep link itself, a JSON object with name and url, or a bare API URL.
+ */
+export const parseProvisioningData = (data: string): ServerProfileDraft | null => {
+  const text = data.trim();
+
+  if (text.startsWith('{')) {
+    try {
+      const parsed = JSON.parse(text);
+      if (typeof parsed.url === 'string' && isValidServerUrl(parsed.url)) {
+        return { name: String(parsed.name || parsed.url), url: normalizeUrl(parsed.url) };
+      }
+    } catch {
+      return null;
+    }
+    return null;
+  }
+
+  const { hostname, path, queryParams } = Linking.parse(text);
+  const linkPath = [hostname, path].filter(Boolean).join('/');
+  if (linkPath === PROVISIONING_PATH || linkPath.endsWith(`/${PROVISIONING_PATH}`)) {
+    const url = typeof queryParams?.url === 'string' ? queryParams.url : '';
+    if (!isValidServerUrl(url)) return null;
+    const name = typeof queryParams?.name === 'string' && queryParams.name ? queryParams.name : url;
+    return { name, url: normalizeUrl(url) };
+  }
+
+  return isValidServerUrl(text) ? { name: text, url: normalizeUrl(text) } : null;
+};
+
+class ServerProfiles {
+  private static instance: ServerProfiles;
+  private builtIn = loadBuiltInProfiles();
+  private custom: ServerProfile[] = [];
+  private activeId: string = this.builtIn[0].id;
+  private listeners = new Set<ProfilesListener>();
+  private loadPromise: Promise<void> | null = null;
+
+  private constructor() {}
+
+  static getInstance(): ServerProfiles {
+    if (!ServerProfiles.instance) {
+      ServerProfiles.instance = new ServerProfiles();
+    }
+    return ServerProfiles.instance;
+  }
+
+  // Restores the saved profile and points the API client at it; must finish before the first request
+  initialize(): Promise<void> {
+    if (!this.loadPromise) {
+      this.loadPromise = (async () => {
+        try {
+          const [storedProfiles, storedActive] = await Promise.all([
+            AsyncStorage.getItem(PROFILES_STORAGE_KEY),
+            AsyncStorage.getItem(ACTIVE_PROFILE_STORAGE_KEY),
+          ]);
+          this.custom = storedProfiles ? JSON.parse(storedProfiles) : [];
+          if (storedActive && this.findProfile(storedActive)) {
+            this.activeId = storedActive;
+          }
+        } catch (error) {
+          console.error('[ServerProfiles] Failed to load profiles:', error);
+        }
+        setBaseURL(this.getActiveProfile().url);
+        this.notify();
+      })();
+    }
+    return this.loadPromise;
+  }
+
+  getProfiles(): ServerProfile[] {
+    const builtInIds = new Set(this.builtIn.map(profile => profile.id));
+    return [...this.builtIn, ...this.custom.filter(profile => !builtInIds.has(profile.id))];
+  }
+
+  getActiveProfile(): ServerProfile {
+    return this.findProfile(this.activeId) ?? this.builtIn[0];
+  }
+
+  findProfile(id: string): ServerProfile | undefined {
+    return this.getProfiles().find(profile => profile.id === id);
+  }
+
+  subscribe(listener: ProfilesListener): () => void {
+    this.listeners.add(listener);
+    this.initialize().then(() => listener(this.getProfiles(), this.getActiveProfile()));
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // Saves a provisioned profile, or renames the existing one for the same URL
+  async addProfile(draft: ServerProfileDraft): Promise<ServerProfile> {
+    await this.initialize();
+    const url = normalizeUrl(draft.url);
+    if (!isValidServerUrl(url)) {
+      throw new Error(`Invalid server URL: ${draft.url}`);
+    }
+
+    const id = profileId(url);
+    const existing = this.findProfile(id);
+    if (existing?.builtIn) {
+      return existing;
+    }
+
+    const profile: ServerProfile = { id, name: draft.name.trim() || url, url };
+    this.custom = [...this.custom.filter(p => p.id !== id), profile];
+    await this.persist();
+    return profile;
+  }
+
+  async removeProfile(id: string): Promise<void> {
+    await this.initialize();
+    if (id === this.activeId) return;
+    this.custom = this.custom.filter(profile => profile.id !== id);
+    await this.persist();
+  }
+
+  /**
+   * Points the app at another server. Only switches the URL: tokens and data
+   * tied to the previous server are cleared by AuthContext.switchServer.
+   */
+  async activate(id: string): Promise<ServerProfile> {
+    await this.initialize();
+    const profile = this.findProfile(id);
+    if (!profile) {
+      throw new Error(`Unknown server profile: ${id}`);
+    }
+
+    this.activeId = id;
+    setBaseURL(profile.url);
+    await AsyncStorage.setItem(ACTIVE_PROFILE_STORAGE_KEY, id).catch(() => {});
+    this.notify();
+    return profile;
+  }
+
+  private async persist() {
+    try {
+      await AsyncStorage.setItem(PROFILES_STORAGE_KEY, JSON.stringify(this.custom));
+    } catch (error) {
+      console.error('[ServerProfiles] Failed to save profiles:', error);
+    }
+    this.notify();
+  }
+
+  private notify() {
+    const profiles = this.getProfiles();
+    const active = this.getActiveProfile();
+    this.listeners.forEach(listener => listener(profiles, active));
+  }
+}
+
+export const serverProfiles = ServerProfiles.getInstance();
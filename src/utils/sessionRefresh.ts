@@ -0,0 +1,104 @@
+import * as SecureStore from 'expo-secure-store';
+import * as Network from 'expo-network';
+import { AppState } from 'react-native';
+import { refreshAccessToken } from '@/src/api/client';
+import { getTokenExpiry, TOKEN_EXPIRY_MARGIN_MS } from '@/src/utils/jwt';
+
+// Wait before trying again after a refresh that couldn't reach the server
+const RETRY_DELAY_MS = 30 * 1000;
+// Timers don't run while the app is suspended, so long waits are split and re-checked
+const MAX_TIMER_MS = 5 * 60 * 1000;
+
+/**
+ * Keeps the access token fresh while signed in: refreshes it shortly before it
+ * expires and whenever the app returns to the foreground or gets its network
+ * back with a token that is about to run out. Ending the session is left to
+ * refreshAccessToken, which only does so when the refresh token is rejected.
+ */
+class SessionRefresh {
+  private static instance: SessionRefresh;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private isChecking = false;
+  private isRunning = false;
+
+  private constructor() {}
+
+  static getInstance(): SessionRefresh {
+    if (!SessionRefresh.instance) {
+      SessionRefresh.instance = new SessionRefresh();
+    }
+    return SessionRefresh.instance;
+  }
+
+  private schedule(delay: number) {
+    this.cancel();
+    if (!this.isRunning) return;
+    this.timer = setTimeout(() => this.check(), Math.min(delay, MAX_TIMER_MS));
+  }
+
+  private cancel() {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  // Refreshes when the stored token is close to expiring, then plans the next check
+  private async check(): Promise<void> {
+    if (this.isChecking) return;
+    this.isChecking = true;
+    this.cancel();
+
+    try {
+      const token = await SecureStore.getItemAsync('authToken');
+      const expiry = token ? getTokenExpiry(token) : null;
+      // Signed out, or an opaque token the 401 handler has to deal with
+      if (expiry === null) return;
+
+      const untilRefresh = expiry - Date.now() - TOKEN_EXPIRY_MARGIN_MS;
+      if (untilRefresh > 0) {
+        this.schedule(untilRefresh);
+        return;
+      }
+
+      const outcome = await refreshAccessToken();
+      if (outcome === 'refreshed') {
+        // Plan the next refresh from the new token's expiry
+        this.schedule(0);
+      } else if (outcome === 'unavailable') {
+        this.schedule(RETRY_DELAY_MS);
+      }
+    } catch (error) {
+      console.error('[SessionRefresh] Failed to check token expiry:', error);
+      this.schedule(RETRY_DELAY_MS);
+    } finally {
+      this.isChecking = false;
+    }
+  }
+
+  start(): () => void {
+    this.isRunning = true;
+    const networkSubscription = Network.addNetworkStateListener(state => {
+      if (state.isConnected && state.isInternetReachable !== false) {
+        this.check();
+      }
+    });
+
+    const appStateSubscription = AppState.addEventListener('change', nextState => {
+      if (nextState === 'active') {
+        this.check();
+      }
+    });
+
+    this.check();
+
+    return () => {
+      this.isRunning = false;
+      this.cancel();
+      networkSubscription.remove();
+      appStateSubscription.remove();
+    };
+  }
+}
+
+export const sessionRefresh = SessionRefresh.getInstance();
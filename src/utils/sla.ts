@@ -0,0 +1,100 @@
+import { Incident } from '@/src/api/models';
+import i18n from '@/src/i18n';
+
+export type SlaStatus = 'on_track' | 'at_risk' | 'breached';
+
+export const SLA_STATUS_CONFIG: Record<SlaStatus, { key: string; color: string; icon: string }> = {
+  on_track: { key: 'onTrack', color: '#22C55E', icon: 'time-outline' },
+  at_risk: { key: 'atRisk', color: '#F59E0B', icon: 'alarm-outline' },
+  breached: { key: 'breached', color: '#DC2626', icon: 'alert-circle-outline' },
+};
+
+// A record counts as at risk once less than this share of its target is left
+const AT_RISK_REMAINING_RATIO = 0.25;
+
+const SEVERITY: SlaStatus[] = ['on_track', 'at_risk', 'breached'];
+
+export interface SlaInfo {
+  status: SlaStatus;
+  deadline: Date;
+  startedAt?: Date;
+  targetSeconds?: number;
+  elapsedSeconds?: number;
+  pausedSeconds: number;
+  isPaused: boolean;
+  // Negative once the deadline has passed
+  remainingSeconds: number;
+}
+
+const toTime = (value?: string): number | null => {
+  if (!value) return null;
+  const time = new Date(value).getTime();
+  return isNaN(time) ? null : time;
+};
+
+const isSlaStatus = (value?: string): value is SlaStatus =>
+  !!value && value in SLA_STATUS_CONFIG;
+
+/**
+ * Works out where a record stands against its SLA at `now`. The server's
+ * sla_status is kept unless the clock has since moved it further along, so a
+ * card left open keeps counting down past the deadline. Returns null for
+ * records without a deadline and for closed records.
+ */
+export const getSlaInfo = (record: Incident, now: number = Date.now()): SlaInfo | null => {
+  const deadline = toTime(record.sla_deadline) ?? toTime(record.due_date);
+  if (deadline === null || record.current_state?.state_type === 'terminal') {
+    return null;
+  }
+
+  const pausedAt = toTime(record.sla_paused_at);
+  const isPaused = pausedAt !== null;
+  // While paused the clock is frozen at the moment it stopped
+  const clock = pausedAt ?? now;
+  const pausedSeconds = (record.sla_paused_seconds ?? 0) + (pausedAt !== null ? Math.max(0, (now - pausedAt) / 1000) : 0);
+  const remainingSeconds = Math.floor((deadline - clock) / 1000);
+
+  const startedAt = toTime(record.sla_started_at) ?? toTime(record.created_at);
+  const targetSeconds = record.sla_target_minutes !== undefined
+    ? record.sla_target_minutes * 60
+    : startedAt !== null
+      ? Math.max(0, (deadline - startedAt) / 1000 - (record.sla_paused_seconds ?? 0))
+      : undefined;
+  const elapsedSeconds = startedAt !== null
+    ? Math.max(0, Math.floor((now - startedAt) / 1000 - pausedSeconds))
+    : undefined;
+
+  let computed: SlaStatus = 'on_track';
+  if (remainingSeconds <= 0 || record.sla_breached) {
+    computed = 'breached';
+  } else if (targetSeconds && remainingSeconds <= targetSeconds * AT_RISK_REMAINING_RATIO) {
+    computed = 'at_risk';
+  }
+
+  const reported = isSlaStatus(record.sla_status) ? record.sla_status : 'on_track';
+  const status = SEVERITY.indexOf(reported) > SEVERITY.indexOf(computed) ? reported : computed;
+
+  return {
+    status,
+    deadline: new Date(deadline),
+    startedAt: startedAt !== null ? new Date(startedAt) : undefined,
+    targetSeconds,
+    elapsedSeconds,
+    pausedSeconds: Math.floor(pausedSeconds),
+    isPaused,
+    remainingSeconds,
+  };
+};
+
+// Compact duration such as "2d 4h", "3h 15m" or "12m"
+export const formatSlaDuration = (totalSeconds: number): string => {
+  const seconds = Math.abs(Math.floor(totalSeconds));
+  const days = Math.floor(seconds / 86400);
+  const hours = Math.floor((seconds % 86400) / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+
+  if (days > 0) return i18n.t('sla.duration.daysHours', { days, hours });
+  if (hours > 0) return i18n.t('sla.duration.hoursMinutes', { hours, minutes });
+  if (minutes > 0) return i18n.t('sla.duration.minutes', { minutes });
+  return i18n.t('sla.duration.lessThanMinute');
+};
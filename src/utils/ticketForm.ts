@@ -0,0 +1,261 @@
+import i18n from '@/src/i18n';
+import { getClassificationsTree } from '@/src/api/classifications';
+import { getDepartments } from '@/src/api/departments';
+import { getLocationsTree } from '@/src/api/locations';
+import { getLookupCategories } from '@/src/api/lookups';
+import { LookupCategory, Workflow } from '@/src/api/models';
+import { getUsers } from '@/src/api/users';
+import { getWorkflows } from '@/src/api/workflow';
+import { LocationData } from '@/src/components/LocationPickerOSM';
+import { TreeNode } from '@/src/components/TreeSelect';
+import {
+  FIELD_ALIASES,
+  FormOption,
+  TICKET_FORMS,
+  TicketField,
+  TicketFormSchema,
+  TicketScope,
+} from '@/src/constants/ticketForms';
+
+export interface FormAttachment {
+  uri: string;
+  name: string;
+  type: string;
+  size?: number;
+  isVoice?: boolean;
+  duration?: number;
+}
+
+export interface TicketFormValues {
+  title: string;
+  channel: FormOption | null;
+  source_incident_id: FormOption | null;
+  classification_id: FormOption | null;
+  location_id: FormOption | null;
+  source: FormOption | null;
+  priority: FormOption | null;
+  severity: FormOption | null;
+  assignee_id: FormOption | null;
+  department_id: FormOption | null;
+  description: string;
+  reporter_name: string;
+  reporter_email: string;
+  geolocation: LocationData | undefined;
+  attachments: FormAttachment[];
+}
+
+// Lookup answers keyed by category id; multiselect categories hold an array of value ids
+export type LookupAnswers = Record<string, any>;
+
+const OPTION_FIELDS = [
+  'channel',
+  'source_incident_id',
+  'classification_id',
+  'location_id',
+  'source',
+  'assignee_id',
+  'department_id',
+] as const;
+
+const TEXT_FIELDS = ['description', 'reporter_name', 'reporter_email'] as const;
+
+export const lookupFieldKey = (category: LookupCategory) => `lookup:${category.code}`;
+
+const isBlank = (value: unknown): boolean => {
+  if (value === null || value === undefined) return true;
+  if (typeof value === 'string') return !value.trim();
+  if (Array.isArray(value)) return value.length === 0;
+  return false;
+};
+
+// Everything the form has to validate: the schema's required fields plus the workflow's list
+export const getRequiredFields = (schema: TicketFormSchema, workflow: Workflow | null): Set<string> => {
+  const required = new Set<string>();
+  for (const [field, mode] of Object.entries(schema.fields)) {
+    if (mode === 'required') required.add(field);
+  }
+  for (const field of workflow?.required_fields || []) {
+    required.add(FIELD_ALIASES[field] || field);
+  }
+  return required;
+};
+
+export const isFieldShown = (schema: TicketFormSchema, field: TicketField, required: Set<string>): boolean => {
+  const mode = schema.fields[field];
+  if (!mode) return false;
+  return mode !== 'workflow' || required.has(field);
+};
+
+export const getFieldLabel = (field: TicketField) => i18n.t(`ticketForm.fields.${field}`);
+
+export const validateTicketForm = (
+  schema: TicketFormSchema,
+  workflow: Workflow | null,
+  values: TicketFormValues,
+  lookupCategories: LookupCategory[],
+  lookupAnswers: LookupAnswers
+): Record<string, string> => {
+  const errors: Record<string, string> = {};
+  const required = getRequiredFields(schema, workflow);
+
+  if (!workflow) {
+    errors.workflow = i18n.t('ticketForm.errors.noWorkflow');
+  }
+
+  for (const field of required) {
+    if (field.startsWith('lookup:')) {
+      const category = lookupCategories.find(c => lookupFieldKey(c) === field);
+      if (category && isBlank(lookupAnswers[category.id])) {
+        errors[field] = i18n.t('ticketForm.errors.required', { field: category.name });
+      }
+      continue;
+    }
+
+    const key = field as TicketField;
+    // Workflows can require fields this record type doesn't collect; the server decides on those
+    if (!schema.fields[key] || !isBlank(values[key])) continue;
+
+    errors[key] = key === 'attachments'
+      ? i18n.t('ticketForm.errors.attachmentsRequired')
+      : i18n.t('ticketForm.errors.required', { field: getFieldLabel(key) });
+  }
+
+  return errors;
+};
+
+export const buildAutoTitle = (values: TicketFormValues): string => {
+  const parts: string[] = [];
+  if (values.classification_id?.name) parts.push(values.classification_id.name);
+  if (values.location_id?.name) parts.push(values.location_id.name);
+  const area = values.geolocation?.address || values.geolocation?.city;
+  if (area) parts.push(area);
+  return parts.join(' - ');
+};
+
+// Coordinates plus whichever address parts the picker resolved
+export const buildGeolocationPayload = (location: LocationData): Record<string, any> => {
+  const payload: Record<string, any> = { latitude: location.latitude, longitude: location.longitude };
+  if (location.address) payload.address = location.address;
+  if (location.city) payload.city = location.city;
+  if (location.state) payload.state = location.state;
+  if (location.country) payload.country = location.country;
+  if (location.postal_code) payload.postal_code = location.postal_code;
+  return payload;
+};
+
+// Select answers are lookup value ids; free-form answers travel with their field metadata
+export const buildLookupPayload = (
+  lookupCategories: LookupCategory[],
+  lookupAnswers: LookupAnswers
+): Record<string, any> => {
+  const lookupValueIds: string[] = [];
+  const customLookupFields: Record<string, any> = {};
+  for (const [categoryId, value] of Object.entries(lookupAnswers)) {
+    const category = lookupCategories.find(c => c.id === categoryId);
+    if (!category || isBlank(value)) continue;
+
+    const fieldType = category.field_type || 'select';
+    if (fieldType === 'select' || fieldType === 'multiselect') {
+      lookupValueIds.push(...(Array.isArray(value) ? value.filter(Boolean) : [value]));
+    } else {
+      customLookupFields[lookupFieldKey(category)] = {
+        value,
+        field_type: fieldType,
+        category_id: categoryId,
+      };
+    }
+  }
+  const payload: Record<string, any> = {};
+  if (lookupValueIds.length > 0) payload.lookup_value_ids = lookupValueIds;
+  if (Object.keys(customLookupFields).length > 0) payload.custom_lookup_fields = customLookupFields;
+  return payload;
+};
+
+// Request body for createRecord; only fields the form shows are sent
+export const buildTicketPayload = (
+  schema: TicketFormSchema,
+  workflow: Workflow,
+  values: TicketFormValues,
+  lookupCategories: LookupCategory[],
+  lookupAnswers: LookupAnswers
+): Record<string, any> => {
+  const required = getRequiredFields(schema, workflow);
+  const shown = (field: TicketField) => isFieldShown(schema, field, required);
+
+  const payload: Record<string, any> = {
+    title: values.title.trim(),
+    workflow_id: workflow.id,
+  };
+
+  for (const field of OPTION_FIELDS) {
+    const option = values[field];
+    if (shown(field) && option) payload[field] = option.id;
+  }
+  for (const field of TEXT_FIELDS) {
+    const text = values[field].trim();
+    if (shown(field) && text) payload[field] = text;
+  }
+  if (shown('priority') && values.priority) payload.priority = parseInt(values.priority.id, 10);
+  if (shown('severity') && values.severity) payload.severity = parseInt(values.severity.id, 10);
+
+  if (shown('geolocation') && values.geolocation) {
+    Object.assign(payload, buildGeolocationPayload(values.geolocation));
+  }
+
+  Object.assign(payload, buildLookupPayload(lookupCategories, lookupAnswers));
+
+  return payload;
+};
+
+// Stringifies ids and drops nodes typed for other record types; untyped (legacy) nodes are kept
+export const normalizeTree = (nodes: TreeNode[], scopes: TicketScope[]): TreeNode[] => {
+  const allowed = new Set<string>([...scopes, 'all']);
+  return nodes
+    .filter(node => !node.type || allowed.has(node.type))
+    .map(node => {
+      const children = node.children ? normalizeTree(node.children, scopes) : [];
+      return {
+        id: String(node.id),
+        name: node.name,
+        parent_id: node.parent_id ? String(node.parent_id) : null,
+        ...(children.length > 0 ? { children } : {}),
+      };
+    });
+};
+
+// Keeps branches that contain at least one node the user is assigned to
+export const filterTreeByAccess = (nodes: TreeNode[], allowedIds: Set<string>): TreeNode[] => {
+  return nodes.flatMap(node => {
+    const children = node.children ? filterTreeByAccess(node.children, allowedIds) : [];
+    if (!allowedIds.has(node.id) && children.length === 0) return [];
+    return [{
+      id: node.id,
+      name: node.name,
+      parent_id: node.parent_id,
+      ...(children.length > 0 ? { children } : {}),
+    }];
+  });
+};
+
+// Merges results from several scoped requests, keeping the first copy of each node
+export const mergeById = <T extends { id: string }>(lists: T[][]): T[] => {
+  const seen = new Set<string>();
+  return lists.flat().filter(item => {
+    if (seen.has(item.id)) return false;
+    seen.add(item.id);
+    return true;
+  });
+};
+
+// Fills the reference cache with everything the ticket forms load, so they open instantly and offline
+export const prefetchTicketFormData = async (): Promise<void> => {
+  const scopes = [...new Set(Object.values(TICKET_FORMS).flatMap(form => form.scopes))];
+  await Promise.all([
+    ...scopes.map(scope => getClassificationsTree(scope)),
+    ...scopes.map(scope => getWorkflows(true, scope)),
+    getLocationsTree(),
+    getUsers(),
+    getDepartments(),
+    getLookupCategories(),
+  ]);
+};
@@ -0,0 +1,26 @@
+import { AvailableTransition, WorkflowState } from '@/src/api/models';
+
+// The entry's own requirements, falling back to the ones defined on the transition
+export const requirementsOf = (available: AvailableTransition) =>
+  available.requirements ?? available.transition.requirements ?? [];
+
+/**
+ * Whether a transition needs input before it can run: a mandatory comment,
+ * attachment or feedback, field changes, or a hand-picked assignee. Those go
+ * through the update-status form; the rest can run as they are.
+ */
+export const needsTransitionForm = (available: AvailableTransition): boolean =>
+  !!available.transition.manual_select_user ||
+  requirementsOf(available).some(req => req.is_mandatory) ||
+  (available.transition.field_changes?.length ?? 0) > 0;
+
+// States from different sources match by id when both have one, otherwise by name
+export const isSameState = (a?: WorkflowState, b?: WorkflowState): boolean => {
+  if (!a || !b) return false;
+  if (a.id && b.id) return a.id === b.id;
+  return a.name === b.name;
+};
+
+// Transitions of a record that end in the given state
+export const transitionsTo = (available: AvailableTransition[], state: WorkflowState): AvailableTransition[] =>
+  available.filter(entry => isSameState(entry.transition.to_state, state));